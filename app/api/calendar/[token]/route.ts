@@ -0,0 +1,90 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import * as debt from "@/lib/debt";
+import { toIcs, type IcsEvent } from "@/lib/ics";
+
+const TOKEN_PATTERN = /^[0-9a-f]{32,}$/;
+
+function money(amount: number, currency: string | null | undefined) {
+  return `${debt.normalizeCurrency(currency)} ${amount.toFixed(2)}`;
+}
+
+// Every statement due date as an all-day event, for subscribing from a
+// calendar app: /api/calendar/<token>.ics. The token (Settings → Calendar
+// feed) is the only credential, so an unknown one is a plain 404.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const secret = token.replace(/\.ics$/i, "");
+  if (!TOKEN_PATTERN.test(secret)) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const supabase = createAdminClient();
+
+  const { data: feed, error: feedError } = await supabase
+    .from("calendar_feeds")
+    .select("user_id, reminder_days, reminder_hour")
+    .eq("token", secret)
+    .maybeSingle();
+  if (feedError) return NextResponse.json({ error: feedError.message }, { status: 500 });
+  if (!feed) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const [cardsRes, statementsRes, totalsRes] = await Promise.all([
+    supabase.from("cards").select("id, name, bank").eq("user_id", feed.user_id).is("deleted_at", null),
+    supabase
+      .from("statements")
+      .select("*")
+      .eq("user_id", feed.user_id)
+      .is("deleted_at", null)
+      .not("due_date", "is", null)
+      .order("due_date"),
+    supabase.from("statement_paid_totals").select("*").eq("user_id", feed.user_id),
+  ]);
+
+  if (cardsRes.error) return NextResponse.json({ error: cardsRes.error.message }, { status: 500 });
+  if (statementsRes.error) return NextResponse.json({ error: statementsRes.error.message }, { status: 500 });
+  if (totalsRes.error) return NextResponse.json({ error: totalsRes.error.message }, { status: 500 });
+
+  const cards = new Map((cardsRes.data ?? []).map((c) => [c.id, c]));
+  const paid = debt.paidFromTotals(totalsRes.data ?? []);
+  const reminderDays = [...new Set(feed.reminder_days)].sort((a, b) => b - a);
+
+  const events: IcsEvent[] = [];
+  for (const s of statementsRes.data ?? []) {
+    const card = cards.get(s.card_id);
+    if (!card || !s.due_date) continue;
+
+    const pending = debt.statementPending(s, paid);
+    const open = pending > 0.005;
+    const cardName = card.bank ? `${card.name} (${card.bank})` : card.name;
+
+    const description = [
+      `Card: ${cardName}`,
+      `Statement: ${s.statement_month.slice(0, 7)}`,
+      `Statement amount: ${money(debt.toAmount(s.statement_amount), s.currency)}`,
+      s.minimum_due != null ? `Minimum due: ${money(debt.toAmount(s.minimum_due), s.currency)}` : null,
+      `Pending: ${open ? money(pending, s.currency) : "nothing, paid"}`,
+    ].filter((line): line is string => line !== null);
+
+    events.push({
+      uid: `statement-${s.id}@debt-tracker`,
+      date: s.due_date,
+      summary: open ? `${card.name} due: ${money(pending, s.currency)}` : `${card.name} due (paid)`,
+      description: description.join("\n"),
+      stamp: s.updated_at,
+      // a paid statement needs no reminder
+      alarms: open
+        ? reminderDays.map((days) => ({
+            offsetMinutes: -days * 1440 + feed.reminder_hour * 60,
+            description: `${card.name}: ${money(pending, s.currency)} due ${s.due_date}`,
+          }))
+        : [],
+    });
+  }
+
+  return new NextResponse(toIcs("Card due dates", events), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="due-dates.ics"',
+      "Cache-Control": "private, max-age=900",
+    },
+  });
+}
@@ -0,0 +1,158 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { rejectUnlessCron } from "@/lib/cron/auth";
+import * as debt from "@/lib/debt";
+import { mailTransportFromEnv, reminderDigest, type DigestItem, type MailTransport } from "@/lib/mail";
+import { pushSenderFromEnv, pushToUser, reminderPush, type PushSender } from "@/lib/push";
+
+const PROFILE_PAGE = 500;
+// the largest reminder offset the profile check constraint allows
+const MAX_OFFSET_DAYS = 30;
+
+// Sends each user who has reminders on a digest of statements that are due
+// within one of their reminder offsets or past due, with something still
+// pending: by email, as a push notification to their devices, or both. What
+// was sent is recorded in reminder_deliveries, so the job is safe to re-run;
+// a user nothing could be delivered to is retried on the next run.
+export async function GET(request: NextRequest) {
+  const denied = rejectUnlessCron(request);
+  if (denied) return denied;
+
+  const today = request.nextUrl.searchParams.get("date") ?? debt.isoToday();
+  const windowEnd = debt.addDays(today, MAX_OFFSET_DAYS);
+  if (!windowEnd) return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+
+  const channels: Channels = { mail: mailTransportFromEnv(), push: pushSenderFromEnv() };
+  if (!channels.mail && !channels.push) {
+    return NextResponse.json({ error: "Neither SMTP_URL nor the VAPID keys are configured" }, { status: 500 });
+  }
+
+  const supabase = createAdminClient();
+  const appUrl = request.nextUrl.origin;
+  let users = 0;
+  let emails = 0;
+  let pushes = 0;
+  const failed: string[] = [];
+
+  for (let from = 0; ; from += PROFILE_PAGE) {
+    const { data: profiles, error } = await supabase
+      .from("profiles")
+      .select("user_id, email_reminders, push_reminders, reminder_days, overdue_reminders")
+      .or("email_reminders.eq.true,push_reminders.eq.true")
+      .order("user_id")
+      .range(from, from + PROFILE_PAGE - 1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    for (const p of profiles ?? []) {
+      users++;
+      try {
+        const sent = await remindUser(supabase, channels, p, today, windowEnd, appUrl);
+        if (sent.email) emails++;
+        pushes += sent.devices;
+      } catch (e) {
+        failed.push(`${p.user_id}: ${(e as Error).message}`);
+      }
+    }
+
+    if ((profiles ?? []).length < PROFILE_PAGE) break;
+  }
+
+  return NextResponse.json({
+    date: today,
+    transport: channels.mail?.name ?? null,
+    push: channels.push !== null,
+    users,
+    emails,
+    pushes,
+    failed,
+  });
+}
+
+type Admin = ReturnType<typeof createAdminClient>;
+type Channels = { mail: MailTransport | null; push: PushSender | null };
+type Profile = {
+  user_id: string;
+  email_reminders: boolean;
+  push_reminders: boolean;
+  reminder_days: number[];
+  overdue_reminders: boolean;
+};
+
+/** Sends the user's digest if anything is due, on every channel they have on. */
+async function remindUser(
+  supabase: Admin,
+  channels: Channels,
+  profile: Profile,
+  today: string,
+  windowEnd: string,
+  appUrl: string,
+): Promise<{ email: boolean; devices: number }> {
+  const nothing = { email: false, devices: 0 };
+
+  const [cardsRes, statementsRes, totalsRes] = await Promise.all([
+    supabase.from("cards").select("id, name").eq("user_id", profile.user_id).is("deleted_at", null),
+    supabase
+      .from("statements")
+      .select("*")
+      .eq("user_id", profile.user_id)
+      .is("deleted_at", null)
+      .not("due_date", "is", null)
+      .lte("due_date", windowEnd),
+    supabase.from("statement_paid_totals").select("*").eq("user_id", profile.user_id),
+  ]);
+  for (const res of [cardsRes, statementsRes, totalsRes]) {
+    if (res.error) throw new Error(res.error.message);
+  }
+
+  const cards = new Map((cardsRes.data ?? []).map((c) => [c.id, c.name]));
+  const due = debt.dueReminders(
+    (statementsRes.data ?? []).filter((s) => cards.has(s.card_id)),
+    debt.paidFromTotals(totalsRes.data ?? []),
+    today,
+    { days: profile.reminder_days, overdue: profile.overdue_reminders },
+  );
+  if (due.length === 0) return nothing;
+
+  const { data: delivered, error: deliveredError } = await supabase
+    .from("reminder_deliveries")
+    .select("statement_id, reason")
+    .in("statement_id", due.map((r) => r.statement.id));
+  if (deliveredError) throw new Error(deliveredError.message);
+
+  const alreadySent = new Set((delivered ?? []).map((d) => `${d.statement_id}|${d.reason}`));
+  const reminders = due.filter((r) => !alreadySent.has(`${r.statement.id}|${r.reason}`));
+  if (reminders.length === 0) return nothing;
+
+  const items: DigestItem[] = reminders.map((r) => ({
+    cardName: cards.get(r.statement.card_id) ?? "Card",
+    statementMonth: r.statement.statement_month,
+    dueDate: r.statement.due_date!,
+    daysUntilDue: r.daysUntilDue,
+    pending: r.pending,
+    currency: debt.normalizeCurrency(r.statement.currency),
+  }));
+
+  let email = false;
+  if (profile.email_reminders && channels.mail) {
+    const { data: userRes, error: userError } = await supabase.auth.admin.getUserById(profile.user_id);
+    if (userError) throw new Error(userError.message);
+    if (userRes.user?.email) {
+      await channels.mail.send({ to: userRes.user.email, ...reminderDigest(items, appUrl) });
+      email = true;
+    }
+  }
+
+  const devices =
+    profile.push_reminders && channels.push
+      ? await pushToUser(supabase, channels.push, profile.user_id, reminderPush(items))
+      : 0;
+
+  if (!email && devices === 0) return nothing;
+
+  const { error } = await supabase.from("reminder_deliveries").upsert(
+    reminders.map((r) => ({ user_id: profile.user_id, statement_id: r.statement.id, reason: r.reason })),
+    { onConflict: "statement_id,reason", ignoreDuplicates: true },
+  );
+  if (error) throw new Error(`sent, but recording it failed: ${error.message}`);
+  return { email, devices };
+}
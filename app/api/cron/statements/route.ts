@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { rejectUnlessCron } from "@/lib/cron/auth";
+import { firstDayOfMonth, isoToday, placeholderStatements } from "@/lib/debt";
+
+// Creates this month's placeholder statement for every card that has a
+// billing cycle. Existing statements (same user, card and month) are left
+// untouched, so the job is safe to run as often as you like.
+export async function GET(request: NextRequest) {
+  const denied = rejectUnlessCron(request);
+  if (denied) return denied;
+
+  const month = request.nextUrl.searchParams.get("month") ?? firstDayOfMonth(isoToday());
+  if (!month || !firstDayOfMonth(month)) {
+    return NextResponse.json({ error: "month must be YYYY-MM-DD" }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+
+  const [cardsRes, holidaysRes] = await Promise.all([
+    supabase
+      .from("cards")
+      .select("id, user_id, currency, statement_day, grace_days, due_date_adjustment")
+      .not("statement_day", "is", null)
+      .is("deleted_at", null),
+    supabase.from("bank_holidays").select("holiday_date"),
+  ]);
+
+  if (cardsRes.error) return NextResponse.json({ error: cardsRes.error.message }, { status: 500 });
+  if (holidaysRes.error) return NextResponse.json({ error: holidaysRes.error.message }, { status: 500 });
+
+  const cards = cardsRes.data ?? [];
+  const userByCard = new Map(cards.map((c) => [c.id, c.user_id]));
+  const holidays = new Set((holidaysRes.data ?? []).map((h) => h.holiday_date));
+
+  const rows = placeholderStatements(cards, month, { holidays }).map((r) => ({
+    ...r,
+    user_id: userByCard.get(r.card_id)!,
+  }));
+
+  if (rows.length === 0) return NextResponse.json({ month: firstDayOfMonth(month), cards: 0, created: 0 });
+
+  // same conflict key as saveStatement, but never overwrite what the user entered
+  const { data, error } = await supabase
+    .from("statements")
+    .upsert(rows, { onConflict: "user_id,card_id,statement_month", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ month: firstDayOfMonth(month), cards: cards.length, created: data?.length ?? 0 });
+}
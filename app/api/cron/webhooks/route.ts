@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { rejectUnlessCron } from "@/lib/cron/auth";
+import { isoToday, parseIsoDate } from "@/lib/debt";
+import { deliverDue } from "@/lib/webhooks/deliver";
+
+// leaves room for the batch in flight within a minute-long function
+const RUN_MS = 45_000;
+
+// Records statement.overdue events for statements that fell due in the last
+// week with something pending, then sends every webhook delivery that is
+// due: new events and retries. Deliveries are claimed before they're sent,
+// so overlapping runs don't send anything twice.
+export async function GET(request: NextRequest) {
+  const denied = rejectUnlessCron(request);
+  if (denied) return denied;
+
+  const today = request.nextUrl.searchParams.get("date") ?? isoToday();
+  if (parseIsoDate(today) === null) return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 });
+
+  const supabase = createAdminClient();
+  const { data: overdue, error } = await supabase.rpc("record_overdue_webhook_events", { p_today: today });
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  try {
+    const counts = await deliverDue(supabase, {
+      allowPrivate: Boolean(process.env.WEBHOOKS_ALLOW_PRIVATE_URLS),
+      deadline: Date.now() + RUN_MS,
+    });
+    return NextResponse.json({ date: today, overdue, ...counts });
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+  }
+}
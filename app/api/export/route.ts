@@ -0,0 +1,114 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  ARCHIVE_TABLES,
+  archiveCsv,
+  archiveFileName,
+  archiveHeader,
+  archiveRow,
+  isArchiveTable,
+  type ArchiveRow,
+  type ArchiveTable,
+} from "@/lib/backup";
+import { isoToday } from "@/lib/debt";
+
+const PAGE_SIZE = 1000;
+
+type Client = Awaited<ReturnType<typeof createClient>>;
+
+// Everything the signed-in user owns. ?format=json (the default) streams the
+// versioned archive that /api/restore reads back; ?format=csv&table=<name>
+// returns one table as CSV.
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const params = request.nextUrl.searchParams;
+  const format = params.get("format") ?? "json";
+  const today = isoToday();
+
+  if (format === "csv") {
+    const table = params.get("table") ?? "";
+    if (!isArchiveTable(table)) {
+      return NextResponse.json({ error: `table must be one of ${ARCHIVE_TABLES.join(", ")}` }, { status: 400 });
+    }
+
+    const rows: ArchiveRow[] = [];
+    try {
+      for await (const page of tablePages(supabase, user.id, table)) rows.push(...page);
+    } catch (e) {
+      return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+    }
+
+    return new NextResponse(archiveCsv(table, rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${archiveFileName(today, table)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  if (format !== "json") return NextResponse.json({ error: "format must be json or csv" }, { status: 400 });
+
+  // A failed page aborts the stream, so a broken download never parses as a
+  // complete archive.
+  const chunks = archiveChunks(supabase, user.id, new Date().toISOString());
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${archiveFileName(today)}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+async function* tablePages(supabase: Client, userId: string, table: ArchiveTable): AsyncGenerator<ArchiveRow[]> {
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Export ${table} error: ${error.message}`);
+
+    const rows = data ?? [];
+    yield rows.map((r) => archiveRow(table, r));
+    if (rows.length < PAGE_SIZE) return;
+  }
+}
+
+async function* archiveChunks(supabase: Client, userId: string, exportedAt: string): AsyncGenerator<string> {
+  const header = JSON.stringify(archiveHeader(exportedAt));
+  yield header.slice(0, -1) + ',"tables":{';
+
+  for (const [t, table] of ARCHIVE_TABLES.entries()) {
+    yield `${t > 0 ? "," : ""}${JSON.stringify(table)}:[`;
+    let first = true;
+    for await (const page of tablePages(supabase, userId, table)) {
+      if (page.length === 0) continue;
+      yield (first ? "" : ",") + page.map((r) => JSON.stringify(r)).join(",");
+      first = false;
+    }
+    yield "]";
+  }
+
+  yield "}}\n";
+}
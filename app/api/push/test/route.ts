@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { pushSenderFromEnv, pushToUser } from "@/lib/push";
+
+// Sends a test notification to every device the signed-in user subscribed.
+export async function POST() {
+  const supabase = await createClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const send = pushSenderFromEnv();
+  if (!send) return NextResponse.json({ error: "The VAPID keys are not configured" }, { status: 500 });
+
+  try {
+    const devices = await pushToUser(supabase, send, user.id, {
+      title: "Debt Tracker",
+      body: "Notifications are working. Due-date reminders will show up like this.",
+      url: "/settings",
+      tag: "test",
+    });
+    return NextResponse.json({ devices });
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+  }
+}
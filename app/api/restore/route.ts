@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { validateArchive } from "@/lib/backup";
+
+// Takes an archive from /api/export and re-creates its rows in the signed-in
+// user's account. The RPC runs in one transaction and merges with what is
+// already there (see the restore_archive migration), so it works on a fresh
+// account and can be repeated safely.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "The file isn't valid JSON." }, { status: 400 });
+  }
+
+  const checked = validateArchive(body);
+  if (!checked.ok) return NextResponse.json({ error: checked.error }, { status: 400 });
+
+  const { data, error } = await supabase.rpc("restore_archive", { p_archive: checked.archive });
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ restored: data });
+}
@@ -0,0 +1,5 @@
+import { cards } from "@/lib/api/v1";
+
+export const GET = cards.get.handler;
+export const PATCH = cards.update.handler;
+export const DELETE = cards.remove.handler;
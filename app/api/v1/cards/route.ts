@@ -0,0 +1,4 @@
+import { cards } from "@/lib/api/v1";
+
+export const GET = cards.list.handler;
+export const POST = cards.create.handler;
@@ -0,0 +1,10 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ENDPOINTS, openApiDocument } from "@/lib/api/v1";
+
+// The API description, for Swagger UI, Postman, spreadsheet connectors and
+// client generators. Public: it describes the API, not anyone's data.
+export function GET(request: NextRequest) {
+  return NextResponse.json(openApiDocument(ENDPOINTS, `${request.nextUrl.origin}/api/v1`), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -0,0 +1,5 @@
+import { payments } from "@/lib/api/v1";
+
+export const GET = payments.get.handler;
+export const PATCH = payments.update.handler;
+export const DELETE = payments.remove.handler;
@@ -0,0 +1,4 @@
+import { payments } from "@/lib/api/v1";
+
+export const GET = payments.list.handler;
+export const POST = payments.create.handler;
@@ -0,0 +1,5 @@
+import { statements } from "@/lib/api/v1";
+
+export const GET = statements.get.handler;
+export const PATCH = statements.update.handler;
+export const DELETE = statements.remove.handler;
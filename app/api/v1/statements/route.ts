@@ -0,0 +1,4 @@
+import { statements } from "@/lib/api/v1";
+
+export const GET = statements.list.handler;
+export const POST = statements.create.handler;
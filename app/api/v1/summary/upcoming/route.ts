@@ -0,0 +1,3 @@
+import { summary } from "@/lib/api/v1";
+
+export const GET = summary.upcoming.handler;
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deliverDue } from "@/lib/webhooks/deliver";
+
+// Sends the signed-in user's due webhook deliveries now rather than on the
+// next cron run, for the test and replay buttons in Settings.
+export async function POST() {
+  const supabase = await createClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  const user = userRes?.user;
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const counts = await deliverDue(createAdminClient(), {
+      userId: user.id,
+      allowPrivate: Boolean(process.env.WEBHOOKS_ALLOW_PRIVATE_URLS),
+    });
+    return NextResponse.json(counts);
+  } catch (e) {
+    return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+  }
+}
@@ -1,49 +1,123 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { createClient } from "@/lib/supabase/server";
-
-export async function addCard(formData: FormData) {
-  const name = String(formData.get("name") || "").trim();
-  const bank = String(formData.get("bank") || "").trim() || null;
-  const creditLimitRaw = String(formData.get("credit_limit") || "0").trim();
-  const currency = String(formData.get("currency") || "AED").trim() || "AED";
-  const notes = String(formData.get("notes") || "").trim() || null;
-
-  const credit_limit = Number(creditLimitRaw);
-  if (!name) throw new Error("Card name is required");
-
-  const supabase = await createClient();
-  const { data: userRes, error: userErr } = await supabase.auth.getUser();
-  if (userErr || !userRes?.user) throw new Error("Not authenticated");
-
-  const { error } = await supabase.from("cards").insert({
-    user_id: userRes.user.id,
-    name,
-    bank,
-    credit_limit: Number.isFinite(credit_limit) ? credit_limit : 0,
-    currency,
-    notes,
-  });
-
-  if (error) throw new Error(error.message);
-  revalidatePath("/cards");
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import {
+  CardForm,
+  InstallmentPlanForm,
+  invalid,
+  requiredId,
+  validate,
+  type ActionResult,
+  type CardFormInput,
+  type InstallmentPlanFormInput,
+} from "@/lib/validation";
+
+/** Adds the card to the workspace; its statements and payments follow it there. */
+export async function addCard(input: CardFormInput, workspaceId: string): Promise<ActionResult> {
+  const values = validate(CardForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+  const workspace = validate(requiredId(), workspaceId);
+  if (!workspace.ok) return { ok: false, error: "Missing workspace id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  // user_id becomes the workspace owner's; a viewer's insert is refused by RLS
+  const { error } = await session.supabase
+    .from("cards")
+    .insert({ ...values.data, workspace_id: workspace.data, user_id: session.user.id });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
 }
 
-export async function deleteCard(formData: FormData) {
-  const id = String(formData.get("id") || "").trim();
-  if (!id) throw new Error("Missing id");
+/** Moves the card to the Trash, with its statements, payments and installment plans. */
+export async function deleteCard(id: string): Promise<ActionResult> {
+  const cardId = validate(requiredId(), id);
+  if (!cardId.ok) return { ok: false, error: "Missing card id" };
 
-  const supabase = await createClient();
-  const { data: userRes, error: userErr } = await supabase.auth.getUser();
-  if (userErr || !userRes?.user) throw new Error("Not authenticated");
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
 
-  // Soft delete (recommended)
-  const { error } = await supabase
+  const { error } = await session.supabase.rpc("trash_card", { p_card: cardId.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/** Takes the card out of the Trash, with whatever went there along with it. */
+export async function restoreCard(id: string): Promise<ActionResult> {
+  const cardId = validate(requiredId(), id);
+  if (!cardId.ok) return { ok: false, error: "Missing card id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.rpc("restore_card", { p_card: cardId.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/** Deletes a trashed card for good, with its trashed statements, payments and plans. */
+export async function purgeCard(id: string): Promise<ActionResult> {
+  const cardId = validate(requiredId(), id);
+  if (!cardId.ok) return { ok: false, error: "Missing card id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.rpc("purge_card", { p_card: cardId.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+export async function addInstallmentPlan(input: InstallmentPlanFormInput): Promise<ActionResult> {
+  const values = validate(InstallmentPlanForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  // the plan is billed in the card's currency
+  const { data: card, error: cardError } = await supabase
     .from("cards")
-    .update({ deleted_at: new Date().toISOString() })
-    .eq("id", id);
+    .select("currency")
+    .eq("id", values.data.card_id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (cardError) return { ok: false, error: cardError.message };
+  if (!card) return invalid({ card_id: "Card not found" });
+
+  const { error } = await supabase
+    .from("installment_plans")
+    .insert({ ...values.data, currency: card.currency ?? "AED", user_id: user.id });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+export async function deleteInstallmentPlan(id: string): Promise<ActionResult> {
+  const planId = validate(requiredId(), id);
+  if (!planId.ok) return { ok: false, error: "Missing installment plan id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase.from("installment_plans").delete().eq("id", planId.data).select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That installment plan is gone, or isn't yours to delete." };
 
-  if (error) throw new Error(error.message);
-  revalidatePath("/cards");
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
 }
@@ -0,0 +1,41 @@
+"use client";
+
+import React from "react";
+
+type Props = {
+  /** "Delete 3 payments?" */
+  title: string;
+  /** one line per thing that changes */
+  summary: string[];
+  busy: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const button: React.CSSProperties = { padding: "8px 10px", borderRadius: 10, border: "1px solid #999" };
+
+/**
+ * What a delete of several rows at once will touch, before it happens.
+ * Single deletes skip this; the undo toast covers them.
+ */
+export function ConfirmDelete({ title, summary, busy, onConfirm, onCancel }: Props) {
+  return (
+    <div style={{ marginTop: 10, padding: 12, border: "1px solid crimson", borderRadius: 12, background: "#fff5f5" }}>
+      <div style={{ fontWeight: 900 }}>{title}</div>
+      <ul style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+        {summary.map((line) => (
+          <li key={line}>{line}</li>
+        ))}
+      </ul>
+      <div style={{ marginTop: 6, opacity: 0.8 }}>Everything goes to the Trash, so it can be restored from there.</div>
+      <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}>
+        <button type="button" onClick={onConfirm} disabled={busy} style={{ ...button, fontWeight: 800 }}>
+          {busy ? "Deleting…" : "Move to Trash"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy} style={button}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
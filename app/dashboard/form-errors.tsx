@@ -0,0 +1,44 @@
+"use client";
+
+import React, { useState } from "react";
+import type { z } from "zod";
+import { validate, type ActionResult, type FieldErrors, type Validated } from "@/lib/validation";
+
+/**
+ * Inline validation for one form, with the schema its server action uses.
+ * Nothing shows until the first submit; after that the messages follow the
+ * input as it's fixed. Field errors sent back by the action stay until the
+ * next submit.
+ */
+export function useFormErrors<S extends z.ZodType>(schema: S, input: z.input<S>) {
+  const [submitted, setSubmitted] = useState(false);
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({});
+
+  const live = submitted ? validate(schema, input) : null;
+  const errors: FieldErrors = { ...serverErrors, ...(live && !live.ok ? live.fieldErrors : {}) };
+
+  return {
+    errors,
+    /** Call on submit; save only when this is ok. */
+    check(): Validated<z.output<S>> {
+      setSubmitted(true);
+      setServerErrors({});
+      return validate(schema, input);
+    },
+    /** Shows the field errors of a failed action next to the inputs. */
+    report(result: ActionResult<unknown>) {
+      if (!result.ok && result.fieldErrors) setServerErrors(result.fieldErrors);
+    },
+    /** After a save, or when the form is cleared. */
+    reset() {
+      setSubmitted(false);
+      setServerErrors({});
+    },
+  };
+}
+
+export function FieldError({ errors, name }: { errors: FieldErrors; name: string }) {
+  const message = errors[name];
+  if (!message) return null;
+  return <div style={{ marginTop: 2, fontSize: 13, color: "crimson" }}>{message}</div>;
+}
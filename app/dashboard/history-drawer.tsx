@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json, Tables } from "@/lib/supabase/database.types";
+import * as historyActions from "@/app/history/actions";
+
+type AuditRow = Tables<"audit_log">;
+type Version = Record<string, Json | undefined>;
+
+export type HistoryTable = "cards" | "statements" | "payments";
+
+/** The record whose history is open. */
+export type HistoryRecord = { table: HistoryTable; id: string; title: string };
+
+// what the timeline compares; ids, owners and timestamps are left out
+const FIELDS: Record<HistoryTable, [string, string][]> = {
+  cards: [
+    ["name", "Name"],
+    ["bank", "Bank"],
+    ["credit_limit", "Credit limit"],
+    ["currency", "Currency"],
+    ["notes", "Notes"],
+    ["purchase_apr", "Purchase APR %"],
+    ["cash_apr", "Cash APR %"],
+    ["min_payment_percent", "Minimum payment %"],
+    ["min_payment_floor", "Minimum payment floor"],
+    ["statement_day", "Statement day"],
+    ["grace_days", "Grace days"],
+    ["due_date_adjustment", "Due date on a holiday"],
+  ],
+  statements: [
+    ["card_id", "Card"],
+    ["statement_month", "Month"],
+    ["statement_date", "Statement date"],
+    ["due_date", "Due date"],
+    ["statement_amount", "Amount"],
+    ["minimum_due", "Minimum due"],
+    ["interest_charged", "Interest"],
+    ["fees", "Fees"],
+    ["currency", "Currency"],
+  ],
+  payments: [
+    ["card_id", "Card"],
+    ["loan_id", "Loan"],
+    ["counterparty_id", "Person"],
+    ["direction", "Direction"],
+    ["statement_id", "Counts against"],
+    ["match_status", "Match"],
+    ["payment_date", "Date"],
+    ["amount", "Amount"],
+    ["currency", "Currency"],
+    ["note", "Note"],
+  ],
+};
+
+const HISTORY_LIMIT = 100;
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  record: HistoryRecord;
+  userId: string;
+  /** user id -> email of the workspace's members, for who made a change */
+  members: Map<string, string>;
+  /** a readable name for an id column's value: the card's name, the statement's month… */
+  describe: (field: string, value: string) => string | undefined;
+  onReverted: () => Promise<void>;
+  onClose: () => void;
+  /** a viewer reads the history but can't revert */
+  readOnly?: boolean;
+};
+
+function asVersion(values: Json | null): Version | null {
+  return values && typeof values === "object" && !Array.isArray(values) ? values : null;
+}
+
+/**
+ * Every change to one card, statement or payment, newest first, as read
+ * from the audit log: what changed, when and by whom. Any earlier version
+ * can be restored; the revert shows up as a change of its own.
+ */
+export function HistoryDrawer({
+  supabase,
+  record,
+  userId,
+  members,
+  describe,
+  onReverted,
+  onClose,
+  readOnly = false,
+}: Props) {
+  // the drawer covers the dashboard's own message line
+  const [msg, setMsg] = useState("");
+  const [entries, setEntries] = useState<AuditRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  useEffect(() => {
+    setMsg("");
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [record.table, record.id]);
+
+  async function load() {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("audit_log")
+      .select("*")
+      .eq("table_name", record.table)
+      .eq("record_id", record.id)
+      .order("id", { ascending: false })
+      .limit(HISTORY_LIMIT);
+    setLoading(false);
+    if (error) {
+      setMsg("Load history error: " + error.message);
+      return;
+    }
+    setEntries(data ?? []);
+  }
+
+  async function revert(entry: AuditRow) {
+    setMsg("");
+    setReverting(entry.id);
+    const result = await historyActions.revertToVersion(entry.id);
+    setReverting(null);
+    if (!result.ok) {
+      setMsg("Revert error: " + result.error);
+      return;
+    }
+    await onReverted();
+    await load();
+    setMsg(`${record.title} reverted to the version of ${when(entry.changed_at)}.`);
+  }
+
+  function when(iso: string): string {
+    return new Date(iso).toLocaleString();
+  }
+
+  function show(field: string, value: Json | undefined): string {
+    if (value === null || value === undefined || value === "") return "-";
+    if (typeof value === "string") return describe(field, value) ?? value;
+    return String(value);
+  }
+
+  function title(entry: AuditRow): string {
+    const before = asVersion(entry.old_values);
+    const after = asVersion(entry.new_values);
+    if (entry.action === "INSERT") return "Created";
+    if (entry.action === "DELETE") return "Deleted for good";
+    if (entry.reverted_from) {
+      const source = entries.find((e) => e.id === entry.reverted_from);
+      return source ? `Reverted to the version of ${when(source.changed_at)}` : "Reverted to an earlier version";
+    }
+    if (!before?.deleted_at && after?.deleted_at) return "Moved to the Trash";
+    if (before?.deleted_at && !after?.deleted_at) return "Restored from the Trash";
+    return "Changed";
+  }
+
+  function who(entry: AuditRow): string {
+    if (!entry.changed_by) return "the REST API or a scheduled job";
+    if (entry.changed_by === userId) return "you";
+    return members.get(entry.changed_by) ?? "another user";
+  }
+
+  // [label, before, after]; before is null on a creation
+  function changes(entry: AuditRow): [string, string | null, string][] {
+    const before = asVersion(entry.old_values);
+    const after = asVersion(entry.new_values);
+    if (!after) return [];
+    return FIELDS[record.table]
+      .filter(([field]) =>
+        before ? JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null) : after[field] != null
+      )
+      .map(([field, label]) => [label, before ? show(field, before[field]) : null, show(field, after[field])]);
+  }
+
+  // the newest entry is the current version; a record in the Trash (or purged) can't be reverted
+  const latest = entries[0];
+  const current = latest ? asVersion(latest.new_values) : null;
+  const revertible = !readOnly && !!current && !current.deleted_at;
+
+  const small: React.CSSProperties = { padding: "4px 8px", borderRadius: 8, border: "1px solid #999", fontSize: 13 };
+
+  return (
+    <div
+      role="dialog"
+      aria-label={`History of ${record.title}`}
+      style={{
+        position: "fixed",
+        top: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 40,
+        width: "min(440px, 100%)",
+        overflowY: "auto",
+        padding: 16,
+        background: "white",
+        borderLeft: "1px solid #ddd",
+        boxShadow: "-4px 0 16px rgba(0, 0, 0, 0.12)",
+      }}
+    >
+      <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>History: {record.title}</div>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{ marginLeft: "auto", padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+        >
+          Close
+        </button>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      {loading ? (
+        <p style={{ marginTop: 10 }}>Loading…</p>
+      ) : entries.length === 0 ? (
+        <p style={{ marginTop: 10 }}>No changes recorded yet.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          {current?.deleted_at ? (
+            <div style={{ opacity: 0.8 }}>It&apos;s in the Trash. Restore it from there to revert it.</div>
+          ) : null}
+
+          {entries.map((entry) => {
+            const diff = changes(entry);
+            return (
+              <div key={entry.id} style={{ padding: 10, border: "1px solid #eee", borderRadius: 12 }}>
+                <div style={{ fontWeight: 800 }}>{title(entry)}</div>
+                <div style={{ marginTop: 2, fontSize: 13, opacity: 0.7 }}>
+                  {when(entry.changed_at)} by {who(entry)}
+                </div>
+
+                {diff.length ? (
+                  <div style={{ marginTop: 6, display: "grid", gap: 2, fontSize: 13 }}>
+                    {diff.map(([label, before, after]) => (
+                      <div key={label}>
+                        <span style={{ opacity: 0.7 }}>{label}: </span>
+                        {before !== null ? (
+                          <>
+                            <span style={{ color: "crimson", textDecoration: "line-through" }}>{before}</span> →{" "}
+                          </>
+                        ) : null}
+                        <span style={{ color: "green" }}>{after}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                {revertible && entry !== latest && !asVersion(entry.new_values)?.deleted_at && entry.new_values ? (
+                  <button
+                    type="button"
+                    onClick={() => revert(entry)}
+                    disabled={reverting !== null}
+                    style={{ ...small, marginTop: 8 }}
+                  >
+                    {reverting === entry.id ? "Reverting…" : "Revert to this version"}
+                  </button>
+                ) : null}
+              </div>
+            );
+          })}
+
+          {entries.length === HISTORY_LIMIT ? (
+            <div style={{ opacity: 0.7, fontSize: 13 }}>Showing the latest {HISTORY_LIMIT} changes.</div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
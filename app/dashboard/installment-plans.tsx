@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { InstallmentPlanForm, type InstallmentPlanFormInput } from "@/lib/validation";
+import * as cardActions from "@/app/cards/actions";
+import { FieldError, useFormErrors } from "./form-errors";
+
+type CardRow = Tables<"cards">;
+type InstallmentPlanRow = Tables<"installment_plans">;
+
+const TENURES = [3, 6, 12, 18, 24, 36] as const;
+
+type Props = {
+  card: CardRow;
+  plans: InstallmentPlanRow[];
+  billedThrough: debt.BilledThrough;
+  today: string;
+  setMsg: (msg: string) => void;
+  onChanged: () => Promise<void>;
+  money: (amount: number, currency: string | null | undefined) => string;
+  /** a viewer sees the plans but can't add or delete them */
+  readOnly?: boolean;
+};
+
+/** Installment plans (EPP) of one card, shown inside its box on the CARDS tab. */
+export function CardInstallmentPlans({
+  card,
+  plans,
+  billedThrough,
+  today,
+  setMsg,
+  onChanged,
+  money,
+  readOnly = false,
+}: Props) {
+  const [formOpen, setFormOpen] = useState(false);
+  const [description, setDescription] = useState("");
+  const [principal, setPrincipal] = useState("");
+  const [fee, setFee] = useState("");
+  const [tenure, setTenure] = useState("12");
+  const [installment, setInstallment] = useState("");
+  const [startMonth, setStartMonth] = useState("");
+
+  const input: InstallmentPlanFormInput = {
+    card_id: card.id,
+    description,
+    principal,
+    processing_fee: fee,
+    tenure_months: tenure,
+    monthly_installment: installment,
+    // the month input gives YYYY-MM
+    start_month: startMonth ? startMonth + "-01" : "",
+  };
+  const form = useFormErrors(InstallmentPlanForm, input);
+
+  const suggested = Number(principal) > 0 && Number(tenure) > 0 ? Number(principal) / Number(tenure) : 0;
+
+  function openForm() {
+    setFormOpen(true);
+    // installments usually start on the next statement
+    if (!startMonth && today) setStartMonth((debt.addMonths(debt.firstDayOfMonth(today) ?? today, 1) ?? "").slice(0, 7));
+  }
+
+  function closeForm() {
+    setFormOpen(false);
+    form.reset();
+  }
+
+  async function addPlan(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+    if (!form.check().ok) return;
+
+    const result = await cardActions.addInstallmentPlan(input);
+    form.report(result);
+    if (!result.ok) {
+      setMsg("Save installment plan error: " + result.error);
+      return;
+    }
+
+    setDescription("");
+    setPrincipal("");
+    setFee("");
+    setTenure("12");
+    setInstallment("");
+    setStartMonth("");
+    closeForm();
+    await onChanged();
+  }
+
+  async function deletePlan(id: string) {
+    setMsg("");
+    const result = await cardActions.deleteInstallmentPlan(id);
+    if (!result.ok) {
+      setMsg("Delete installment plan error: " + result.error);
+      return;
+    }
+    await onChanged();
+  }
+
+  const limit = debt.toAmount(card.credit_limit);
+
+  return (
+    <div style={{ marginTop: 10 }}>
+      {plans.length ? <div style={{ fontSize: 13, fontWeight: 800 }}>Installment plans</div> : null}
+
+      {plans.map((p) => {
+        const left = debt.unbilledCharges(p, billedThrough);
+        const held = debt.heldLimit(p, billedThrough);
+        const share = limit > 0 ? Math.round((held / limit) * 100) : null;
+
+        return (
+          <div key={p.id} style={{ marginTop: 6, padding: 8, border: "1px solid #f0f0f0", borderRadius: 10, fontSize: 13 }}>
+            <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <div style={{ fontWeight: 800 }}>{p.description}</div>
+              {!readOnly ? (
+                <button
+                  type="button"
+                  onClick={() => deletePlan(p.id)}
+                  style={{ marginLeft: "auto", padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+                >
+                  Delete
+                </button>
+              ) : null}
+            </div>
+            <div style={{ marginTop: 4 }}>
+              {money(debt.toAmount(p.principal), p.currency)} over {p.tenure_months} months •{" "}
+              {money(debt.toAmount(p.monthly_installment), p.currency)}/month
+              {debt.toAmount(p.processing_fee) > 0 ? ` • fee ${money(debt.toAmount(p.processing_fee), p.currency)}` : ""}
+            </div>
+            <div style={{ marginTop: 4, opacity: 0.8 }}>
+              {left.length
+                ? `${left.length} installment${left.length === 1 ? "" : "s"} left, next on the ${left[0].month.slice(0, 7)} statement`
+                : "Fully billed"}
+            </div>
+            {held > 0 ? (
+              <div style={{ marginTop: 4, fontWeight: 700 }}>
+                Holding {money(held, p.currency)} of the limit{share !== null ? ` (${share}%)` : ""}
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {readOnly ? null : formOpen ? (
+        <form onSubmit={addPlan} style={{ display: "grid", gap: 8, marginTop: 8, fontSize: 13 }}>
+          <label>
+            Purchase
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g., Laptop" required />
+            <FieldError errors={form.errors} name="description" />
+          </label>
+          <label>
+            Principal
+            <input value={principal} onChange={(e) => setPrincipal(e.target.value)} inputMode="decimal" required />
+            <FieldError errors={form.errors} name="principal" />
+          </label>
+          <label>
+            Processing fee
+            <input value={fee} onChange={(e) => setFee(e.target.value)} placeholder="0" inputMode="decimal" />
+            <FieldError errors={form.errors} name="processing_fee" />
+          </label>
+          <label>
+            Tenure
+            <select value={tenure} onChange={(e) => setTenure(e.target.value)}>
+              {TENURES.map((t) => (
+                <option key={t} value={t}>
+                  {t} months
+                </option>
+              ))}
+            </select>
+            <FieldError errors={form.errors} name="tenure_months" />
+          </label>
+          <label>
+            Monthly installment
+            <input
+              value={installment}
+              onChange={(e) => setInstallment(e.target.value)}
+              placeholder={suggested > 0 ? `calculated: ${suggested.toFixed(2)}` : "principal / tenure"}
+              inputMode="decimal"
+            />
+            <FieldError errors={form.errors} name="monthly_installment" />
+          </label>
+          <label>
+            First statement month
+            <input value={startMonth} onChange={(e) => setStartMonth(e.target.value)} type="month" required />
+            <FieldError errors={form.errors} name="start_month" />
+          </label>
+          <div style={{ display: "flex", gap: 10 }}>
+            <button type="submit" style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}>
+              Save Plan
+            </button>
+            <button
+              type="button"
+              onClick={closeForm}
+              style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={openForm}
+          style={{ marginTop: 8, padding: "6px 10px", borderRadius: 10, border: "1px solid #999", fontSize: 13 }}
+        >
+          Add installment plan
+        </button>
+      )}
+    </div>
+  );
+}
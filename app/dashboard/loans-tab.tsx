@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { LoanForm, type LoanFormInput } from "@/lib/validation";
+import * as loanActions from "@/app/loans/actions";
+import { FieldError, useFormErrors } from "./form-errors";
+
+type LoanRow = Tables<"loans">;
+
+type Props = {
+  loans: LoanRow[];
+  paidByLoan: Map<string, number>;
+  today: string;
+  loading: boolean;
+  setMsg: (msg: string) => void;
+  onChanged: () => Promise<void>;
+  /** "AED 12.00 ≈ USD 3.27"-style helpers from the dashboard */
+  money: (amount: number, currency: string | null | undefined) => string;
+  inBase: (amount: number, currency: string | null | undefined) => string;
+};
+
+export function LoansTab({ loans, paidByLoan, today, loading, setMsg, onChanged, money, inBase }: Props) {
+  const [name, setName] = useState("");
+  const [lender, setLender] = useState("");
+  const [loanType, setLoanType] = useState<debt.LoanType>("PERSONAL");
+  const [principal, setPrincipal] = useState("");
+  const [rate, setRate] = useState("");
+  const [tenure, setTenure] = useState("");
+  const [emi, setEmi] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [currency, setCurrency] = useState("AED");
+
+  const [openScheduleId, setOpenScheduleId] = useState<string>("");
+
+  const input: LoanFormInput = {
+    name,
+    lender,
+    loan_type: loanType,
+    principal,
+    annual_rate: rate,
+    tenure_months: tenure,
+    emi,
+    start_date: startDate,
+    currency,
+  };
+  const form = useFormErrors(LoanForm, input);
+
+  const suggestedEmi = debt.monthlyInstallment(Number(principal || 0), Number(rate || 0), Number(tenure || 0));
+
+  async function addLoan(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+    if (!form.check().ok) return;
+
+    const result = await loanActions.addLoan(input);
+    form.report(result);
+    if (!result.ok) {
+      setMsg("Save loan error: " + result.error);
+      return;
+    }
+
+    setName("");
+    setLender("");
+    setLoanType("PERSONAL");
+    setPrincipal("");
+    setRate("");
+    setTenure("");
+    setEmi("");
+    setStartDate("");
+    setCurrency("AED");
+    form.reset();
+    await onChanged();
+  }
+
+  async function deleteLoan(loanId: string) {
+    setMsg("");
+    const result = await loanActions.deleteLoan(loanId);
+    if (!result.ok) {
+      setMsg("Delete loan error: " + result.error);
+      return;
+    }
+    await onChanged();
+  }
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>Loans</div>
+
+      <form onSubmit={addLoan} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+        <label>
+          Name (required)
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Car loan" required />
+          <FieldError errors={form.errors} name="name" />
+        </label>
+
+        <label>
+          Lender (optional)
+          <input value={lender} onChange={(e) => setLender(e.target.value)} placeholder="e.g., ADCB" />
+          <FieldError errors={form.errors} name="lender" />
+        </label>
+
+        <label>
+          Type
+          <select value={loanType} onChange={(e) => setLoanType(e.target.value as debt.LoanType)}>
+            {debt.LOAN_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {debt.LOAN_TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+          <FieldError errors={form.errors} name="loan_type" />
+        </label>
+
+        <label>
+          Principal
+          <input value={principal} onChange={(e) => setPrincipal(e.target.value)} placeholder="e.g., 60000" inputMode="decimal" required />
+          <FieldError errors={form.errors} name="principal" />
+        </label>
+
+        <label>
+          Annual interest rate % (0 for interest-free)
+          <input value={rate} onChange={(e) => setRate(e.target.value)} placeholder="e.g., 3.99" inputMode="decimal" />
+          <FieldError errors={form.errors} name="annual_rate" />
+        </label>
+
+        <label>
+          Tenure (months)
+          <input value={tenure} onChange={(e) => setTenure(e.target.value)} placeholder="e.g., 48" inputMode="numeric" required />
+          <FieldError errors={form.errors} name="tenure_months" />
+        </label>
+
+        <label>
+          Monthly installment / EMI (optional)
+          <input
+            value={emi}
+            onChange={(e) => setEmi(e.target.value)}
+            placeholder={suggestedEmi > 0 ? `calculated: ${suggestedEmi.toFixed(2)}` : "calculated from the terms"}
+            inputMode="decimal"
+          />
+          <FieldError errors={form.errors} name="emi" />
+        </label>
+
+        <label>
+          First installment date
+          <input value={startDate} onChange={(e) => setStartDate(e.target.value)} type="date" required />
+          <FieldError errors={form.errors} name="start_date" />
+        </label>
+
+        <label>
+          Currency
+          <input value={currency} onChange={(e) => setCurrency(e.target.value)} />
+          <FieldError errors={form.errors} name="currency" />
+        </label>
+
+        <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+          Save Loan
+        </button>
+      </form>
+
+      <div style={{ marginTop: 16, fontWeight: 900 }}>Your Loans</div>
+
+      {loading ? (
+        <p style={{ marginTop: 10 }}>Loading…</p>
+      ) : loans.length === 0 ? (
+        <p style={{ marginTop: 10 }}>No loans yet.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          {loans.map((l) => {
+            const paid = paidByLoan.get(l.id) ?? 0;
+            const outstanding = today ? debt.loanOutstanding(l, paid, today) : debt.toAmount(l.principal);
+            const installment = debt.loanInstallment(l);
+            const next = today ? debt.loanUpcoming(l, paid, today, 366)[0] : undefined;
+            const scheduleOpen = openScheduleId === l.id;
+
+            return (
+              <div key={l.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                  <div style={{ fontWeight: 900 }}>
+                    {l.name} {l.lender ? `• ${l.lender}` : ""}
+                  </div>
+                  <div style={{ opacity: 0.7 }}>{debt.LOAN_TYPE_LABELS[l.loan_type as debt.LoanType] ?? l.loan_type}</div>
+
+                  <button
+                    type="button"
+                    onClick={() => deleteLoan(l.id)}
+                    style={{ marginLeft: "auto", padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                <div style={{ marginTop: 6 }}>
+                  Principal: {money(debt.toAmount(l.principal), l.currency)} • {l.annual_rate}% • {l.tenure_months} months
+                </div>
+                <div style={{ marginTop: 6 }}>
+                  EMI: {money(installment, l.currency)}
+                  {l.emi == null ? <span style={{ opacity: 0.7 }}> (calculated)</span> : null}
+                </div>
+                <div style={{ marginTop: 6 }}>Paid so far: {money(paid, l.currency)}</div>
+                <div style={{ marginTop: 6, fontWeight: 800 }}>
+                  Outstanding principal: {money(outstanding, l.currency)}{" "}
+                  <span style={{ fontWeight: 400, opacity: 0.7 }}>{inBase(outstanding, l.currency)}</span>
+                </div>
+                <div style={{ marginTop: 6, opacity: 0.8 }}>
+                  {next ? `Next installment #${next.number}: ${money(next.pending, l.currency)} due ${next.due_date}` : "No installment due in the next year."}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => setOpenScheduleId(scheduleOpen ? "" : l.id)}
+                  style={{ marginTop: 10, padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                >
+                  {scheduleOpen ? "Hide schedule" : "Amortization schedule"}
+                </button>
+
+                {scheduleOpen ? <AmortizationTable loan={l} /> : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AmortizationTable({ loan }: { loan: LoanRow }) {
+  const rows = debt.amortizationSchedule(loan);
+  const cell: React.CSSProperties = { textAlign: "right", padding: 6, borderBottom: "1px solid #f3f3f3" };
+
+  return (
+    <div style={{ marginTop: 10, overflowX: "auto" }}>
+      <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: "left" }}>#</th>
+            <th style={{ ...cell, textAlign: "left" }}>Due</th>
+            <th style={cell}>Installment</th>
+            <th style={cell}>Interest</th>
+            <th style={cell}>Principal</th>
+            <th style={cell}>Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.number}>
+              <td style={{ ...cell, textAlign: "left" }}>{r.number}</td>
+              <td style={{ ...cell, textAlign: "left" }}>{r.due_date}</td>
+              <td style={cell}>{r.installment.toFixed(2)}</td>
+              <td style={cell}>{r.interest.toFixed(2)}</td>
+              <td style={cell}>{r.principal.toFixed(2)}</td>
+              <td style={cell}>{r.balance.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
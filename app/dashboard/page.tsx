@@ -2,62 +2,97 @@
 
 import Link from "next/link";
 import React, { useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
 import { createClient } from "@/lib/supabase/client";
-
-type Tab = "OVERVIEW" | "CARDS" | "STATEMENTS" | "PAYMENTS";
-
-type CardRow = {
-  id: string;
-  user_id: string;
-  name: string;
-  bank: string | null;
-  credit_limit: number | null;
+import type { Tables } from "@/lib/supabase/database.types";
+import { cacheRows, cachedRows, clearCache } from "@/lib/offline/cache";
+import {
+  applyWrites,
+  enqueue,
+  isNetworkError,
+  listWrites,
+  newRowId,
+  removeWrite,
+  replayWrites,
+  retryWrite,
+  type NewWrite,
+  type QueuedWrite,
+  type SyncActions,
+} from "@/lib/offline/queue";
+import * as debt from "@/lib/debt";
+import { firstDayOfMonth, isoToday } from "@/lib/debt";
+import {
+  CardForm,
+  PaymentForm,
+  StatementForm,
+  type ActionResult,
+  type CardFormInput,
+  type PaymentFormInput,
+  type StatementFormInput,
+} from "@/lib/validation";
+import * as cardActions from "@/app/cards/actions";
+import * as paymentActions from "@/app/payments/actions";
+import * as statementActions from "@/app/statements/actions";
+import { canEdit, chooseWorkspace, currentWorkspace, loadWorkspaces, ROLE_LABELS, type Membership } from "@/lib/workspace";
+import { FieldError, useFormErrors } from "./form-errors";
+import { LoansTab } from "./loans-tab";
+import { PeopleTab } from "./people-tab";
+import { CardInstallmentPlans } from "./installment-plans";
+import { ConfirmDelete } from "./confirm-delete";
+import { HistoryDrawer, type HistoryRecord } from "./history-drawer";
+import { StatementLink } from "./statement-link";
+import { SyncBadge, SyncStatus } from "./sync-status";
+import { UndoToast, useUndoHistory } from "./undo";
+
+type Tab = "OVERVIEW" | "CARDS" | "STATEMENTS" | "PAYMENTS" | "LOANS" | "PEOPLE";
+
+type CardRow = Tables<"cards">;
+type StatementRow = Tables<"statements">;
+type PaymentRow = Tables<"payments">;
+type PaidTotalRow = Tables<"statement_paid_totals">;
+type FxRateRow = Tables<"fx_rates">;
+type LoanRow = Tables<"loans">;
+type LoanPaidTotalRow = Tables<"loan_paid_totals">;
+type CounterpartyRow = Tables<"counterparties">;
+type CounterpartyBalanceRow = Tables<"counterparty_balances">;
+type InstallmentPlanRow = Tables<"installment_plans">;
+
+// one row of "Upcoming Due": a card statement or a loan installment
+type UpcomingItem = {
+  key: string;
+  label: string;
+  detail: string;
+  due_date: string;
+  days: number;
+  minimum: number;
+  full: number;
   currency: string | null;
-  notes: string | null;
-  created_at?: string;
 };
 
-type StatementRow = {
-  id: string;
-  user_id: string;
-  card_id: string;
-  statement_month: string; // YYYY-MM-01
-  statement_date: string | null;
-  due_date: string | null;
-  statement_amount: number | null;
-  currency: string | null;
-  created_at?: string;
+// a delete of several rows at once, waiting for the user to confirm its summary
+type PendingDelete = {
+  kind: "CARD" | "STATEMENTS" | "PAYMENTS";
+  ids: string[];
+  title: string;
+  summary: string[];
 };
 
-type PaymentRow = {
-  id: string;
-  user_id: string;
-  kind: string; // "CARD" etc
-  card_id: string | null;
-  statement_id: string | null;
-  payment_date: string; // YYYY-MM-DD
-  amount: number | null;
-  currency: string | null;
-  note: string | null;
-  created_at?: string;
-};
+const PAYMENTS_PAGE_SIZE = 50;
 
-function isoToday(): string {
-  const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
+// writes saved offline are sent through the same actions as the forms
+const SYNC_ACTIONS: SyncActions = {
+  addPayment: paymentActions.addPayment,
+  updatePayment: paymentActions.updatePayment,
+  addStatement: statementActions.addStatement,
+  saveStatement: statementActions.saveStatement,
+};
 
-function firstDayOfMonth(dateStr: string): string | null {
-  // dateStr is YYYY-MM-DD
-  if (!dateStr || dateStr.length < 10) return null;
-  const y = dateStr.slice(0, 4);
-  const m = dateStr.slice(5, 7);
-  if (!y || !m) return null;
-  return `${y}-${m}-01`;
-}
+const STATUS_LABELS: Record<debt.StatementStatus, { text: string; color: string }> = {
+  PAID: { text: "Fully paid", color: "green" },
+  MINIMUM_PAID: { text: "Minimum paid", color: "darkorange" },
+  MISSED: { text: "Missed", color: "crimson" },
+  OPEN: { text: "Open", color: "#555" },
+};
 
 export default function DashboardPage() {
   const supabase = useMemo(() => createClient(), []);
@@ -69,10 +104,34 @@ export default function DashboardPage() {
   const [mountedToday, setMountedToday] = useState<string>(""); // avoid new Date() during prerender
 
   const [userEmail, setUserEmail] = useState<string>("");
+  const [userId, setUserId] = useState<string>("");
+
+  // the workspace whose cards, statements and payments are shown; loans and people are always the user's own
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [workspace, setWorkspace] = useState<Membership | null>(null);
+  // user id -> email of everyone in it, for "added by"
+  const [memberEmails, setMemberEmails] = useState<Map<string, string>>(new Map());
+
+  // statement and payment changes saved offline, not on the server yet
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
 
   const [cards, setCards] = useState<CardRow[]>([]);
-  const [statements, setStatements] = useState<StatementRow[]>([]);
-  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  // as loaded; `statements` and `payments` below include the queued changes
+  const [loadedStatements, setStatements] = useState<StatementRow[]>([]);
+  const [loadedPayments, setPayments] = useState<PaymentRow[]>([]);
+  const [paymentsTotal, setPaymentsTotal] = useState(0);
+  const [paymentsToReview, setPaymentsToReview] = useState(0);
+  const [loadingMorePayments, setLoadingMorePayments] = useState(false);
+  const [paidTotals, setPaidTotals] = useState<PaidTotalRow[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<string>(debt.DEFAULT_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateRow[]>([]);
+  const [loans, setLoans] = useState<LoanRow[]>([]);
+  const [loanPaidTotals, setLoanPaidTotals] = useState<LoanPaidTotalRow[]>([]);
+  const [counterparties, setCounterparties] = useState<CounterpartyRow[]>([]);
+  const [counterpartyBalances, setCounterpartyBalances] = useState<CounterpartyBalanceRow[]>([]);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlanRow[]>([]);
 
   // ------- Cards form -------
   const [cardName, setCardName] = useState("");
@@ -80,6 +139,13 @@ export default function DashboardPage() {
   const [cardLimit, setCardLimit] = useState("");
   const [cardCurrency, setCardCurrency] = useState("AED");
   const [cardNotes, setCardNotes] = useState("");
+  const [cardPurchaseApr, setCardPurchaseApr] = useState("");
+  const [cardCashApr, setCardCashApr] = useState("");
+  const [cardMinPercent, setCardMinPercent] = useState("");
+  const [cardMinFloor, setCardMinFloor] = useState("");
+  const [cardStatementDay, setCardStatementDay] = useState("");
+  const [cardGraceDays, setCardGraceDays] = useState("");
+  const [cardDueAdjustment, setCardDueAdjustment] = useState<debt.DueDateAdjustment>("NONE");
 
   // ------- Statements form -------
   const [selectedCardId, setSelectedCardId] = useState<string>("");
@@ -88,15 +154,68 @@ export default function DashboardPage() {
   const [stDate, setStDate] = useState<string>(""); // optional
   const [stDue, setStDue] = useState<string>(""); // optional
   const [stAmount, setStAmount] = useState<string>(""); // number string
+  const [stMinimumDue, setStMinimumDue] = useState<string>(""); // optional
+  const [stInterest, setStInterest] = useState<string>(""); // optional
+  const [stFees, setStFees] = useState<string>(""); // optional
 
   // ------- Payments form -------
   const [editingPaymentId, setEditingPaymentId] = useState<string>("");
+  const [payKind, setPayKind] = useState<"CARD" | "LOAN">("CARD");
   const [payCardId, setPayCardId] = useState<string>("");
+  const [payLoanId, setPayLoanId] = useState<string>("");
   const [payStatementId, setPayStatementId] = useState<string>(""); // optional
   const [payDate, setPayDate] = useState<string>(""); // required
   const [payAmount, setPayAmount] = useState<string>("");
   const [payNote, setPayNote] = useState<string>("");
 
+  // ------- Undo and bulk delete -------
+  const undoHistory = useUndoHistory();
+  const [selectedStatementIds, setSelectedStatementIds] = useState<Set<string>>(new Set());
+  const [selectedPaymentIds, setSelectedPaymentIds] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // the card, statement or payment whose change history is open
+  const [historyRecord, setHistoryRecord] = useState<HistoryRecord | null>(null);
+
+  // what each form sends to its server action, checked with the same schema as it's typed
+  const cardInput: CardFormInput = {
+    name: cardName,
+    bank: cardBank,
+    credit_limit: cardLimit,
+    currency: cardCurrency,
+    notes: cardNotes,
+    purchase_apr: cardPurchaseApr,
+    cash_apr: cardCashApr,
+    min_payment_percent: cardMinPercent,
+    min_payment_floor: cardMinFloor,
+    statement_day: cardStatementDay,
+    grace_days: cardGraceDays,
+    due_date_adjustment: cardDueAdjustment,
+  };
+  const statementInput: StatementFormInput = {
+    card_id: selectedCardId,
+    statement_month: stMonth,
+    statement_date: stDate,
+    due_date: stDue,
+    statement_amount: stAmount,
+    minimum_due: stMinimumDue,
+    interest_charged: stInterest,
+    fees: stFees,
+  };
+  const paymentInput: PaymentFormInput = {
+    kind: payKind,
+    card_id: payCardId,
+    statement_id: payStatementId,
+    loan_id: payLoanId,
+    payment_date: payDate,
+    amount: payAmount,
+    note: payNote,
+  };
+  const cardErrors = useFormErrors(CardForm, cardInput);
+  const statementErrors = useFormErrors(StatementForm, statementInput);
+  const paymentErrors = useFormErrors(PaymentForm, paymentInput);
+
   useEffect(() => {
     // only runs in browser
     const t = isoToday();
@@ -108,11 +227,35 @@ export default function DashboardPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    // back online: reload, which also sends whatever was queued meanwhile
+    function updateOnline() {
+      setOnline(navigator.onLine);
+      if (navigator.onLine) void loadAll();
+    }
+    setOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // getUser() asks the server; offline, fall back to the session kept in the browser
+  async function currentUser(): Promise<{ user: User | null; error: Error | null }> {
+    const { data, error } = await supabase.auth.getUser();
+    if (!error || !isNetworkError(error)) return { user: data.user, error };
+    const { data: sessionRes } = await supabase.auth.getSession();
+    return { user: sessionRes.session?.user ?? null, error: null };
+  }
+
   async function loadAll() {
     setLoading(true);
     setMsg("");
 
-    const { data: userRes, error: userErr } = await supabase.auth.getUser();
+    const { user, error: userErr } = await currentUser();
     if (userErr) {
       setUserEmail("");
       setLoading(false);
@@ -120,7 +263,6 @@ export default function DashboardPage() {
       return;
     }
 
-    const user = userRes?.user;
     if (!user) {
       setUserEmail("");
       setLoading(false);
@@ -128,30 +270,258 @@ export default function DashboardPage() {
     }
 
     setUserEmail(user.email ?? "");
+    setUserId(user.id);
 
-    const [cardsRes, statementsRes, paymentsRes] = await Promise.all([
-      supabase.from("cards").select("*").eq("user_id", user.id).order("created_at", { ascending: false }),
-      supabase.from("statements").select("*").eq("user_id", user.id).order("statement_month", { ascending: false }),
-      supabase.from("payments").select("*").eq("user_id", user.id).order("payment_date", { ascending: false }).limit(50),
+    const workspacesRes = await loadWorkspaces(supabase, user.id);
+    if (isNetworkError(workspacesRes.error)) {
+      await loadFromDevice(user.id);
+      return;
+    }
+    if (workspacesRes.error) setMsg("Load workspaces error: " + workspacesRes.error.message);
+    const current = workspacesRes.current;
+    if (!current) {
+      setLoading(false);
+      return;
+    }
+    const workspaceId = current.workspace.id;
+
+    const [cardsRes, statementsRes, paidTotalsRes, paymentsRes, profileRes, fxRes, loansRes, loanPaidRes, peopleRes, peopleBalRes, plansRes, reviewRes, membersRes] =
+      await Promise.all([
+      supabase
+        .from("cards")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false }),
+      supabase
+        .from("statements")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .is("deleted_at", null)
+        .order("statement_month", { ascending: false }),
+      // Paid/Pending comes from the server-side aggregate, never from the paged payment list.
+      supabase.from("statement_paid_totals").select("*").eq("workspace_id", workspaceId),
+      paymentsPage(workspaceId, 0),
+      supabase.from("profiles").select("base_currency").eq("user_id", user.id).maybeSingle(),
+      supabase.from("fx_rates").select("*").eq("user_id", user.id),
+      supabase.from("loans").select("*").eq("user_id", user.id).order("created_at", { ascending: false }),
+      supabase.from("loan_paid_totals").select("*").eq("user_id", user.id),
+      supabase.from("counterparties").select("*").eq("user_id", user.id).order("name"),
+      supabase.from("counterparty_balances").select("*").eq("user_id", user.id),
+      supabase
+        .from("installment_plans")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .is("deleted_at", null)
+        .order("start_month"),
+      supabase
+        .from("payments")
+        .select("id", { count: "exact", head: true })
+        .eq("workspace_id", workspaceId)
+        .eq("match_status", "NEEDS_REVIEW")
+        .is("deleted_at", null),
+      supabase.from("workspace_members").select("user_id, email").eq("workspace_id", workspaceId),
     ]);
 
+    if (isNetworkError(cardsRes.error)) {
+      await loadFromDevice(user.id);
+      return;
+    }
+
     if (cardsRes.error) setMsg("Load cards error: " + cardsRes.error.message);
     if (statementsRes.error) setMsg("Load statements error: " + statementsRes.error.message);
+    if (paidTotalsRes.error) setMsg("Load paid totals error: " + paidTotalsRes.error.message);
     if (paymentsRes.error) setMsg("Load payments error: " + paymentsRes.error.message);
+    if (profileRes.error) setMsg("Load profile error: " + profileRes.error.message);
+    if (fxRes.error) setMsg("Load FX rates error: " + fxRes.error.message);
+    if (loansRes.error) setMsg("Load loans error: " + loansRes.error.message);
+    if (loanPaidRes.error) setMsg("Load loan totals error: " + loanPaidRes.error.message);
+    if (peopleRes.error) setMsg("Load people error: " + peopleRes.error.message);
+    if (peopleBalRes.error) setMsg("Load IOU balances error: " + peopleBalRes.error.message);
+    if (plansRes.error) setMsg("Load installment plans error: " + plansRes.error.message);
+    if (membersRes.error) setMsg("Load workspace members error: " + membersRes.error.message);
+
+    setMemberships(workspacesRes.memberships);
+    setWorkspace(current);
+    setMemberEmails(new Map((membersRes.data ?? []).map((m) => [m.user_id, m.email])));
+    setCards(cardsRes.data ?? []);
+    setStatements(statementsRes.data ?? []);
+    setPaidTotals(paidTotalsRes.data ?? []);
+    setPayments(paymentsRes.data ?? []);
+    setPaymentsTotal(paymentsRes.count ?? 0);
+    setBaseCurrency(debt.normalizeCurrency(profileRes.data?.base_currency));
+    setFxRates(fxRes.data ?? []);
+    setLoans(loansRes.data ?? []);
+    setLoanPaidTotals(loanPaidRes.data ?? []);
+    setCounterparties(peopleRes.data ?? []);
+    setCounterpartyBalances(peopleBalRes.data ?? []);
+    setInstallmentPlans(plansRes.data ?? []);
+    setPaymentsToReview(reviewRes.count ?? 0);
+
+    // what the dashboard opens with next time there's no connection
+    const cached = [
+      !cardsRes.error && cacheRows(user.id, "cards", cardsRes.data),
+      !statementsRes.error && cacheRows(user.id, "statements", statementsRes.data),
+      !paidTotalsRes.error && cacheRows(user.id, "statement_paid_totals", paidTotalsRes.data),
+      !paymentsRes.error && cacheRows(user.id, "payments", paymentsRes.data),
+      !loansRes.error && cacheRows(user.id, "loans", loansRes.data),
+      !workspacesRes.error && cacheRows(user.id, "workspaces", workspacesRes.memberships),
+    ];
+    await Promise.all(cached).catch((e) => setMsg("Offline cache error: " + (e as Error).message));
+
+    const queued = await listWrites(user.id);
+    setWrites(queued);
+    setLoading(false);
 
-    setCards((cardsRes.data as CardRow[]) ?? []);
-    setStatements((statementsRes.data as StatementRow[]) ?? []);
-    setPayments((paymentsRes.data as PaymentRow[]) ?? []);
+    if (queued.some((w) => w.status === "PENDING")) await syncWrites(user.id);
+  }
 
+  async function loadFromDevice(uid: string) {
+    const [cachedCards, cachedStatements, cachedTotals, cachedPayments, cachedLoans, cachedMemberships, queued] =
+      await Promise.all([
+        cachedRows<CardRow>(uid, "cards"),
+        cachedRows<StatementRow>(uid, "statements"),
+        cachedRows<PaidTotalRow>(uid, "statement_paid_totals"),
+        cachedRows<PaymentRow>(uid, "payments"),
+        cachedRows<LoanRow>(uid, "loans"),
+        cachedRows<Membership>(uid, "workspaces"),
+        listWrites(uid),
+      ]);
+
+    // the cached rows are those of the workspace that was open, which the switcher can't change offline
+    setMemberships(cachedMemberships);
+    setWorkspace(currentWorkspace(cachedMemberships, uid));
+
+    setCards(cachedCards);
+    setStatements(cachedStatements);
+    setPaidTotals(cachedTotals);
+    setPayments(cachedPayments);
+    setPaymentsTotal(cachedPayments.length);
+    setLoans(cachedLoans);
+    setWrites(queued);
+    setOnline(false);
     setLoading(false);
   }
 
+  // Sends the queued writes; reloads if any got through, so the rows come
+  // back with their server values.
+  async function syncWrites(uid: string) {
+    setSyncing(true);
+    const result = await replayWrites(SYNC_ACTIONS, uid);
+    setSyncing(false);
+
+    if (result.synced > 0) {
+      await loadAll();
+    } else {
+      setWrites(await listWrites(uid));
+    }
+    if (result.conflicts || result.failed) {
+      setMsg(`${result.conflicts + result.failed} change(s) saved offline couldn't be synced. See the notice above.`);
+    }
+  }
+
+  // Runs the action, or queues the write when there's no connection. The
+  // form was validated with the action's schema before either happens.
+  async function saveOrQueue(
+    action: () => Promise<ActionResult>,
+    write: NewWrite,
+  ): Promise<{ result: ActionResult; queued: boolean }> {
+    if (navigator.onLine) {
+      try {
+        return { result: await action(), queued: false };
+      } catch (e) {
+        if (!isNetworkError(e as Error)) throw e;
+      }
+    }
+    await enqueue(write);
+    return { result: { ok: true, data: null }, queued: true };
+  }
+
+  async function retryQueued(w: QueuedWrite) {
+    setMsg("");
+    await retryWrite(w);
+    await syncWrites(w.userId);
+  }
+
+  async function discardQueued(w: QueuedWrite) {
+    setMsg("");
+    await removeWrite(w.id!);
+    setWrites(await listWrites(w.userId));
+  }
+
+  function queuedLabel(w: QueuedWrite): string {
+    if (w.table === "statements") {
+      const s = statements.find((r) => r.id === w.rowId);
+      const card = s ? cardMap.get(s.card_id) : null;
+      return `The ${card?.name ?? "card"} statement for ${s?.statement_month.slice(0, 7) ?? "a month"}`;
+    }
+    const p = payments.find((r) => r.id === w.rowId);
+    return p ? `The ${p.currency ?? "AED"} ${Number(p.amount ?? 0).toFixed(2)} payment of ${p.payment_date}` : "A payment";
+  }
+
+  function paymentsPage(workspaceId: string, offset: number) {
+    return supabase
+      .from("payments")
+      .select("*", { count: "exact" })
+      .eq("workspace_id", workspaceId)
+      // IOU entries live in each person's ledger on the PEOPLE tab
+      .in("kind", ["CARD", "LOAN"])
+      .is("deleted_at", null)
+      .order("payment_date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(offset, offset + PAYMENTS_PAGE_SIZE - 1);
+  }
+
+  async function loadMorePayments() {
+    setMsg("");
+
+    if (!workspace) {
+      setMsg("Please sign in first.");
+      return;
+    }
+
+    setLoadingMorePayments(true);
+    const { data, count, error } = await paymentsPage(workspace.workspace.id, loadedPayments.length);
+    setLoadingMorePayments(false);
+
+    if (error) {
+      setMsg("Load payments error: " + error.message);
+      return;
+    }
+
+    setPayments((prev) => {
+      // a payment added meanwhile shifts the pages; skip rows we already have
+      const seen = new Set(prev.map((p) => p.id));
+      return [...prev, ...(data ?? []).filter((p) => !seen.has(p.id))];
+    });
+    setPaymentsTotal(count ?? 0);
+  }
+
+  // what was picked or being edited belongs to the workspace being left
+  async function switchWorkspace(workspaceId: string) {
+    chooseWorkspace(userId, workspaceId);
+    setSelectedCardId("");
+    setSelectedStatementIds(new Set());
+    setSelectedPaymentIds(new Set());
+    setPendingDelete(null);
+    setHistoryRecord(null);
+    resetStatementForm();
+    resetPaymentForm();
+    await loadAll();
+  }
+
   async function signOut() {
+    if (userId) await clearCache(userId);
     await supabase.auth.signOut();
     window.location.href = "/auth/login";
   }
 
   // ---------------- Derived maps ----------------
+  const statements = useMemo(() => applyWrites(loadedStatements, writes, "statements"), [loadedStatements, writes]);
+  const payments = useMemo(() => applyWrites(loadedPayments, writes, "payments"), [loadedPayments, writes]);
+  const writeByRow = useMemo(() => new Map(writes.map((w) => [w.rowId, w])), [writes]);
+
   const cardMap = useMemo(() => new Map(cards.map((c) => [c.id, c])), [cards]);
 
   const statementsByCard = useMemo(() => {
@@ -169,103 +539,156 @@ export default function DashboardPage() {
     return m;
   }, [statements]);
 
-  const paidByStatement = useMemo(() => {
-    const m = new Map<string, number>();
-    for (const p of payments) {
-      if (!p.statement_id) continue;
-      const amt = Number(p.amount ?? 0);
-      if (!Number.isFinite(amt)) continue;
-      m.set(p.statement_id, (m.get(p.statement_id) ?? 0) + amt);
-    }
+  const paidByStatement = useMemo(() => debt.paidFromTotals(paidTotals), [paidTotals]);
+
+  // installment-plan charges not on an entered statement yet count as pending too
+  const billedThrough = useMemo(() => debt.billedThroughByCard(statements), [statements]);
+  const committedByCard = useMemo(
+    () => debt.committedByCard(installmentPlans, billedThrough),
+    [installmentPlans, billedThrough]
+  );
+  const plansByCard = useMemo(() => {
+    const m = new Map<string, InstallmentPlanRow[]>();
+    for (const p of installmentPlans) m.set(p.card_id, [...(m.get(p.card_id) ?? []), p]);
     return m;
-  }, [payments]);
+  }, [installmentPlans]);
+
+  const pendingByCard = useMemo(
+    () => debt.pendingByCard(statements, paidByStatement, committedByCard),
+    [statements, paidByStatement, committedByCard]
+  );
 
-  const pendingByCard = useMemo(() => {
+  const loanMap = useMemo(() => new Map(loans.map((l) => [l.id, l])), [loans]);
+
+  const paidByLoan = useMemo(() => {
     const m = new Map<string, number>();
-    for (const s of statements) {
-      const amount = Number(s.statement_amount ?? 0);
-      const paid = paidByStatement.get(s.id) ?? 0;
-      const pending = amount - paid;
-      m.set(s.card_id, (m.get(s.card_id) ?? 0) + pending);
-    }
+    for (const t of loanPaidTotals) if (t.loan_id) m.set(t.loan_id, debt.toAmount(t.paid_amount));
     return m;
-  }, [statements, paidByStatement]);
+  }, [loanPaidTotals]);
+
+  // placeholders created from a billing cycle that still need the amount typed in
+  const awaitingAmount = useMemo(
+    () =>
+      statements
+        .filter((s) => s.statement_amount == null)
+        .sort((a, b) => ((a.due_date ?? "") > (b.due_date ?? "") ? 1 : -1)),
+    [statements]
+  );
 
-  const totalLimit = useMemo(() => cards.reduce((sum, c) => sum + Number(c.credit_limit ?? 0), 0), [cards]);
+  // ---------------- Currency conversion ----------------
+  // Amounts are only ever added up per currency; base-currency figures go
+  // through the user's own rate table (latest rate on or before today).
+  const fx = useMemo(() => debt.createFxConverter(fxRates, baseCurrency), [fxRates, baseCurrency]);
 
-  const totalPending = useMemo(() => {
-    let sum = 0;
-    for (const s of statements) {
-      const amount = Number(s.statement_amount ?? 0);
-      const paid = paidByStatement.get(s.id) ?? 0;
-      sum += amount - paid;
-    }
-    return sum;
-  }, [statements, paidByStatement]);
+  const limitMoney = useMemo(
+    () => cards.map((c) => ({ amount: debt.toAmount(c.credit_limit), currency: debt.normalizeCurrency(c.currency) })),
+    [cards]
+  );
+
+  const pendingMoney = useMemo(
+    () =>
+      [
+        ...statements.map((s) => ({
+          amount: debt.statementPending(s, paidByStatement),
+          currency: debt.normalizeCurrency(s.currency ?? cardMap.get(s.card_id)?.currency),
+        })),
+        ...[...committedByCard].map(([cardId, amount]) => ({
+          amount,
+          currency: debt.normalizeCurrency(cardMap.get(cardId)?.currency),
+        })),
+      ],
+    [statements, paidByStatement, committedByCard, cardMap]
+  );
+
+  const totalLimit = useMemo(() => debt.sumInBase(limitMoney, fx, mountedToday || undefined), [limitMoney, fx, mountedToday]);
+  const totalPending = useMemo(
+    () => debt.sumInBase(pendingMoney, fx, mountedToday || undefined),
+    [pendingMoney, fx, mountedToday]
+  );
+  const loanMoney = useMemo(
+    () =>
+      loans.map((l) => ({
+        amount: mountedToday ? debt.loanOutstanding(l, paidByLoan.get(l.id) ?? 0, mountedToday) : debt.toAmount(l.principal),
+        currency: debt.normalizeCurrency(l.currency),
+      })),
+    [loans, paidByLoan, mountedToday]
+  );
+  const totalLoans = useMemo(() => debt.sumInBase(loanMoney, fx, mountedToday || undefined), [loanMoney, fx, mountedToday]);
+  const loansByCurrency = useMemo(() => debt.totalsByCurrency(loanMoney), [loanMoney]);
+  const debtByCurrency = useMemo(() => debt.totalsByCurrency([...pendingMoney, ...loanMoney]), [pendingMoney, loanMoney]);
+
+  const balancesByPerson = useMemo(() => debt.balancesByCounterparty(counterpartyBalances), [counterpartyBalances]);
+  const iou = useMemo(() => debt.iouSummary(counterpartyBalances), [counterpartyBalances]);
+  const owedToMe = useMemo(() => debt.sumInBase(iou.owedToMe, fx, mountedToday || undefined), [iou, fx, mountedToday]);
+  const iOwe = useMemo(() => debt.sumInBase(iou.iOwe, fx, mountedToday || undefined), [iou, fx, mountedToday]);
+
+  const limitByCurrency = useMemo(() => debt.totalsByCurrency(limitMoney), [limitMoney]);
+  const pendingByCurrency = useMemo(() => debt.totalsByCurrency(pendingMoney), [pendingMoney]);
+
+  function money(amount: number, currency: string | null | undefined) {
+    return `${debt.normalizeCurrency(currency)} ${amount.toFixed(2)}`;
+  }
+
+  // "≈ AED 1234.00" next to a native amount, or a hint that a rate is missing
+  function inBase(amount: number, currency: string | null | undefined) {
+    const c = debt.normalizeCurrency(currency);
+    if (c === fx.base) return "";
+    const converted = fx.toBase(amount, c, mountedToday || undefined);
+    return converted === null ? `(no ${c}→${fx.base} rate)` : `≈ ${money(converted, fx.base)}`;
+  }
 
   const upcomingDue = useMemo(() => {
     // no current-time call here; uses mountedToday (set in useEffect)
     if (!mountedToday) return [];
-    const today = new Date(mountedToday + "T00:00:00");
-    const in30 = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 30);
+    return debt.upcomingDue(statements, paidByStatement, mountedToday, 30);
+  }, [mountedToday, statements, paidByStatement]);
 
-    const list: Array<
-      StatementRow & {
-        pending: number;
-        days: number;
-      }
-    > = [];
+  const upcomingItems = useMemo(() => {
+    const items: UpcomingItem[] = upcomingDue.map((s) => {
+      const card = cardMap.get(s.card_id);
+      return {
+        key: s.id,
+        label: card ? `${card.name}${card.bank ? " - " + card.bank : ""}` : s.card_id,
+        detail: `Statement month: ${s.statement_month}`,
+        due_date: s.due_date!,
+        days: s.days,
+        minimum: debt.minimumRemaining(s, paidByStatement, card),
+        full: s.pending,
+        currency: s.currency,
+      };
+    });
 
-    for (const s of statements) {
-      if (!s.due_date) continue;
-      const due = new Date(s.due_date + "T00:00:00");
-      if (Number.isNaN(due.getTime())) continue;
-
-      const amount = Number(s.statement_amount ?? 0);
-      const paid = paidByStatement.get(s.id) ?? 0;
-      const pending = amount - paid;
-      if (pending <= 0) continue;
-
-      if (due >= today && due <= in30) {
-        const days = Math.ceil((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-        list.push({ ...s, pending, days });
+    if (mountedToday) {
+      for (const l of loans) {
+        for (const u of debt.loanUpcoming(l, paidByLoan.get(l.id) ?? 0, mountedToday, 30)) {
+          items.push({
+            key: `${l.id}#${u.number}`,
+            label: `${l.name}${l.lender ? " - " + l.lender : ""}`,
+            detail: `Loan installment #${u.number} of ${l.tenure_months}`,
+            due_date: u.due_date,
+            days: u.days,
+            // an installment has no smaller minimum
+            minimum: u.pending,
+            full: u.pending,
+            currency: l.currency,
+          });
+        }
       }
     }
 
-    list.sort((a, b) => (a.due_date! > b.due_date! ? 1 : -1));
-    return list;
-  }, [mountedToday, statements, paidByStatement]);
+    return items.sort((a, b) => (a.due_date > b.due_date ? 1 : a.due_date < b.due_date ? -1 : 0));
+  }, [upcomingDue, cardMap, paidByStatement, loans, paidByLoan, mountedToday]);
 
   // ---------------- Actions: Cards ----------------
   async function addCard(e: React.FormEvent) {
     e.preventDefault();
     setMsg("");
+    if (!cardErrors.check().ok || !workspace) return;
 
-    if (!cardName.trim()) {
-      setMsg("Card name is required.");
-      return;
-    }
-
-    const { data: userRes } = await supabase.auth.getUser();
-    const user = userRes?.user;
-    if (!user) {
-      setMsg("Please sign in first.");
-      return;
-    }
-
-    const limit = Number(cardLimit || 0);
-
-    const { error } = await supabase.from("cards").insert({
-      user_id: user.id,
-      name: cardName.trim(),
-      bank: cardBank.trim() ? cardBank.trim() : null,
-      credit_limit: Number.isFinite(limit) ? limit : 0,
-      currency: cardCurrency.trim() || "AED",
-      notes: cardNotes.trim() ? cardNotes.trim() : null,
-    });
-
-    if (error) {
-      setMsg("Save card error: " + error.message);
+    const result = await cardActions.addCard(cardInput, workspace.workspace.id);
+    cardErrors.report(result);
+    if (!result.ok) {
+      setMsg("Save card error: " + result.error);
       return;
     }
 
@@ -274,19 +697,67 @@ export default function DashboardPage() {
     setCardLimit("");
     setCardCurrency("AED");
     setCardNotes("");
+    setCardPurchaseApr("");
+    setCardCashApr("");
+    setCardMinPercent("");
+    setCardMinFloor("");
+    setCardStatementDay("");
+    setCardGraceDays("");
+    setCardDueAdjustment("NONE");
+    cardErrors.reset();
     await loadAll();
     setTab("CARDS");
   }
 
+  // A card goes to the Trash with everything under it, so one that has
+  // anything asks first, with a summary of what goes along.
   async function deleteCard(cardId: string) {
     setMsg("");
-    // note: may fail if statements reference card (FK). This is okay; show error.
-    const { error } = await supabase.from("cards").delete().eq("id", cardId);
+    setPendingDelete(null);
+
+    // the payments list is paged; count them all
+    const { count, error } = await supabase
+      .from("payments")
+      .select("id", { count: "exact", head: true })
+      .eq("card_id", cardId)
+      .is("deleted_at", null);
     if (error) {
       setMsg("Delete card error: " + error.message);
       return;
     }
+
+    const statementCount = statementsByCard.get(cardId)?.length ?? 0;
+    const planCount = installmentPlans.filter((p) => p.card_id === cardId).length;
+    if (!count && !statementCount && !planCount) {
+      await trashCard(cardId);
+      return;
+    }
+
+    setPendingDelete({
+      kind: "CARD",
+      ids: [cardId],
+      title: `Delete ${cardMap.get(cardId)?.name ?? "this card"} and everything on it?`,
+      summary: [
+        statementCount ? `${statementCount} statement(s)` : "",
+        count ? `${count} payment(s)` : "",
+        planCount ? `${planCount} installment plan(s)` : "",
+      ].filter(Boolean),
+    });
+  }
+
+  async function trashCard(cardId: string) {
+    const name = cardMap.get(cardId)?.name ?? "Card";
+    const result = await cardActions.deleteCard(cardId);
+    if (!result.ok) {
+      setMsg("Delete card error: " + result.error);
+      return;
+    }
     await loadAll();
+    undoHistory.push({
+      label: `${name} moved to the Trash.`,
+      undoneLabel: `${name} restored.`,
+      undo: () => cardActions.restoreCard(cardId),
+    });
   }
 
   // ---------------- Actions: Statements ----------------
@@ -295,7 +766,11 @@ export default function DashboardPage() {
     setStDate("");
     setStDue("");
     setStAmount("");
+    setStMinimumDue("");
+    setStInterest("");
+    setStFees("");
     if (mountedToday) setStMonth(firstDayOfMonth(mountedToday) ?? "");
+    statementErrors.reset();
   }
 
   function startEditStatement(s: StatementRow) {
@@ -306,202 +781,358 @@ export default function DashboardPage() {
     setStDate(s.statement_date ?? "");
     setStDue(s.due_date ?? "");
     setStAmount(String(s.statement_amount ?? ""));
+    setStMinimumDue(s.minimum_due == null ? "" : String(s.minimum_due));
+    setStInterest(s.interest_charged == null ? "" : String(s.interest_charged));
+    setStFees(s.fees == null ? "" : String(s.fees));
+    statementErrors.reset();
   }
 
   async function saveStatement(e: React.FormEvent) {
     e.preventDefault();
     setMsg("");
 
-    const { data: userRes } = await supabase.auth.getUser();
-    const user = userRes?.user;
+    const { user } = await currentUser();
     if (!user) {
       setMsg("Please sign in first.");
       return;
     }
 
-    if (!selectedCardId) {
-      setMsg("Select a card first.");
+    const parsed = statementErrors.check();
+    if (!parsed.ok) return;
+
+    const { card_id: cardId, ...fields } = parsed.data;
+    const values = { ...fields, currency: (cardMap.get(cardId)?.currency ?? "AED") as string };
+
+    // offline, a new statement for a month the card already has updates that one, like the action does
+    const existing = editingStatementId
+      ? statements.find((s) => s.id === editingStatementId)
+      : statements.find((s) => s.card_id === cardId && s.statement_month === values.statement_month);
+    const offline: NewWrite = existing
+      ? {
+          userId: user.id,
+          table: "statements",
+          op: "UPDATE",
+          rowId: existing.id,
+          values: editingStatementId ? values : { ...values, card_id: cardId },
+          input: statementInput,
+          baseUpdatedAt: existing.updated_at,
+        }
+      : {
+          userId: user.id,
+          table: "statements",
+          op: "INSERT",
+          rowId: newRowId(),
+          values: { ...values, card_id: cardId },
+          input: statementInput,
+          baseUpdatedAt: null,
+        };
+
+    const res = await saveOrQueue(
+      () => statementActions.saveStatement(statementInput, editingStatementId || undefined),
+      offline
+    );
+    statementErrors.report(res.result);
+    if (!res.result.ok) {
+      setMsg((editingStatementId ? "Update statement error: " : "Save statement error: ") + res.result.error);
       return;
     }
 
-    const month = firstDayOfMonth(stMonth);
-    if (!month) {
-      setMsg("Statement month is required.");
+    resetStatementForm();
+    await loadAll();
+    setTab("STATEMENTS");
+    if (res.queued) setMsg("Statement saved on this device. It will sync when you're back online.");
+  }
+
+  async function deleteStatement(statementId: string) {
+    setMsg("");
+    const result = await statementActions.deleteStatement(statementId);
+    if (!result.ok) {
+      setMsg("Delete statement error: " + result.error);
       return;
     }
+    await loadAll();
+    const { unlinked } = result.data;
+    undoHistory.push({
+      label: unlinked
+        ? `Statement moved to the Trash and ${unlinked} payment(s) unlinked from it.`
+        : "Statement moved to the Trash.",
+      undoneLabel: unlinked ? `Statement restored and ${unlinked} payment(s) linked back.` : "Statement restored.",
+      undo: () => statementActions.restoreStatement(statementId),
+    });
+  }
 
-    const amount = Number(stAmount || 0);
-    const card = cardMap.get(selectedCardId);
-    const currency = (card?.currency ?? "AED") as string;
+  function askDeleteStatements(chosen: StatementRow[]) {
+    setMsg("");
+    const card = cardMap.get(chosen[0].card_id);
+    const currency = card?.currency ?? chosen[0].currency;
+    const billed = chosen.reduce((sum, s) => sum + debt.toAmount(s.statement_amount), 0);
+    const paid = chosen.reduce((sum, s) => sum + (paidByStatement.get(s.id) ?? 0), 0);
+    const months = chosen.map((s) => s.statement_month.slice(0, 7)).sort();
+
+    setPendingDelete({
+      kind: "STATEMENTS",
+      ids: chosen.map((s) => s.id),
+      title: `Delete ${chosen.length} statement(s) of ${card?.name ?? "this card"}?`,
+      summary: [
+        `Months: ${months.join(", ")}`,
+        `Billed in total: ${money(billed, currency)}`,
+        paid ? `Payments of ${money(paid, currency)} are unlinked from them until they're restored` : "",
+      ].filter(Boolean),
+    });
+  }
 
-    if (editingStatementId) {
-      const { error } = await supabase
-        .from("statements")
-        .update({
-          statement_month: month,
-          statement_date: stDate || null,
-          due_date: stDue || null,
-          statement_amount: Number.isFinite(amount) ? amount : 0,
-          currency,
-        })
-        .eq("id", editingStatementId);
-
-      if (error) {
-        setMsg("Update statement error: " + error.message);
-        return;
-      }
-    } else {
-      // IMPORTANT: upsert to avoid duplicate month error
-      const { error } = await supabase.from("statements").upsert(
-        {
-          user_id: user.id,
-          card_id: selectedCardId,
-          statement_month: month,
-          statement_date: stDate || null,
-          due_date: stDue || null,
-          statement_amount: Number.isFinite(amount) ? amount : 0,
-          currency,
-        },
-        { onConflict: "user_id,card_id,statement_month" }
-      );
-
-      if (error) {
-        setMsg("Save statement error: " + error.message);
-        return;
-      }
+  async function deleteStatements(ids: string[]) {
+    const result = await statementActions.deleteStatements(ids);
+    if (!result.ok) {
+      setMsg("Delete statements error: " + result.error);
+      await loadAll();
+      return;
     }
-
-    resetStatementForm();
+    setSelectedStatementIds(new Set());
     await loadAll();
-    setTab("STATEMENTS");
+    const { deleted, unlinked } = result.data;
+    undoHistory.push({
+      label: `${deleted} statement(s) moved to the Trash${unlinked ? ` and ${unlinked} payment(s) unlinked` : ""}.`,
+      undoneLabel: `${deleted} statement(s) restored${unlinked ? ` and ${unlinked} payment(s) linked back` : ""}.`,
+      undo: () => statementActions.restoreStatements(ids),
+    });
   }
 
-  async function deleteStatement(statementId: string) {
+  // Same as the scheduled /api/cron/statements job, for the open workspace only.
+  async function generateStatements() {
     setMsg("");
-    // unlink payments first to avoid FK issues
-    const unlink = await supabase.from("payments").update({ statement_id: null }).eq("statement_id", statementId);
-    if (unlink.error) {
-      setMsg("Unlink payments error: " + unlink.error.message);
+
+    const month = firstDayOfMonth(mountedToday);
+    if (!month || !workspace) return;
+
+    const result = await statementActions.createPlaceholderStatements(month, workspace.workspace.id);
+    if (!result.ok) {
+      setMsg("Create statements error: " + result.error);
       return;
     }
-
-    const del = await supabase.from("statements").delete().eq("id", statementId);
-    if (del.error) {
-      setMsg("Delete statement error: " + del.error.message);
+    if (result.data.cards === 0) {
+      setMsg("No card has a statement day set.");
       return;
     }
 
     await loadAll();
+    setMsg(`Created ${result.data.created} statement(s) for ${month.slice(0, 7)}.`);
   }
 
   // ---------------- Actions: Payments ----------------
   function resetPaymentForm() {
     setEditingPaymentId("");
+    setPayKind("CARD");
     setPayCardId("");
+    setPayLoanId("");
     setPayStatementId("");
     setPayAmount("");
     setPayNote("");
     if (mountedToday) setPayDate(mountedToday);
+    paymentErrors.reset();
   }
 
   function startEditPayment(p: PaymentRow) {
     setTab("PAYMENTS");
     setEditingPaymentId(p.id);
+    setPayKind(p.kind === "LOAN" ? "LOAN" : "CARD");
     setPayCardId(p.card_id ?? "");
+    setPayLoanId(p.loan_id ?? "");
     setPayStatementId(p.statement_id ?? "");
     setPayDate(p.payment_date ?? (mountedToday || ""));
     setPayAmount(String(p.amount ?? ""));
     setPayNote(p.note ?? "");
+    paymentErrors.reset();
   }
 
   async function savePayment(e: React.FormEvent) {
     e.preventDefault();
     setMsg("");
 
-    const { data: userRes } = await supabase.auth.getUser();
-    const user = userRes?.user;
+    const { user } = await currentUser();
     if (!user) {
       setMsg("Please sign in first.");
       return;
     }
 
-    if (!payCardId) {
-      setMsg("Select a card.");
-      return;
-    }
-    if (!payDate) {
-      setMsg("Payment date is required.");
-      return;
-    }
+    const parsed = paymentErrors.check();
+    if (!parsed.ok) return;
 
-    const amount = Number(payAmount || 0);
-    const card = cardMap.get(payCardId);
-    const currency = (card?.currency ?? "AED") as string;
+    // what the action saves, for the copy queued offline
+    const p = parsed.data;
+    const values = {
+      ...p,
+      match_status: p.statement_id ? "CONFIRMED" : null,
+      currency: (p.loan_id ? loanMap.get(p.loan_id)?.currency : cardMap.get(p.card_id ?? "")?.currency) ?? "AED",
+    };
 
+    let res: { result: ActionResult; queued: boolean };
     if (editingPaymentId) {
-      const { error } = await supabase
-        .from("payments")
-        .update({
-          kind: "CARD",
-          card_id: payCardId,
-          statement_id: payStatementId || null,
-          payment_date: payDate,
-          amount: Number.isFinite(amount) ? amount : 0,
-          currency,
-          note: payNote.trim() ? payNote.trim() : null,
-        })
-        .eq("id", editingPaymentId);
-
-      if (error) {
-        setMsg("Update payment error: " + error.message);
-        return;
-      }
+      res = await saveOrQueue(() => paymentActions.updatePayment(editingPaymentId, paymentInput), {
+        userId: user.id,
+        table: "payments",
+        op: "UPDATE",
+        rowId: editingPaymentId,
+        values,
+        input: paymentInput,
+        baseUpdatedAt: payments.find((p) => p.id === editingPaymentId)?.updated_at ?? null,
+      });
     } else {
-      const { error } = await supabase.from("payments").insert({
-        user_id: user.id,
-        kind: "CARD",
-        card_id: payCardId,
-        statement_id: payStatementId || null,
-        payment_date: payDate,
-        amount: Number.isFinite(amount) ? amount : 0,
-        currency,
-        note: payNote.trim() ? payNote.trim() : null,
+      // the id is made here so the queued insert can't land twice
+      const id = newRowId();
+      res = await saveOrQueue(() => paymentActions.addPayment(id, paymentInput), {
+        userId: user.id,
+        table: "payments",
+        op: "INSERT",
+        rowId: id,
+        values: { ...values, counterparty_id: null, direction: null, import_key: null },
+        input: paymentInput,
+        baseUpdatedAt: null,
       });
+    }
 
-      if (error) {
-        setMsg("Save payment error: " + error.message);
-        return;
-      }
+    paymentErrors.report(res.result);
+    if (!res.result.ok) {
+      setMsg((editingPaymentId ? "Update payment error: " : "Save payment error: ") + res.result.error);
+      return;
     }
 
     resetPaymentForm();
     await loadAll();
     setTab("PAYMENTS");
+    if (res.queued) setMsg("Payment saved on this device. It will sync when you're back online.");
   }
 
   async function deletePayment(paymentId: string) {
     setMsg("");
-    const { error } = await supabase.from("payments").delete().eq("id", paymentId);
-    if (error) {
-      setMsg("Delete payment error: " + error.message);
+    const result = await paymentActions.deletePayment(paymentId);
+    if (!result.ok) {
+      setMsg("Delete payment error: " + result.error);
       return;
     }
     await loadAll();
+    undoHistory.push({
+      label: "Payment moved to the Trash.",
+      undoneLabel: "Payment restored.",
+      undo: () => paymentActions.restorePayment(paymentId),
+    });
+  }
+
+  function askDeletePayments(chosen: PaymentRow[]) {
+    setMsg("");
+    const byCurrency = new Map<string, number>();
+    for (const p of chosen) {
+      const currency = debt.normalizeCurrency(p.currency);
+      byCurrency.set(currency, (byCurrency.get(currency) ?? 0) + debt.toAmount(p.amount));
+    }
+    const linkedStatements = new Set(chosen.map((p) => p.statement_id).filter(Boolean));
+    const paidLoans = new Set(chosen.map((p) => p.loan_id).filter(Boolean));
+
+    setPendingDelete({
+      kind: "PAYMENTS",
+      ids: chosen.map((p) => p.id),
+      title: `Delete ${chosen.length} payment(s)?`,
+      summary: [
+        `Amounts: ${[...byCurrency].map(([currency, amount]) => money(amount, currency)).join(" + ")}`,
+        linkedStatements.size ? `The pending balance goes back up on ${linkedStatements.size} statement(s)` : "",
+        paidLoans.size ? `The outstanding balance goes back up on ${paidLoans.size} loan(s)` : "",
+      ].filter(Boolean),
+    });
+  }
+
+  async function deletePayments(ids: string[]) {
+    const result = await paymentActions.deletePayments(ids);
+    if (!result.ok) {
+      setMsg("Delete payments error: " + result.error);
+      return;
+    }
+    setSelectedPaymentIds(new Set());
+    await loadAll();
+    const { deleted } = result.data;
+    undoHistory.push({
+      label: `${deleted} payment(s) moved to the Trash.`,
+      undoneLabel: `${deleted} payment(s) restored.`,
+      undo: () => paymentActions.restorePayments(ids),
+    });
   }
 
   async function updatePaymentStatement(paymentId: string, statementId: string) {
     setMsg("");
-    const { error } = await supabase
-      .from("payments")
-      .update({ statement_id: statementId || null })
-      .eq("id", paymentId);
+    const before = payments.find((p) => p.id === paymentId);
+    const result = await paymentActions.linkPaymentStatement(paymentId, statementId);
+    if (!result.ok) {
+      setMsg("Update payment link error: " + result.error);
+      return;
+    }
+    await loadAll();
+    if (!before) return;
+    const month = statements.find((s) => s.id === statementId)?.statement_month.slice(0, 7);
+    undoHistory.push({
+      label: statementId ? `Payment now counts against the ${month ?? ""} statement.` : "Payment unlinked from its statement.",
+      undoneLabel: "Payment link put back.",
+      undo: () => paymentActions.linkPaymentStatement(paymentId, before.statement_id ?? "", before.match_status),
+    });
+  }
 
-    if (error) {
-      setMsg("Update payment link error: " + error.message);
+  async function confirmPaymentMatch(paymentId: string) {
+    setMsg("");
+    const before = payments.find((p) => p.id === paymentId);
+    const result = await paymentActions.confirmPaymentMatch(paymentId);
+    if (!result.ok) {
+      setMsg("Confirm payment link error: " + result.error);
       return;
     }
+    await loadAll();
+    if (!before) return;
+    undoHistory.push({
+      label: "Statement match confirmed.",
+      undoneLabel: "Statement match unconfirmed again.",
+      undo: () => paymentActions.linkPaymentStatement(paymentId, before.statement_id ?? "", before.match_status),
+    });
+  }
+
+  // ---------------- Undo and bulk delete ----------------
+  async function confirmDelete() {
+    if (!pendingDelete) return;
+    const { kind, ids } = pendingDelete;
+    setMsg("");
+    setDeleting(true);
+    if (kind === "CARD") await trashCard(ids[0]);
+    else if (kind === "STATEMENTS") await deleteStatements(ids);
+    else await deletePayments(ids);
+    setDeleting(false);
+    setPendingDelete(null);
+  }
 
+  async function undoLatest() {
+    setMsg("");
+    const undone = await undoHistory.undo();
+    if (!undone) return;
+    if (!undone.result.ok) {
+      setMsg("Undo error: " + undone.result.error);
+      return;
+    }
     await loadAll();
+    setMsg(undone.command.undoneLabel);
+  }
+
+  // names for the ids in a history entry; ids not loaded are of rows deleted since
+  function describeHistoryValue(field: string, value: string): string | undefined {
+    if (field === "card_id") return cardMap.get(value)?.name ?? "a deleted card";
+    if (field === "loan_id") return loanMap.get(value)?.name ?? "a deleted loan";
+    if (field === "counterparty_id") return counterparties.find((c) => c.id === value)?.name ?? "a deleted person";
+    if (field === "statement_id") {
+      const s = statements.find((r) => r.id === value);
+      return s ? `the ${s.statement_month.slice(0, 7)} statement` : "a deleted statement";
+    }
+    return undefined;
+  }
+
+  function toggle(set: Set<string>, id: string): Set<string> {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
   }
 
   // ---------------- UI ----------------
@@ -519,22 +1150,66 @@ export default function DashboardPage() {
 
   const cardStatements = selectedCardId ? statementsByCard.get(selectedCardId) ?? [] : [];
   const paymentStatementOptions = payCardId ? statementsByCard.get(payCardId) ?? [] : [];
+  // only what's on screen: rows of another card or already gone stay out of a bulk delete
+  const chosenStatements = cardStatements.filter((s) => selectedStatementIds.has(s.id));
+  const chosenPayments = payments.filter((p) => selectedPaymentIds.has(p.id));
+  // viewers get the lists without the forms and the edit and delete buttons; RLS refuses their writes anyway
+  const editable = canEdit(workspace?.role);
+
+  // only worth saying where someone else could have added it
+  const addedBy = (row: { created_by: string | null }) =>
+    workspace && !workspace.workspace.personal && row.created_by ? (
+      <div style={{ marginTop: 6, fontSize: 13, opacity: 0.7 }}>
+        Added by {row.created_by === userId ? "you" : memberEmails.get(row.created_by) ?? "a former member"}
+      </div>
+    ) : null;
+
+  const confirmFor = (kind: PendingDelete["kind"]) =>
+    pendingDelete?.kind === kind ? (
+      <ConfirmDelete
+        title={pendingDelete.title}
+        summary={pendingDelete.summary}
+        busy={deleting}
+        onConfirm={confirmDelete}
+        onCancel={() => setPendingDelete(null)}
+      />
+    ) : null;
 
   return (
     <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
       <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
         <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Debt Tracker</h1>
         <div style={{ opacity: 0.75 }}>Signed in as: {userEmail}</div>
-        <button
-          onClick={signOut}
-          style={{ marginLeft: "auto", padding: "8px 12px", borderRadius: 10, border: "1px solid #999" }}
-        >
+        {memberships.length > 1 && workspace ? (
+          <select
+            value={workspace.workspace.id}
+            onChange={(e) => switchWorkspace(e.target.value)}
+            disabled={!online}
+            aria-label="Workspace"
+            style={{ padding: "6px 8px", borderRadius: 10, border: "1px solid #ccc" }}
+          >
+            {memberships.map((m) => (
+              <option key={m.workspace.id} value={m.workspace.id}>
+                {m.workspace.name}
+                {m.role === "owner" ? "" : ` (${ROLE_LABELS[m.role].toLowerCase()})`}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <Link href="/workspaces">Workspaces</Link>
+        <Link href="/planner" style={{ marginLeft: "auto" }}>
+          Planner
+        </Link>
+        <Link href="/import">Import</Link>
+        <Link href="/trash">Trash</Link>
+        <Link href="/settings">Settings</Link>
+        <button onClick={signOut} style={{ padding: "8px 12px", borderRadius: 10, border: "1px solid #999" }}>
           Logout
         </button>
       </div>
 
       <div style={{ marginTop: 12, display: "flex", gap: 8, flexWrap: "wrap" }}>
-        {(["OVERVIEW", "CARDS", "STATEMENTS", "PAYMENTS"] as const).map((t) => (
+        {(["OVERVIEW", "CARDS", "STATEMENTS", "PAYMENTS", "LOANS", "PEOPLE"] as const).map((t) => (
           <button
             key={t}
             onClick={() => setTab(t)}
@@ -551,10 +1226,26 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      <SyncStatus
+        writes={writes}
+        online={online}
+        syncing={syncing}
+        label={queuedLabel}
+        onSync={() => syncWrites(userId)}
+        onRetry={retryQueued}
+        onDiscard={discardQueued}
+      />
+
       {msg ? (
         <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
       ) : null}
 
+      {workspace && !editable ? (
+        <div style={{ marginTop: 10, padding: 10, border: "1px solid #ddd", borderRadius: 12, background: "#f8f8f8" }}>
+          You can view &quot;{workspace.workspace.name}&quot; but not change it. Ask its owner to make you an editor.
+        </div>
+      ) : null}
+
       {/* ---------------- OVERVIEW ---------------- */}
       {tab === "OVERVIEW" ? (
         <>
@@ -573,13 +1264,59 @@ export default function DashboardPage() {
 
             <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
               <div style={{ opacity: 0.8 }}>Total Limit</div>
-              <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>AED {totalLimit.toFixed(2)}</div>
+              <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>{money(totalLimit.total, fx.base)}</div>
+              <CurrencyBreakdown totals={limitByCurrency} base={fx.base} missing={totalLimit.missing} />
             </div>
 
             <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
-              <div style={{ opacity: 0.8 }}>Total Pending</div>
-              <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>AED {totalPending.toFixed(2)}</div>
+              <div style={{ opacity: 0.8 }}>Total Pending (cards)</div>
+              <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>{money(totalPending.total, fx.base)}</div>
+              <CurrencyBreakdown totals={pendingByCurrency} base={fx.base} missing={totalPending.missing} />
+              {committedByCard.size ? (
+                <div style={{ marginTop: 6, fontSize: 13, opacity: 0.8 }}>Includes installment plans not billed yet</div>
+              ) : null}
             </div>
+
+            {loans.length ? (
+              <>
+                <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+                  <div style={{ opacity: 0.8 }}>Loans Outstanding</div>
+                  <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>{money(totalLoans.total, fx.base)}</div>
+                  <CurrencyBreakdown totals={loansByCurrency} base={fx.base} missing={totalLoans.missing} />
+                </div>
+
+                <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+                  <div style={{ opacity: 0.8 }}>Total Debt (cards + loans)</div>
+                  <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>
+                    {money(totalPending.total + totalLoans.total, fx.base)}
+                  </div>
+                  <CurrencyBreakdown
+                    totals={debtByCurrency}
+                    base={fx.base}
+                    missing={[...new Set([...totalPending.missing, ...totalLoans.missing])]}
+                  />
+                </div>
+              </>
+            ) : null}
+
+            {counterpartyBalances.length ? (
+              <>
+                <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+                  <div style={{ opacity: 0.8 }}>Owed to Me (IOUs)</div>
+                  <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>{money(owedToMe.total, fx.base)}</div>
+                  <CurrencyBreakdown totals={debt.totalsByCurrency(iou.owedToMe)} base={fx.base} missing={owedToMe.missing} />
+                </div>
+
+                <div style={{ padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+                  <div style={{ opacity: 0.8 }}>I Owe (IOUs)</div>
+                  <div style={{ fontSize: 22, fontWeight: 900, marginTop: 6 }}>{money(iOwe.total, fx.base)}</div>
+                  <CurrencyBreakdown totals={debt.totalsByCurrency(iou.iOwe)} base={fx.base} missing={iOwe.missing} />
+                  <div style={{ marginTop: 6, fontSize: 13, opacity: 0.8 }}>
+                    Net: {money(owedToMe.total - iOwe.total, fx.base)}
+                  </div>
+                </div>
+              </>
+            ) : null}
           </div>
 
           <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
@@ -587,29 +1324,60 @@ export default function DashboardPage() {
 
             {loading ? (
               <p style={{ marginTop: 10 }}>Loading…</p>
-            ) : upcomingDue.length === 0 ? (
+            ) : upcomingItems.length === 0 ? (
               <p style={{ marginTop: 10 }}>No due dates in the next 30 days.</p>
             ) : (
               <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
-                {upcomingDue.map((s) => {
-                  const card = cardMap.get(s.card_id);
-                  const label = card ? `${card.name}${card.bank ? " - " + card.bank : ""}` : s.card_id;
+                {upcomingItems.map((u) => (
+                  <div key={u.key} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                    <div style={{ fontWeight: 900 }}>
+                      {u.label} • Due {u.due_date} ({u.days} days)
+                    </div>
+                    {u.minimum < u.full ? (
+                      <div style={{ marginTop: 6 }}>
+                        Minimum: {money(u.minimum, u.currency)}{" "}
+                        <span style={{ opacity: 0.7 }}>{inBase(u.minimum, u.currency)}</span>
+                      </div>
+                    ) : null}
+                    <div style={{ marginTop: 6 }}>
+                      Full: {money(u.full, u.currency)} <span style={{ opacity: 0.7 }}>{inBase(u.full, u.currency)}</span>
+                    </div>
+                    <div style={{ marginTop: 6, opacity: 0.8 }}>{u.detail}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
 
+          {awaitingAmount.length ? (
+            <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+              <div style={{ fontSize: 16, fontWeight: 900 }}>Statements Waiting for an Amount</div>
+              <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+                {awaitingAmount.map((s) => {
+                  const card = cardMap.get(s.card_id);
                   return (
                     <div key={s.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
                       <div style={{ fontWeight: 900 }}>
-                        {label} • Due {s.due_date} ({s.days} days)
+                        {card ? card.name : s.card_id} • {s.statement_month.slice(0, 7)}
                       </div>
-                      <div style={{ marginTop: 6 }}>
-                        Pending: {s.currency ?? "AED"} {Number(s.pending ?? 0).toFixed(2)}
+                      <div style={{ marginTop: 6, opacity: 0.8 }}>
+                        Statement Date: {s.statement_date ?? "-"} | Due: {s.due_date ?? "-"}
                       </div>
-                      <div style={{ marginTop: 6, opacity: 0.8 }}>Statement month: {s.statement_month}</div>
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => startEditStatement(s)}
+                          style={{ marginTop: 8, padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Enter amount
+                        </button>
+                      ) : null}
                     </div>
                   );
                 })}
               </div>
-            )}
-          </div>
+            </div>
+          ) : null}
         </>
       ) : null}
 
@@ -618,38 +1386,92 @@ export default function DashboardPage() {
         <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
           <div style={{ fontSize: 16, fontWeight: 900 }}>Cards</div>
 
-          <form onSubmit={addCard} style={{ display: "grid", gap: 10, marginTop: 12 }}>
-            <label>
-              Card name (required)
-              <input value={cardName} onChange={(e) => setCardName(e.target.value)} placeholder="e.g., RAK BANK" required />
-            </label>
-
-            <label>
-              Bank (optional)
-              <input value={cardBank} onChange={(e) => setCardBank(e.target.value)} placeholder="e.g., RAK" />
-            </label>
-
-            <label>
-              Credit limit
-              <input value={cardLimit} onChange={(e) => setCardLimit(e.target.value)} placeholder="e.g., 6000" inputMode="decimal" />
-            </label>
-
-            <label>
-              Currency
-              <input value={cardCurrency} onChange={(e) => setCardCurrency(e.target.value)} />
-            </label>
-
-            <label>
-              Notes (optional)
-              <input value={cardNotes} onChange={(e) => setCardNotes(e.target.value)} placeholder="any notes" />
-            </label>
-
-            <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
-              Save Card
-            </button>
-          </form>
+          {editable ? (
+            <form onSubmit={addCard} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+              <label>
+                Card name (required)
+                <input value={cardName} onChange={(e) => setCardName(e.target.value)} placeholder="e.g., RAK BANK" required />
+                <FieldError errors={cardErrors.errors} name="name" />
+              </label>
+
+              <label>
+                Bank (optional)
+                <input value={cardBank} onChange={(e) => setCardBank(e.target.value)} placeholder="e.g., RAK" />
+                <FieldError errors={cardErrors.errors} name="bank" />
+              </label>
+
+              <label>
+                Credit limit
+                <input value={cardLimit} onChange={(e) => setCardLimit(e.target.value)} placeholder="e.g., 6000" inputMode="decimal" />
+                <FieldError errors={cardErrors.errors} name="credit_limit" />
+              </label>
+
+              <label>
+                Currency
+                <input value={cardCurrency} onChange={(e) => setCardCurrency(e.target.value)} />
+                <FieldError errors={cardErrors.errors} name="currency" />
+              </label>
+
+              <label>
+                Notes (optional)
+                <input value={cardNotes} onChange={(e) => setCardNotes(e.target.value)} placeholder="any notes" />
+                <FieldError errors={cardErrors.errors} name="notes" />
+              </label>
+
+              <label>
+                Purchase APR % (optional)
+                <input value={cardPurchaseApr} onChange={(e) => setCardPurchaseApr(e.target.value)} placeholder="e.g., 39" inputMode="decimal" />
+                <FieldError errors={cardErrors.errors} name="purchase_apr" />
+              </label>
+
+              <label>
+                Cash advance APR % (optional)
+                <input value={cardCashApr} onChange={(e) => setCardCashApr(e.target.value)} placeholder="e.g., 42" inputMode="decimal" />
+                <FieldError errors={cardErrors.errors} name="cash_apr" />
+              </label>
+
+              <label>
+                Minimum payment: % of balance (optional)
+                <input value={cardMinPercent} onChange={(e) => setCardMinPercent(e.target.value)} placeholder="e.g., 5" inputMode="decimal" />
+                <FieldError errors={cardErrors.errors} name="min_payment_percent" />
+              </label>
+
+              <label>
+                Minimum payment: at least (optional)
+                <input value={cardMinFloor} onChange={(e) => setCardMinFloor(e.target.value)} placeholder="e.g., 100" inputMode="decimal" />
+                <FieldError errors={cardErrors.errors} name="min_payment_floor" />
+              </label>
+
+              <label>
+                Statement day of month (optional, creates monthly statements automatically)
+                <input value={cardStatementDay} onChange={(e) => setCardStatementDay(e.target.value)} placeholder="e.g., 20" inputMode="numeric" />
+                <FieldError errors={cardErrors.errors} name="statement_day" />
+              </label>
+
+              <label>
+                Days from statement to due date (optional)
+                <input value={cardGraceDays} onChange={(e) => setCardGraceDays(e.target.value)} placeholder="e.g., 25" inputMode="numeric" />
+                <FieldError errors={cardErrors.errors} name="grace_days" />
+              </label>
+
+              <label>
+                If the due date is a weekend or holiday
+                <select value={cardDueAdjustment} onChange={(e) => setCardDueAdjustment(e.target.value as debt.DueDateAdjustment)}>
+                  <option value="NONE">Keep it</option>
+                  <option value="PREVIOUS_BUSINESS_DAY">Move to previous business day</option>
+                  <option value="NEXT_BUSINESS_DAY">Move to next business day</option>
+                </select>
+                <FieldError errors={cardErrors.errors} name="due_date_adjustment" />
+              </label>
+
+              <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+                Save Card
+              </button>
+            </form>
+          ) : null}
 
           <div style={{ marginTop: 16, fontWeight: 900 }}>Your Cards</div>
+          {confirmFor("CARD")}
 
           {loading ? (
             <p style={{ marginTop: 10 }}>Loading…</p>
@@ -659,6 +1481,8 @@ export default function DashboardPage() {
             <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
               {cards.map((c) => {
                 const pending = pendingByCard.get(c.id) ?? 0;
+                const committed = committedByCard.get(c.id) ?? 0;
+                const minRule = debt.cardMinimumRule(c);
                 return (
                   <div key={c.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
                     <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
@@ -668,22 +1492,68 @@ export default function DashboardPage() {
 
                       <button
                         type="button"
-                        onClick={() => deleteCard(c.id)}
+                        onClick={() => setHistoryRecord({ table: "cards", id: c.id, title: c.name })}
                         style={{ marginLeft: "auto", padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
                       >
-                        Delete
+                        History
                       </button>
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => deleteCard(c.id)}
+                          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Delete
+                        </button>
+                      ) : null}
                     </div>
 
                     <div style={{ marginTop: 6 }}>
                       Limit: {c.currency ?? "AED"} {Number(c.credit_limit ?? 0).toFixed(2)}
                     </div>
 
+                    {c.purchase_apr != null || c.cash_apr != null || minRule ? (
+                      <div style={{ marginTop: 6, opacity: 0.8 }}>
+                        {c.purchase_apr != null ? `Purchase APR ${c.purchase_apr}%` : ""}
+                        {c.cash_apr != null ? ` • Cash APR ${c.cash_apr}%` : ""}
+                        {minRule
+                          ? ` • Minimum: ${minRule.percent}% or ${money(minRule.floor, c.currency)}, whichever is higher`
+                          : ""}
+                      </div>
+                    ) : null}
+
+                    {c.statement_day != null ? (
+                      <div style={{ marginTop: 6, opacity: 0.8 }}>
+                        Statement on day {c.statement_day}
+                        {c.grace_days != null ? `, due ${c.grace_days} days later` : ""}
+                        {c.due_date_adjustment === "PREVIOUS_BUSINESS_DAY" ? " (earlier if not a business day)" : ""}
+                        {c.due_date_adjustment === "NEXT_BUSINESS_DAY" ? " (later if not a business day)" : ""}
+                      </div>
+                    ) : null}
+
                     <div style={{ marginTop: 6, fontWeight: 800 }}>
-                      Pending: {c.currency ?? "AED"} {pending.toFixed(2)}
+                      Pending: {money(pending, c.currency)}{" "}
+                      <span style={{ fontWeight: 400, opacity: 0.7 }}>{inBase(pending, c.currency)}</span>
                     </div>
+                    {committed > 0 ? (
+                      <div style={{ marginTop: 4, fontSize: 13, opacity: 0.8 }}>
+                        incl. {money(committed, c.currency)} in installments not billed yet
+                      </div>
+                    ) : null}
 
                     {c.notes ? <div style={{ marginTop: 6, opacity: 0.8 }}>{c.notes}</div> : null}
+                    {addedBy(c)}
+
+                    <CardInstallmentPlans
+                      card={c}
+                      plans={plansByCard.get(c.id) ?? []}
+                      billedThrough={billedThrough}
+                      today={mountedToday}
+                      setMsg={setMsg}
+                      onChanged={loadAll}
+                      money={money}
+                      readOnly={!editable}
+                    />
                   </div>
                 );
               })}
@@ -697,6 +1567,18 @@ export default function DashboardPage() {
         <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
           <div style={{ fontSize: 16, fontWeight: 900 }}>Statements</div>
 
+          {editable ? (
+            <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+              <button
+                type="button"
+                onClick={generateStatements}
+                style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+              >
+                Create this month&apos;s statements from billing cycles
+              </button>
+            </div>
+          ) : null}
+
           <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
             <div style={{ fontWeight: 800 }}>Select Card</div>
             <select value={selectedCardId} onChange={(e) => setSelectedCardId(e.target.value)}>
@@ -710,47 +1592,82 @@ export default function DashboardPage() {
             </select>
           </div>
 
-          <form onSubmit={saveStatement} style={{ display: "grid", gap: 10, marginTop: 12 }}>
-            <div style={{ fontWeight: 900 }}>{editingStatementId ? "Edit Statement" : "Add / Update Statement"}</div>
-
-            <label>
-              Statement month (stored as 1st day)
-              <input value={stMonth} onChange={(e) => setStMonth(e.target.value)} type="date" required />
-            </label>
-
-            <label>
-              Statement date (optional)
-              <input value={stDate} onChange={(e) => setStDate(e.target.value)} type="date" />
-            </label>
-
-            <label>
-              Due date (optional)
-              <input value={stDue} onChange={(e) => setStDue(e.target.value)} type="date" />
-            </label>
-
-            <label>
-              Statement amount
-              <input value={stAmount} onChange={(e) => setStAmount(e.target.value)} placeholder="e.g., 1200" inputMode="decimal" />
-            </label>
-
-            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-              <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
-                {editingStatementId ? "Update Statement" : "Save Statement"}
-              </button>
-
-              {editingStatementId ? (
-                <button
-                  type="button"
-                  onClick={resetStatementForm}
-                  style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
-                >
-                  Cancel Edit
+          {editable ? (
+            <form onSubmit={saveStatement} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+              <div style={{ fontWeight: 900 }}>{editingStatementId ? "Edit Statement" : "Add / Update Statement"}</div>
+              <FieldError errors={statementErrors.errors} name="card_id" />
+
+              <label>
+                Statement month (the 1st day of the month)
+                <input value={stMonth} onChange={(e) => setStMonth(e.target.value)} type="date" required />
+                <FieldError errors={statementErrors.errors} name="statement_month" />
+              </label>
+
+              <label>
+                Statement date (optional)
+                <input value={stDate} onChange={(e) => setStDate(e.target.value)} type="date" />
+                <FieldError errors={statementErrors.errors} name="statement_date" />
+              </label>
+
+              <label>
+                Due date (optional)
+                <input value={stDue} onChange={(e) => setStDue(e.target.value)} type="date" />
+                <FieldError errors={statementErrors.errors} name="due_date" />
+              </label>
+
+              <label>
+                Statement amount
+                <input value={stAmount} onChange={(e) => setStAmount(e.target.value)} placeholder="e.g., 1200" inputMode="decimal" />
+                <FieldError errors={statementErrors.errors} name="statement_amount" />
+              </label>
+
+              <label>
+                Minimum due (optional, defaults to the card&apos;s formula)
+                <input value={stMinimumDue} onChange={(e) => setStMinimumDue(e.target.value)} placeholder="e.g., 100" inputMode="decimal" />
+                <FieldError errors={statementErrors.errors} name="minimum_due" />
+              </label>
+
+              <label>
+                Interest charged (optional)
+                <input value={stInterest} onChange={(e) => setStInterest(e.target.value)} placeholder="e.g., 61.20" inputMode="decimal" />
+                <FieldError errors={statementErrors.errors} name="interest_charged" />
+              </label>
+
+              <label>
+                Fees (optional)
+                <input value={stFees} onChange={(e) => setStFees(e.target.value)} placeholder="e.g., 26.25" inputMode="decimal" />
+                <FieldError errors={statementErrors.errors} name="fees" />
+              </label>
+
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+                  {editingStatementId ? "Update Statement" : "Save Statement"}
                 </button>
-              ) : null}
-            </div>
-          </form>
+
+                {editingStatementId ? (
+                  <button
+                    type="button"
+                    onClick={resetStatementForm}
+                    style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Cancel Edit
+                  </button>
+                ) : null}
+              </div>
+            </form>
+          ) : null}
 
           <div style={{ marginTop: 16, fontWeight: 900 }}>Statements List</div>
+          {editable ? (
+            <SelectionBar
+              count={chosenStatements.length}
+              total={cardStatements.length}
+              onSelectAll={() => setSelectedStatementIds(new Set(cardStatements.map((s) => s.id)))}
+              onClear={() => setSelectedStatementIds(new Set())}
+              onDelete={() => askDeleteStatements(chosenStatements)}
+            />
+          ) : null}
+          {confirmFor("STATEMENTS")}
 
           {loading ? (
             <p style={{ marginTop: 10 }}>Loading…</p>
@@ -763,14 +1680,46 @@ export default function DashboardPage() {
               {cardStatements.map((s) => {
                 const amount = Number(s.statement_amount ?? 0);
                 const paid = paidByStatement.get(s.id) ?? 0;
-                const pending = amount - paid;
+                const pending = debt.statementPending(s, paidByStatement);
+                const card = cardMap.get(s.card_id);
+                const status = mountedToday ? STATUS_LABELS[debt.statementStatus(s, paidByStatement, mountedToday, card)] : null;
 
                 return (
                   <div key={s.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
-                    <div style={{ fontWeight: 900 }}>Month: {s.statement_month}</div>
+                    <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                      {editable ? (
+                        <input
+                          type="checkbox"
+                          checked={selectedStatementIds.has(s.id)}
+                          onChange={() => setSelectedStatementIds(toggle(selectedStatementIds, s.id))}
+                          aria-label={`Select the ${s.statement_month.slice(0, 7)} statement`}
+                        />
+                      ) : null}
+                      <div style={{ fontWeight: 900 }}>Month: {s.statement_month}</div>
+                      <SyncBadge write={writeByRow.get(s.id)} />
+                      {status ? (
+                        <span
+                          style={{
+                            padding: "2px 8px",
+                            borderRadius: 999,
+                            border: `1px solid ${status.color}`,
+                            color: status.color,
+                            fontSize: 12,
+                            fontWeight: 800,
+                          }}
+                        >
+                          {status.text}
+                        </span>
+                      ) : null}
+                    </div>
 
                     <div style={{ marginTop: 6 }}>
-                      Amount: {s.currency ?? "AED"} {amount.toFixed(2)}
+                      Amount:{" "}
+                      {s.statement_amount == null ? (
+                        <span style={{ color: "darkorange", fontWeight: 800 }}>not entered yet</span>
+                      ) : (
+                        `${s.currency ?? "AED"} ${amount.toFixed(2)}`
+                      )}
                     </div>
                     <div style={{ marginTop: 6 }}>
                       Paid: {s.currency ?? "AED"} {paid.toFixed(2)}
@@ -778,27 +1727,56 @@ export default function DashboardPage() {
                     <div style={{ marginTop: 6, fontWeight: 900 }}>
                       Pending: {s.currency ?? "AED"} {pending.toFixed(2)}
                     </div>
+                    <div style={{ marginTop: 6 }}>
+                      Minimum due: {s.currency ?? "AED"} {debt.minimumDue(s, card).toFixed(2)}
+                      {s.minimum_due == null ? <span style={{ opacity: 0.7 }}> (estimated)</span> : null}
+                    </div>
+                    {s.interest_charged != null || s.fees != null ? (
+                      <div style={{ marginTop: 6, opacity: 0.8 }}>
+                        Interest: {s.currency ?? "AED"} {Number(s.interest_charged ?? 0).toFixed(2)} | Fees:{" "}
+                        {s.currency ?? "AED"} {Number(s.fees ?? 0).toFixed(2)}
+                      </div>
+                    ) : null}
 
                     <div style={{ marginTop: 6, opacity: 0.8 }}>
                       Due: {s.due_date ?? "-"} | Statement Date: {s.statement_date ?? "-"}
                     </div>
+                    {addedBy(s)}
 
                     <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}>
-                      <button
-                        type="button"
-                        onClick={() => startEditStatement(s)}
-                        style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
-                      >
-                        Edit
-                      </button>
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => startEditStatement(s)}
+                          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Edit
+                        </button>
+                      ) : null}
 
                       <button
                         type="button"
-                        onClick={() => deleteStatement(s.id)}
+                        onClick={() =>
+                          setHistoryRecord({
+                            table: "statements",
+                            id: s.id,
+                            title: `${card?.name ?? "Card"} ${s.statement_month.slice(0, 7)} statement`,
+                          })
+                        }
                         style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
                       >
-                        Delete
+                        History
                       </button>
+
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => deleteStatement(s.id)}
+                          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Delete
+                        </button>
+                      ) : null}
                     </div>
                   </div>
                 );
@@ -811,77 +1789,129 @@ export default function DashboardPage() {
       {/* ---------------- PAYMENTS ---------------- */}
       {tab === "PAYMENTS" ? (
         <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
-          <div style={{ fontSize: 16, fontWeight: 900 }}>Payments (Card)</div>
-
-          <form onSubmit={savePayment} style={{ display: "grid", gap: 10, marginTop: 12 }}>
-            <div style={{ fontWeight: 900 }}>{editingPaymentId ? "Edit Payment" : "Add Payment"}</div>
-
-            <label>
-              Card
-              <select
-                value={payCardId}
-                onChange={(e) => {
-                  setPayCardId(e.target.value);
-                  setPayStatementId("");
-                }}
-                required
-              >
-                <option value="">Select</option>
-                {cards.map((c) => (
-                  <option key={c.id} value={c.id}>
-                    {c.name}
-                    {c.bank ? ` - ${c.bank}` : ""}
-                  </option>
-                ))}
-              </select>
-            </label>
-
-            <label>
-              Statement (recommended)
-              <select value={payStatementId} onChange={(e) => setPayStatementId(e.target.value)}>
-                <option value="">None</option>
-                {paymentStatementOptions.map((s) => (
-                  <option key={s.id} value={s.id}>
-                    {s.statement_month}
-                    {s.due_date ? ` (Due ${s.due_date})` : ""}
-                  </option>
-                ))}
-              </select>
-            </label>
-
-            <label>
-              Payment date
-              <input value={payDate} onChange={(e) => setPayDate(e.target.value)} type="date" required />
-            </label>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Payments</div>
+
+          {editable ? (
+            <form onSubmit={savePayment} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+              <div style={{ fontWeight: 900 }}>{editingPaymentId ? "Edit Payment" : "Add Payment"}</div>
+
+              <label>
+                Paying off
+                <select value={payKind} onChange={(e) => setPayKind(e.target.value as "CARD" | "LOAN")}>
+                  <option value="CARD">Card</option>
+                  <option value="LOAN">Loan</option>
+                </select>
+              </label>
+
+              {payKind === "LOAN" ? (
+                <label>
+                  Loan
+                  <select value={payLoanId} onChange={(e) => setPayLoanId(e.target.value)} required>
+                    <option value="">Select</option>
+                    {loans.map((l) => (
+                      <option key={l.id} value={l.id}>
+                        {l.name}
+                        {l.lender ? ` - ${l.lender}` : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError errors={paymentErrors.errors} name="loan_id" />
+                </label>
+              ) : null}
 
-            <label>
-              Amount
-              <input value={payAmount} onChange={(e) => setPayAmount(e.target.value)} placeholder="e.g., 500" inputMode="decimal" />
-            </label>
+              {payKind === "CARD" ? (
+                <>
+                  <label>
+                    Card
+                    <select
+                      value={payCardId}
+                      onChange={(e) => {
+                        setPayCardId(e.target.value);
+                        setPayStatementId("");
+                      }}
+                      required
+                    >
+                      <option value="">Select</option>
+                      {cards.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                          {c.bank ? ` - ${c.bank}` : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <FieldError errors={paymentErrors.errors} name="card_id" />
+                  </label>
+
+                  <label>
+                    Statement (recommended)
+                    <select value={payStatementId} onChange={(e) => setPayStatementId(e.target.value)}>
+                      <option value="">None</option>
+                      {paymentStatementOptions.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.statement_month}
+                          {s.due_date ? ` (Due ${s.due_date})` : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <FieldError errors={paymentErrors.errors} name="statement_id" />
+                  </label>
+                </>
+              ) : null}
 
-            <label>
-              Note (optional)
-              <input value={payNote} onChange={(e) => setPayNote(e.target.value)} placeholder="e.g., cash payment" />
-            </label>
+              <label>
+                Payment date
+                <input value={payDate} onChange={(e) => setPayDate(e.target.value)} type="date" required />
+                <FieldError errors={paymentErrors.errors} name="payment_date" />
+              </label>
+
+              <label>
+                Amount
+                <input value={payAmount} onChange={(e) => setPayAmount(e.target.value)} placeholder="e.g., 500" inputMode="decimal" />
+                <FieldError errors={paymentErrors.errors} name="amount" />
+              </label>
+
+              <label>
+                Note (optional)
+                <input value={payNote} onChange={(e) => setPayNote(e.target.value)} placeholder="e.g., cash payment" />
+                <FieldError errors={paymentErrors.errors} name="note" />
+              </label>
+
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+                  {editingPaymentId ? "Update Payment" : "Save Payment"}
+                </button>
 
-            <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-              <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
-                {editingPaymentId ? "Update Payment" : "Save Payment"}
-              </button>
+                {editingPaymentId ? (
+                  <button
+                    type="button"
+                    onClick={resetPaymentForm}
+                    style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Cancel Edit
+                  </button>
+                ) : null}
+              </div>
+            </form>
+          ) : null}
 
-              {editingPaymentId ? (
-                <button
-                  type="button"
-                  onClick={resetPaymentForm}
-                  style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
-                >
-                  Cancel Edit
-                </button>
-              ) : null}
+          <div style={{ marginTop: 16, fontWeight: 900 }}>
+            Latest Payments{paymentsTotal ? ` (showing ${loadedPayments.length} of ${paymentsTotal})` : ""}
+          </div>
+          {paymentsToReview ? (
+            <div style={{ marginTop: 6, color: "#b45309" }}>
+              {paymentsToReview} imported payment(s) fit more than one statement. Pick the right one below.
             </div>
-          </form>
-
-          <div style={{ marginTop: 16, fontWeight: 900 }}>Latest Payments (last 50)</div>
+          ) : null}
+          {editable ? (
+            <SelectionBar
+              count={chosenPayments.length}
+              total={payments.length}
+              onSelectAll={() => setSelectedPaymentIds(new Set(payments.map((p) => p.id)))}
+              onClear={() => setSelectedPaymentIds(new Set())}
+              onDelete={() => askDeletePayments(chosenPayments)}
+            />
+          ) : null}
+          {confirmFor("PAYMENTS")}
 
           {loading ? (
             <p style={{ marginTop: 10 }}>Loading…</p>
@@ -891,13 +1921,26 @@ export default function DashboardPage() {
             <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
               {payments.map((p) => {
                 const card = p.card_id ? cardMap.get(p.card_id) : null;
+                const loan = p.loan_id ? loanMap.get(p.loan_id) : null;
                 const options = p.card_id ? statementsByCard.get(p.card_id) ?? [] : [];
 
                 return (
                   <div key={p.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
-                    <div style={{ fontWeight: 900 }}>
-                      {p.kind} • {p.payment_date}
-                      {card ? ` • ${card.name}${card.bank ? " - " + card.bank : ""}` : ""}
+                    <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                      {editable ? (
+                        <input
+                          type="checkbox"
+                          checked={selectedPaymentIds.has(p.id)}
+                          onChange={() => setSelectedPaymentIds(toggle(selectedPaymentIds, p.id))}
+                          aria-label={`Select the payment of ${p.payment_date}`}
+                        />
+                      ) : null}
+                      <div style={{ fontWeight: 900 }}>
+                        {p.kind} • {p.payment_date}
+                        {card ? ` • ${card.name}${card.bank ? " - " + card.bank : ""}` : ""}
+                        {loan ? ` • ${loan.name}${loan.lender ? " - " + loan.lender : ""}` : ""}
+                      </div>
+                      <SyncBadge write={writeByRow.get(p.id)} />
                     </div>
 
                     <div style={{ marginTop: 6 }}>
@@ -905,52 +1948,167 @@ export default function DashboardPage() {
                     </div>
 
                     {p.note ? <div style={{ marginTop: 6, opacity: 0.8 }}>{p.note}</div> : null}
-
-                    <div style={{ marginTop: 10 }}>
-                      <div style={{ fontSize: 13, opacity: 0.8 }}>Linked statement (affects Paid/Pending):</div>
-                      <select
-                        value={p.statement_id ?? ""}
-                        onChange={(e) => updatePaymentStatement(p.id, e.target.value)}
-                        style={{ marginTop: 6 }}
-                      >
-                        <option value="">None</option>
-                        {options.map((s) => (
-                          <option key={s.id} value={s.id}>
-                            {s.statement_month}
-                            {s.due_date ? ` (Due ${s.due_date})` : ""}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
+                    {addedBy(p)}
+
+                    {p.kind === "CARD" ? (
+                      <StatementLink
+                        payment={p}
+                        card={card}
+                        statements={options}
+                        paid={paidByStatement}
+                        money={money}
+                        onLink={updatePaymentStatement}
+                        onConfirm={confirmPaymentMatch}
+                        readOnly={!editable}
+                      />
+                    ) : null}
 
                     <div style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}>
-                      <button
-                        type="button"
-                        onClick={() => startEditPayment(p)}
-                        style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
-                      >
-                        Edit
-                      </button>
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => startEditPayment(p)}
+                          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Edit
+                        </button>
+                      ) : null}
 
                       <button
                         type="button"
-                        onClick={() => deletePayment(p.id)}
+                        onClick={() =>
+                          setHistoryRecord({ table: "payments", id: p.id, title: `Payment of ${p.payment_date}` })
+                        }
                         style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
                       >
-                        Delete
+                        History
                       </button>
+
+                      {editable ? (
+                        <button
+                          type="button"
+                          onClick={() => deletePayment(p.id)}
+                          style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                        >
+                          Delete
+                        </button>
+                      ) : null}
                     </div>
                   </div>
                 );
               })}
+
+              {loadedPayments.length < paymentsTotal ? (
+                <button
+                  type="button"
+                  onClick={loadMorePayments}
+                  disabled={loadingMorePayments}
+                  style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+                >
+                  {loadingMorePayments ? "Loading…" : "Load more payments"}
+                </button>
+              ) : null}
             </div>
           )}
         </div>
       ) : null}
 
+      {/* ---------------- PEOPLE ---------------- */}
+      {tab === "PEOPLE" ? (
+        <PeopleTab
+          supabase={supabase}
+          counterparties={counterparties}
+          balances={balancesByPerson}
+          today={mountedToday}
+          loading={loading}
+          setMsg={setMsg}
+          onChanged={loadAll}
+          money={money}
+          inBase={inBase}
+        />
+      ) : null}
+
+      {/* ---------------- LOANS ---------------- */}
+      {tab === "LOANS" ? (
+        <LoansTab
+          loans={loans}
+          paidByLoan={paidByLoan}
+          today={mountedToday}
+          loading={loading}
+          setMsg={setMsg}
+          onChanged={loadAll}
+          money={money}
+          inBase={inBase}
+        />
+      ) : null}
+
       <div style={{ marginTop: 18, opacity: 0.65, fontSize: 12 }}>
-        Tip: For mobile, deploy on Vercel, then open the Vercel URL on Safari and “Add to Home Screen”.
+        Tip: Install the app (Safari: Share → “Add to Home Screen”; Chrome: “Install app”) and turn on due-date
+        notifications in <Link href="/settings">Settings</Link>.
       </div>
+
+      {historyRecord ? (
+        <HistoryDrawer
+          supabase={supabase}
+          record={historyRecord}
+          userId={userId}
+          members={memberEmails}
+          describe={describeHistoryValue}
+          onReverted={loadAll}
+          onClose={() => setHistoryRecord(null)}
+          readOnly={!editable}
+        />
+      ) : null}
+
+      <UndoToast history={undoHistory} onUndo={undoLatest} />
+    </div>
+  );
+}
+
+type SelectionBarProps = {
+  count: number;
+  total: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+};
+
+// shown once a row is ticked
+function SelectionBar({ count, total, onSelectAll, onClear, onDelete }: SelectionBarProps) {
+  if (!count) return null;
+  const button: React.CSSProperties = { padding: "8px 10px", borderRadius: 10, border: "1px solid #999" };
+
+  return (
+    <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+      <span style={{ fontWeight: 700 }}>{count} selected</span>
+      {count < total ? (
+        <button type="button" onClick={onSelectAll} style={button}>
+          Select all {total}
+        </button>
+      ) : null}
+      <button type="button" onClick={onClear} style={button}>
+        Clear
+      </button>
+      <button type="button" onClick={onDelete} style={{ ...button, marginLeft: "auto", color: "crimson" }}>
+        Delete selected
+      </button>
+    </div>
+  );
+}
+
+function CurrencyBreakdown({ totals, base, missing }: { totals: Map<string, number>; base: string; missing: string[] }) {
+  // only worth showing when more than one currency (or a foreign one) is involved
+  const entries = [...totals.entries()].sort(([a], [b]) => (a < b ? -1 : 1));
+  if (entries.length === 0 || (entries.length === 1 && entries[0][0] === base)) return null;
+
+  return (
+    <div style={{ marginTop: 6, fontSize: 13, opacity: 0.8 }}>
+      {entries.map(([currency, amount]) => (
+        <div key={currency}>
+          {currency} {amount.toFixed(2)}
+          {missing.includes(currency) ? <span style={{ color: "crimson" }}> (no rate, not in total)</span> : null}
+        </div>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { IouEntryForm, PersonForm, type IouEntryFormInput, type PersonFormInput } from "@/lib/validation";
+import * as peopleActions from "@/app/people/actions";
+import { FieldError, useFormErrors } from "./form-errors";
+
+type CounterpartyRow = Tables<"counterparties">;
+type PaymentRow = Tables<"payments">;
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  counterparties: CounterpartyRow[];
+  balances: Map<string, debt.Money[]>;
+  today: string;
+  loading: boolean;
+  setMsg: (msg: string) => void;
+  onChanged: () => Promise<void>;
+  money: (amount: number, currency: string | null | undefined) => string;
+  inBase: (amount: number, currency: string | null | undefined) => string;
+};
+
+export function PeopleTab({ supabase, counterparties, balances, today, loading, setMsg, onChanged, money, inBase }: Props) {
+  const [name, setName] = useState("");
+  const [contact, setContact] = useState("");
+
+  // ledger of the person currently opened
+  const [openId, setOpenId] = useState<string>("");
+  const [entries, setEntries] = useState<PaymentRow[]>([]);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+
+  const [direction, setDirection] = useState<debt.IouDirection>("LENT");
+  const [entryDate, setEntryDate] = useState("");
+  const [entryAmount, setEntryAmount] = useState("");
+  const [entryCurrency, setEntryCurrency] = useState("AED");
+  const [entryNote, setEntryNote] = useState("");
+
+  const personInput: PersonFormInput = { name, contact };
+  const entryInput: IouEntryFormInput = {
+    counterparty_id: openId,
+    direction,
+    payment_date: entryDate,
+    amount: entryAmount,
+    currency: entryCurrency,
+    note: entryNote,
+  };
+  const personForm = useFormErrors(PersonForm, personInput);
+  const entryForm = useFormErrors(IouEntryForm, entryInput);
+
+  async function addPerson(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+    if (!personForm.check().ok) return;
+
+    const result = await peopleActions.addPerson(personInput);
+    personForm.report(result);
+    if (!result.ok) {
+      setMsg("Save person error: " + result.error);
+      return;
+    }
+
+    setName("");
+    setContact("");
+    personForm.reset();
+    await onChanged();
+  }
+
+  async function deletePerson(id: string) {
+    setMsg("");
+    const result = await peopleActions.deletePerson(id);
+    if (!result.ok) {
+      setMsg("Delete person error: " + result.error);
+      return;
+    }
+    if (openId === id) setOpenId("");
+    await onChanged();
+  }
+
+  async function loadEntries(counterpartyId: string) {
+    setLoadingEntries(true);
+    const { data, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("kind", "IOU")
+      .eq("counterparty_id", counterpartyId)
+      .is("deleted_at", null)
+      .order("payment_date", { ascending: true })
+      .order("created_at", { ascending: true });
+    setLoadingEntries(false);
+
+    if (error) {
+      setMsg("Load ledger error: " + error.message);
+      return;
+    }
+    setEntries(data ?? []);
+  }
+
+  async function toggleLedger(id: string) {
+    setMsg("");
+    if (openId === id) {
+      setOpenId("");
+      return;
+    }
+    setOpenId(id);
+    setEntries([]);
+    setEntryDate(today);
+    entryForm.reset();
+    await loadEntries(id);
+  }
+
+  async function addEntry(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+    if (!entryForm.check().ok) return;
+
+    const result = await peopleActions.addIouEntry(entryInput);
+    entryForm.report(result);
+    if (!result.ok) {
+      setMsg("Save entry error: " + result.error);
+      return;
+    }
+
+    setEntryAmount("");
+    setEntryNote("");
+    entryForm.reset();
+    await Promise.all([loadEntries(openId), onChanged()]);
+  }
+
+  async function deleteEntry(id: string) {
+    setMsg("");
+    const result = await peopleActions.deleteIouEntry(id);
+    if (!result.ok) {
+      setMsg("Delete entry error: " + result.error);
+      return;
+    }
+    await Promise.all([loadEntries(openId), onChanged()]);
+  }
+
+  function balanceText(b: debt.Money) {
+    return b.amount > 0
+      ? `Owes you ${money(b.amount, b.currency)}`
+      : `You owe ${money(-b.amount, b.currency)}`;
+  }
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>People (IOUs)</div>
+
+      <form onSubmit={addPerson} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+        <label>
+          Name (required)
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Ahmed" required />
+          <FieldError errors={personForm.errors} name="name" />
+        </label>
+
+        <label>
+          Contact (optional)
+          <input value={contact} onChange={(e) => setContact(e.target.value)} placeholder="phone or email" />
+          <FieldError errors={personForm.errors} name="contact" />
+        </label>
+
+        <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+          Save Person
+        </button>
+      </form>
+
+      <div style={{ marginTop: 16, fontWeight: 900 }}>Your People</div>
+
+      {loading ? (
+        <p style={{ marginTop: 10 }}>Loading…</p>
+      ) : counterparties.length === 0 ? (
+        <p style={{ marginTop: 10 }}>No people yet.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          {counterparties.map((cp) => {
+            const personBalances = balances.get(cp.id) ?? [];
+            const open = openId === cp.id;
+
+            return (
+              <div key={cp.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                  <div style={{ fontWeight: 900 }}>
+                    {cp.name} {cp.contact ? `• ${cp.contact}` : ""}
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={() => deletePerson(cp.id)}
+                    style={{ marginLeft: "auto", padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Delete
+                  </button>
+                </div>
+
+                {personBalances.length === 0 ? (
+                  <div style={{ marginTop: 6, opacity: 0.8 }}>Settled up.</div>
+                ) : (
+                  personBalances.map((b) => (
+                    <div key={b.currency} style={{ marginTop: 6, fontWeight: 800 }}>
+                      {balanceText(b)}{" "}
+                      <span style={{ fontWeight: 400, opacity: 0.7 }}>{inBase(Math.abs(b.amount), b.currency)}</span>
+                    </div>
+                  ))
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => toggleLedger(cp.id)}
+                  style={{ marginTop: 10, padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                >
+                  {open ? "Hide ledger" : "Ledger"}
+                </button>
+
+                {open ? (
+                  <div style={{ marginTop: 10 }}>
+                    <form onSubmit={addEntry} style={{ display: "grid", gap: 10 }}>
+                      <label>
+                        Entry
+                        <select value={direction} onChange={(e) => setDirection(e.target.value as debt.IouDirection)}>
+                          {debt.IOU_DIRECTIONS.map((d) => (
+                            <option key={d} value={d}>
+                              {debt.IOU_DIRECTION_LABELS[d]}
+                            </option>
+                          ))}
+                        </select>
+                        <FieldError errors={entryForm.errors} name="direction" />
+                      </label>
+
+                      <label>
+                        Date
+                        <input value={entryDate} onChange={(e) => setEntryDate(e.target.value)} type="date" required />
+                        <FieldError errors={entryForm.errors} name="payment_date" />
+                      </label>
+
+                      <label>
+                        Amount
+                        <input
+                          value={entryAmount}
+                          onChange={(e) => setEntryAmount(e.target.value)}
+                          placeholder="e.g., 250"
+                          inputMode="decimal"
+                          required
+                        />
+                        <FieldError errors={entryForm.errors} name="amount" />
+                      </label>
+
+                      <label>
+                        Currency
+                        <input value={entryCurrency} onChange={(e) => setEntryCurrency(e.target.value)} />
+                        <FieldError errors={entryForm.errors} name="currency" />
+                      </label>
+
+                      <label>
+                        Note (optional)
+                        <input value={entryNote} onChange={(e) => setEntryNote(e.target.value)} placeholder="e.g., dinner" />
+                        <FieldError errors={entryForm.errors} name="note" />
+                      </label>
+
+                      <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+                        Add Entry
+                      </button>
+                    </form>
+
+                    {loadingEntries ? (
+                      <p style={{ marginTop: 10 }}>Loading…</p>
+                    ) : entries.length === 0 ? (
+                      <p style={{ marginTop: 10 }}>No entries yet.</p>
+                    ) : (
+                      <IouLedgerTable rows={debt.iouLedger(entries)} money={money} onDelete={deleteEntry} />
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IouLedgerTable({
+  rows,
+  money,
+  onDelete,
+}: {
+  rows: debt.IouLedgerRow<PaymentRow>[];
+  money: (amount: number, currency: string | null | undefined) => string;
+  onDelete: (id: string) => void;
+}) {
+  const cell: React.CSSProperties = { textAlign: "right", padding: 6, borderBottom: "1px solid #f3f3f3" };
+
+  return (
+    <div style={{ marginTop: 10, overflowX: "auto" }}>
+      <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: "left" }}>Date</th>
+            <th style={{ ...cell, textAlign: "left" }}>Entry</th>
+            <th style={cell}>Amount</th>
+            <th style={cell}>Balance</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ entry, balance }) => (
+            <tr key={entry.id}>
+              <td style={{ ...cell, textAlign: "left" }}>{entry.payment_date}</td>
+              <td style={{ ...cell, textAlign: "left" }}>
+                {debt.isIouDirection(entry.direction) ? debt.IOU_DIRECTION_LABELS[entry.direction] : entry.direction}
+                {entry.note ? <span style={{ opacity: 0.7 }}> • {entry.note}</span> : null}
+              </td>
+              <td style={cell}>{money(debt.toAmount(entry.amount), entry.currency)}</td>
+              <td style={cell}>
+                {balance === 0 ? "settled" : balance > 0 ? `owes you ${money(balance, entry.currency)}` : `you owe ${money(-balance, entry.currency)}`}
+              </td>
+              <td style={cell}>
+                <button
+                  type="button"
+                  onClick={() => onDelete(entry.id)}
+                  style={{ padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+
+type CardRow = Tables<"cards">;
+type StatementRow = Tables<"statements">;
+type PaymentRow = Tables<"payments">;
+
+const SUGGESTIONS = 3;
+
+type Props = {
+  payment: PaymentRow;
+  card: CardRow | null | undefined;
+  /** the card's statements */
+  statements: StatementRow[];
+  paid: debt.PaidMap;
+  money: (amount: number, currency: string | null | undefined) => string;
+  onLink: (paymentId: string, statementId: string) => void;
+  onConfirm: (paymentId: string) => void;
+  /** a viewer sees the link but can't change it */
+  readOnly?: boolean;
+};
+
+/**
+ * Which statement a card payment counts against (affects Paid/Pending).
+ * Shows the current link, or the matcher's best guesses to confirm with
+ * one click; "Change" lists every open statement of the card.
+ */
+export function StatementLink({ payment, card, statements, paid, money, onLink, onConfirm, readOnly = false }: Props) {
+  const [changing, setChanging] = useState(false);
+  const linked = payment.statement_id ? statements.find((s) => s.id === payment.statement_id) : null;
+
+  // a linked payment's own amount is already in `paid`; take it out before scoring
+  const paidWithout = new Map(paid);
+  if (payment.statement_id) {
+    paidWithout.set(payment.statement_id, (paid.get(payment.statement_id) ?? 0) - debt.toAmount(payment.amount));
+  }
+  const candidates = debt
+    .statementCandidates(payment, statements, paidWithout, card)
+    .filter((c) => c.statement.id !== payment.statement_id);
+  const shown = changing ? candidates : candidates.slice(0, SUGGESTIONS);
+
+  const small: React.CSSProperties = { padding: "4px 8px", borderRadius: 8, border: "1px solid #999", fontSize: 13 };
+
+  return (
+    <div style={{ marginTop: 10, fontSize: 13 }}>
+      {linked ? (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <span>
+            Counts against the <b>{linked.statement_month.slice(0, 7)}</b> statement
+            {linked.due_date ? ` (due ${linked.due_date})` : ""}
+          </span>
+          {payment.match_status === "AUTO" ? (
+            <>
+              <span style={{ opacity: 0.7 }}>matched automatically</span>
+              {!readOnly ? (
+                <button type="button" onClick={() => onConfirm(payment.id)} style={small}>
+                  Confirm
+                </button>
+              ) : null}
+            </>
+          ) : null}
+          {!readOnly ? (
+            <button type="button" onClick={() => setChanging(!changing)} style={small}>
+              {changing ? "Cancel" : "Change"}
+            </button>
+          ) : null}
+        </div>
+      ) : (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <span style={{ opacity: 0.8 }}>Not linked to a statement.</span>
+          {payment.match_status === "NEEDS_REVIEW" ? (
+            <span style={{ color: "#b45309", fontWeight: 700 }}>Several statements fit; pick one.</span>
+          ) : null}
+          {!readOnly && (candidates.length > SUGGESTIONS || changing) ? (
+            <button type="button" onClick={() => setChanging(!changing)} style={small}>
+              {changing ? "Fewer" : "All statements"}
+            </button>
+          ) : null}
+        </div>
+      )}
+
+      {!readOnly && (!linked || changing) ? (
+        <div style={{ display: "grid", gap: 6, marginTop: 6 }}>
+          {shown.map((c, i) => (
+            <button
+              key={c.statement.id}
+              type="button"
+              onClick={() => {
+                setChanging(false);
+                onLink(payment.id, c.statement.id);
+              }}
+              style={{ ...small, textAlign: "left" }}
+            >
+              {i === 0 && !changing ? "Best match: " : ""}
+              {c.statement.statement_month.slice(0, 7)} statement • pending {money(c.pending, c.statement.currency)}
+              <span style={{ opacity: 0.7 }}> • {c.reasons.join(", ")}</span>
+            </button>
+          ))}
+          {shown.length === 0 ? <span style={{ opacity: 0.7 }}>No open statement fits this payment.</span> : null}
+          {linked ? (
+            <button
+              type="button"
+              onClick={() => {
+                setChanging(false);
+                onLink(payment.id, "");
+              }}
+              style={{ ...small, textAlign: "left" }}
+            >
+              Don&apos;t count it against any statement
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
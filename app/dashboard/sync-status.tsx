@@ -0,0 +1,92 @@
+"use client";
+
+import React from "react";
+import type { QueuedWrite, SyncConflict } from "@/lib/offline/queue";
+
+type Props = {
+  writes: QueuedWrite[];
+  online: boolean;
+  syncing: boolean;
+  /** "Card X, statement 2026-09" and the like */
+  label: (write: QueuedWrite) => string;
+  onSync: () => void;
+  onRetry: (write: QueuedWrite) => void;
+  onDiscard: (write: QueuedWrite) => void;
+};
+
+const CONFLICT_TEXT: Record<SyncConflict, string> = {
+  CHANGED: "was changed on another device after you edited it here",
+  DELETED: "was deleted on another device",
+  EXISTS: "was also entered on another device",
+};
+
+const button: React.CSSProperties = { padding: "6px 10px", borderRadius: 8, border: "1px solid #999" };
+
+/**
+ * Statement and payment changes saved on this device but not on the server
+ * yet: how many are waiting, and the ones the server wouldn't take, each
+ * with a way to resolve it. Renders nothing when everything is synced.
+ */
+export function SyncStatus({ writes, online, syncing, label, onSync, onRetry, onDiscard }: Props) {
+  const pending = writes.filter((w) => w.status === "PENDING");
+  const stuck = writes.filter((w) => w.status !== "PENDING");
+  if (online && writes.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: "1px solid #f59e0b", borderRadius: 12, background: "#fffbeb" }}>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <span style={{ fontWeight: 800 }}>{online ? "Not synced yet" : "Offline"}</span>
+        <span>
+          {pending.length
+            ? `${pending.length} change(s) saved on this device${online ? "" : " will sync when you're back online"}.`
+            : online
+              ? ""
+              : "Changes to statements and payments are saved on this device until then."}
+        </span>
+        {online && pending.length ? (
+          <button type="button" onClick={onSync} disabled={syncing} style={{ ...button, marginLeft: "auto" }}>
+            {syncing ? "Syncing…" : "Sync now"}
+          </button>
+        ) : null}
+      </div>
+
+      {stuck.map((w) => (
+        <div key={w.id} style={{ marginTop: 8, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <span style={{ color: "crimson" }}>
+            {label(w)} {w.conflict ? CONFLICT_TEXT[w.conflict] : `couldn't be saved: ${w.error ?? "unknown error"}`}.
+          </span>
+          <span style={{ marginLeft: "auto", display: "flex", gap: 8 }}>
+            <button type="button" onClick={() => onRetry(w)} disabled={!online || syncing} style={button}>
+              {w.conflict ? "Keep mine" : "Retry"}
+            </button>
+            <button type="button" onClick={() => onDiscard(w)} style={button}>
+              Discard mine
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Marks a statement or payment whose latest change isn't on the server yet. */
+export function SyncBadge({ write }: { write: QueuedWrite | undefined }) {
+  if (!write) return null;
+  const color = write.status === "PENDING" ? "#b45309" : "crimson";
+
+  return (
+    <span
+      title={write.status === "PENDING" ? "Saved on this device, waiting to sync" : "See the sync notice above"}
+      style={{
+        padding: "2px 8px",
+        borderRadius: 999,
+        border: `1px dashed ${color}`,
+        color,
+        fontSize: 12,
+        fontWeight: 800,
+      }}
+    >
+      {write.status === "PENDING" ? "Not synced" : "Sync conflict"}
+    </span>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { ActionResult } from "@/lib/validation";
+
+/** A change that was saved and can be taken back with one tap. */
+export type UndoCommand = {
+  /** what was done: "Payment moved to the Trash." */
+  label: string;
+  /** shown once it's undone: "Payment restored." */
+  undoneLabel: string;
+  undo: () => Promise<ActionResult<unknown>>;
+};
+
+type Entry = UndoCommand & { id: number; expiresAt: number };
+
+// how long the toast offers the undo
+export const UNDO_WINDOW_MS = 10_000;
+const HISTORY_SIZE = 20;
+
+let nextId = 1;
+
+/**
+ * The dashboard's undo history: the latest changes, newest last, each
+ * undoable until its window runs out. Undoing one leaves the one before it
+ * on offer, if it's still in its window.
+ */
+export function useUndoHistory() {
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+
+  // drop entries as their windows run out
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const next = Math.min(...entries.map((e) => e.expiresAt));
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setEntries((prev) => prev.filter((e) => e.expiresAt > now));
+    }, Math.max(0, next - Date.now()));
+    return () => clearTimeout(timer);
+  }, [entries]);
+
+  return {
+    latest: entries.length ? entries[entries.length - 1] : null,
+    count: entries.length,
+    undoing,
+    push(command: UndoCommand) {
+      const entry = { ...command, id: nextId++, expiresAt: Date.now() + UNDO_WINDOW_MS };
+      setEntries((prev) => [...prev, entry].slice(-HISTORY_SIZE));
+    },
+    /** Undoes the latest change; null when there's nothing left to undo. */
+    async undo(): Promise<{ command: UndoCommand; result: ActionResult<unknown> } | null> {
+      const entry = entries[entries.length - 1];
+      if (!entry || undoing) return null;
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+      setUndoing(true);
+      const result = await entry.undo();
+      setUndoing(false);
+      return { command: entry, result };
+    },
+    dismiss() {
+      setEntries([]);
+    },
+  };
+}
+
+type Props = {
+  history: ReturnType<typeof useUndoHistory>;
+  onUndo: () => void;
+};
+
+const button: React.CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 8,
+  border: "1px solid #999",
+  background: "white",
+  fontWeight: 800,
+};
+
+/** The latest undoable change, pinned to the bottom of the screen. */
+export function UndoToast({ history, onUndo }: Props) {
+  const entry = history.latest;
+  if (!entry) return null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: "fixed",
+        left: "50%",
+        bottom: 16,
+        transform: "translateX(-50%)",
+        zIndex: 50,
+        display: "flex",
+        gap: 10,
+        alignItems: "center",
+        maxWidth: "calc(100% - 32px)",
+        padding: "10px 14px",
+        borderRadius: 12,
+        background: "#111",
+        color: "white",
+        boxShadow: "0 4px 16px rgba(0, 0, 0, 0.25)",
+      }}
+    >
+      <span>{entry.label}</span>
+      {history.count > 1 ? <span style={{ opacity: 0.7, fontSize: 13 }}>{history.count - 1} more to undo</span> : null}
+      <button type="button" onClick={onUndo} disabled={history.undoing} style={button}>
+        {history.undoing ? "Undoing…" : "Undo"}
+      </button>
+      <button
+        type="button"
+        onClick={history.dismiss}
+        aria-label="Dismiss"
+        style={{ ...button, background: "transparent", color: "white", fontWeight: 400 }}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
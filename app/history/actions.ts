@@ -0,0 +1,25 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import { validate, type ActionResult } from "@/lib/validation";
+
+/**
+ * Puts a card, statement or payment back to the version an audit log entry
+ * saved. The database refuses a record in the Trash, and a payment whose
+ * card or statement of that time is gone.
+ */
+export async function revertToVersion(entryId: number): Promise<ActionResult> {
+  const entry = validate(z.number().int().positive(), entryId);
+  if (!entry.ok) return { ok: false, error: "Invalid history entry" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.rpc("revert_to_audit_entry", { p_entry: entry.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
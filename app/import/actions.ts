@@ -0,0 +1,92 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import type { Json } from "@/lib/supabase/database.types";
+import {
+  PaymentImport,
+  StatementImport,
+  validate,
+  type ActionResult,
+  type FieldErrors,
+  type PaymentImportInput,
+  type StatementImportInput,
+} from "@/lib/validation";
+
+// The spreadsheet import. The wizard builds and checks the rows in the
+// browser; these check them again and hand them to the
+// import_statements_and_payments RPC, which writes them in one transaction.
+
+export type ImportResult = {
+  statements: number;
+  payments_inserted: number;
+  payments_skipped: number;
+};
+
+const ImportCounts = z.object({
+  statements: z.number(),
+  payments_inserted: z.number(),
+  payments_skipped: z.number(),
+});
+
+type Session = NonNullable<Awaited<ReturnType<typeof signedIn>>>;
+
+function rowError(fieldErrors: FieldErrors): ActionResult<never> {
+  const [row, message] = Object.entries(fieldErrors)[0];
+  return { ok: false, error: row === "_form" ? message : `Row ${Number(row) + 1}: ${message}` };
+}
+
+/** Null when every card the rows point at is there and not in the Trash. */
+async function missingCards(supabase: Session["supabase"], cardIds: string[]): Promise<string | null> {
+  const unique = [...new Set(cardIds)];
+  const { data, error } = await supabase.from("cards").select("id").in("id", unique).is("deleted_at", null);
+  if (error) return error.message;
+  return data.length === unique.length ? null : "A matched card is gone or in the Trash; match the cards again.";
+}
+
+async function runImport(
+  supabase: Session["supabase"],
+  statements: Json,
+  payments: Json,
+): Promise<ActionResult<ImportResult>> {
+  const { data, error } = await supabase.rpc("import_statements_and_payments", {
+    p_statements: statements,
+    p_payments: payments,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  const counts = ImportCounts.safeParse(data);
+  if (!counts.success) return { ok: false, error: "The import gave an unexpected reply." };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: counts.data };
+}
+
+/** Adds or updates the card statements of a sheet; a month the card already has is updated. */
+export async function importStatements(input: StatementImportInput): Promise<ActionResult<ImportResult>> {
+  const rows = validate(StatementImport, input);
+  if (!rows.ok) return rowError(rows.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const cardsError = await missingCards(session.supabase, rows.data.map((r) => r.card_id));
+  if (cardsError) return { ok: false, error: cardsError };
+
+  return runImport(session.supabase, rows.data, []);
+}
+
+/** Adds the card payments of a sheet; rows imported before (same import key) are skipped. */
+export async function importPayments(input: PaymentImportInput): Promise<ActionResult<ImportResult>> {
+  const rows = validate(PaymentImport, input);
+  if (!rows.ok) return rowError(rows.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const cardsError = await missingCards(session.supabase, rows.data.map((r) => r.card_id));
+  if (cardsError) return { ok: false, error: cardsError };
+
+  return runImport(session.supabase, [], rows.data);
+}
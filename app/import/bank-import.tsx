@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import * as csvImport from "@/lib/import";
+import type { BankPaymentFormInput } from "@/lib/validation";
+import * as paymentActions from "@/app/payments/actions";
+
+type CardRow = Tables<"cards">;
+type StatementRow = Tables<"statements">;
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  cards: CardRow[];
+  setMsg: (msg: string) => void;
+};
+
+// what happens to each selected transaction; "" = leave for review
+type Choice = { include: boolean; statementId: string };
+
+/**
+ * Card payments from a bank export (OFX/QFX or a bank's CSV). Each payment
+ * is matched to the card's open statements; clear matches are linked
+ * automatically, the rest can be picked here or later in PAYMENTS.
+ */
+export function BankImport({ supabase, cards, setMsg }: Props) {
+  const [fileName, setFileName] = useState("");
+  const [text, setText] = useState("");
+  const [adapterId, setAdapterId] = useState("");
+  const [cardId, setCardId] = useState("");
+  const [statements, setStatements] = useState<StatementRow[]>([]);
+  const [paid, setPaid] = useState<debt.PaidMap>(new Map());
+  const [choices, setChoices] = useState<Record<number, Choice>>({});
+  const [importing, setImporting] = useState(false);
+  const [done, setDone] = useState("");
+
+  const adapter = adapterId ? csvImport.bankAdapter(adapterId) : null;
+  const parsed = useMemo(() => (adapter && text ? adapter.parse(text) : null), [adapter, text]);
+  const transactions = useMemo(() => parsed?.transactions ?? [], [parsed]);
+  const card = cards.find((c) => c.id === cardId) ?? null;
+
+  // Matches in file order, each one counting the payments before it, so two
+  // payments can't both "pay in full" the same statement.
+  const matches = useMemo(() => {
+    if (!cardId) return [];
+    const running = new Map(paid);
+    return transactions.map((tx) => {
+      if (!csvImport.isLikelyCardPayment(tx)) return null;
+      const m = debt.matchStatement({ card_id: cardId, payment_date: tx.date, amount: tx.amount }, statements, running, card);
+      if (m.statement) running.set(m.statement.id, (running.get(m.statement.id) ?? 0) + tx.amount);
+      return m;
+    });
+  }, [transactions, statements, paid, cardId, card]);
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    setMsg("");
+    setDone("");
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const detected = csvImport.detectBankAdapter(content, file.name);
+    setFileName(file.name);
+    setText(content);
+    setAdapterId(detected?.id ?? "");
+    setChoices({});
+    if (!detected) setMsg("Couldn't recognise the file. Pick its format below.");
+  }
+
+  async function chooseCard(id: string) {
+    setCardId(id);
+    setChoices({});
+    if (!id) return;
+
+    const [statementsRes, totalsRes] = await Promise.all([
+      supabase.from("statements").select("*").eq("card_id", id).is("deleted_at", null),
+      supabase.from("statement_paid_totals").select("*").eq("card_id", id),
+    ]);
+    if (statementsRes.error) setMsg("Load statements error: " + statementsRes.error.message);
+    if (totalsRes.error) setMsg("Load paid totals error: " + totalsRes.error.message);
+    setStatements(statementsRes.data ?? []);
+    setPaid(debt.paidFromTotals(totalsRes.data ?? []));
+  }
+
+  function choiceFor(i: number): Choice {
+    const m = matches[i];
+    return choices[i] ?? { include: m !== null && m !== undefined, statementId: m?.statement?.id ?? "" };
+  }
+
+  function setChoice(i: number, patch: Partial<Choice>) {
+    setChoices({ ...choices, [i]: { ...choiceFor(i), ...patch } });
+  }
+
+  const selected = transactions.map((_, i) => i).filter((i) => choiceFor(i).include);
+
+  async function importPayments() {
+    setMsg("");
+    if (!card) {
+      setMsg("Select the card this export belongs to.");
+      return;
+    }
+
+    const keys = csvImport.bankImportKeys(card.id, transactions);
+    const rows = selected.map((i): BankPaymentFormInput => {
+      const tx = transactions[i];
+      const c = choiceFor(i);
+      const auto = matches[i]?.statement?.id;
+      const status = c.statementId
+        ? c.statementId === auto
+          ? "AUTO"
+          : "CONFIRMED"
+        : matches[i]?.status === "AMBIGUOUS"
+          ? "NEEDS_REVIEW"
+          : null;
+      return {
+        statement_id: c.statementId,
+        match_status: status,
+        payment_date: tx.date,
+        amount: String(tx.amount),
+        note: tx.description,
+        import_key: keys[i],
+      };
+    });
+
+    setImporting(true);
+    // rows imported before are skipped
+    const result = await paymentActions.importBankPayments(card.id, rows);
+    setImporting(false);
+
+    if (!result.ok) {
+      setMsg("Import error: " + result.error + " Nothing was imported.");
+      return;
+    }
+
+    const { added, skipped } = result.data;
+    setDone(`${added} payment(s) added${skipped ? `, ${skipped} already imported before` : ""}.`);
+    setChoices({});
+    await chooseCard(card.id);
+  }
+
+  const box: React.CSSProperties = { marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 };
+  const cell: React.CSSProperties = { textAlign: "left", padding: 6, borderBottom: "1px solid #f3f3f3", verticalAlign: "top" };
+
+  return (
+    <div style={box}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>Bank Export</div>
+      <p style={{ marginTop: 6, opacity: 0.8 }}>
+        OFX/QFX from any bank, or the CSV export of a supported bank. Credits on the card become payments; purchases are
+        ignored.
+      </p>
+
+      <div style={{ display: "flex", gap: 12, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <input type="file" accept=".ofx,.qfx,.csv,text/csv" onChange={onFile} disabled={importing} />
+        {fileName ? (
+          <label>
+            Format
+            <select value={adapterId} onChange={(e) => setAdapterId(e.target.value)} style={{ marginLeft: 6 }}>
+              <option value="">Select</option>
+              {csvImport.BANK_ADAPTERS.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+        {fileName ? (
+          <label>
+            Card
+            <select value={cardId} onChange={(e) => chooseCard(e.target.value)} style={{ marginLeft: 6 }}>
+              <option value="">Select</option>
+              {cards.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                  {c.bank ? ` - ${c.bank}` : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+
+      {parsed?.errors.length ? (
+        <div style={{ marginTop: 10, fontSize: 13, color: "crimson" }}>
+          {parsed.errors.slice(0, 5).map((e) => (
+            <div key={e}>{e}</div>
+          ))}
+          {parsed.errors.length > 5 ? <div>…and {parsed.errors.length - 5} more</div> : null}
+        </div>
+      ) : null}
+
+      {done ? <p style={{ marginTop: 10 }}>{done}</p> : null}
+
+      {parsed && cardId ? (
+        transactions.length === 0 ? (
+          <p style={{ marginTop: 10 }}>No transactions in the file.</p>
+        ) : (
+          <>
+            <div style={{ marginTop: 10, overflowX: "auto" }}>
+              <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th style={cell}>Import</th>
+                    <th style={cell}>Date</th>
+                    <th style={cell}>Description</th>
+                    <th style={{ ...cell, textAlign: "right" }}>Amount</th>
+                    <th style={cell}>Statement</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transactions.map((tx, i) => {
+                    const m = matches[i];
+                    const c = choiceFor(i);
+                    return (
+                      <tr key={i} style={{ opacity: tx.amount > 0 ? 1 : 0.5 }}>
+                        <td style={cell}>
+                          <input
+                            type="checkbox"
+                            checked={c.include}
+                            disabled={tx.amount <= 0}
+                            onChange={(e) => setChoice(i, { include: e.target.checked })}
+                          />
+                        </td>
+                        <td style={cell}>{tx.date}</td>
+                        <td style={cell}>{tx.description}</td>
+                        <td style={{ ...cell, textAlign: "right" }}>{tx.amount.toFixed(2)}</td>
+                        <td style={cell}>
+                          {tx.amount <= 0 ? (
+                            <span style={{ opacity: 0.7 }}>purchase / charge</span>
+                          ) : (
+                            <>
+                              <select
+                                value={c.statementId}
+                                onChange={(e) => setChoice(i, { statementId: e.target.value })}
+                                disabled={!c.include}
+                              >
+                                <option value="">{m?.status === "AMBIGUOUS" ? "Decide later" : "None"}</option>
+                                {(m?.candidates ?? []).map((cand) => (
+                                  <option key={cand.statement.id} value={cand.statement.id}>
+                                    {cand.statement.statement_month.slice(0, 7)} • pending {cand.pending.toFixed(2)} •{" "}
+                                    {cand.reasons.join(", ")}
+                                  </option>
+                                ))}
+                              </select>
+                              {m?.status === "MATCHED" && c.statementId === m.statement?.id ? (
+                                <span style={{ marginLeft: 6, opacity: 0.7 }}>auto</span>
+                              ) : null}
+                              {m?.status === "AMBIGUOUS" && !c.statementId ? (
+                                <span style={{ marginLeft: 6, color: "#b45309" }}>several fit</span>
+                              ) : null}
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              type="button"
+              onClick={importPayments}
+              disabled={importing || selected.length === 0}
+              style={{ marginTop: 12, padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+            >
+              {importing ? "Importing…" : `Import ${selected.length} payment(s)`}
+            </button>
+          </>
+        )
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/lib/supabase/database.types";
+import { parseCsv } from "@/lib/csv";
+import * as csvImport from "@/lib/import";
+import { loadWorkspaces, type Membership } from "@/lib/workspace";
+import * as importActions from "./actions";
+import { BankImport } from "./bank-import";
+
+type CardRow = Tables<"cards">;
+
+type Mode = "SHEET" | "BANK";
+
+type Step = "UPLOAD" | "MAP" | "CARDS" | "PREVIEW" | "DONE";
+
+const KIND_LABELS: Record<csvImport.ImportKind, string> = {
+  STATEMENTS: "Statements",
+  PAYMENTS: "Card payments",
+};
+
+const PREVIEW_LIMIT = 200;
+
+export default function ImportPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [msg, setMsg] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+  const [cards, setCards] = useState<CardRow[]>([]);
+  // rows go to the cards of the workspace open on the dashboard
+  const [workspace, setWorkspace] = useState<Membership | null>(null);
+
+  const [mode, setMode] = useState<Mode>("SHEET");
+  const [step, setStep] = useState<Step>("UPLOAD");
+  const [kind, setKind] = useState<csvImport.ImportKind>("STATEMENTS");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<csvImport.ColumnMapping>({});
+  // normalized sheet name -> card id ("" = not chosen yet)
+  const [cardChoices, setCardChoices] = useState<Record<string, string>>({});
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<importActions.ImportResult | null>(null);
+
+  useEffect(() => {
+    void loadCards();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function loadCards() {
+    setLoading(true);
+
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) {
+      setSignedIn(false);
+      setLoading(false);
+      return;
+    }
+    setSignedIn(true);
+
+    const { current, error: workspaceError } = await loadWorkspaces(supabase, user.id);
+    if (workspaceError) setMsg("Load workspaces error: " + workspaceError.message);
+    setWorkspace(current);
+
+    const { data, error } = await supabase
+      .from("cards")
+      .select("*")
+      .eq("workspace_id", current?.workspace.id ?? "")
+      .is("deleted_at", null)
+      .order("name");
+    if (error) setMsg("Load cards error: " + error.message);
+    setCards(data ?? []);
+    setLoading(false);
+  }
+
+  // ---------------- Step 1: upload ----------------
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    setMsg("");
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      setMsg("The file needs a header row and at least one data row.");
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].map((h) => h.trim()));
+    setRecords(rows.slice(1));
+    setMapping(csvImport.guessMapping(rows[0], kind));
+    setResult(null);
+    setStep("MAP");
+  }
+
+  function changeKind(next: csvImport.ImportKind) {
+    setKind(next);
+    if (headers.length) setMapping(csvImport.guessMapping(headers, next));
+  }
+
+  // ---------------- Step 2: columns ----------------
+  const fields = csvImport.IMPORT_FIELDS[kind];
+  const missing = csvImport.missingRequiredFields(mapping, kind);
+
+  // ---------------- Step 3: cards ----------------
+  const sheetCardNames = useMemo(() => {
+    const i = mapping.card ?? -1;
+    if (i < 0) return [];
+    const names = new Map<string, string>();
+    for (const r of records) {
+      const raw = (r[i] ?? "").trim();
+      if (raw) names.set(csvImport.normalizeCardName(raw), raw);
+    }
+    return [...names.entries()].map(([key, raw]) => ({ key, raw }));
+  }, [records, mapping.card]);
+
+  function goToCards() {
+    const choices: Record<string, string> = {};
+    for (const { key, raw } of sheetCardNames) {
+      choices[key] = cardChoices[key] ?? csvImport.matchCardName(raw, cards) ?? "";
+    }
+    setCardChoices(choices);
+    setStep("CARDS");
+  }
+
+  // ---------------- Step 4: preview ----------------
+  const lookup = useMemo<csvImport.CardLookup>(() => {
+    const cardIds = new Map<string, string>();
+    for (const [key, id] of Object.entries(cardChoices)) if (id) cardIds.set(key, id);
+    return { cardIds, cardCurrencies: new Map(cards.map((c) => [c.id, c.currency])) };
+  }, [cardChoices, cards]);
+
+  const preview = useMemo(() => {
+    if (step !== "PREVIEW") return [];
+    return kind === "STATEMENTS"
+      ? csvImport.buildStatementRows(records, mapping, lookup)
+      : csvImport.buildPaymentRows(records, mapping, lookup);
+  }, [step, kind, records, mapping, lookup]);
+
+  const validRows = preview.filter((r) => r.row !== null);
+  const invalidCount = preview.length - validRows.length;
+
+  async function commitImport() {
+    setMsg("");
+    setImporting(true);
+
+    // built again per kind, so each action gets its own row type; the preview mixes both
+    const imported =
+      kind === "STATEMENTS"
+        ? await importActions.importStatements(
+            csvImport.buildStatementRows(records, mapping, lookup).flatMap((r) => (r.row ? [r.row] : [])),
+          )
+        : await importActions.importPayments(
+            csvImport.buildPaymentRows(records, mapping, lookup).flatMap((r) => (r.row ? [r.row] : [])),
+          );
+
+    setImporting(false);
+    if (!imported.ok) {
+      setMsg("Import error: " + imported.error + " Nothing was imported.");
+      return;
+    }
+
+    setResult(imported.data);
+    setStep("DONE");
+  }
+
+  function startOver() {
+    setStep("UPLOAD");
+    setFileName("");
+    setHeaders([]);
+    setRecords([]);
+    setMapping({});
+    setResult(null);
+    setMsg("");
+  }
+
+  // ---------------- UI ----------------
+  if (!loading && !signedIn) {
+    return (
+      <div style={{ padding: 16, maxWidth: 900, margin: "0 auto" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>Import</h1>
+        <p style={{ marginTop: 10 }}>Please sign in first.</p>
+        <div style={{ marginTop: 10 }}>
+          <Link href="/auth/login">Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const box: React.CSSProperties = { marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 };
+  const button: React.CSSProperties = { padding: "10px 12px", borderRadius: 10, border: "1px solid #999" };
+  const cell: React.CSSProperties = { textAlign: "left", padding: 6, borderBottom: "1px solid #f3f3f3", verticalAlign: "top" };
+
+  return (
+    <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Import</h1>
+        {workspace && !workspace.workspace.personal ? (
+          <div style={{ opacity: 0.75 }}>in {workspace.workspace.name}</div>
+        ) : null}
+        <Link href="/dashboard" style={{ marginLeft: "auto" }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      <div style={{ marginTop: 16, display: "flex", gap: 8, flexWrap: "wrap" }}>
+        {(["SHEET", "BANK"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => {
+              setMode(m);
+              setMsg("");
+            }}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 999,
+              border: "1px solid #999",
+              fontWeight: mode === m ? 900 : 600,
+              opacity: mode === m ? 1 : 0.75,
+            }}
+          >
+            {m === "SHEET" ? "Spreadsheet (statements or payments)" : "Bank export (OFX, bank CSV)"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "BANK" ? <BankImport supabase={supabase} cards={cards} setMsg={setMsg} /> : null}
+
+      {/* ---------------- Step 1 ---------------- */}
+      {mode === "SHEET" ? (
+        <div style={box}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>1. File</div>
+          <p style={{ marginTop: 6, opacity: 0.8 }}>
+            One row per statement or per payment, with a header row. Importing the same file again doesn&apos;t create
+            duplicates: statements are matched by card and month, payments by card, date and amount.
+          </p>
+
+          <div style={{ display: "flex", gap: 12, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <label>
+              Importing
+              <select
+                value={kind}
+                onChange={(e) => changeKind(e.target.value as csvImport.ImportKind)}
+                disabled={step === "PREVIEW" || importing}
+                style={{ marginLeft: 6 }}
+              >
+                {csvImport.IMPORT_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <input type="file" accept=".csv,text/csv" onChange={onFile} disabled={loading || importing} />
+            {fileName ? (
+              <span style={{ opacity: 0.8 }}>
+                {fileName}: {records.length} row(s)
+              </span>
+            ) : null}
+          </div>
+
+          {!loading && cards.length === 0 ? (
+            <p style={{ marginTop: 10, color: "crimson" }}>Add your cards on the dashboard first; imported rows attach to them.</p>
+          ) : null}
+        </div>
+      ) : null}
+
+      {/* ---------------- Step 2 ---------------- */}
+      {mode === "SHEET" && step !== "UPLOAD" && step !== "DONE" ? (
+        <div style={box}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>2. Columns</div>
+
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {fields.map((f) => (
+              <label key={f.key}>
+                {f.label}
+                {f.required ? " (required)" : ""}
+                <select
+                  value={mapping[f.key] ?? -1}
+                  onChange={(e) => setMapping({ ...mapping, [f.key]: Number(e.target.value) })}
+                  disabled={step !== "MAP"}
+                  style={{ marginLeft: 6 }}
+                >
+                  <option value={-1}>Don&apos;t import</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {step === "MAP" ? (
+            <div style={{ marginTop: 12 }}>
+              {missing.length ? (
+                <p style={{ color: "crimson" }}>Choose a column for: {missing.map((f) => f.label).join(", ")}.</p>
+              ) : null}
+              <button type="button" onClick={goToCards} disabled={missing.length > 0} style={button}>
+                Next: match cards
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {/* ---------------- Step 3 ---------------- */}
+      {mode === "SHEET" && (step === "CARDS" || step === "PREVIEW") ? (
+        <div style={box}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>3. Cards</div>
+          <p style={{ marginTop: 6, opacity: 0.8 }}>Each card name in the file must point at one of your cards.</p>
+
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {sheetCardNames.map(({ key, raw }) => (
+              <label key={key}>
+                &quot;{raw}&quot; →
+                <select
+                  value={cardChoices[key] ?? ""}
+                  onChange={(e) => setCardChoices({ ...cardChoices, [key]: e.target.value })}
+                  disabled={step !== "CARDS"}
+                  style={{ marginLeft: 6 }}
+                >
+                  <option value="">Skip these rows</option>
+                  {cards.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                      {c.bank ? ` - ${c.bank}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {step === "CARDS" ? (
+            <div style={{ marginTop: 12, display: "flex", gap: 10 }}>
+              <button type="button" onClick={() => setStep("MAP")} style={button}>
+                Back
+              </button>
+              <button type="button" onClick={() => setStep("PREVIEW")} style={button}>
+                Next: preview
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {/* ---------------- Step 4 ---------------- */}
+      {mode === "SHEET" && step === "PREVIEW" ? (
+        <div style={box}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>4. Preview</div>
+          <p style={{ marginTop: 6 }}>
+            {validRows.length} row(s) ready
+            {invalidCount ? <span style={{ color: "crimson" }}> • {invalidCount} row(s) with errors will be skipped</span> : null}
+          </p>
+
+          <div style={{ marginTop: 10, overflowX: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+              <thead>
+                <tr>
+                  <th style={cell}>Line</th>
+                  {fields
+                    .filter((f) => (mapping[f.key] ?? -1) >= 0)
+                    .map((f) => (
+                      <th key={f.key} style={cell}>
+                        {f.label}
+                      </th>
+                    ))}
+                  <th style={cell}>Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.slice(0, PREVIEW_LIMIT).map((r) => (
+                  <tr key={r.line} style={{ background: r.errors.length ? "#fff3f3" : undefined }}>
+                    <td style={cell}>{r.line}</td>
+                    {fields
+                      .filter((f) => (mapping[f.key] ?? -1) >= 0)
+                      .map((f) => (
+                        <td key={f.key} style={cell}>
+                          {r.cells[f.key]}
+                        </td>
+                      ))}
+                    <td style={{ ...cell, color: "crimson" }}>{r.errors.join(" ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.length > PREVIEW_LIMIT ? (
+              <p style={{ marginTop: 6, opacity: 0.8 }}>Showing the first {PREVIEW_LIMIT} of {preview.length} rows.</p>
+            ) : null}
+          </div>
+
+          <div style={{ marginTop: 12, display: "flex", gap: 10 }}>
+            <button type="button" onClick={() => setStep("CARDS")} disabled={importing} style={button}>
+              Back
+            </button>
+            <button type="button" onClick={commitImport} disabled={importing || validRows.length === 0} style={button}>
+              {importing ? "Importing…" : `Import ${validRows.length} row(s)`}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {/* ---------------- Done ---------------- */}
+      {mode === "SHEET" && step === "DONE" && result ? (
+        <div style={box}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Done</div>
+          {kind === "STATEMENTS" ? (
+            <p style={{ marginTop: 6 }}>{result.statements} statement(s) created or updated.</p>
+          ) : (
+            <p style={{ marginTop: 6 }}>
+              {result.payments_inserted} payment(s) added
+              {result.payments_skipped ? `, ${result.payments_skipped} already imported before` : ""}.
+            </p>
+          )}
+          <div style={{ marginTop: 12, display: "flex", gap: 10 }}>
+            <button type="button" onClick={startOver} style={button}>
+              Import another file
+            </button>
+            <Link href="/dashboard">Back to dashboard</Link>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
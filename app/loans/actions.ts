@@ -0,0 +1,38 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import { invalid, LoanForm, requiredId, validate, type ActionResult, type LoanFormInput } from "@/lib/validation";
+
+export async function addLoan(input: LoanFormInput): Promise<ActionResult> {
+  const values = validate(LoanForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.from("loans").insert({ ...values.data, user_id: session.user.id });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+export async function deleteLoan(id: string): Promise<ActionResult> {
+  const loanId = validate(requiredId(), id);
+  if (!loanId.ok) return { ok: false, error: "Missing loan id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  // fails while payments still reference the loan (FK), trashed ones too
+  const { data, error } = await session.supabase.from("loans").delete().eq("id", loanId.data).select("id");
+  if (error?.code === "23503") {
+    return { ok: false, error: "Delete the loan's payments first, including any in the Trash." };
+  }
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That loan is gone, or isn't yours to delete." };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
@@ -0,0 +1,355 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { SIGNED_OUT, signedIn, staleWrite } from "@/lib/supabase/action";
+import {
+  BankImportForm,
+  idList,
+  invalid,
+  MatchStatus,
+  optionalId,
+  PaymentForm,
+  requiredId,
+  validate,
+  type ActionResult,
+  type BankPaymentFormInput,
+  type PaymentFormInput,
+} from "@/lib/validation";
+
+type Session = NonNullable<Awaited<ReturnType<typeof signedIn>>>;
+
+type PaymentRow = z.output<typeof PaymentForm> & {
+  match_status: string | null;
+  currency: string;
+};
+
+/**
+ * The validated payment as a row: checks the card, statement or loan it
+ * points at and takes its currency, like the payment form always did.
+ */
+async function paymentRow(supabase: Session["supabase"], input: PaymentFormInput): Promise<ActionResult<PaymentRow>> {
+  const values = validate(PaymentForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+  const p = values.data;
+
+  if (p.kind === "LOAN") {
+    const { data: loan, error } = await supabase.from("loans").select("currency").eq("id", p.loan_id!).maybeSingle();
+    if (error) return { ok: false, error: error.message };
+    if (!loan) return invalid({ loan_id: "Loan not found" });
+    return { ok: true, data: { ...p, match_status: null, currency: loan.currency ?? "AED" } };
+  }
+
+  const { data: card, error } = await supabase
+    .from("cards")
+    .select("currency")
+    .eq("id", p.card_id!)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) return { ok: false, error: error.message };
+  if (!card) return invalid({ card_id: "Card not found" });
+
+  if (p.statement_id) {
+    const { data: statement, error: statementError } = await supabase
+      .from("statements")
+      .select("card_id")
+      .eq("id", p.statement_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+    if (statementError) return { ok: false, error: statementError.message };
+    if (statement?.card_id !== p.card_id) return invalid({ statement_id: "Not a statement of this card" });
+  }
+
+  return {
+    ok: true,
+    data: { ...p, match_status: p.statement_id ? "CONFIRMED" : null, currency: card.currency ?? "AED" },
+  };
+}
+
+/**
+ * `id` is made by the browser, so an offline copy of the same payment can't
+ * land twice: sending it again after a lost response finds it already saved.
+ */
+export async function addPayment(id: string, input: PaymentFormInput): Promise<ActionResult> {
+  if (!validate(requiredId(), id).ok) return { ok: false, error: "Invalid payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const row = await paymentRow(session.supabase, input);
+  if (!row.ok) return row;
+
+  const { error } = await session.supabase.from("payments").insert({ ...row.data, id, user_id: session.user.id });
+  if (error && error.code !== "23505") return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/**
+ * With `baseUpdatedAt` (an edit saved offline), only the version the edit
+ * was made on is updated; anything else is refused as a conflict.
+ */
+export async function updatePayment(
+  id: string,
+  input: PaymentFormInput,
+  baseUpdatedAt?: string,
+): Promise<ActionResult> {
+  if (!validate(requiredId(), id).ok) return { ok: false, error: "Invalid payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const row = await paymentRow(session.supabase, input);
+  if (!row.ok) return row;
+
+  const live = session.supabase.from("payments").update(row.data).eq("id", id).is("deleted_at", null);
+  const { data, error } = await (baseUpdatedAt ? live.eq("updated_at", baseUpdatedAt) : live).select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return staleWrite(session.supabase, "payments", id);
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/**
+ * Adds the credits picked on the bank import as payments on one card, in
+ * the card's currency like the payment form.
+ * Rows imported before (same import key) are skipped; the rest go in
+ * together or not at all.
+ */
+export async function importBankPayments(
+  cardId: string,
+  input: BankPaymentFormInput[],
+): Promise<ActionResult<{ added: number; skipped: number }>> {
+  if (!validate(requiredId(), cardId).ok) return { ok: false, error: "Select the card this export belongs to." };
+  const rows = validate(BankImportForm, input);
+  if (!rows.ok) {
+    const [row, message] = Object.entries(rows.fieldErrors)[0];
+    return { ok: false, error: row === "_form" ? message : `Payment ${Number(row) + 1}: ${message}` };
+  }
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const statementIds = [...new Set(rows.data.flatMap((r) => (r.statement_id ? [r.statement_id] : [])))];
+  const [cardRes, statementsRes] = await Promise.all([
+    supabase.from("cards").select("currency").eq("id", cardId).is("deleted_at", null).maybeSingle(),
+    supabase.from("statements").select("id").eq("card_id", cardId).is("deleted_at", null).in("id", statementIds),
+  ]);
+  if (cardRes.error) return { ok: false, error: cardRes.error.message };
+  if (statementsRes.error) return { ok: false, error: statementsRes.error.message };
+  if (!cardRes.data) return { ok: false, error: "Card not found" };
+  const currency = cardRes.data.currency ?? "AED";
+  if (statementsRes.data.length !== statementIds.length) {
+    return { ok: false, error: "A picked statement isn't one of this card's, or is in the Trash." };
+  }
+
+  const { data, error } = await supabase
+    .from("payments")
+    .upsert(
+      rows.data.map((r) => ({ ...r, kind: "CARD", card_id: cardId, currency, user_id: user.id })),
+      { onConflict: "user_id,import_key", ignoreDuplicates: true },
+    )
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: { added: data.length, skipped: rows.data.length - data.length } };
+}
+
+/** Moves the payment to the Trash. */
+export async function deletePayment(id: string): Promise<ActionResult> {
+  const paymentId = validate(requiredId(), id);
+  if (!paymentId.ok) return { ok: false, error: "Missing payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("payments")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", paymentId.data)
+    .is("deleted_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "Payment not found, or already in the Trash." };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/** Takes a payment (or IOU entry) out of the Trash, unless its card is still there. */
+export async function restorePayment(id: string): Promise<ActionResult> {
+  const paymentId = validate(requiredId(), id);
+  if (!paymentId.ok) return { ok: false, error: "Missing payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase } = session;
+
+  const { data: payment, error: findError } = await supabase
+    .from("payments")
+    .select("id, card:cards(deleted_at)")
+    .eq("id", paymentId.data)
+    .not("deleted_at", "is", null)
+    .maybeSingle();
+  if (findError) return { ok: false, error: findError.message };
+  if (!payment) return { ok: false, error: "That payment isn't in the Trash." };
+  if (payment.card?.deleted_at) return { ok: false, error: "Its card is in the Trash; restore the card first." };
+
+  const { data, error } = await supabase
+    .from("payments")
+    .update({ deleted_at: null })
+    .eq("id", payment.id)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That payment isn't in the Trash." };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/** Moves the selected payments to the Trash. */
+export async function deletePayments(ids: string[]): Promise<ActionResult<{ deleted: number }>> {
+  const paymentIds = validate(idList, ids);
+  if (!paymentIds.ok) return { ok: false, error: paymentIds.fieldErrors._form ?? "Invalid payment ids" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("payments")
+    .update({ deleted_at: new Date().toISOString() })
+    .in("id", paymentIds.data)
+    .is("deleted_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { deleted: data.length } };
+}
+
+/** Takes the payments out of the Trash again; those whose card is there now stay. */
+export async function restorePayments(ids: string[]): Promise<ActionResult<{ restored: number }>> {
+  const paymentIds = validate(idList, ids);
+  if (!paymentIds.ok) return { ok: false, error: paymentIds.fieldErrors._form ?? "Invalid payment ids" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase } = session;
+
+  const { data: trashed, error: findError } = await supabase
+    .from("payments")
+    .select("id, card:cards(deleted_at)")
+    .in("id", paymentIds.data)
+    .not("deleted_at", "is", null);
+  if (findError) return { ok: false, error: findError.message };
+
+  const restorable = trashed.filter((p) => !p.card?.deleted_at).map((p) => p.id);
+  if (restorable.length === 0) return { ok: false, error: "Those payments aren't in the Trash, or their card is." };
+
+  const { data, error } = await supabase
+    .from("payments")
+    .update({ deleted_at: null })
+    .in("id", restorable)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "Those payments aren't in the Trash, or their card is." };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { restored: data.length } };
+}
+
+/** Deletes a trashed payment for good. */
+export async function purgePayment(id: string): Promise<ActionResult> {
+  const paymentId = validate(requiredId(), id);
+  if (!paymentId.ok) return { ok: false, error: "Missing payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("payments")
+    .delete()
+    .eq("id", paymentId.data)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That payment isn't in the Trash." };
+
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/**
+ * Links a card payment to one of its card's statements, or unlinks it ("").
+ * A link picked by hand is CONFIRMED; undo passes the status it had before.
+ */
+export async function linkPaymentStatement(
+  paymentId: string,
+  statementId: string,
+  matchStatus: string | null = "CONFIRMED",
+): Promise<ActionResult> {
+  const payment = validate(requiredId(), paymentId);
+  const statement = validate(optionalId, statementId);
+  if (!payment.ok || !statement.ok) return { ok: false, error: "Invalid payment or statement id" };
+  const status = validate(MatchStatus, matchStatus);
+  if (!status.ok) return { ok: false, error: "Invalid match status" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase } = session;
+
+  if (statement.data) {
+    const [paymentRes, statementRes] = await Promise.all([
+      supabase.from("payments").select("card_id").eq("id", payment.data).maybeSingle(),
+      supabase.from("statements").select("card_id").eq("id", statement.data).is("deleted_at", null).maybeSingle(),
+    ]);
+    if (paymentRes.error) return { ok: false, error: paymentRes.error.message };
+    if (statementRes.error) return { ok: false, error: statementRes.error.message };
+    if (!paymentRes.data?.card_id || paymentRes.data.card_id !== statementRes.data?.card_id) {
+      return { ok: false, error: "That statement belongs to another card." };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("payments")
+    .update({ statement_id: statement.data, match_status: status.data })
+    .eq("id", payment.data)
+    .is("deleted_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That payment is gone or in the Trash." };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/** Keeps the link the matcher made. */
+export async function confirmPaymentMatch(paymentId: string): Promise<ActionResult> {
+  const payment = validate(requiredId(), paymentId);
+  if (!payment.ok) return { ok: false, error: "Missing payment id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("payments")
+    .update({ match_status: "CONFIRMED" })
+    .eq("id", payment.data)
+    .is("deleted_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That payment is gone or in the Trash." };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
@@ -0,0 +1,86 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import {
+  invalid,
+  IouEntryForm,
+  PersonForm,
+  requiredId,
+  validate,
+  type ActionResult,
+  type IouEntryFormInput,
+  type PersonFormInput,
+} from "@/lib/validation";
+
+export async function addPerson(input: PersonFormInput): Promise<ActionResult> {
+  const values = validate(PersonForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.from("counterparties").insert({ ...values.data, user_id: session.user.id });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+export async function deletePerson(id: string): Promise<ActionResult> {
+  const personId = validate(requiredId(), id);
+  if (!personId.ok) return { ok: false, error: "Missing person id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  // fails while ledger entries still reference the person (FK), trashed ones too
+  const { data, error } = await session.supabase.from("counterparties").delete().eq("id", personId.data).select("id");
+  if (error?.code === "23503") {
+    return { ok: false, error: "Delete this person's ledger entries first, including any in the Trash." };
+  }
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That person is gone, or isn't yours to delete." };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+export async function addIouEntry(input: IouEntryFormInput): Promise<ActionResult> {
+  const values = validate(IouEntryForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("payments")
+    .insert({ ...values.data, kind: "IOU", user_id: session.user.id });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/** Moves the entry to the Trash, like any other payment. */
+export async function deleteIouEntry(id: string): Promise<ActionResult> {
+  const entryId = validate(requiredId(), id);
+  if (!entryId.ok) return { ok: false, error: "Missing entry id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("payments")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", entryId.data)
+    .eq("kind", "IOU")
+    .is("deleted_at", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That entry is gone or already in the Trash." };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
@@ -0,0 +1,471 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { firstDayOfMonth, isoToday } from "@/lib/debt";
+import { loadWorkspaces, type Membership } from "@/lib/workspace";
+
+type CardRow = Tables<"cards">;
+type StatementRow = Tables<"statements">;
+type PaidTotalRow = Tables<"statement_paid_totals">;
+type FxRateRow = Tables<"fx_rates">;
+type InstallmentPlanRow = Tables<"installment_plans">;
+
+type CardTerms = {
+  apr: string;
+  minPercent: string;
+  minFloor: string;
+};
+
+type PlannerSettings = {
+  budget: string;
+  terms: Record<string, CardTerms>;
+  customOrder: string[];
+};
+
+// Planner inputs are kept in the browser between visits.
+const STORAGE_KEY = "debt-tracker:planner";
+
+const DEFAULT_TERMS: CardTerms = { apr: "36", minPercent: "5", minFloor: "100" };
+
+// Starting point for a card the user hasn't tuned here: whatever the card
+// itself stores, falling back to typical UAE terms.
+function cardTerms(card: CardRow, floorInBase: number | null): CardTerms {
+  return {
+    apr: card.purchase_apr != null ? String(card.purchase_apr) : DEFAULT_TERMS.apr,
+    minPercent: card.min_payment_percent != null ? String(card.min_payment_percent) : DEFAULT_TERMS.minPercent,
+    minFloor: floorInBase != null ? floorInBase.toFixed(2) : DEFAULT_TERMS.minFloor,
+  };
+}
+
+function loadSettings(): PlannerSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (raw) return { budget: "", terms: {}, customOrder: [], ...JSON.parse(raw) };
+  } catch {
+    // corrupted or blocked storage: start fresh
+  }
+  return { budget: "", terms: {}, customOrder: [] };
+}
+
+const STRATEGY_LABELS: Record<debt.PayoffStrategy, string> = {
+  AVALANCHE: "Avalanche (highest APR first)",
+  SNOWBALL: "Snowball (smallest balance first)",
+  CUSTOM: "Custom order",
+};
+
+function futureCharges(d: debt.PlannerDebt): number {
+  return Object.values(d.scheduledCharges ?? {}).reduce((sum, c) => sum + c, 0);
+}
+
+function monthLabel(month: string | null): string {
+  return month ? month.slice(0, 7) : "-";
+}
+
+export default function PlannerPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [msg, setMsg] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+  const [mountedToday, setMountedToday] = useState<string>("");
+  // the workspace open on the dashboard; its cards are the ones planned for
+  const [workspace, setWorkspace] = useState<Membership | null>(null);
+
+  const [cards, setCards] = useState<CardRow[]>([]);
+  const [statements, setStatements] = useState<StatementRow[]>([]);
+  const [paidTotals, setPaidTotals] = useState<PaidTotalRow[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState<string>(debt.DEFAULT_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateRow[]>([]);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlanRow[]>([]);
+
+  const [settings, setSettings] = useState<PlannerSettings>({ budget: "", terms: {}, customOrder: [] });
+  const [shownStrategy, setShownStrategy] = useState<debt.PayoffStrategy>("AVALANCHE");
+
+  useEffect(() => {
+    setMountedToday(isoToday());
+    setSettings(loadSettings());
+    void loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function updateSettings(next: PlannerSettings) {
+    setSettings(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // storage full or disabled; keep the in-memory copy
+    }
+  }
+
+  async function loadAll() {
+    setLoading(true);
+
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) {
+      setSignedIn(false);
+      setLoading(false);
+      return;
+    }
+    setSignedIn(true);
+
+    const { current, error: workspaceError } = await loadWorkspaces(supabase, user.id);
+    if (workspaceError) setMsg("Load workspaces error: " + workspaceError.message);
+    setWorkspace(current);
+    const workspaceId = current?.workspace.id ?? "";
+
+    const [cardsRes, statementsRes, paidTotalsRes, profileRes, fxRes, plansRes] = await Promise.all([
+      supabase
+        .from("cards")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: false }),
+      supabase.from("statements").select("*").eq("workspace_id", workspaceId).is("deleted_at", null),
+      supabase.from("statement_paid_totals").select("*").eq("workspace_id", workspaceId),
+      supabase.from("profiles").select("base_currency").eq("user_id", user.id).maybeSingle(),
+      supabase.from("fx_rates").select("*").eq("user_id", user.id),
+      supabase.from("installment_plans").select("*").eq("workspace_id", workspaceId).is("deleted_at", null),
+    ]);
+
+    if (cardsRes.error) setMsg("Load cards error: " + cardsRes.error.message);
+    if (statementsRes.error) setMsg("Load statements error: " + statementsRes.error.message);
+    if (paidTotalsRes.error) setMsg("Load paid totals error: " + paidTotalsRes.error.message);
+    if (fxRes.error) setMsg("Load FX rates error: " + fxRes.error.message);
+    if (plansRes.error) setMsg("Load installment plans error: " + plansRes.error.message);
+
+    setCards(cardsRes.data ?? []);
+    setStatements(statementsRes.data ?? []);
+    setPaidTotals(paidTotalsRes.data ?? []);
+    setBaseCurrency(debt.normalizeCurrency(profileRes.data?.base_currency));
+    setFxRates(fxRes.data ?? []);
+    setInstallmentPlans(plansRes.data ?? []);
+    setLoading(false);
+  }
+
+  // ---------------- Inputs -> planner debts ----------------
+  const fx = useMemo(() => debt.createFxConverter(fxRates, baseCurrency), [fxRates, baseCurrency]);
+
+  const pendingByCard = useMemo(
+    () => debt.pendingByCard(statements, debt.paidFromTotals(paidTotals)),
+    [statements, paidTotals]
+  );
+
+  // future installment-plan charges, fed to the simulation month by month
+  const chargesByCard = useMemo(
+    () => debt.chargesByCardMonth(installmentPlans, debt.billedThroughByCard(statements)),
+    [installmentPlans, statements]
+  );
+
+  // Balances are converted to the base currency so one budget covers every card.
+  const { plannerDebts, skipped } = useMemo(() => {
+    const list: debt.PlannerDebt[] = [];
+    const skippedCards: string[] = [];
+
+    for (const c of cards) {
+      const pending = pendingByCard.get(c.id) ?? 0;
+      const charges = chargesByCard.get(c.id) ?? {};
+      if (pending <= 0 && Object.keys(charges).length === 0) continue;
+
+      const balance = fx.toBase(Math.max(0, pending), c.currency, mountedToday || undefined);
+      if (balance === null) {
+        skippedCards.push(`${c.name} (no ${debt.normalizeCurrency(c.currency)}→${fx.base} rate)`);
+        continue;
+      }
+
+      const floor = c.min_payment_floor != null ? fx.toBase(c.min_payment_floor, c.currency, mountedToday || undefined) : null;
+      const terms = settings.terms[c.id] ?? cardTerms(c, floor);
+      const scheduledCharges: Record<string, number> = {};
+      for (const [month, amount] of Object.entries(charges)) {
+        scheduledCharges[month] = fx.toBase(amount, c.currency, mountedToday || undefined) ?? 0;
+      }
+      list.push({
+        id: c.id,
+        name: c.name,
+        balance,
+        scheduledCharges,
+        apr: debt.toAmount(terms.apr),
+        minimum: { percent: debt.toAmount(terms.minPercent), floor: debt.toAmount(terms.minFloor) },
+      });
+    }
+
+    return { plannerDebts: list, skipped: skippedCards };
+  }, [cards, pendingByCard, chargesByCard, fx, mountedToday, settings.terms]);
+
+  const customOrder = useMemo(() => {
+    // saved order first, then any new cards
+    const ids = plannerDebts.map((d) => d.id);
+    const kept = settings.customOrder.filter((id) => ids.includes(id));
+    return [...kept, ...ids.filter((id) => !kept.includes(id))];
+  }, [plannerDebts, settings.customOrder]);
+
+  const budget = debt.toAmount(settings.budget);
+
+  const plans = useMemo(() => {
+    if (!mountedToday || plannerDebts.length === 0 || budget <= 0) return [];
+    const startMonth = firstDayOfMonth(mountedToday) ?? mountedToday;
+    return debt.PAYOFF_STRATEGIES.map((strategy) =>
+      debt.simulatePayoff(plannerDebts, { strategy, monthlyBudget: budget, startMonth, customOrder })
+    );
+  }, [mountedToday, plannerDebts, budget, customOrder]);
+
+  const shownPlan = plans.find((p) => p.strategy === shownStrategy) ?? null;
+  const debtName = new Map(plannerDebts.map((d) => [d.id, d.name]));
+
+  function termsFor(cardId: string): CardTerms {
+    const saved = settings.terms[cardId];
+    if (saved) return saved;
+    // mirror what plannerDebts used for this card
+    const d = plannerDebts.find((x) => x.id === cardId);
+    return d ? { apr: String(d.apr), minPercent: String(d.minimum.percent), minFloor: String(d.minimum.floor) } : DEFAULT_TERMS;
+  }
+
+  function setTerms(cardId: string, patch: Partial<CardTerms>) {
+    const current = termsFor(cardId);
+    updateSettings({ ...settings, terms: { ...settings.terms, [cardId]: { ...current, ...patch } } });
+  }
+
+  function moveInOrder(cardId: string, delta: number) {
+    const order = [...customOrder];
+    const i = order.indexOf(cardId);
+    const j = i + delta;
+    if (i < 0 || j < 0 || j >= order.length) return;
+    [order[i], order[j]] = [order[j], order[i]];
+    updateSettings({ ...settings, customOrder: order });
+  }
+
+  // ---------------- UI ----------------
+  if (!loading && !signedIn) {
+    return (
+      <div style={{ padding: 16, maxWidth: 900, margin: "0 auto" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>Payoff Planner</h1>
+        <p style={{ marginTop: 10 }}>Please sign in first.</p>
+        <div style={{ marginTop: 10 }}>
+          <Link href="/auth/login">Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Payoff Planner</h1>
+        {workspace && !workspace.workspace.personal ? (
+          <div style={{ opacity: 0.75 }}>in {workspace.workspace.name}</div>
+        ) : null}
+        <Link href="/dashboard" style={{ marginLeft: "auto" }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      {/* ---------------- Inputs ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Budget & Card Terms</div>
+
+        <label style={{ display: "block", marginTop: 12 }}>
+          Monthly budget ({fx.base})
+          <input
+            value={settings.budget}
+            onChange={(e) => updateSettings({ ...settings, budget: e.target.value })}
+            placeholder="e.g., 2500"
+            inputMode="decimal"
+            style={{ marginLeft: 8 }}
+          />
+        </label>
+
+        {loading ? (
+          <p style={{ marginTop: 10 }}>Loading…</p>
+        ) : plannerDebts.length === 0 ? (
+          <p style={{ marginTop: 10 }}>No card has a pending balance or upcoming installments. Nothing to plan.</p>
+        ) : (
+          <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+            {customOrder.map((id, idx) => {
+              const d = plannerDebts.find((x) => x.id === id)!;
+              const terms = termsFor(id);
+              return (
+                <div key={id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <div style={{ fontWeight: 900 }}>
+                      {idx + 1}. {d.name}
+                    </div>
+                    <div>
+                      Balance: {fx.base} {d.balance.toFixed(2)}
+                      {futureCharges(d) > 0 ? (
+                        <span style={{ opacity: 0.7 }}>
+                          {" "}
+                          + {fx.base} {futureCharges(d).toFixed(2)} in future installments
+                        </span>
+                      ) : null}
+                    </div>
+                    <div style={{ marginLeft: "auto", display: "flex", gap: 6 }}>
+                      <button
+                        type="button"
+                        onClick={() => moveInOrder(id, -1)}
+                        disabled={idx === 0}
+                        title="Pay earlier in the custom order"
+                        style={{ padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveInOrder(id, 1)}
+                        disabled={idx === customOrder.length - 1}
+                        title="Pay later in the custom order"
+                        style={{ padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  </div>
+
+                  <div style={{ marginTop: 8, display: "flex", gap: 12, flexWrap: "wrap" }}>
+                    <label>
+                      APR %
+                      <input
+                        value={terms.apr}
+                        onChange={(e) => setTerms(id, { apr: e.target.value })}
+                        inputMode="decimal"
+                        style={{ marginLeft: 6, width: 70 }}
+                      />
+                    </label>
+                    <label>
+                      Minimum % of balance
+                      <input
+                        value={terms.minPercent}
+                        onChange={(e) => setTerms(id, { minPercent: e.target.value })}
+                        inputMode="decimal"
+                        style={{ marginLeft: 6, width: 70 }}
+                      />
+                    </label>
+                    <label>
+                      Minimum floor ({fx.base})
+                      <input
+                        value={terms.minFloor}
+                        onChange={(e) => setTerms(id, { minFloor: e.target.value })}
+                        inputMode="decimal"
+                        style={{ marginLeft: 6, width: 90 }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {skipped.length ? (
+          <div style={{ marginTop: 10, fontSize: 13, color: "crimson" }}>Left out: {skipped.join(", ")}</div>
+        ) : null}
+      </div>
+
+      {/* ---------------- Comparison ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Strategies</div>
+
+        {plans.length === 0 ? (
+          <p style={{ marginTop: 10 }}>Enter a monthly budget to compare strategies.</p>
+        ) : (
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {plans.map((p) => (
+              <button
+                key={p.strategy}
+                type="button"
+                onClick={() => setShownStrategy(p.strategy)}
+                style={{
+                  textAlign: "left",
+                  padding: 12,
+                  border: "1px solid #eee",
+                  borderRadius: 12,
+                  background: p.strategy === shownStrategy ? "#eee" : "white",
+                }}
+              >
+                <div style={{ fontWeight: 900 }}>{STRATEGY_LABELS[p.strategy]}</div>
+                {p.feasible ? (
+                  <>
+                    <div style={{ marginTop: 6 }}>
+                      Debt-free: {monthLabel(p.debtFreeMonth)} ({p.months} months)
+                    </div>
+                    <div style={{ marginTop: 6 }}>
+                      Total interest: {fx.base} {p.totalInterest.toFixed(2)} • Total paid: {fx.base}{" "}
+                      {p.totalPaid.toFixed(2)}
+                    </div>
+                  </>
+                ) : (
+                  <div style={{ marginTop: 6, color: "crimson" }}>{p.problem}</div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ---------------- Schedule ---------------- */}
+      {shownPlan && shownPlan.feasible ? (
+        <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Schedule: {STRATEGY_LABELS[shownPlan.strategy]}</div>
+
+          <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+            {shownPlan.debts
+              .filter((d) => debtName.has(d.id))
+              .map((d) => (
+                <div key={d.id}>
+                  {d.name}: paid off {monthLabel(d.payoffMonth)} • interest {fx.base} {d.interest.toFixed(2)}
+                </div>
+              ))}
+          </div>
+
+          <div style={{ marginTop: 12, overflowX: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: "left", padding: 6, borderBottom: "1px solid #ddd" }}>Month</th>
+                  {customOrder.map((id) => (
+                    <th key={id} style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #ddd" }}>
+                      {debtName.get(id)}
+                    </th>
+                  ))}
+                  <th style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #ddd" }}>Interest</th>
+                  <th style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #ddd" }}>Balance left</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownPlan.schedule.map((row) => (
+                  <tr key={row.month}>
+                    <td style={{ padding: 6, borderBottom: "1px solid #f3f3f3" }}>{monthLabel(row.month)}</td>
+                    {customOrder.map((id) => {
+                      const cell = row.debts[id];
+                      return (
+                        <td key={id} style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #f3f3f3" }}>
+                          {cell && cell.payment > 0 ? cell.payment.toFixed(2) : "-"}
+                          {cell && cell.charges > 0 ? (
+                            <div style={{ fontSize: 11, opacity: 0.7 }}>+{cell.charges.toFixed(2)} installment</div>
+                          ) : null}
+                        </td>
+                      );
+                    })}
+                    <td style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #f3f3f3" }}>
+                      {row.totalInterest.toFixed(2)}
+                    </td>
+                    <td style={{ textAlign: "right", padding: 6, borderBottom: "1px solid #f3f3f3" }}>
+                      {row.totalBalance.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
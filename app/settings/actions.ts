@@ -0,0 +1,409 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { hashToken, newAccessToken, tokenPrefix } from "@/lib/api/tokens";
+import { addDays, isoToday } from "@/lib/debt";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import { newWebhookSecret } from "@/lib/webhooks/events";
+import {
+  ApiTokenForm,
+  BaseCurrencyForm,
+  CalendarFeedForm,
+  EmailRemindersForm,
+  FxRateForm,
+  FxRateImport,
+  PushSubscriptionForm,
+  requiredId,
+  validate,
+  WebhookEndpointForm,
+  type ActionResult,
+  type ApiTokenFormInput,
+  type BaseCurrencyFormInput,
+  type CalendarFeedFormInput,
+  type EmailRemindersFormInput,
+  type FieldErrors,
+  type FxRateFormInput,
+  type FxRateImportInput,
+  type PushSubscriptionFormInput,
+  type WebhookEndpointFormInput,
+} from "@/lib/validation";
+
+// Everything Settings saves. Settings shows one message line rather than
+// errors next to each input, so a problem comes back as its first message.
+// Profiles, rates, feeds, devices, tokens and webhooks belong to the user
+// themselves, never to a workspace.
+
+const FX_RATE_KEY = "user_id,from_currency,to_currency,effective_date";
+
+function problem(fieldErrors: FieldErrors): ActionResult<never> {
+  return { ok: false, error: Object.values(fieldErrors)[0], fieldErrors };
+}
+
+// 24 random bytes as hex; the feed URL is the only credential a calendar app has
+function newFeedToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// ---------------- Currencies ----------------
+
+export async function saveBaseCurrency(input: BaseCurrencyFormInput): Promise<ActionResult> {
+  const values = validate(BaseCurrencyForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("profiles")
+    .upsert({ user_id: session.user.id, ...values.data }, { onConflict: "user_id" });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/** Adds a rate, or replaces the one for the same pair and date; with `id`, edits that rate. */
+export async function saveFxRate(id: string | null, input: FxRateFormInput): Promise<ActionResult> {
+  const rateId = id === null ? null : validate(requiredId(), id);
+  if (rateId && !rateId.ok) return { ok: false, error: "Missing rate id" };
+  const values = validate(FxRateForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  if (rateId) {
+    const { data, error } = await supabase.from("fx_rates").update(values.data).eq("id", rateId.data).select("id");
+    if (error) return { ok: false, error: error.message };
+    if (!data.length) return { ok: false, error: "Rate not found" };
+  } else {
+    const { error } = await supabase
+      .from("fx_rates")
+      .upsert({ user_id: user.id, ...values.data }, { onConflict: FX_RATE_KEY });
+    if (error) return { ok: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+export async function deleteFxRate(id: string): Promise<ActionResult> {
+  const rateId = validate(requiredId(), id);
+  if (!rateId.ok) return { ok: false, error: "Missing rate id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase.from("fx_rates").delete().eq("id", rateId.data).select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Rate not found" };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/**
+ * Saves the rates of a CSV. A pair and date already saved is replaced; one
+ * that appears twice in the file takes its last rate, as the upsert can't
+ * touch the same row twice.
+ */
+export async function importFxRates(input: FxRateImportInput): Promise<ActionResult<{ imported: number }>> {
+  const rates = validate(FxRateImport, input);
+  if (!rates.ok) {
+    const [row, message] = Object.entries(rates.fieldErrors)[0];
+    return { ok: false, error: row === "_form" ? message : `Rate ${Number(row) + 1}: ${message}` };
+  }
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const unique = new Map(rates.data.map((r) => [`${r.from_currency}>${r.to_currency}@${r.effective_date}`, r]));
+  const { error } = await supabase.from("fx_rates").upsert(
+    [...unique.values()].map((r) => ({ user_id: user.id, ...r })),
+    { onConflict: FX_RATE_KEY },
+  );
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: { imported: unique.size } };
+}
+
+// ---------------- Reminders ----------------
+
+export async function saveEmailReminders(input: EmailRemindersFormInput): Promise<ActionResult> {
+  const values = validate(EmailRemindersForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("profiles")
+    .upsert({ user_id: session.user.id, ...values.data }, { onConflict: "user_id" });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
+
+export async function savePushReminders(on: boolean): Promise<ActionResult> {
+  const value = validate(z.boolean(), on);
+  if (!value.ok) return { ok: false, error: "Missing setting" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("profiles")
+    .upsert({ user_id: session.user.id, push_reminders: value.data }, { onConflict: "user_id" });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
+
+// ---------------- Calendar feed ----------------
+
+/** Saves the feed's reminders, creating the feed (and its secret URL) when there is none yet. */
+export async function saveCalendarFeed(input: CalendarFeedFormInput): Promise<ActionResult<{ created: boolean }>> {
+  const values = validate(CalendarFeedForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .update(values.data)
+    .eq("user_id", user.id)
+    .select("user_id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length) return { ok: true, data: { created: false } };
+
+  const { error: insertError } = await supabase
+    .from("calendar_feeds")
+    .insert({ user_id: user.id, token: newFeedToken(), ...values.data });
+  if (insertError) return { ok: false, error: insertError.message };
+
+  return { ok: true, data: { created: true } };
+}
+
+/** Gives the feed a new URL; the old one stops working. */
+export async function rotateCalendarFeed(): Promise<ActionResult> {
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("calendar_feeds")
+    .update({ token: newFeedToken() })
+    .eq("user_id", session.user.id)
+    .select("user_id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "The calendar feed is off." };
+
+  return { ok: true, data: null };
+}
+
+export async function deleteCalendarFeed(): Promise<ActionResult> {
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("calendar_feeds")
+    .delete()
+    .eq("user_id", session.user.id)
+    .select("user_id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "The calendar feed is already off." };
+
+  return { ok: true, data: null };
+}
+
+// ---------------- Push devices ----------------
+
+/** Saves this browser's push subscription; subscribing again only refreshes its keys. */
+export async function savePushSubscription(input: PushSubscriptionFormInput): Promise<ActionResult> {
+  const values = validate(PushSubscriptionForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("push_subscriptions")
+    .upsert({ user_id: session.user.id, ...values.data }, { onConflict: "user_id,endpoint" });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
+
+export async function deletePushSubscription(id: string): Promise<ActionResult> {
+  const subscriptionId = validate(requiredId(), id);
+  if (!subscriptionId.ok) return { ok: false, error: "Missing device id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("id", subscriptionId.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Device not found" };
+
+  return { ok: true, data: null };
+}
+
+/** Forgets the device with this push endpoint: the browser asking only knows its endpoint, not the row. */
+export async function deletePushEndpoint(endpoint: string): Promise<ActionResult> {
+  const values = validate(PushSubscriptionForm.shape.endpoint, endpoint);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("user_id", session.user.id)
+    .eq("endpoint", values.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Device not found" };
+
+  return { ok: true, data: null };
+}
+
+// ---------------- API tokens ----------------
+
+/**
+ * Creates a personal access token. Only its hash is saved, so the token
+ * comes back here once and can't be shown again.
+ */
+export async function createApiToken(input: ApiTokenFormInput): Promise<ActionResult<{ token: string }>> {
+  const values = validate(ApiTokenForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+  const { name, scopes, expires_in_days } = values.data;
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const token = newAccessToken();
+  const expires = addDays(isoToday(), expires_in_days);
+  const { error } = await session.supabase.from("personal_access_tokens").insert({
+    user_id: session.user.id,
+    name,
+    token_hash: await hashToken(token),
+    token_prefix: tokenPrefix(token),
+    scopes,
+    expires_at: `${expires}T23:59:59Z`,
+  });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: { token } };
+}
+
+export async function deleteApiToken(id: string): Promise<ActionResult> {
+  const tokenId = validate(requiredId(), id);
+  if (!tokenId.ok) return { ok: false, error: "Missing token id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("personal_access_tokens")
+    .delete()
+    .eq("id", tokenId.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Token not found" };
+
+  return { ok: true, data: null };
+}
+
+// ---------------- Webhooks ----------------
+
+/** Adds an endpoint with a new signing secret, which Settings can show again later. */
+export async function addWebhookEndpoint(input: WebhookEndpointFormInput): Promise<ActionResult> {
+  const values = validate(WebhookEndpointForm, input);
+  if (!values.ok) return problem(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase
+    .from("webhook_endpoints")
+    .insert({ user_id: session.user.id, secret: newWebhookSecret(), ...values.data });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
+
+export async function setWebhookEnabled(id: string, enabled: boolean): Promise<ActionResult> {
+  const endpointId = validate(requiredId(), id);
+  if (!endpointId.ok) return { ok: false, error: "Missing webhook id" };
+  const value = validate(z.boolean(), enabled);
+  if (!value.ok) return { ok: false, error: "Missing setting" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("webhook_endpoints")
+    .update({ enabled: value.data })
+    .eq("id", endpointId.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Webhook not found" };
+
+  return { ok: true, data: null };
+}
+
+export async function deleteWebhookEndpoint(id: string): Promise<ActionResult> {
+  const endpointId = validate(requiredId(), id);
+  if (!endpointId.ok) return { ok: false, error: "Missing webhook id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", endpointId.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Webhook not found" };
+
+  return { ok: true, data: null };
+}
+
+/** Queues a "ping" to the endpoint; the caller then asks for it to be delivered. */
+export async function sendTestWebhook(endpointId: string): Promise<ActionResult> {
+  const id = validate(requiredId(), endpointId);
+  if (!id.ok) return { ok: false, error: "Missing webhook id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.rpc("send_test_webhook", { p_endpoint: id.data });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
+
+/** Queues a delivery again, as a new one; the caller then asks for it to be delivered. */
+export async function replayWebhookDelivery(deliveryId: string): Promise<ActionResult> {
+  const id = validate(requiredId(), deliveryId);
+  if (!id.ok) return { ok: false, error: "Missing delivery id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.rpc("replay_webhook_delivery", { p_delivery: id.data });
+  if (error) return { ok: false, error: error.message };
+
+  return { ok: true, data: null };
+}
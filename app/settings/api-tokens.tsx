@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/supabase/database.types";
+import { MAX_TOKEN_DAYS, TOKEN_SCOPE_LABELS, TOKEN_SCOPES, type TokenScope } from "@/lib/api/tokens";
+import * as settingsActions from "./actions";
+
+type TokenRow = Omit<Tables<"personal_access_tokens">, "token_hash">;
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  setMsg: (msg: string) => void;
+};
+
+const EXPIRY_OPTIONS = [7, 30, 90, MAX_TOKEN_DAYS];
+
+/**
+ * Personal access tokens for the REST API (/api/v1). The token is made and
+ * hashed by the server action; only the hash is saved, so it can be shown
+ * exactly once.
+ */
+export function ApiTokens({ supabase, userId, setMsg }: Props) {
+  const [tokens, setTokens] = useState<TokenRow[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>(["read"]);
+  const [expiryDays, setExpiryDays] = useState("90");
+  const [created, setCreated] = useState("");
+  const [origin, setOrigin] = useState("");
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function load() {
+    const { data, error } = await supabase
+      .from("personal_access_tokens")
+      .select("id, user_id, name, token_prefix, scopes, expires_at, last_used_at, created_at")
+      .eq("user_id", userId)
+      .order("created_at");
+    if (error) setMsg("Load API tokens error: " + error.message);
+    setTokens(data ?? []);
+  }
+
+  function toggleScope(scope: TokenScope, on: boolean) {
+    setScopes((prev) => (on ? [...new Set([...prev, scope])] : prev.filter((s) => s !== scope)));
+  }
+
+  async function createToken(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+    setCreated("");
+
+    if (!name.trim()) {
+      setMsg("Give the token a name, like the script that will use it.");
+      return;
+    }
+    if (scopes.length === 0) {
+      setMsg("Pick at least one scope.");
+      return;
+    }
+
+    const result = await settingsActions.createApiToken({ name, scopes, expires_in_days: expiryDays });
+    if (!result.ok) {
+      setMsg("Create API token error: " + result.error);
+      return;
+    }
+
+    setCreated(result.data.token);
+    setName("");
+    await load();
+  }
+
+  async function revoke(id: string) {
+    setMsg("");
+    const result = await settingsActions.deleteApiToken(id);
+    if (!result.ok) {
+      setMsg("Revoke API token error: " + result.error);
+      return;
+    }
+    await load();
+  }
+
+  const now = new Date().toISOString();
+  const button: React.CSSProperties = { padding: "10px 12px", borderRadius: 10, border: "1px solid #999" };
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>API Tokens</div>
+      <p style={{ marginTop: 6, opacity: 0.8 }}>
+        For scripts, spreadsheets and shortcuts using the REST API. Send the token as{" "}
+        <code>Authorization: Bearer &lt;token&gt;</code>. The API is described at{" "}
+        <a href="/api/v1/openapi.json">{origin}/api/v1/openapi.json</a>.
+      </p>
+
+      {created ? (
+        <div style={{ marginTop: 10, padding: 10, border: "1px solid #16a34a", borderRadius: 10 }}>
+          <div style={{ fontWeight: 800 }}>Copy the token now; it won&apos;t be shown again.</div>
+          <input
+            readOnly
+            value={created}
+            onFocus={(e) => e.target.select()}
+            style={{ marginTop: 6, width: "100%", fontFamily: "monospace" }}
+          />
+        </div>
+      ) : null}
+
+      <form onSubmit={createToken} style={{ display: "grid", gap: 8, marginTop: 10 }}>
+        <input placeholder="Name (e.g. Budget spreadsheet)" value={name} onChange={(e) => setName(e.target.value)} />
+        {TOKEN_SCOPES.map((scope) => (
+          <label key={scope}>
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={(e) => toggleScope(scope, e.target.checked)}
+            />{" "}
+            {TOKEN_SCOPE_LABELS[scope]}
+          </label>
+        ))}
+        <label>
+          Expires after{" "}
+          <select value={expiryDays} onChange={(e) => setExpiryDays(e.target.value)}>
+            {EXPIRY_OPTIONS.map((d) => (
+              <option key={d} value={String(d)}>
+                {d} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <button type="submit" style={button}>
+            Create Token
+          </button>
+        </div>
+      </form>
+
+      {tokens.length > 0 ? (
+        <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+          {tokens.map((t) => (
+            <div key={t.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+              <span style={{ fontWeight: 700 }}>{t.name}</span>
+              <code style={{ opacity: 0.7 }}>{t.token_prefix}…</code>
+              <span>{t.scopes.join(", ")}</span>
+              <span style={{ color: t.expires_at < now ? "crimson" : undefined, opacity: t.expires_at < now ? 1 : 0.7 }}>
+                {t.expires_at < now ? "expired" : "expires"} {t.expires_at.slice(0, 10)}
+                {t.last_used_at ? `, last used ${t.last_used_at.slice(0, 10)}` : ", never used"}
+              </span>
+              <button
+                type="button"
+                onClick={() => revoke(t.id)}
+                style={{ marginLeft: "auto", padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,696 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { isoToday } from "@/lib/debt";
+import { ARCHIVE_TABLES, validateArchive, type Archive } from "@/lib/backup";
+import * as settingsActions from "./actions";
+import { PushNotifications } from "./push-notifications";
+import { ApiTokens } from "./api-tokens";
+import { Webhooks } from "./webhooks";
+
+type FxRateRow = Tables<"fx_rates">;
+type CalendarFeedRow = Tables<"calendar_feeds">;
+
+const REMINDER_DAY_OPTIONS = [0, 1, 2, 3, 7];
+const EMAIL_REMINDER_DAY_OPTIONS = [0, 1, 3, 7, 14];
+
+function daysBeforeLabel(d: number) {
+  return d === 0 ? "On the day" : d === 1 ? "1 day before" : `${d} days before`;
+}
+
+export default function SettingsPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [msg, setMsg] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string>("");
+
+  const [baseCurrency, setBaseCurrency] = useState<string>(debt.DEFAULT_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateRow[]>([]);
+
+  // ------- Rate form -------
+  const [editingRateId, setEditingRateId] = useState<string>("");
+  const [rateFrom, setRateFrom] = useState<string>("");
+  const [rateTo, setRateTo] = useState<string>("");
+  const [rateValue, setRateValue] = useState<string>("");
+  const [rateDate, setRateDate] = useState<string>("");
+
+  // ------- CSV import -------
+  const [csvText, setCsvText] = useState<string>("");
+  const [csvPreview, setCsvPreview] = useState<debt.FxCsvResult | null>(null);
+
+  // ------- Email reminders -------
+  const [emailReminders, setEmailReminders] = useState(true);
+  const [emailDays, setEmailDays] = useState<number[]>([7, 3, 1]);
+  const [emailOverdue, setEmailOverdue] = useState(true);
+
+  // ------- Calendar feed -------
+  const [origin, setOrigin] = useState<string>("");
+  const [feed, setFeed] = useState<CalendarFeedRow | null>(null);
+  const [reminderDays, setReminderDays] = useState<number[]>([1]);
+  const [reminderHour, setReminderHour] = useState<string>("9");
+
+  // ------- Backup -------
+  const [restoreFile, setRestoreFile] = useState<string>("");
+  const [restoreArchive, setRestoreArchive] = useState<Archive | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreResult, setRestoreResult] = useState<Record<string, { created: number; existing: number }> | null>(null);
+
+  useEffect(() => {
+    setRateDate(isoToday());
+    setOrigin(window.location.origin);
+    void loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function loadAll() {
+    setLoading(true);
+
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) {
+      setUserId("");
+      setLoading(false);
+      return;
+    }
+    setUserId(user.id);
+
+    const [profileRes, fxRes, feedRes] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("base_currency, email_reminders, reminder_days, overdue_reminders")
+        .eq("user_id", user.id)
+        .maybeSingle(),
+      supabase
+        .from("fx_rates")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("from_currency")
+        .order("to_currency")
+        .order("effective_date", { ascending: false }),
+      supabase.from("calendar_feeds").select("*").eq("user_id", user.id).maybeSingle(),
+    ]);
+
+    if (profileRes.error) setMsg("Load profile error: " + profileRes.error.message);
+    if (fxRes.error) setMsg("Load FX rates error: " + fxRes.error.message);
+    if (feedRes.error) setMsg("Load calendar feed error: " + feedRes.error.message);
+
+    const base = debt.normalizeCurrency(profileRes.data?.base_currency);
+    setBaseCurrency(base);
+    setRateTo((prev) => prev || base);
+    if (profileRes.data) {
+      setEmailReminders(profileRes.data.email_reminders);
+      setEmailDays(profileRes.data.reminder_days);
+      setEmailOverdue(profileRes.data.overdue_reminders);
+    }
+    setFxRates(fxRes.data ?? []);
+    setFeed(feedRes.data ?? null);
+    if (feedRes.data) {
+      setReminderDays(feedRes.data.reminder_days);
+      setReminderHour(String(feedRes.data.reminder_hour));
+    }
+    setLoading(false);
+  }
+
+  // ---------------- Base currency ----------------
+  async function saveBaseCurrency(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+
+    const code = baseCurrency.trim().toUpperCase();
+    if (!debt.isCurrencyCode(code)) {
+      setMsg("Base currency must be a 3-letter code, e.g. AED.");
+      return;
+    }
+
+    const result = await settingsActions.saveBaseCurrency({ base_currency: code });
+    if (!result.ok) {
+      setMsg("Save base currency error: " + result.error);
+      return;
+    }
+
+    setMsg("Base currency saved.");
+    await loadAll();
+  }
+
+  // ---------------- Rates ----------------
+  function resetRateForm() {
+    setEditingRateId("");
+    setRateFrom("");
+    setRateTo(baseCurrency);
+    setRateValue("");
+    setRateDate(isoToday());
+  }
+
+  function startEditRate(r: FxRateRow) {
+    setEditingRateId(r.id);
+    setRateFrom(r.from_currency);
+    setRateTo(r.to_currency);
+    setRateValue(String(r.rate));
+    setRateDate(r.effective_date);
+  }
+
+  async function saveRate(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+
+    const from = rateFrom.trim().toUpperCase();
+    const to = rateTo.trim().toUpperCase();
+    const rate = Number(rateValue);
+
+    if (!debt.isCurrencyCode(from) || !debt.isCurrencyCode(to)) {
+      setMsg("Currencies must be 3-letter codes.");
+      return;
+    }
+    if (from === to) {
+      setMsg("From and to currency must differ.");
+      return;
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      setMsg("Rate must be a positive number.");
+      return;
+    }
+    if (!rateDate) {
+      setMsg("Effective date is required.");
+      return;
+    }
+
+    const result = await settingsActions.saveFxRate(editingRateId || null, {
+      from_currency: from,
+      to_currency: to,
+      rate: rateValue,
+      effective_date: rateDate,
+    });
+    if (!result.ok) {
+      setMsg("Save rate error: " + result.error);
+      return;
+    }
+
+    resetRateForm();
+    await loadAll();
+  }
+
+  async function deleteRate(id: string) {
+    setMsg("");
+    const result = await settingsActions.deleteFxRate(id);
+    if (!result.ok) {
+      setMsg("Delete rate error: " + result.error);
+      return;
+    }
+    await loadAll();
+  }
+
+  // ---------------- CSV import ----------------
+  async function onCsvFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    setCsvPreview(debt.parseFxRatesCsv(text));
+  }
+
+  async function importCsv() {
+    setMsg("");
+    if (!csvPreview || csvPreview.rates.length === 0) {
+      setMsg("Nothing to import.");
+      return;
+    }
+
+    const result = await settingsActions.importFxRates(csvPreview.rates);
+    if (!result.ok) {
+      setMsg("Import rates error: " + result.error);
+      return;
+    }
+
+    setMsg(`Imported ${result.data.imported} rate(s).`);
+    setCsvText("");
+    setCsvPreview(null);
+    await loadAll();
+  }
+
+  // ---------------- Email reminders ----------------
+  async function saveEmailReminders(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+
+    const result = await settingsActions.saveEmailReminders({
+      email_reminders: emailReminders,
+      reminder_days: emailDays,
+      overdue_reminders: emailOverdue,
+    });
+    if (!result.ok) {
+      setMsg("Save email reminders error: " + result.error);
+      return;
+    }
+
+    setMsg(emailReminders ? "Email reminders saved." : "Email reminders turned off.");
+    await loadAll();
+  }
+
+  // ---------------- Calendar feed ----------------
+  function toggleReminderDay(days: number, on: boolean) {
+    setReminderDays(on ? [...reminderDays, days].sort((a, b) => a - b) : reminderDays.filter((d) => d !== days));
+  }
+
+  async function saveFeed() {
+    setMsg("");
+    const result = await settingsActions.saveCalendarFeed({ reminder_days: reminderDays, reminder_hour: reminderHour });
+    if (!result.ok) {
+      setMsg("Save calendar feed error: " + result.error);
+      return;
+    }
+
+    setMsg(result.data.created ? "Calendar feed created." : "Reminders saved.");
+    await loadAll();
+  }
+
+  async function rotateFeed() {
+    setMsg("");
+    const result = await settingsActions.rotateCalendarFeed();
+    if (!result.ok) {
+      setMsg("Rotate calendar feed error: " + result.error);
+      return;
+    }
+    setMsg("New feed URL created. The old one no longer works.");
+    await loadAll();
+  }
+
+  async function revokeFeed() {
+    setMsg("");
+    const result = await settingsActions.deleteCalendarFeed();
+    if (!result.ok) {
+      setMsg("Turn off calendar feed error: " + result.error);
+      return;
+    }
+    setMsg("Calendar feed turned off.");
+    await loadAll();
+  }
+
+  // ---------------- Backup ----------------
+  async function onRestoreFile(e: React.ChangeEvent<HTMLInputElement>) {
+    setMsg("");
+    setRestoreResult(null);
+    setRestoreArchive(null);
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setRestoreFile(file.name);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setMsg("Restore error: the file isn't valid JSON.");
+      return;
+    }
+
+    const checked = validateArchive(parsed);
+    if (!checked.ok) {
+      setMsg("Restore error: " + checked.error);
+      return;
+    }
+    setRestoreArchive(checked.archive);
+  }
+
+  async function restore() {
+    setMsg("");
+    if (!restoreArchive) return;
+
+    setRestoring(true);
+    const res = await fetch("/api/restore", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(restoreArchive),
+    });
+    const body = await res.json().catch(() => ({}));
+    setRestoring(false);
+
+    if (!res.ok) {
+      setMsg("Restore error: " + (body.error ?? res.statusText) + " Nothing was restored.");
+      return;
+    }
+
+    setRestoreResult(body.restored);
+    setRestoreArchive(null);
+    setRestoreFile("");
+    await loadAll();
+  }
+
+  // ---------------- UI ----------------
+  if (!loading && !userId) {
+    return (
+      <div style={{ padding: 16, maxWidth: 900, margin: "0 auto" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>Settings</h1>
+        <p style={{ marginTop: 10 }}>Please sign in first.</p>
+        <div style={{ marginTop: 10 }}>
+          <Link href="/auth/login">Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Settings</h1>
+        <Link href="/dashboard" style={{ marginLeft: "auto" }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      {/* ---------------- Base currency ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Base Currency</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>Overview totals are converted into this currency.</p>
+
+        <form onSubmit={saveBaseCurrency} style={{ display: "flex", gap: 10, marginTop: 10, flexWrap: "wrap" }}>
+          <input value={baseCurrency} onChange={(e) => setBaseCurrency(e.target.value)} maxLength={3} required />
+          <button type="submit" style={{ padding: "8px 12px", borderRadius: 10, border: "1px solid #999" }}>
+            Save
+          </button>
+        </form>
+      </div>
+
+      {/* ---------------- Exchange rates ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Exchange Rates</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          1 unit of &quot;from&quot; = rate units of &quot;to&quot;. The latest rate on or before a date is used; the
+          opposite pair is inverted when needed.
+        </p>
+
+        <form onSubmit={saveRate} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          <div style={{ fontWeight: 900 }}>{editingRateId ? "Edit Rate" : "Add / Update Rate"}</div>
+
+          <label>
+            From currency
+            <input value={rateFrom} onChange={(e) => setRateFrom(e.target.value)} placeholder="e.g., USD" maxLength={3} required />
+          </label>
+
+          <label>
+            To currency
+            <input value={rateTo} onChange={(e) => setRateTo(e.target.value)} maxLength={3} required />
+          </label>
+
+          <label>
+            Rate
+            <input value={rateValue} onChange={(e) => setRateValue(e.target.value)} placeholder="e.g., 3.6725" inputMode="decimal" required />
+          </label>
+
+          <label>
+            Effective date
+            <input value={rateDate} onChange={(e) => setRateDate(e.target.value)} type="date" required />
+          </label>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+              {editingRateId ? "Update Rate" : "Save Rate"}
+            </button>
+
+            {editingRateId ? (
+              <button
+                type="button"
+                onClick={resetRateForm}
+                style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+              >
+                Cancel Edit
+              </button>
+            ) : null}
+          </div>
+        </form>
+
+        <div style={{ marginTop: 16, fontWeight: 900 }}>Your Rates</div>
+
+        {loading ? (
+          <p style={{ marginTop: 10 }}>Loading…</p>
+        ) : fxRates.length === 0 ? (
+          <p style={{ marginTop: 10 }}>No rates yet. Amounts in other currencies are left out of the totals.</p>
+        ) : (
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {fxRates.map((r) => (
+              <div key={r.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <div style={{ fontWeight: 900 }}>
+                    1 {r.from_currency} = {r.rate} {r.to_currency}
+                  </div>
+                  <div style={{ opacity: 0.8 }}>from {r.effective_date}</div>
+
+                  <button
+                    type="button"
+                    onClick={() => startEditRate(r)}
+                    style={{ marginLeft: "auto", padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteRate(r.id)}
+                    style={{ padding: "8px 10px", borderRadius: 10, border: "1px solid #999" }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ marginTop: 16, fontWeight: 900 }}>Import from CSV</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          Header row with from_currency, to_currency, rate, effective_date. Re-importing the same pair and date
+          overwrites the rate.
+        </p>
+
+        <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          <input type="file" accept=".csv,text/csv" onChange={onCsvFile} />
+          <textarea
+            value={csvText}
+            onChange={(e) => {
+              setCsvText(e.target.value);
+              setCsvPreview(e.target.value.trim() ? debt.parseFxRatesCsv(e.target.value) : null);
+            }}
+            rows={5}
+            placeholder={"from_currency,to_currency,rate,effective_date\nUSD,AED,3.6725,2025-01-01"}
+          />
+
+          {csvPreview ? (
+            <div style={{ fontSize: 13 }}>
+              <div>{csvPreview.rates.length} valid row(s).</div>
+              {csvPreview.errors.map((err) => (
+                <div key={err} style={{ color: "crimson" }}>
+                  {err}
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          <button
+            type="button"
+            onClick={importCsv}
+            disabled={!csvPreview || csvPreview.rates.length === 0}
+            style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+          >
+            Import Rates
+          </button>
+        </div>
+      </div>
+
+      {/* ---------------- Email reminders ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Email Reminders</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          One email a day at most, listing the statements that are coming due or overdue and still have something
+          pending. The days also apply to push notifications.
+        </p>
+
+        <form onSubmit={saveEmailReminders} style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          <label>
+            <input type="checkbox" checked={emailReminders} onChange={(e) => setEmailReminders(e.target.checked)} />{" "}
+            Send me email reminders
+          </label>
+
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", opacity: emailReminders ? 1 : 0.5 }}>
+            {EMAIL_REMINDER_DAY_OPTIONS.map((d) => (
+              <label key={d}>
+                <input
+                  type="checkbox"
+                  checked={emailDays.includes(d)}
+                  disabled={!emailReminders}
+                  onChange={(e) =>
+                    setEmailDays(e.target.checked ? [...emailDays, d].sort((a, b) => a - b) : emailDays.filter((x) => x !== d))
+                  }
+                />{" "}
+                {daysBeforeLabel(d)}
+              </label>
+            ))}
+          </div>
+
+          <label style={{ opacity: emailReminders ? 1 : 0.5 }}>
+            <input
+              type="checkbox"
+              checked={emailOverdue}
+              disabled={!emailReminders}
+              onChange={(e) => setEmailOverdue(e.target.checked)}
+            />{" "}
+            Remind me weekly about overdue statements
+          </label>
+
+          <div>
+            <button type="submit" style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+              Save Reminders
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {userId ? <PushNotifications supabase={supabase} userId={userId} setMsg={setMsg} /> : null}
+
+      {/* ---------------- Calendar feed ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Calendar Feed</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          Subscribe to your statement due dates from Google Calendar, Apple Calendar or Outlook. Anyone with the URL can
+          see them; rotate it if it leaks.
+        </p>
+
+        {feed ? (
+          <div style={{ display: "grid", gap: 6, marginTop: 10 }}>
+            <input readOnly value={`${origin}/api/calendar/${feed.token}.ics`} onFocus={(e) => e.target.select()} />
+            <div style={{ display: "flex", gap: 10, flexWrap: "wrap", fontSize: 13 }}>
+              <a href={`${origin.replace(/^https?:/, "webcal:")}/api/calendar/${feed.token}.ics`}>Open in calendar app</a>
+              <span style={{ opacity: 0.7 }}>Calendar apps refresh subscriptions every few hours.</span>
+            </div>
+          </div>
+        ) : null}
+
+        <div style={{ marginTop: 12, fontWeight: 900 }}>Reminders</div>
+        <div style={{ display: "flex", gap: 12, marginTop: 6, flexWrap: "wrap", alignItems: "center" }}>
+          {REMINDER_DAY_OPTIONS.map((d) => (
+            <label key={d}>
+              <input
+                type="checkbox"
+                checked={reminderDays.includes(d)}
+                onChange={(e) => toggleReminderDay(d, e.target.checked)}
+              />{" "}
+              {daysBeforeLabel(d)}
+            </label>
+          ))}
+          <label>
+            at
+            <select value={reminderHour} onChange={(e) => setReminderHour(e.target.value)} style={{ marginLeft: 6 }}>
+              {Array.from({ length: 24 }, (_, h) => (
+                <option key={h} value={String(h)}>
+                  {String(h).padStart(2, "0")}:00
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p style={{ marginTop: 6, fontSize: 13, opacity: 0.7 }}>Only statements that still have something pending get reminders.</p>
+
+        <div style={{ display: "flex", gap: 10, marginTop: 10, flexWrap: "wrap" }}>
+          <button type="button" onClick={saveFeed} style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}>
+            {feed ? "Save Reminders" : "Create Feed URL"}
+          </button>
+          {feed ? (
+            <>
+              <button
+                type="button"
+                onClick={rotateFeed}
+                style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+              >
+                Rotate URL
+              </button>
+              <button
+                type="button"
+                onClick={revokeFeed}
+                style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+              >
+                Turn Off
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {userId ? <ApiTokens supabase={supabase} userId={userId} setMsg={setMsg} /> : null}
+
+      {userId ? <Webhooks supabase={supabase} userId={userId} setMsg={setMsg} /> : null}
+
+      {/* ---------------- Backup ---------------- */}
+      <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+        <div style={{ fontSize: 16, fontWeight: 900 }}>Export &amp; Restore</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          The JSON archive has everything (cards, statements, payments, loans, people, installment plans and rates) and
+          can be restored here, on this or another account. The CSVs are one table each, for spreadsheets.
+        </p>
+
+        <div style={{ display: "flex", gap: 10, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+          <a
+            href="/api/export?format=json"
+            style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999", textDecoration: "none" }}
+          >
+            Download JSON archive
+          </a>
+          <span style={{ opacity: 0.8 }}>CSV:</span>
+          {ARCHIVE_TABLES.map((t) => (
+            <a key={t} href={`/api/export?format=csv&table=${t}`}>
+              {t.replace("_", " ")}
+            </a>
+          ))}
+        </div>
+
+        <div style={{ marginTop: 16, fontWeight: 900 }}>Restore from archive</div>
+        <p style={{ marginTop: 6, opacity: 0.8 }}>
+          Rows get new ids. Anything already in your account (same card name, statement month, payment, …) is kept
+          rather than duplicated, so restoring the same archive twice changes nothing.
+        </p>
+
+        <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          <input type="file" accept=".json,application/json" onChange={onRestoreFile} disabled={restoring} />
+
+          {restoreArchive ? (
+            <div style={{ fontSize: 13 }}>
+              <div>
+                {restoreFile}
+                {restoreArchive.exported_at ? `, exported ${restoreArchive.exported_at.slice(0, 10)}` : ""}:
+              </div>
+              {ARCHIVE_TABLES.map((t) => (
+                <div key={t}>
+                  {restoreArchive.tables[t].length} {t.replace("_", " ")}
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {restoreResult ? (
+            <div style={{ fontSize: 13 }}>
+              <div style={{ fontWeight: 700 }}>Restored.</div>
+              {Object.entries(restoreResult).map(([t, r]) => (
+                <div key={t}>
+                  {t.replace("_", " ")}: {r.created} added, {r.existing} already there
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          <button
+            type="button"
+            onClick={restore}
+            disabled={!restoreArchive || restoring}
+            style={{ padding: "10px 12px", borderRadius: 10, border: "1px solid #999" }}
+          >
+            {restoring ? "Restoring…" : "Restore"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
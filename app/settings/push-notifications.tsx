@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/supabase/database.types";
+import * as settingsActions from "./actions";
+
+type PushSubscriptionRow = Tables<"push_subscriptions">;
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  setMsg: (msg: string) => void;
+};
+
+// VAPID public keys are base64url; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+// "Chrome on Android", good enough to tell devices apart
+function deviceLabel(userAgent: string | null): string {
+  const ua = userAgent ?? "";
+  const os = /iPhone|iPad/.test(ua)
+    ? "iPhone/iPad"
+    : /Android/.test(ua)
+      ? "Android"
+      : /Mac OS X/.test(ua)
+        ? "Mac"
+        : /Windows/.test(ua)
+          ? "Windows"
+          : /Linux/.test(ua)
+            ? "Linux"
+            : "";
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /Firefox\//.test(ua)
+      ? "Firefox"
+      : /Chrome\//.test(ua)
+        ? "Chrome"
+        : /Safari\//.test(ua)
+          ? "Safari"
+          : "Browser";
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Due-date reminders as push notifications. Each browser or phone that
+ * allows notifications is one row in push_subscriptions; the reminder job
+ * sends to all of them.
+ */
+export function PushNotifications({ supabase, userId, setMsg }: Props) {
+  const [supported, setSupported] = useState<boolean | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission>("default");
+  const [endpoint, setEndpoint] = useState("");
+  const [subscriptions, setSubscriptions] = useState<PushSubscriptionRow[]>([]);
+  const [pushReminders, setPushReminders] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function load() {
+    const ok = "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+    setSupported(ok);
+    if (ok) {
+      setPermission(Notification.permission);
+      const reg = await navigator.serviceWorker.getRegistration();
+      const sub = await reg?.pushManager.getSubscription();
+      setEndpoint(sub?.endpoint ?? "");
+    }
+
+    const [subsRes, profileRes] = await Promise.all([
+      supabase.from("push_subscriptions").select("*").eq("user_id", userId).order("created_at"),
+      supabase.from("profiles").select("push_reminders").eq("user_id", userId).maybeSingle(),
+    ]);
+    if (subsRes.error) setMsg("Load push devices error: " + subsRes.error.message);
+    if (profileRes.error) setMsg("Load profile error: " + profileRes.error.message);
+    setSubscriptions(subsRes.data ?? []);
+    setPushReminders(profileRes.data?.push_reminders ?? true);
+  }
+
+  async function enable() {
+    setMsg("");
+    const key = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    if (!key) {
+      setMsg("Push error: NEXT_PUBLIC_VAPID_PUBLIC_KEY is not configured.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        setMsg("Notifications are blocked for this site. Allow them in the browser settings, then try again.");
+        return;
+      }
+
+      const reg = await navigator.serviceWorker.ready;
+      const sub =
+        (await reg.pushManager.getSubscription()) ??
+        (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: urlBase64ToUint8Array(key) }));
+      const keys = sub.toJSON().keys ?? {};
+
+      const saved = await settingsActions.savePushSubscription({
+        endpoint: sub.endpoint,
+        p256dh: keys.p256dh ?? "",
+        auth: keys.auth ?? "",
+        user_agent: navigator.userAgent,
+      });
+      if (!saved.ok) {
+        setMsg("Save push subscription error: " + saved.error);
+        return;
+      }
+      setMsg("Notifications are on for this device.");
+    } catch (e) {
+      setMsg("Push error: " + (e as Error).message);
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  }
+
+  async function disable() {
+    setMsg("");
+    setBusy(true);
+    try {
+      const reg = await navigator.serviceWorker.getRegistration();
+      const sub = await reg?.pushManager.getSubscription();
+      if (sub) {
+        const removed = await settingsActions.deletePushEndpoint(sub.endpoint);
+        if (!removed.ok) {
+          setMsg("Remove push subscription error: " + removed.error);
+          return;
+        }
+        await sub.unsubscribe();
+      }
+      setMsg("Notifications are off for this device.");
+    } catch (e) {
+      setMsg("Push error: " + (e as Error).message);
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  }
+
+  async function removeDevice(id: string) {
+    setMsg("");
+    const result = await settingsActions.deletePushSubscription(id);
+    if (!result.ok) {
+      setMsg("Remove device error: " + result.error);
+      return;
+    }
+    await load();
+  }
+
+  async function sendTest() {
+    setMsg("");
+    const res = await fetch("/api/push/test", { method: "POST" });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMsg("Test notification error: " + (body.error ?? res.statusText));
+      return;
+    }
+    setMsg(`Test notification sent to ${body.devices} device(s).`);
+    await load();
+  }
+
+  async function savePushReminders(on: boolean) {
+    setMsg("");
+    setPushReminders(on);
+    const result = await settingsActions.savePushReminders(on);
+    if (!result.ok) setMsg("Save push reminders error: " + result.error);
+  }
+
+  const thisDevice = subscriptions.find((s) => s.endpoint === endpoint);
+  const button: React.CSSProperties = { padding: "10px 12px", borderRadius: 10, border: "1px solid #999" };
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>Push Notifications</div>
+      <p style={{ marginTop: 6, opacity: 0.8 }}>
+        The same reminders as the emails, on your phone or desktop. On iPhone and iPad, add the app to the Home Screen
+        first (Share → Add to Home Screen) and turn notifications on from there.
+      </p>
+
+      {supported === false ? (
+        <p style={{ marginTop: 10 }}>This browser doesn&apos;t support push notifications.</p>
+      ) : (
+        <div style={{ display: "flex", gap: 10, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+          {thisDevice ? (
+            <button type="button" onClick={disable} disabled={busy} style={button}>
+              Turn Off on This Device
+            </button>
+          ) : (
+            <button type="button" onClick={enable} disabled={busy || supported === null} style={button}>
+              Turn On for This Device
+            </button>
+          )}
+          {subscriptions.length > 0 ? (
+            <button type="button" onClick={sendTest} style={button}>
+              Send Test Notification
+            </button>
+          ) : null}
+          {permission === "denied" ? (
+            <span style={{ color: "crimson" }}>Blocked in the browser settings.</span>
+          ) : null}
+        </div>
+      )}
+
+      <label style={{ display: "block", marginTop: 12 }}>
+        <input type="checkbox" checked={pushReminders} onChange={(e) => savePushReminders(e.target.checked)} /> Send
+        due-date reminders as notifications (uses the reminder days above)
+      </label>
+
+      {subscriptions.length > 0 ? (
+        <div style={{ display: "grid", gap: 8, marginTop: 12 }}>
+          {subscriptions.map((s) => (
+            <div
+              key={s.id}
+              style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}
+            >
+              <span style={{ fontWeight: 700 }}>{deviceLabel(s.user_agent)}</span>
+              {s.endpoint === endpoint ? <span style={{ opacity: 0.7 }}>this device</span> : null}
+              <span style={{ opacity: 0.7 }}>
+                added {s.created_at.slice(0, 10)}
+                {s.last_sent_at ? `, last notified ${s.last_sent_at.slice(0, 10)}` : ""}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeDevice(s.id)}
+                style={{ marginLeft: "auto", padding: "4px 8px", borderRadius: 8, border: "1px solid #999" }}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
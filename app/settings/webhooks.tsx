@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "@/lib/supabase/database.types";
+import {
+  isWebhookEvent,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_EVENTS,
+  webhookUrlProblem,
+  type WebhookEvent,
+} from "@/lib/webhooks/events";
+import * as settingsActions from "./actions";
+
+type Endpoint = Tables<"webhook_endpoints">;
+type Delivery = Pick<
+  Tables<"webhook_deliveries">,
+  | "id"
+  | "endpoint_id"
+  | "status"
+  | "attempts"
+  | "next_attempt_at"
+  | "last_attempt_at"
+  | "response_status"
+  | "error"
+  | "replay_of"
+  | "created_at"
+> & { webhook_events: { type: string } | null };
+
+type Props = {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  setMsg: (msg: string) => void;
+};
+
+const LOG_SIZE = 30;
+
+const STATUS_COLORS: Record<string, string> = { DELIVERED: "#16a34a", PENDING: "#b45309", FAILED: "crimson" };
+
+/**
+ * Webhook endpoints and their delivery log. Deliveries are sent by the
+ * /api/cron/webhooks job; "Deliver Now" asks the server to send this user's
+ * due ones right away, which the test and replay buttons do too.
+ */
+export function Webhooks({ supabase, userId, setMsg }: Props) {
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [shownSecret, setShownSecret] = useState("");
+
+  useEffect(() => {
+    void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function load() {
+    const [endpointsRes, deliveriesRes] = await Promise.all([
+      supabase.from("webhook_endpoints").select("*").eq("user_id", userId).order("created_at"),
+      supabase
+        .from("webhook_deliveries")
+        .select(
+          "id, endpoint_id, status, attempts, next_attempt_at, last_attempt_at, response_status, error, replay_of, created_at, webhook_events(type)",
+        )
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(LOG_SIZE),
+    ]);
+    if (endpointsRes.error) setMsg("Load webhooks error: " + endpointsRes.error.message);
+    if (deliveriesRes.error) setMsg("Load webhook deliveries error: " + deliveriesRes.error.message);
+    setEndpoints(endpointsRes.data ?? []);
+    setDeliveries(deliveriesRes.data ?? []);
+  }
+
+  function toggleEvent(event: WebhookEvent, on: boolean) {
+    setEvents((prev) => (on ? [...new Set([...prev, event])] : prev.filter((e) => e !== event)));
+  }
+
+  async function addEndpoint(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg("");
+
+    const problem = webhookUrlProblem(url.trim());
+    if (problem) {
+      setMsg(problem);
+      return;
+    }
+    if (events.length === 0) {
+      setMsg("Pick at least one event.");
+      return;
+    }
+
+    const result = await settingsActions.addWebhookEndpoint({ url, description, events });
+    if (!result.ok) {
+      setMsg("Add webhook error: " + result.error);
+      return;
+    }
+
+    setUrl("");
+    setDescription("");
+    await load();
+  }
+
+  async function setEnabled(id: string, enabled: boolean) {
+    setMsg("");
+    const result = await settingsActions.setWebhookEnabled(id, enabled);
+    if (!result.ok) setMsg("Update webhook error: " + result.error);
+    await load();
+  }
+
+  async function removeEndpoint(id: string) {
+    setMsg("");
+    const result = await settingsActions.deleteWebhookEndpoint(id);
+    if (!result.ok) {
+      setMsg("Delete webhook error: " + result.error);
+      return;
+    }
+    await load();
+  }
+
+  async function deliverNow() {
+    const res = await fetch("/api/webhooks/deliver", { method: "POST" });
+    const body = (await res.json().catch(() => ({}))) as {
+      delivered?: number;
+      retrying?: number;
+      failed?: number;
+      error?: string;
+    };
+    await load();
+    if (!res.ok) {
+      setMsg("Deliver webhooks error: " + (body.error ?? res.statusText));
+      return;
+    }
+    const total = (body.delivered ?? 0) + (body.retrying ?? 0) + (body.failed ?? 0);
+    setMsg(
+      total === 0
+        ? "Nothing was waiting to be delivered."
+        : `Delivered ${body.delivered ?? 0} of ${total}.` +
+            (body.retrying ? ` ${body.retrying} will be retried.` : "") +
+            (body.failed ? ` ${body.failed} failed; see the log below.` : ""),
+    );
+  }
+
+  async function sendTest(id: string) {
+    setMsg("");
+    const result = await settingsActions.sendTestWebhook(id);
+    if (!result.ok) {
+      setMsg("Send test webhook error: " + result.error);
+      return;
+    }
+    await deliverNow();
+  }
+
+  async function replay(id: string) {
+    setMsg("");
+    const result = await settingsActions.replayWebhookDelivery(id);
+    if (!result.ok) {
+      setMsg("Replay webhook error: " + result.error);
+      return;
+    }
+    await deliverNow();
+  }
+
+  const endpointUrls = new Map(endpoints.map((e) => [e.id, e.url]));
+  const button: React.CSSProperties = { padding: "10px 12px", borderRadius: 10, border: "1px solid #999" };
+  const small: React.CSSProperties = { padding: "4px 8px", borderRadius: 8, border: "1px solid #999" };
+
+  return (
+    <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontSize: 16, fontWeight: 900 }}>Webhooks</div>
+      <p style={{ marginTop: 6, opacity: 0.8 }}>
+        POST a JSON event to your own URL when payments and statements change, for home automation or budgeting
+        workflows. Each request carries an <code>X-Debt-Tracker-Signature</code> header, an HMAC-SHA256 made with the
+        endpoint&apos;s secret. Failed deliveries are retried for about a day.
+      </p>
+
+      <form onSubmit={addEndpoint} style={{ display: "grid", gap: 8, marginTop: 10 }}>
+        <input placeholder="https://example.com/hooks/debt-tracker" value={url} onChange={(e) => setUrl(e.target.value)} />
+        <input
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        {WEBHOOK_EVENTS.map((event) => (
+          <label key={event}>
+            <input
+              type="checkbox"
+              checked={events.includes(event)}
+              onChange={(e) => toggleEvent(event, e.target.checked)}
+            />{" "}
+            {WEBHOOK_EVENT_LABELS[event]} <code style={{ opacity: 0.6 }}>{event}</code>
+          </label>
+        ))}
+        <div>
+          <button type="submit" style={button}>
+            Add Webhook
+          </button>
+        </div>
+      </form>
+
+      {endpoints.length > 0 ? (
+        <div style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          {endpoints.map((ep) => (
+            <div key={ep.id} style={{ fontSize: 13, padding: 10, border: "1px solid #eee", borderRadius: 10 }}>
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <span style={{ fontWeight: 700, wordBreak: "break-all" }}>{ep.url}</span>
+                {ep.description ? <span style={{ opacity: 0.7 }}>{ep.description}</span> : null}
+                <label style={{ marginLeft: "auto" }}>
+                  <input type="checkbox" checked={ep.enabled} onChange={(e) => setEnabled(ep.id, e.target.checked)} />{" "}
+                  Enabled
+                </label>
+              </div>
+              <div style={{ marginTop: 4, opacity: 0.7 }}>
+                {ep.events.filter(isWebhookEvent).map((event) => WEBHOOK_EVENT_LABELS[event]).join(" · ")}
+              </div>
+              {shownSecret === ep.id ? (
+                <input
+                  readOnly
+                  value={ep.secret}
+                  onFocus={(e) => e.target.select()}
+                  style={{ marginTop: 6, width: "100%", fontFamily: "monospace" }}
+                />
+              ) : null}
+              <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+                <button type="button" onClick={() => setShownSecret(shownSecret === ep.id ? "" : ep.id)} style={small}>
+                  {shownSecret === ep.id ? "Hide Secret" : "Show Secret"}
+                </button>
+                <button type="button" onClick={() => sendTest(ep.id)} disabled={!ep.enabled} style={small}>
+                  Send Test
+                </button>
+                <button type="button" onClick={() => removeEndpoint(ep.id)} style={small}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {endpoints.length > 0 ? (
+        <>
+          <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 14 }}>
+            <div style={{ fontWeight: 900 }}>Recent Deliveries</div>
+            <button type="button" onClick={deliverNow} style={{ ...small, marginLeft: "auto" }}>
+              Deliver Now
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p style={{ marginTop: 6, fontSize: 13, opacity: 0.7 }}>Nothing sent yet.</p>
+          ) : (
+            <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+              {deliveries.map((d) => (
+                <div key={d.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+                  <span style={{ fontWeight: 800, color: STATUS_COLORS[d.status] }}>{d.status}</span>
+                  <code>{d.webhook_events?.type ?? "?"}</code>
+                  <span style={{ opacity: 0.7, wordBreak: "break-all" }}>{endpointUrls.get(d.endpoint_id) ?? ""}</span>
+                  <span style={{ opacity: 0.7 }}>
+                    {new Date(d.last_attempt_at ?? d.created_at).toLocaleString()}
+                    {d.replay_of ? ", replay" : ""}
+                    {d.attempts > 0 ? `, ${d.attempts} attempt${d.attempts === 1 ? "" : "s"}` : ""}
+                    {d.response_status ? `, HTTP ${d.response_status}` : ""}
+                    {d.error && d.error !== `HTTP ${d.response_status}` ? `, ${d.error}` : ""}
+                    {d.status === "PENDING" && d.attempts > 0
+                      ? `, next try ${new Date(d.next_attempt_at).toLocaleTimeString()}`
+                      : ""}
+                  </span>
+                  <button type="button" onClick={() => replay(d.id)} style={{ ...small, marginLeft: "auto" }}>
+                    Replay
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { z } from "zod";
+import { SIGNED_OUT, signedIn, staleWrite } from "@/lib/supabase/action";
+import * as debt from "@/lib/debt";
+import {
+  idList,
+  invalid,
+  monthStart,
+  requiredId,
+  StatementForm,
+  validate,
+  type ActionResult,
+  type StatementFormInput,
+} from "@/lib/validation";
+
+type Session = NonNullable<Awaited<ReturnType<typeof signedIn>>>;
+
+/** The validated statement as a row, in its card's currency. */
+async function statementRow(
+  supabase: Session["supabase"],
+  input: StatementFormInput,
+): Promise<ActionResult<z.output<typeof StatementForm> & { currency: string }>> {
+  const values = validate(StatementForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const { data: card, error } = await supabase
+    .from("cards")
+    .select("currency")
+    .eq("id", values.data.card_id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) return { ok: false, error: error.message };
+  if (!card) return invalid({ card_id: "Card not found" });
+
+  return { ok: true, data: { ...values.data, currency: card.currency ?? "AED" } };
+}
+
+/**
+ * Saves the statement with id `id`, or, without one, the card's statement
+ * for that month: a month the card already has is updated rather than
+ * duplicated. The currency is always the card's. With `baseUpdatedAt` (an
+ * edit saved offline), only the version the edit was made on is updated.
+ */
+export async function saveStatement(
+  input: StatementFormInput,
+  id?: string,
+  baseUpdatedAt?: string,
+): Promise<ActionResult> {
+  if (id !== undefined && !validate(requiredId(), id).ok) return { ok: false, error: "Invalid statement id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const row = await statementRow(supabase, input);
+  if (!row.ok) return row;
+
+  // a month whose statement is in the Trash stays taken until it is restored or purged
+  const { data: sameMonth, error: monthError } = await supabase
+    .from("statements")
+    .select("id, deleted_at")
+    .eq("card_id", row.data.card_id)
+    .eq("statement_month", row.data.statement_month)
+    .maybeSingle();
+  if (monthError) return { ok: false, error: monthError.message };
+  if (sameMonth?.deleted_at && sameMonth.id !== id) {
+    return invalid({ statement_month: "This month's statement is in the Trash. Restore it from there first." });
+  }
+
+  if (id) {
+    const live = supabase.from("statements").update(row.data).eq("id", id).is("deleted_at", null);
+    const { data, error } = await (baseUpdatedAt ? live.eq("updated_at", baseUpdatedAt) : live).select("id");
+    if (error) return { ok: false, error: error.message };
+    if (data.length === 0) return staleWrite(supabase, "statements", id);
+  } else {
+    const { error } = await supabase
+      .from("statements")
+      .upsert({ ...row.data, user_id: user.id }, { onConflict: "user_id,card_id,statement_month" });
+    if (error) return { ok: false, error: error.message };
+  }
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/**
+ * Adds a statement created offline, with the id the browser gave it so the
+ * payments queued against it still point at it. A month the card already
+ * has is a conflict, unless `overwrite` ("keep mine"): then that month's
+ * statement gets these values, and its id is returned for the payments to
+ * move over to.
+ */
+export async function addStatement(
+  id: string,
+  input: StatementFormInput,
+  overwrite = false,
+): Promise<ActionResult<{ id: string }>> {
+  if (!validate(requiredId(), id).ok) return { ok: false, error: "Invalid statement id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const row = await statementRow(supabase, input);
+  if (!row.ok) return row;
+
+  const { data: sameMonth, error: monthError } = await supabase
+    .from("statements")
+    .select("id, deleted_at")
+    .eq("card_id", row.data.card_id)
+    .eq("statement_month", row.data.statement_month)
+    .maybeSingle();
+  if (monthError) return { ok: false, error: monthError.message };
+  // already there: an earlier try got through but its response was lost
+  if (sameMonth?.id === id) return { ok: true, data: { id } };
+
+  if (sameMonth && !overwrite) {
+    return { ok: false, error: "This card already has a statement for that month.", conflict: "EXISTS" };
+  }
+  if (sameMonth) {
+    const { data, error } = await supabase
+      .from("statements")
+      .update(row.data)
+      .eq("card_id", row.data.card_id)
+      .eq("statement_month", row.data.statement_month)
+      .is("deleted_at", null)
+      .select("id");
+    if (error) return { ok: false, error: error.message };
+    if (data.length === 0) return { ok: false, error: "Nothing was updated: that month's statement is in the Trash." };
+
+    revalidatePath("/dashboard");
+    return { ok: true, data: { id: data[0].id } };
+  }
+
+  const { error } = await supabase.from("statements").insert({ ...row.data, id, user_id: user.id });
+  if (error?.code === "23505") {
+    return { ok: false, error: "This card already has a statement for that month.", conflict: "EXISTS" };
+  }
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: { id } };
+}
+
+/**
+ * Moves the statement to the Trash. Its payments are unlinked (so they
+ * count against the card again) until it is restored.
+ */
+export async function deleteStatement(id: string): Promise<ActionResult<{ unlinked: number }>> {
+  const statementId = validate(requiredId(), id);
+  if (!statementId.ok) return { ok: false, error: "Missing statement id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase.rpc("trash_statement", { p_statement: statementId.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { unlinked: data } };
+}
+
+/** Takes the statement out of the Trash and links its payments back. */
+export async function restoreStatement(id: string): Promise<ActionResult<{ relinked: number }>> {
+  const statementId = validate(requiredId(), id);
+  if (!statementId.ok) return { ok: false, error: "Missing statement id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase.rpc("restore_statement", { p_statement: statementId.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { relinked: data } };
+}
+
+/** Moves the selected statements to the Trash, one by one, unlinking their payments. */
+export async function deleteStatements(ids: string[]): Promise<ActionResult<{ deleted: number; unlinked: number }>> {
+  const statementIds = validate(idList, ids);
+  if (!statementIds.ok) return { ok: false, error: statementIds.fieldErrors._form ?? "Invalid statement ids" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  let deleted = 0;
+  let unlinked = 0;
+  for (const id of statementIds.data) {
+    const { data, error } = await session.supabase.rpc("trash_statement", { p_statement: id });
+    if (error) {
+      // the ones before it did change
+      revalidatePath("/dashboard");
+      revalidatePath("/trash");
+      return { ok: false, error: `${error.message} (after ${deleted} of ${statementIds.data.length})` };
+    }
+    deleted += 1;
+    unlinked += data;
+  }
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { deleted, unlinked } };
+}
+
+/** Takes the statements out of the Trash again, linking their payments back. */
+export async function restoreStatements(ids: string[]): Promise<ActionResult<{ relinked: number }>> {
+  const statementIds = validate(idList, ids);
+  if (!statementIds.ok) return { ok: false, error: statementIds.fieldErrors._form ?? "Invalid statement ids" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  let relinked = 0;
+  for (const id of statementIds.data) {
+    const { data, error } = await session.supabase.rpc("restore_statement", { p_statement: id });
+    if (error) {
+      // the ones before it did change
+      revalidatePath("/dashboard");
+      revalidatePath("/trash");
+      return { ok: false, error: error.message };
+    }
+    relinked += data;
+  }
+
+  revalidatePath("/dashboard");
+  revalidatePath("/trash");
+  return { ok: true, data: { relinked } };
+}
+
+/** Deletes a trashed statement for good; payments that still point at it are kept, unlinked. */
+export async function purgeStatement(id: string): Promise<ActionResult> {
+  const statementId = validate(requiredId(), id);
+  if (!statementId.ok) return { ok: false, error: "Missing statement id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase } = session;
+
+  const { data: statement, error: findError } = await supabase
+    .from("statements")
+    .select("id")
+    .eq("id", statementId.data)
+    .not("deleted_at", "is", null)
+    .maybeSingle();
+  if (findError) return { ok: false, error: findError.message };
+  if (!statement) return { ok: false, error: "That statement isn't in the Trash." };
+
+  // only payments trashed along with the card are still linked
+  const linked = await supabase.from("payments").select("id").eq("statement_id", statement.id);
+  if (linked.error) return { ok: false, error: "Unlink payments: " + linked.error.message };
+  if (linked.data.length) {
+    const unlink = await supabase
+      .from("payments")
+      .update({ statement_id: null })
+      .eq("statement_id", statement.id)
+      .select("id");
+    if (unlink.error) return { ok: false, error: "Unlink payments: " + unlink.error.message };
+    if (unlink.data.length < linked.data.length) {
+      return {
+        ok: false,
+        error: `Unlink payments: only ${unlink.data.length} of ${linked.data.length} could be unlinked; nothing was deleted.`,
+      };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("statements")
+    .delete()
+    .eq("id", statement.id)
+    .not("deleted_at", "is", null)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (data.length === 0) return { ok: false, error: "That statement isn't in the Trash." };
+
+  revalidatePath("/trash");
+  return { ok: true, data: null };
+}
+
+/**
+ * Same as the scheduled /api/cron/statements job, for one workspace only:
+ * placeholder statements for `month` on every card with a statement day.
+ * Months that already have one are left alone.
+ */
+export async function createPlaceholderStatements(
+  month: string,
+  workspaceId: string,
+): Promise<ActionResult<{ cards: number; created: number }>> {
+  const first = validate(monthStart, month);
+  if (!first.ok) return { ok: false, error: first.fieldErrors._form ?? "Invalid month" };
+  const workspace = validate(requiredId(), workspaceId);
+  if (!workspace.ok) return { ok: false, error: "Missing workspace id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const [cardsRes, holidaysRes] = await Promise.all([
+    supabase
+      .from("cards")
+      .select("id, currency, statement_day, grace_days, due_date_adjustment")
+      .eq("workspace_id", workspace.data)
+      .not("statement_day", "is", null)
+      .is("deleted_at", null),
+    supabase.from("bank_holidays").select("holiday_date"),
+  ]);
+  if (cardsRes.error) return { ok: false, error: cardsRes.error.message };
+  if (holidaysRes.error) return { ok: false, error: "Load holidays: " + holidaysRes.error.message };
+
+  const holidays = new Set((holidaysRes.data ?? []).map((h) => h.holiday_date));
+  const rows = debt
+    .placeholderStatements(cardsRes.data ?? [], first.data, { holidays })
+    .map((r) => ({ ...r, user_id: user.id }));
+  if (rows.length === 0) return { ok: true, data: { cards: 0, created: 0 } };
+
+  const { data, error } = await supabase
+    .from("statements")
+    .upsert(rows, { onConflict: "user_id,card_id,statement_month", ignoreDuplicates: true })
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/dashboard");
+  return { ok: true, data: { cards: rows.length, created: data?.length ?? 0 } };
+}
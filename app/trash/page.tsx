@@ -0,0 +1,365 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import { canEdit, loadWorkspaces, type Membership } from "@/lib/workspace";
+import type { ActionResult } from "@/lib/validation";
+import * as cardActions from "@/app/cards/actions";
+import * as paymentActions from "@/app/payments/actions";
+import * as statementActions from "@/app/statements/actions";
+
+type CardRow = Pick<Tables<"cards">, "id" | "name" | "bank" | "deleted_at">;
+type StatementRow = Tables<"statements">;
+type PaymentRow = Tables<"payments">;
+
+// Deleted cards, statements and payments wait here until they are restored
+// or deleted for good. A card's statements, payments and installment plans
+// go to the Trash with it and are listed under the card, not on their own.
+
+function deletedOn(row: { deleted_at: string | null }): string {
+  return row.deleted_at ? row.deleted_at.slice(0, 10) : "";
+}
+
+function money(amount: number | null, currency: string | null) {
+  return `${debt.normalizeCurrency(currency)} ${debt.toAmount(amount).toFixed(2)}`;
+}
+
+export default function TrashPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [msg, setMsg] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  // the Trash of the workspace open on the dashboard
+  const [workspace, setWorkspace] = useState<Membership | null>(null);
+
+  const [cards, setCards] = useState<CardRow[]>([]);
+  const [statements, setStatements] = useState<StatementRow[]>([]);
+  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  const [detached, setDetached] = useState<Pick<PaymentRow, "id" | "detached_statement_id">[]>([]);
+  const [loanNames, setLoanNames] = useState<Map<string, string>>(new Map());
+  const [personNames, setPersonNames] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    void loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function loadAll() {
+    setLoading(true);
+
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) {
+      setSignedIn(false);
+      setLoading(false);
+      return;
+    }
+    setSignedIn(true);
+
+    const { current, error: workspaceError } = await loadWorkspaces(supabase, user.id);
+    if (workspaceError) setMsg("Load workspaces error: " + workspaceError.message);
+    setWorkspace(current);
+    const workspaceId = current?.workspace.id ?? "";
+
+    const [cardsRes, statementsRes, paymentsRes, detachedRes, loansRes, peopleRes] = await Promise.all([
+      // every card, for the names; the trashed ones are picked out below
+      supabase.from("cards").select("id, name, bank, deleted_at").eq("workspace_id", workspaceId),
+      supabase
+        .from("statements")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      // loan and IOU payments are in the personal workspace's Trash
+      supabase
+        .from("payments")
+        .select("*")
+        .eq("workspace_id", workspaceId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      supabase
+        .from("payments")
+        .select("id, detached_statement_id")
+        .eq("workspace_id", workspaceId)
+        .not("detached_statement_id", "is", null),
+      supabase.from("loans").select("id, name").eq("user_id", user.id),
+      supabase.from("counterparties").select("id, name").eq("user_id", user.id),
+    ]);
+
+    if (cardsRes.error) setMsg("Load cards error: " + cardsRes.error.message);
+    if (statementsRes.error) setMsg("Load statements error: " + statementsRes.error.message);
+    if (paymentsRes.error) setMsg("Load payments error: " + paymentsRes.error.message);
+    if (detachedRes.error) setMsg("Load unlinked payments error: " + detachedRes.error.message);
+    if (loansRes.error) setMsg("Load loans error: " + loansRes.error.message);
+    if (peopleRes.error) setMsg("Load people error: " + peopleRes.error.message);
+
+    setCards(cardsRes.data ?? []);
+    setStatements(statementsRes.data ?? []);
+    setPayments(paymentsRes.data ?? []);
+    setDetached(detachedRes.data ?? []);
+    setLoanNames(new Map((loansRes.data ?? []).map((l) => [l.id, l.name])));
+    setPersonNames(new Map((peopleRes.data ?? []).map((p) => [p.id, p.name])));
+    setLoading(false);
+  }
+
+  // viewers see the Trash but only owners and editors restore or purge
+  const editable = canEdit(workspace?.role);
+  const cardMap = useMemo(() => new Map(cards.map((c) => [c.id, c])), [cards]);
+
+  const trashedCards = useMemo(
+    () =>
+      cards
+        .filter((c) => c.deleted_at)
+        .sort((a, b) => (a.deleted_at! < b.deleted_at! ? 1 : a.deleted_at! > b.deleted_at! ? -1 : 0)),
+    [cards]
+  );
+
+  // went to the Trash together with their card
+  function withCard(row: { card_id: string | null; deleted_at: string | null }): boolean {
+    const card = row.card_id ? cardMap.get(row.card_id) : undefined;
+    return !!card?.deleted_at && card.deleted_at === row.deleted_at;
+  }
+
+  const ownStatements = statements.filter((s) => !withCard(s));
+  const ownPayments = payments.filter((p) => !withCard(p));
+
+  const detachedCount = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const p of detached) {
+      if (p.detached_statement_id) counts.set(p.detached_statement_id, (counts.get(p.detached_statement_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [detached]);
+
+  function cardLabel(cardId: string | null): string {
+    const card = cardId ? cardMap.get(cardId) : undefined;
+    if (!card) return "Card";
+    return card.bank ? `${card.name} - ${card.bank}` : card.name;
+  }
+
+  function paymentLabel(p: PaymentRow): string {
+    if (p.kind === "LOAN") return `Loan payment • ${(p.loan_id && loanNames.get(p.loan_id)) || "loan"}`;
+    if (p.kind === "IOU") {
+      const direction = debt.isIouDirection(p.direction) ? debt.IOU_DIRECTION_LABELS[p.direction] : "IOU entry";
+      return `${direction} • ${(p.counterparty_id && personNames.get(p.counterparty_id)) || "person"}`;
+    }
+    return `Card payment • ${cardLabel(p.card_id)}`;
+  }
+
+  async function run(id: string, label: string, action: () => Promise<ActionResult<unknown>>, done: string) {
+    setMsg("");
+    setBusyId(id);
+    const result = await action();
+    setBusyId("");
+    if (!result.ok) {
+      setMsg(`${label} error: ` + result.error);
+      return;
+    }
+    await loadAll();
+    setMsg(done);
+  }
+
+  async function restoreStatement(s: StatementRow) {
+    setMsg("");
+    setBusyId(s.id);
+    const result = await statementActions.restoreStatement(s.id);
+    setBusyId("");
+    if (!result.ok) {
+      setMsg("Restore statement error: " + result.error);
+      return;
+    }
+    await loadAll();
+    const { relinked } = result.data;
+    setMsg(
+      relinked
+        ? `Statement restored and ${relinked} payment(s) linked back to it.`
+        : "Statement restored."
+    );
+  }
+
+  // ---------------- UI ----------------
+  if (!loading && !signedIn) {
+    return (
+      <div style={{ padding: 16, maxWidth: 900, margin: "0 auto" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>Trash</h1>
+        <p style={{ marginTop: 10 }}>Please sign in first.</p>
+        <div style={{ marginTop: 10 }}>
+          <Link href="/auth/login">Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const button: React.CSSProperties = { padding: "8px 10px", borderRadius: 10, border: "1px solid #999" };
+  const empty = trashedCards.length === 0 && ownStatements.length === 0 && ownPayments.length === 0;
+
+  return (
+    <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Trash</h1>
+        {workspace && !workspace.workspace.personal ? (
+          <div style={{ opacity: 0.75 }}>in {workspace.workspace.name}</div>
+        ) : null}
+        <Link href="/dashboard" style={{ marginLeft: "auto" }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      <p style={{ marginTop: 10, opacity: 0.8 }}>
+        Deleted cards, statements and payments stay here, left out of every total, until you restore them or delete them
+        for good.
+      </p>
+
+      {loading ? (
+        <p style={{ marginTop: 10 }}>Loading…</p>
+      ) : empty ? (
+        <p style={{ marginTop: 10 }}>The Trash is empty.</p>
+      ) : null}
+
+      {/* ---------------- Cards ---------------- */}
+      {!loading && trashedCards.length ? (
+        <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Cards</div>
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {trashedCards.map((c) => {
+              const along = {
+                statements: statements.filter((s) => s.card_id === c.id && s.deleted_at === c.deleted_at).length,
+                payments: payments.filter((p) => p.card_id === c.id && p.deleted_at === c.deleted_at).length,
+              };
+              return (
+                <div key={c.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <div style={{ fontWeight: 900 }}>
+                      {c.name} {c.bank ? `• ${c.bank}` : ""}
+                    </div>
+                    <div style={{ opacity: 0.7 }}>deleted {deletedOn(c)}</div>
+                    <button
+                      type="button"
+                      disabled={!editable || busyId === c.id}
+                      onClick={() => run(c.id, "Restore card", () => cardActions.restoreCard(c.id), "Card restored.")}
+                      style={{ ...button, marginLeft: "auto" }}
+                    >
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      disabled={!editable || busyId === c.id}
+                      onClick={() => run(c.id, "Delete card", () => cardActions.purgeCard(c.id), "Card deleted for good.")}
+                      style={button}
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                  {along.statements || along.payments ? (
+                    <div style={{ marginTop: 6, opacity: 0.8 }}>
+                      With {along.statements} statement(s) and {along.payments} payment(s), which come back with the card.
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {/* ---------------- Statements ---------------- */}
+      {!loading && ownStatements.length ? (
+        <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Statements</div>
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {ownStatements.map((s) => {
+              const unlinked = detachedCount.get(s.id) ?? 0;
+              return (
+                <div key={s.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <div style={{ fontWeight: 900 }}>
+                      {cardLabel(s.card_id)} • {s.statement_month.slice(0, 7)}
+                    </div>
+                    <div style={{ opacity: 0.7 }}>deleted {deletedOn(s)}</div>
+                    <button
+                      type="button"
+                      disabled={!editable || busyId === s.id}
+                      onClick={() => restoreStatement(s)}
+                      style={{ ...button, marginLeft: "auto" }}
+                    >
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      disabled={!editable || busyId === s.id}
+                      onClick={() =>
+                        run(s.id, "Delete statement", () => statementActions.purgeStatement(s.id), "Statement deleted for good.")
+                      }
+                      style={button}
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                  <div style={{ marginTop: 6 }}>
+                    Amount: {money(s.statement_amount, s.currency)}
+                    {s.due_date ? ` • due ${s.due_date}` : ""}
+                  </div>
+                  {unlinked ? (
+                    <div style={{ marginTop: 6, opacity: 0.8 }}>
+                      {unlinked} payment(s) were unlinked from it and are linked back on restore.
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
+      {/* ---------------- Payments ---------------- */}
+      {!loading && ownPayments.length ? (
+        <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Payments</div>
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {ownPayments.map((p) => (
+              <div key={p.id} style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <div style={{ fontWeight: 900 }}>
+                    {money(p.amount, p.currency)} on {p.payment_date}
+                  </div>
+                  <div style={{ opacity: 0.7 }}>deleted {deletedOn(p)}</div>
+                  <button
+                    type="button"
+                    disabled={!editable || busyId === p.id}
+                    onClick={() => run(p.id, "Restore payment", () => paymentActions.restorePayment(p.id), "Payment restored.")}
+                    style={{ ...button, marginLeft: "auto" }}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!editable || busyId === p.id}
+                    onClick={() =>
+                      run(p.id, "Delete payment", () => paymentActions.purgePayment(p.id), "Payment deleted for good.")
+                    }
+                    style={button}
+                  >
+                    Delete forever
+                  </button>
+                </div>
+                <div style={{ marginTop: 6 }}>
+                  {paymentLabel(p)}
+                  {p.note ? <span style={{ opacity: 0.7 }}> • {p.note}</span> : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { mailTransportFromEnv, workspaceInviteMail } from "@/lib/mail";
+import { SIGNED_OUT, signedIn } from "@/lib/supabase/action";
+import {
+  invalid,
+  requiredId,
+  validate,
+  WorkspaceForm,
+  WorkspaceInviteForm,
+  type ActionResult,
+  type WorkspaceFormInput,
+  type WorkspaceInviteFormInput,
+} from "@/lib/validation";
+
+// Owners, editors and viewers are enforced by RLS; these actions validate
+// the input and turn the rows a policy silently skipped into an error.
+
+const MemberRole = WorkspaceInviteForm.shape.role;
+
+const NOT_OWNER: ActionResult<never> = { ok: false, error: "Only the workspace's owner can do that." };
+
+export async function createWorkspace(input: WorkspaceFormInput): Promise<ActionResult<{ id: string }>> {
+  const values = validate(WorkspaceForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("workspaces")
+    .insert({ ...values.data, owner_id: session.user.id })
+    .select("id")
+    .single();
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/workspaces");
+  return { ok: true, data: { id: data.id } };
+}
+
+export async function renameWorkspace(id: string, input: WorkspaceFormInput): Promise<ActionResult> {
+  const workspaceId = validate(requiredId(), id);
+  if (!workspaceId.ok) return { ok: false, error: "Missing workspace id" };
+  const values = validate(WorkspaceForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("workspaces")
+    .update(values.data)
+    .eq("id", workspaceId.data)
+    .select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return NOT_OWNER;
+
+  revalidatePath("/workspaces");
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
+
+/**
+ * Deletes a shared workspace once it has no cards left, the Trash
+ * included; deleting one with cards would take everyone's records with it.
+ */
+export async function deleteWorkspace(id: string): Promise<ActionResult> {
+  const workspaceId = validate(requiredId(), id);
+  if (!workspaceId.ok) return { ok: false, error: "Missing workspace id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { count, error: countError } = await session.supabase
+    .from("cards")
+    .select("id", { count: "exact", head: true })
+    .eq("workspace_id", workspaceId.data);
+  if (countError) return { ok: false, error: countError.message };
+  if (count) {
+    return { ok: false, error: `It still has ${count} card(s). Delete them, and empty them from the Trash, first.` };
+  }
+
+  const { data, error } = await session.supabase.from("workspaces").delete().eq("id", workspaceId.data).select("id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return { ok: false, error: "Only the owner can delete it, and a personal workspace stays." };
+
+  revalidatePath("/workspaces");
+  return { ok: true, data: null };
+}
+
+/**
+ * Invites someone by email. The invite waits on /workspaces until they
+ * sign in with that address; the email only points them there. When it
+ * couldn't be sent, `mailError` says why; the invite stands either way.
+ */
+export async function inviteToWorkspace(
+  workspaceId: string,
+  input: WorkspaceInviteFormInput,
+): Promise<ActionResult<{ mailError: string | null }>> {
+  const id = validate(requiredId(), workspaceId);
+  if (!id.ok) return { ok: false, error: "Missing workspace id" };
+  const values = validate(WorkspaceInviteForm, input);
+  if (!values.ok) return invalid(values.fieldErrors);
+  const { email, role } = values.data;
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+  const { supabase, user } = session;
+
+  const [workspaceRes, memberRes] = await Promise.all([
+    supabase.from("workspaces").select("name, personal").eq("id", id.data).maybeSingle(),
+    supabase.from("workspace_members").select("user_id").eq("workspace_id", id.data).eq("email", email),
+  ]);
+  if (workspaceRes.error) return { ok: false, error: workspaceRes.error.message };
+  if (memberRes.error) return { ok: false, error: memberRes.error.message };
+  if (!workspaceRes.data) return { ok: false, error: "Workspace not found" };
+  if (workspaceRes.data.personal) return { ok: false, error: "A personal workspace can't be shared. Create a new one." };
+  if (memberRes.data.length) return invalid({ email: "Already in this workspace" });
+
+  const { error } = await supabase
+    .from("workspace_invites")
+    .insert({ workspace_id: id.data, email, role, invited_by: user.id });
+  if (error?.code === "23505") return invalid({ email: "Already invited" });
+  if (error?.code === "42501") return NOT_OWNER;
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/workspaces");
+
+  const mail = mailTransportFromEnv();
+  const origin = (await headers()).get("origin");
+  if (!mail) return { ok: true, data: { mailError: "Email isn't set up on this server." } };
+  if (!origin) return { ok: true, data: { mailError: "The app's address is unknown, so no link could be sent." } };
+  try {
+    await mail.send({
+      to: email,
+      ...workspaceInviteMail({ workspaceName: workspaceRes.data.name, invitedBy: user.email ?? "Someone", role }, origin),
+    });
+  } catch (e) {
+    return { ok: true, data: { mailError: (e as Error).message } };
+  }
+  return { ok: true, data: { mailError: null } };
+}
+
+/** Joins the workspace of an invite to the signed-in user's email. */
+export async function acceptInvite(inviteId: string): Promise<ActionResult<{ workspaceId: string }>> {
+  const id = validate(requiredId(), inviteId);
+  if (!id.ok) return { ok: false, error: "Missing invite id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase.rpc("accept_workspace_invite", { p_invite: id.data });
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/workspaces");
+  revalidatePath("/dashboard");
+  return { ok: true, data: { workspaceId: data } };
+}
+
+/** The owner takes an invite back, or the invitee declines it. */
+export async function removeInvite(inviteId: string): Promise<ActionResult> {
+  const id = validate(requiredId(), inviteId);
+  if (!id.ok) return { ok: false, error: "Missing invite id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { error } = await session.supabase.from("workspace_invites").delete().eq("id", id.data);
+  if (error) return { ok: false, error: error.message };
+
+  revalidatePath("/workspaces");
+  return { ok: true, data: null };
+}
+
+export async function changeMemberRole(workspaceId: string, memberId: string, role: string): Promise<ActionResult> {
+  const workspace = validate(requiredId(), workspaceId);
+  const member = validate(requiredId(), memberId);
+  if (!workspace.ok || !member.ok) return { ok: false, error: "Missing workspace or member id" };
+  const memberRole = validate(MemberRole, role);
+  if (!memberRole.ok) return { ok: false, error: "Pick a role" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("workspace_members")
+    .update({ role: memberRole.data })
+    .eq("workspace_id", workspace.data)
+    .eq("user_id", member.data)
+    .select("user_id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) return NOT_OWNER;
+
+  revalidatePath("/workspaces");
+  return { ok: true, data: null };
+}
+
+/**
+ * Takes someone out of a workspace: the owner removing a member, or a
+ * member leaving. What they added stays in the workspace.
+ */
+export async function removeMember(workspaceId: string, memberId: string): Promise<ActionResult> {
+  const workspace = validate(requiredId(), workspaceId);
+  const member = validate(requiredId(), memberId);
+  if (!workspace.ok || !member.ok) return { ok: false, error: "Missing workspace or member id" };
+
+  const session = await signedIn();
+  if (!session) return SIGNED_OUT;
+
+  const { data, error } = await session.supabase
+    .from("workspace_members")
+    .delete()
+    .eq("workspace_id", workspace.data)
+    .eq("user_id", member.data)
+    .select("user_id");
+  if (error) return { ok: false, error: error.message };
+  if (!data.length) {
+    return { ok: false, error: "Only the owner can remove others, and the owner can't leave their own workspace." };
+  }
+
+  revalidatePath("/workspaces");
+  revalidatePath("/dashboard");
+  return { ok: true, data: null };
+}
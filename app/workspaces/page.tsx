@@ -0,0 +1,420 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Tables } from "@/lib/supabase/database.types";
+import { chooseWorkspace, loadWorkspaces, ROLE_LABELS, isWorkspaceRole, type Membership } from "@/lib/workspace";
+import type { ActionResult, WorkspaceInviteFormInput } from "@/lib/validation";
+import * as workspaceActions from "@/app/workspaces/actions";
+
+type MemberRow = Tables<"workspace_members">;
+type InviteRow = Tables<"workspace_invites"> & { workspace: { name: string } | null };
+type InviteRole = WorkspaceInviteFormInput["role"];
+
+// Everyone starts with a personal workspace that only they use. Shared ones
+// are created here, and their owner invites others by email: editors add
+// and change cards, statements and payments, viewers only look. Loans and
+// people stay personal whichever workspace is open.
+
+export default function WorkspacesPage() {
+  const supabase = useMemo(() => createClient(), []);
+
+  const [msg, setMsg] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [signedIn, setSignedIn] = useState(false);
+  const [busyId, setBusyId] = useState("");
+
+  const [userId, setUserId] = useState("");
+  const [userEmail, setUserEmail] = useState("");
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [members, setMembers] = useState<MemberRow[]>([]);
+  const [invites, setInvites] = useState<InviteRow[]>([]);
+
+  const [newName, setNewName] = useState("");
+  // per workspace, while being typed
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [inviteEmails, setInviteEmails] = useState<Record<string, string>>({});
+  const [inviteRoles, setInviteRoles] = useState<Record<string, InviteRole>>({});
+
+  useEffect(() => {
+    void loadAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function loadAll() {
+    setLoading(true);
+
+    const { data: userRes } = await supabase.auth.getUser();
+    const user = userRes?.user;
+    if (!user) {
+      setSignedIn(false);
+      setLoading(false);
+      return;
+    }
+    setSignedIn(true);
+    setUserId(user.id);
+    setUserEmail((user.email ?? "").toLowerCase());
+
+    const [workspacesRes, invitesRes] = await Promise.all([
+      loadWorkspaces(supabase, user.id),
+      // the owner sees the ones they sent, an invitee the ones to their email
+      supabase
+        .from("workspace_invites")
+        .select("*, workspace:workspaces(name)")
+        .order("created_at"),
+    ]);
+    if (workspacesRes.error) setMsg("Load workspaces error: " + workspacesRes.error.message);
+    if (invitesRes.error) setMsg("Load invites error: " + invitesRes.error.message);
+
+    const ids = workspacesRes.memberships.map((m) => m.workspace.id);
+    const membersRes = ids.length
+      ? await supabase.from("workspace_members").select("*").in("workspace_id", ids).order("created_at")
+      : { data: [], error: null };
+    if (membersRes.error) setMsg("Load members error: " + membersRes.error.message);
+
+    setMemberships(workspacesRes.memberships);
+    setInvites(invitesRes.data ?? []);
+    setMembers(membersRes.data ?? []);
+    setNames(Object.fromEntries(workspacesRes.memberships.map((m) => [m.workspace.id, m.workspace.name])));
+    setLoading(false);
+  }
+
+  async function run(id: string, label: string, action: () => Promise<ActionResult<unknown>>, done: string) {
+    setMsg("");
+    setBusyId(id);
+    const result = await action();
+    setBusyId("");
+    if (!result.ok) {
+      setMsg(`${label} error: ` + (result.fieldErrors ? Object.values(result.fieldErrors)[0] : result.error));
+      return false;
+    }
+    await loadAll();
+    setMsg(done);
+    return true;
+  }
+
+  async function createWorkspace(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newName.trim();
+    if (await run("new", "Create workspace", () => workspaceActions.createWorkspace({ name }), `"${name}" created.`)) {
+      setNewName("");
+    }
+  }
+
+  async function invite(e: React.FormEvent, m: Membership) {
+    e.preventDefault();
+    setMsg("");
+    const id = m.workspace.id;
+    const email = (inviteEmails[id] ?? "").trim();
+    setBusyId(id);
+    const result = await workspaceActions.inviteToWorkspace(id, { email, role: inviteRoles[id] ?? "editor" });
+    setBusyId("");
+    if (!result.ok) {
+      setMsg("Invite error: " + (result.fieldErrors ? Object.values(result.fieldErrors)[0] : result.error));
+      return;
+    }
+    setInviteEmails((prev) => ({ ...prev, [id]: "" }));
+    await loadAll();
+    const { mailError } = result.data;
+    setMsg(
+      mailError
+        ? `${email} is invited, but the email wasn't sent (${mailError}). Tell them to sign in and open Workspaces.`
+        : `Invite emailed to ${email}.`,
+    );
+  }
+
+  async function accept(i: InviteRow) {
+    setMsg("");
+    setBusyId(i.id);
+    const result = await workspaceActions.acceptInvite(i.id);
+    setBusyId("");
+    if (!result.ok) {
+      setMsg("Accept invite error: " + result.error);
+      return;
+    }
+    chooseWorkspace(userId, result.data.workspaceId);
+    await loadAll();
+    setMsg(`You joined "${i.workspace?.name ?? "the workspace"}". It's open on the dashboard now.`);
+  }
+
+  function open(m: Membership) {
+    chooseWorkspace(userId, m.workspace.id);
+    window.location.href = "/dashboard";
+  }
+
+  // ---------------- UI ----------------
+  if (!loading && !signedIn) {
+    return (
+      <div style={{ padding: 16, maxWidth: 900, margin: "0 auto" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>Workspaces</h1>
+        <p style={{ marginTop: 10 }}>Please sign in first.</p>
+        <div style={{ marginTop: 10 }}>
+          <Link href="/auth/login">Login</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const button: React.CSSProperties = { padding: "8px 10px", borderRadius: 10, border: "1px solid #999" };
+  const input: React.CSSProperties = { padding: 10, borderRadius: 10, border: "1px solid #ccc" };
+  const toMe = invites.filter((i) => i.email === userEmail);
+
+  return (
+    <div style={{ padding: 16, maxWidth: 1100, margin: "0 auto" }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800, margin: 0 }}>Workspaces</h1>
+        <Link href="/dashboard" style={{ marginLeft: "auto" }}>
+          Back to dashboard
+        </Link>
+      </div>
+
+      {msg ? (
+        <div style={{ marginTop: 10, color: msg.toLowerCase().includes("error") ? "crimson" : "black" }}>{msg}</div>
+      ) : null}
+
+      <p style={{ marginTop: 10, opacity: 0.8 }}>
+        Share cards, statements and payments with a partner or family. Editors can add and change them, viewers can only
+        look. Loans and people stay in your personal workspace.
+      </p>
+
+      {loading ? <p style={{ marginTop: 10 }}>Loading…</p> : null}
+
+      {/* ---------------- Invites to me ---------------- */}
+      {!loading && toMe.length ? (
+        <div style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontSize: 16, fontWeight: 900 }}>Invites for you</div>
+          <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+            {toMe.map((i) => (
+              <div key={i.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ fontWeight: 900 }}>{i.workspace?.name ?? "A workspace"}</div>
+                <div style={{ opacity: 0.7 }}>as {isWorkspaceRole(i.role) ? ROLE_LABELS[i.role].toLowerCase() : i.role}</div>
+                <button
+                  type="button"
+                  disabled={busyId === i.id}
+                  onClick={() => accept(i)}
+                  style={{ ...button, marginLeft: "auto", fontWeight: 800 }}
+                >
+                  Accept
+                </button>
+                <button
+                  type="button"
+                  disabled={busyId === i.id}
+                  onClick={() =>
+                    run(i.id, "Decline invite", () => workspaceActions.removeInvite(i.id), "Invite declined.")
+                  }
+                  style={button}
+                >
+                  Decline
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {/* ---------------- My workspaces ---------------- */}
+      {!loading
+        ? memberships.map((m) => {
+            const id = m.workspace.id;
+            const isOwner = m.role === "owner";
+            const sharing = isOwner && !m.workspace.personal;
+            const people = members.filter((r) => r.workspace_id === id);
+            const pending = invites.filter((i) => i.workspace_id === id && i.email !== userEmail);
+            return (
+              <div key={id} style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12 }}>
+                <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                  <div style={{ fontSize: 16, fontWeight: 900 }}>{m.workspace.name}</div>
+                  <div style={{ opacity: 0.7 }}>
+                    {m.workspace.personal ? "personal" : `you're the ${ROLE_LABELS[m.role].toLowerCase()}`}
+                  </div>
+                  <button type="button" onClick={() => open(m)} style={{ ...button, marginLeft: "auto" }}>
+                    Open in dashboard
+                  </button>
+                  {!isOwner ? (
+                    <button
+                      type="button"
+                      disabled={busyId === id}
+                      onClick={() =>
+                        run(id, "Leave workspace", () => workspaceActions.removeMember(id, userId), `You left "${m.workspace.name}".`)
+                      }
+                      style={button}
+                    >
+                      Leave
+                    </button>
+                  ) : null}
+                </div>
+
+                {m.workspace.personal ? (
+                  <div style={{ marginTop: 6, opacity: 0.8 }}>
+                    Only you can see it. To share, create a new workspace and add cards there.
+                  </div>
+                ) : null}
+
+                {sharing ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void run(
+                        id,
+                        "Rename workspace",
+                        () => workspaceActions.renameWorkspace(id, { name: names[id] ?? "" }),
+                        "Workspace renamed."
+                      );
+                    }}
+                    style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}
+                  >
+                    <input
+                      value={names[id] ?? ""}
+                      onChange={(e) => setNames((prev) => ({ ...prev, [id]: e.target.value }))}
+                      aria-label="Workspace name"
+                      style={input}
+                    />
+                    <button type="submit" disabled={busyId === id || names[id] === m.workspace.name} style={button}>
+                      Rename
+                    </button>
+                  </form>
+                ) : null}
+
+                {!m.workspace.personal ? (
+                  <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+                    <div style={{ fontWeight: 800 }}>Members</div>
+                    {people.map((p) => {
+                      const key = `${id}:${p.user_id}`;
+                      return (
+                        <div key={key} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                          <div>
+                            {p.email}
+                            {p.user_id === userId ? " (you)" : ""}
+                          </div>
+                          {sharing && p.role !== "owner" ? (
+                            <>
+                              <select
+                                value={p.role}
+                                disabled={busyId === key}
+                                onChange={(e) =>
+                                  run(
+                                    key,
+                                    "Change role",
+                                    () => workspaceActions.changeMemberRole(id, p.user_id, e.target.value),
+                                    `${p.email} is now a ${e.target.value}.`
+                                  )
+                                }
+                                aria-label={`Role of ${p.email}`}
+                                style={{ ...input, padding: 6, marginLeft: "auto" }}
+                              >
+                                <option value="editor">{ROLE_LABELS.editor}</option>
+                                <option value="viewer">{ROLE_LABELS.viewer}</option>
+                              </select>
+                              <button
+                                type="button"
+                                disabled={busyId === key}
+                                onClick={() =>
+                                  run(
+                                    key,
+                                    "Remove member",
+                                    () => workspaceActions.removeMember(id, p.user_id),
+                                    `${p.email} was removed.`
+                                  )
+                                }
+                                style={button}
+                              >
+                                Remove
+                              </button>
+                            </>
+                          ) : (
+                            <div style={{ marginLeft: "auto", opacity: 0.7 }}>
+                              {isWorkspaceRole(p.role) ? ROLE_LABELS[p.role] : p.role}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {pending.map((i) => (
+                      <div key={i.id} style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                        <div style={{ opacity: 0.7 }}>
+                          {i.email} • invited as {isWorkspaceRole(i.role) ? ROLE_LABELS[i.role].toLowerCase() : i.role}
+                        </div>
+                        <button
+                          type="button"
+                          disabled={busyId === i.id}
+                          onClick={() =>
+                            run(i.id, "Cancel invite", () => workspaceActions.removeInvite(i.id), "Invite cancelled.")
+                          }
+                          style={{ ...button, marginLeft: "auto" }}
+                        >
+                          Cancel invite
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                {sharing ? (
+                  <>
+                    <form
+                      onSubmit={(e) => invite(e, m)}
+                      style={{ marginTop: 10, display: "flex", gap: 10, flexWrap: "wrap" }}
+                    >
+                      <input
+                        type="email"
+                        placeholder="Invite by email"
+                        value={inviteEmails[id] ?? ""}
+                        onChange={(e) => setInviteEmails((prev) => ({ ...prev, [id]: e.target.value }))}
+                        style={{ ...input, minWidth: 240 }}
+                      />
+                      <select
+                        value={inviteRoles[id] ?? "editor"}
+                        onChange={(e) => setInviteRoles((prev) => ({ ...prev, [id]: e.target.value as InviteRole }))}
+                        aria-label="Role"
+                        style={input}
+                      >
+                        <option value="editor">{ROLE_LABELS.editor}: adds and changes things</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}: only looks</option>
+                      </select>
+                      <button type="submit" disabled={busyId === id} style={{ ...button, fontWeight: 800 }}>
+                        Invite
+                      </button>
+                    </form>
+
+                    <button
+                      type="button"
+                      disabled={busyId === id}
+                      onClick={() =>
+                        run(id, "Delete workspace", () => workspaceActions.deleteWorkspace(id), "Workspace deleted.")
+                      }
+                      style={{ ...button, marginTop: 10 }}
+                    >
+                      Delete workspace
+                    </button>
+                  </>
+                ) : null}
+              </div>
+            );
+          })
+        : null}
+
+      {/* ---------------- New workspace ---------------- */}
+      {!loading ? (
+        <form
+          onSubmit={createWorkspace}
+          style={{ marginTop: 16, padding: 14, border: "1px solid #ddd", borderRadius: 12, display: "grid", gap: 10 }}
+        >
+          <div style={{ fontSize: 16, fontWeight: 900 }}>New shared workspace</div>
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+            <input
+              placeholder="Name, like Family or Home"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              style={{ ...input, minWidth: 240 }}
+            />
+            <button type="submit" disabled={busyId === "new"} style={{ ...button, fontWeight: 800 }}>
+              Create
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers /sw.js (install prompt, offline pages, push notifications). Renders nothing. */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js", { scope: "/", updateViaCache: "none" }).catch(() => {
+      // the app works without it; only installing, offline pages and push are missing
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,43 @@
+// Personal access tokens for /api/v1. Shared by Settings' actions (which
+// create them) and the API (which checks them); both hash with Web Crypto,
+// so only the hash ever reaches the database.
+
+export const TOKEN_SCOPES = ["read", "write"] as const;
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export const TOKEN_SCOPE_LABELS: Record<TokenScope, string> = {
+  read: "Read: list and fetch cards, statements, payments and summaries",
+  write: "Write: create, change and delete them",
+};
+
+/** the longest a token may live; the table's check constraint allows 366 days */
+export const MAX_TOKEN_DAYS = 365;
+
+const PREFIX = "dtpat_";
+const TOKEN_PATTERN = /^dtpat_[0-9a-f]{64}$/;
+const SHOWN_CHARS = PREFIX.length + 6;
+
+export function isTokenScope(value: string): value is TokenScope {
+  return (TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/** "dtpat_" + 32 random bytes as hex. */
+export function newAccessToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return PREFIX + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function looksLikeAccessToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+/** What Settings shows to tell tokens apart: "dtpat_1a2b3c…". */
+export function tokenPrefix(token: string): string {
+  return token.slice(0, SHOWN_CHARS);
+}
+
+/** SHA-256 as hex. Tokens are random, so no salt or slow hash is needed. */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,46 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import { hashToken, isTokenScope, looksLikeAccessToken, type TokenScope } from "../tokens";
+import { ApiError } from "./errors";
+
+export type Admin = ReturnType<typeof createAdminClient>;
+
+/**
+ * Who's calling. `db` is the service-role client: it bypasses RLS, so every
+ * query made with it must filter on `userId` (and check that ids in the
+ * request body belong to that user too, see ./owned).
+ */
+export type ApiAuth = {
+  userId: string;
+  scopes: TokenScope[];
+  db: Admin;
+};
+
+// last_used_at is for Settings only; don't write it on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/** Checks `Authorization: Bearer <personal access token>`. */
+export async function authenticate(request: Request): Promise<ApiAuth> {
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.match(/^Bearer\s+(\S+)$/i)?.[1] ?? "";
+  if (!looksLikeAccessToken(token)) {
+    throw new ApiError(401, "Send a personal access token as `Authorization: Bearer <token>`.");
+  }
+
+  const db = createAdminClient();
+  const { data, error } = await db
+    .from("personal_access_tokens")
+    .select("id, user_id, scopes, expires_at, last_used_at")
+    .eq("token_hash", await hashToken(token))
+    .maybeSingle();
+  if (error) throw new ApiError(500, error.message);
+  if (!data) throw new ApiError(401, "Unknown or revoked token.");
+
+  const now = Date.now();
+  if (Date.parse(data.expires_at) <= now) throw new ApiError(401, "This token has expired.");
+
+  if (!data.last_used_at || now - Date.parse(data.last_used_at) > LAST_USED_RESOLUTION_MS) {
+    await db.from("personal_access_tokens").update({ last_used_at: new Date(now).toISOString() }).eq("id", data.id);
+  }
+
+  return { userId: data.user_id, scopes: data.scopes.filter(isTokenScope), db };
+}
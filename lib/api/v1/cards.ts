@@ -0,0 +1,130 @@
+import type { z } from "zod";
+import type { Tables } from "@/lib/supabase/database.types";
+import type { DueDateAdjustment } from "@/lib/debt";
+import type { ApiAuth } from "./auth";
+import { endpoint } from "./endpoint";
+import { dbError, notFound } from "./errors";
+import { baseCurrency } from "./owned";
+import { Card, CardInput, CardListQuery, CardPatch, Deleted, IdParams, item, page } from "./schemas";
+
+const COLUMNS =
+  "id, name, bank, credit_limit, currency, notes, purchase_apr, cash_apr, min_payment_percent, min_payment_floor, statement_day, grace_days, due_date_adjustment, deleted_at, created_at, updated_at";
+
+type CardColumns = Omit<Tables<"cards">, "user_id" | "workspace_id" | "created_by">;
+
+function toCard(row: CardColumns): z.input<typeof Card> {
+  return { ...row, due_date_adjustment: row.due_date_adjustment as DueDateAdjustment };
+}
+
+async function findCard(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("cards")
+    .select(COLUMNS)
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Card");
+  return data;
+}
+
+export const listCards = endpoint({
+  method: "GET",
+  path: "/cards",
+  operationId: "listCards",
+  tag: "Cards",
+  summary: "List cards",
+  description: "Newest first. Deleted cards are left out unless include_deleted=true.",
+  query: CardListQuery,
+  response: page(Card),
+  async handle({ auth, query }) {
+    let q = auth.db
+      .from("cards")
+      .select(COLUMNS, { count: "exact" })
+      .eq("user_id", auth.userId)
+      .order("created_at", { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+    if (!query.include_deleted) q = q.is("deleted_at", null);
+
+    const { data, count, error } = await q;
+    if (error) throw dbError(error);
+    return { data: data.map(toCard), total: count ?? 0 };
+  },
+});
+
+export const createCard = endpoint({
+  method: "POST",
+  path: "/cards",
+  operationId: "createCard",
+  tag: "Cards",
+  summary: "Add a card",
+  body: CardInput,
+  response: item(Card),
+  status: 201,
+  async handle({ auth, body }) {
+    const currency = body.currency ?? (await baseCurrency(auth)) ?? undefined;
+    const { data, error } = await auth.db
+      .from("cards")
+      .insert({ ...body, currency, user_id: auth.userId })
+      .select(COLUMNS)
+      .single();
+    if (error) throw dbError(error);
+    return { data: toCard(data) };
+  },
+});
+
+export const getCard = endpoint({
+  method: "GET",
+  path: "/cards/{id}",
+  operationId: "getCard",
+  tag: "Cards",
+  summary: "Get a card",
+  params: IdParams,
+  response: item(Card),
+  async handle({ auth, params }) {
+    return { data: toCard(await findCard(auth, params.id)) };
+  },
+});
+
+export const updateCard = endpoint({
+  method: "PATCH",
+  path: "/cards/{id}",
+  operationId: "updateCard",
+  tag: "Cards",
+  summary: "Change a card",
+  description: "Only the fields sent are changed.",
+  params: IdParams,
+  body: CardPatch,
+  response: item(Card),
+  async handle({ auth, params, body }) {
+    await findCard(auth, params.id);
+    const { data, error } = await auth.db
+      .from("cards")
+      .update(body)
+      .eq("id", params.id)
+      .eq("user_id", auth.userId)
+      .select(COLUMNS)
+      .single();
+    if (error) throw dbError(error);
+    return { data: toCard(data) };
+  },
+});
+
+export const deleteCard = endpoint({
+  method: "DELETE",
+  path: "/cards/{id}",
+  operationId: "deleteCard",
+  tag: "Cards",
+  summary: "Delete a card",
+  description:
+    "Moves the card to the Trash along with its statements, payments and installment plans; restoring it from the dashboard brings them all back.",
+  params: IdParams,
+  response: Deleted,
+  async handle({ auth, params }) {
+    await findCard(auth, params.id);
+    const { error } = await auth.db.rpc("trash_card", { p_card: params.id });
+    if (error) throw dbError(error);
+    return { id: params.id, deleted: true as const };
+  },
+});
@@ -0,0 +1,132 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import type { TokenScope } from "../tokens";
+import { authenticate, type ApiAuth } from "./auth";
+import { ApiError } from "./errors";
+
+export type Method = "GET" | "POST" | "PATCH" | "DELETE";
+
+type NoParams = z.ZodObject<Record<string, never>>;
+
+export type RouteHandler = (
+  request: NextRequest,
+  context: { params: Promise<Record<string, string>> },
+) => Promise<NextResponse>;
+
+export type EndpointSpec<
+  P extends z.ZodObject,
+  Q extends z.ZodObject,
+  B extends z.ZodType | undefined,
+  R extends z.ZodType,
+> = {
+  method: Method;
+  /** under /api/v1, with OpenAPI-style parameters: "/cards/{id}" */
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  params?: P;
+  query?: Q;
+  body?: B;
+  response: R;
+  /** 201 for creates */
+  status?: 200 | 201;
+  handle: (input: {
+    auth: ApiAuth;
+    params: z.output<P>;
+    query: z.output<Q>;
+    body: B extends z.ZodType ? z.output<B> : undefined;
+  }) => Promise<z.input<R>>;
+};
+
+export type Endpoint = {
+  method: Method;
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  scope: TokenScope;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  response: z.ZodType;
+  status: 200 | 201;
+  /** the Next.js route handler, e.g. `export const GET = listCards.handler` */
+  handler: RouteHandler;
+};
+
+/**
+ * One operation of the API. Authentication, the scope check (GET needs
+ * `read`, anything else `write`), parsing of path, query and body, and the
+ * error responses are handled here; `handle` only sees valid input.
+ */
+export function endpoint<
+  P extends z.ZodObject = NoParams,
+  Q extends z.ZodObject = NoParams,
+  B extends z.ZodType | undefined = undefined,
+  R extends z.ZodType = z.ZodType,
+>(spec: EndpointSpec<P, Q, B, R>): Endpoint {
+  const scope: TokenScope = spec.method === "GET" ? "read" : "write";
+  const status = spec.status ?? 200;
+
+  const handler: RouteHandler = async (request, context) => {
+    try {
+      const auth = await authenticate(request);
+      if (!auth.scopes.includes(scope)) {
+        throw new ApiError(403, `This token doesn't have the "${scope}" scope.`);
+      }
+
+      const params = parse(spec.params, await context.params, "path parameter");
+      const query = parse(spec.query, Object.fromEntries(request.nextUrl.searchParams), "query parameter");
+      const body = spec.body ? parse(spec.body, await readJson(request), "body") : undefined;
+
+      const result = await spec.handle({
+        auth,
+        params: params as z.output<P>,
+        query: query as z.output<Q>,
+        body: body as B extends z.ZodType ? z.output<B> : undefined,
+      });
+      return NextResponse.json(result, { status });
+    } catch (e) {
+      if (e instanceof ApiError) {
+        return NextResponse.json({ error: e.message, details: e.details }, { status: e.status });
+      }
+      return NextResponse.json({ error: (e as Error).message }, { status: 500 });
+    }
+  };
+
+  return {
+    method: spec.method,
+    path: spec.path,
+    operationId: spec.operationId,
+    tag: spec.tag,
+    summary: spec.summary,
+    description: spec.description,
+    scope,
+    params: spec.params,
+    query: spec.query,
+    body: spec.body,
+    response: spec.response,
+    status,
+    handler,
+  };
+}
+
+function parse(schema: z.ZodType | undefined, value: unknown, what: string): unknown {
+  if (!schema) return {};
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+
+  const details = result.error.issues.map((i) => ({ path: i.path.join("."), message: i.message }));
+  throw new ApiError(400, `Invalid ${what}: ${details.map((d) => (d.path ? `${d.path}: ` : "") + d.message).join("; ")}`, details);
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, "The body must be JSON.");
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * An error the API reports to the caller as `{ error, details? }` with this
+ * status. Anything else thrown by a handler is a 500.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+export function notFound(what: string): ApiError {
+  return new ApiError(404, `${what} not found.`);
+}
+
+/** A failed Supabase query: constraint violations are the caller's fault, the rest is ours. */
+export function dbError(error: { message: string; code?: string }): ApiError {
+  switch (error.code) {
+    case "23505":
+      return new ApiError(409, `Already exists: ${error.message}`);
+    case "23503":
+      return new ApiError(409, `Still in use or refers to a missing row: ${error.message}`);
+    case "23514":
+    case "22P02":
+      return new ApiError(400, error.message);
+    default:
+      return new ApiError(500, error.message);
+  }
+}
@@ -0,0 +1,35 @@
+// /api/v1: token-authenticated REST API. Each operation is an `endpoint`;
+// app/api/v1/**/route.ts only re-exports their handlers, and ENDPOINTS is
+// what the OpenAPI document is generated from.
+import { createCard, deleteCard, getCard, listCards, updateCard } from "./cards";
+import { createPayment, deletePayment, getPayment, listPayments, updatePayment } from "./payments";
+import { createStatement, deleteStatement, getStatement, listStatements, updateStatement } from "./statements";
+import { pendingSummary, upcomingSummary } from "./summary";
+import type { Endpoint } from "./endpoint";
+
+export const cards = { list: listCards, create: createCard, get: getCard, update: updateCard, remove: deleteCard };
+export const statements = {
+  list: listStatements,
+  create: createStatement,
+  get: getStatement,
+  update: updateStatement,
+  remove: deleteStatement,
+};
+export const payments = {
+  list: listPayments,
+  create: createPayment,
+  get: getPayment,
+  update: updatePayment,
+  remove: deletePayment,
+};
+export const summary = { pending: pendingSummary, upcoming: upcomingSummary };
+
+export const ENDPOINTS: readonly Endpoint[] = [
+  ...Object.values(cards),
+  ...Object.values(statements),
+  ...Object.values(payments),
+  ...Object.values(summary),
+];
+
+export { openApiDocument } from "./openapi";
+export type { Endpoint } from "./endpoint";
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { TOKEN_SCOPE_LABELS } from "../tokens";
+import type { Endpoint } from "./endpoint";
+import { REQUEST_COMPONENTS, RESPONSE_COMPONENTS } from "./schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+const TARGET = "openapi-3.0";
+const REF = "#/components/schemas/";
+
+const ERRORS: Record<number, string> = {
+  400: "Invalid parameters or body",
+  401: "Missing, unknown, revoked or expired token",
+  403: "The token lacks the scope",
+  404: "Not found, or not yours",
+  409: "Conflicts with existing data",
+};
+
+function capitalize(s: string) {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+function ref(name: string) {
+  return { $ref: REF + name };
+}
+
+/**
+ * Converts the named schemas in one go, so schemas nested in others become
+ * $refs to their own entry instead of being repeated.
+ */
+function components(schemas: Record<string, z.ZodType>, io: "input" | "output"): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(schemas)) registry.add(schema, { id });
+
+  const out = z.toJSONSchema(registry, { target: TARGET, io, uri: (id) => REF + id, unrepresentable: "any" }).schemas;
+  for (const schema of Object.values(out)) delete schema.$id;
+  return out as Record<string, JsonSchema>;
+}
+
+function parameters(e: Endpoint) {
+  const list = [
+    ...Object.entries(e.params?.shape ?? {}).map(([name, schema]) => ({ name, in: "path", schema })),
+    ...Object.entries(e.query?.shape ?? {}).map(([name, schema]) => ({ name, in: "query", schema })),
+  ];
+
+  return list.map(({ name, in: where, schema }) => {
+    const { description, ...json } = z.toJSONSchema(schema, { target: TARGET, io: "input", unrepresentable: "any" });
+    return {
+      name,
+      in: where,
+      required: !schema.safeParse(undefined).success,
+      ...(description ? { description } : {}),
+      schema: json,
+    };
+  });
+}
+
+/**
+ * The OpenAPI 3.0 document for the endpoints, built from the same zod
+ * schemas the handlers validate with. Served at /api/v1/openapi.json.
+ */
+export function openApiDocument(endpoints: readonly Endpoint[], serverUrl: string) {
+  // shared schemas keep their names; the rest are named after the operation
+  const requestNames = new Map<z.ZodType, string>(Object.entries(REQUEST_COMPONENTS).map(([k, v]) => [v, k]));
+  const responseNames = new Map<z.ZodType, string>(Object.entries(RESPONSE_COMPONENTS).map(([k, v]) => [v, k]));
+  for (const e of endpoints) {
+    if (e.body && !requestNames.has(e.body)) requestNames.set(e.body, `${capitalize(e.operationId)}Request`);
+    if (!responseNames.has(e.response)) responseNames.set(e.response, `${capitalize(e.operationId)}Response`);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const e of endpoints) {
+    const errors = [400, 401, 403, ...(e.params ? [404] : []), ...(e.method === "GET" ? [] : [409])];
+
+    paths[e.path] ??= {};
+    paths[e.path][e.method.toLowerCase()] = {
+      operationId: e.operationId,
+      tags: [e.tag],
+      summary: e.summary,
+      description: [e.description, `Needs the \`${e.scope}\` scope.`].filter(Boolean).join("\n\n"),
+      parameters: parameters(e),
+      ...(e.body
+        ? { requestBody: { required: true, content: { "application/json": { schema: ref(requestNames.get(e.body)!) } } } }
+        : {}),
+      responses: {
+        [e.status]: {
+          description: e.status === 201 ? "Created" : "OK",
+          content: { "application/json": { schema: ref(responseNames.get(e.response)!) } },
+        },
+        ...Object.fromEntries(
+          errors.map((status) => [
+            status,
+            { description: ERRORS[status], content: { "application/json": { schema: ref("Error") } } },
+          ]),
+        ),
+      },
+    };
+  }
+
+  const byName = (names: Map<z.ZodType, string>) => Object.fromEntries([...names].map(([schema, name]) => [name, schema]));
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Debt Tracker API",
+      version: "1",
+      description:
+        "Cards, statements and payments, plus the dashboard's totals. Create a personal access token in " +
+        "Settings and send it as `Authorization: Bearer <token>`. Scopes:\n\n" +
+        Object.values(TOKEN_SCOPE_LABELS)
+          .map((label) => `- ${label}`)
+          .join("\n"),
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ personalAccessToken: [] }],
+    tags: [...new Set(endpoints.map((e) => e.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        personalAccessToken: { type: "http", scheme: "bearer", description: "A personal access token from Settings" },
+      },
+      schemas: { ...components(byName(requestNames), "input"), ...components(byName(responseNames), "output") },
+    },
+  };
+}
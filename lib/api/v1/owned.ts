@@ -0,0 +1,55 @@
+import type { ApiAuth } from "./auth";
+import { dbError, notFound } from "./errors";
+
+// The API runs with the service role, so the RLS checks that keep a user's
+// rows pointing at their own cards, statements and loans don't apply. These
+// do the same for ids that come in with a request.
+
+export async function ownedCard(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("cards")
+    .select("id, currency")
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Card");
+  return data;
+}
+
+export async function ownedStatement(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("statements")
+    .select("id, card_id")
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Statement");
+  return data;
+}
+
+export async function ownedLoan(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("loans")
+    .select("id, currency")
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Loan");
+  return data;
+}
+
+export async function baseCurrency(auth: ApiAuth): Promise<string | null> {
+  const { data, error } = await auth.db
+    .from("profiles")
+    .select("base_currency")
+    .eq("user_id", auth.userId)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  return data?.base_currency ?? null;
+}
@@ -0,0 +1,212 @@
+import type { z } from "zod";
+import type { Tables } from "@/lib/supabase/database.types";
+import type { ApiAuth } from "./auth";
+import { endpoint } from "./endpoint";
+import { ApiError, dbError, notFound } from "./errors";
+import { ownedCard, ownedLoan, ownedStatement } from "./owned";
+import { Deleted, IdParams, item, page, Payment, PaymentInput, PaymentListQuery, PaymentPatch } from "./schemas";
+
+const COLUMNS =
+  "id, kind, card_id, statement_id, loan_id, payment_date, amount, currency, note, match_status, created_at, updated_at";
+
+// IOU entries belong to the People ledger and aren't part of this API
+const KINDS = ["CARD", "LOAN"];
+
+type PaymentColumns = Omit<
+  Tables<"payments">,
+  | "user_id"
+  | "counterparty_id"
+  | "direction"
+  | "import_key"
+  | "deleted_at"
+  | "detached_statement_id"
+  | "workspace_id"
+  | "created_by"
+>;
+
+function toPayment(row: PaymentColumns): z.input<typeof Payment> {
+  return { ...row, kind: row.kind as "CARD" | "LOAN" };
+}
+
+async function findPayment(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("payments")
+    .select(COLUMNS)
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .in("kind", KINDS)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Payment");
+  return data;
+}
+
+/**
+ * What a payment points at, checked the way the payment form does: a CARD
+ * payment has a card and maybe one of that card's statements, a LOAN
+ * payment a loan. The currency follows the card or loan.
+ */
+async function target(
+  auth: ApiAuth,
+  input: Pick<z.output<typeof PaymentInput>, "kind" | "card_id" | "statement_id" | "loan_id">,
+) {
+  if (input.kind === "LOAN") {
+    if (!input.loan_id) throw new ApiError(400, "loan_id is required for a LOAN payment.");
+    const loan = await ownedLoan(auth, input.loan_id);
+    return { kind: "LOAN", loan_id: loan.id, card_id: null, statement_id: null, currency: loan.currency };
+  }
+
+  if (!input.card_id) throw new ApiError(400, "card_id is required for a CARD payment.");
+  const card = await ownedCard(auth, input.card_id);
+  if (input.statement_id) {
+    const statement = await ownedStatement(auth, input.statement_id);
+    if (statement.card_id !== card.id) throw new ApiError(400, "statement_id is a statement of another card.");
+  }
+  return {
+    kind: "CARD",
+    card_id: card.id,
+    statement_id: input.statement_id ?? null,
+    loan_id: null,
+    currency: card.currency,
+  };
+}
+
+export const listPayments = endpoint({
+  method: "GET",
+  path: "/payments",
+  operationId: "listPayments",
+  tag: "Payments",
+  summary: "List card and loan payments",
+  description: "Newest first.",
+  query: PaymentListQuery,
+  response: page(Payment),
+  async handle({ auth, query }) {
+    let q = auth.db
+      .from("payments")
+      .select(COLUMNS, { count: "exact" })
+      .eq("user_id", auth.userId)
+      .in("kind", query.kind ? [query.kind] : KINDS)
+      .is("deleted_at", null)
+      .order("payment_date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+    if (query.card_id) q = q.eq("card_id", query.card_id);
+    if (query.statement_id) q = q.eq("statement_id", query.statement_id);
+    if (query.loan_id) q = q.eq("loan_id", query.loan_id);
+    if (query.from) q = q.gte("payment_date", query.from);
+    if (query.to) q = q.lte("payment_date", query.to);
+
+    const { data, count, error } = await q;
+    if (error) throw dbError(error);
+    return { data: data.map(toPayment), total: count ?? 0 };
+  },
+});
+
+export const createPayment = endpoint({
+  method: "POST",
+  path: "/payments",
+  operationId: "createPayment",
+  tag: "Payments",
+  summary: "Record a payment",
+  body: PaymentInput,
+  response: item(Payment),
+  status: 201,
+  async handle({ auth, body }) {
+    const t = await target(auth, { ...body, kind: body.kind ?? "CARD" });
+    const { data, error } = await auth.db
+      .from("payments")
+      .insert({
+        ...t,
+        payment_date: body.payment_date,
+        amount: body.amount,
+        note: body.note ?? null,
+        match_status: t.statement_id ? "CONFIRMED" : null,
+        user_id: auth.userId,
+      })
+      .select(COLUMNS)
+      .single();
+    if (error) throw dbError(error);
+    return { data: toPayment(data) };
+  },
+});
+
+export const getPayment = endpoint({
+  method: "GET",
+  path: "/payments/{id}",
+  operationId: "getPayment",
+  tag: "Payments",
+  summary: "Get a payment",
+  params: IdParams,
+  response: item(Payment),
+  async handle({ auth, params }) {
+    return { data: toPayment(await findPayment(auth, params.id)) };
+  },
+});
+
+export const updatePayment = endpoint({
+  method: "PATCH",
+  path: "/payments/{id}",
+  operationId: "updatePayment",
+  tag: "Payments",
+  summary: "Change a payment",
+  description: "Only the fields sent are changed. Switching kind needs the new card_id or loan_id.",
+  params: IdParams,
+  body: PaymentPatch,
+  response: item(Payment),
+  async handle({ auth, params, body }) {
+    const existing = await findPayment(auth, params.id);
+    const kind = body.kind ?? existing.kind;
+    const t = await target(auth, {
+      kind: kind === "LOAN" ? "LOAN" : "CARD",
+      card_id: body.card_id !== undefined ? body.card_id : existing.card_id,
+      // a statement of the old card doesn't carry over to a new one
+      statement_id:
+        body.statement_id !== undefined
+          ? body.statement_id
+          : body.card_id && body.card_id !== existing.card_id
+            ? null
+            : existing.statement_id,
+      loan_id: body.loan_id !== undefined ? body.loan_id : existing.loan_id,
+    });
+
+    const { data, error } = await auth.db
+      .from("payments")
+      .update({
+        ...t,
+        ...(body.payment_date ? { payment_date: body.payment_date } : {}),
+        ...(body.amount !== undefined ? { amount: body.amount } : {}),
+        ...(body.note !== undefined ? { note: body.note } : {}),
+        match_status:
+          t.statement_id === existing.statement_id ? existing.match_status : t.statement_id ? "CONFIRMED" : null,
+      })
+      .eq("id", params.id)
+      .eq("user_id", auth.userId)
+      .select(COLUMNS)
+      .single();
+    if (error) throw dbError(error);
+    return { data: toPayment(data) };
+  },
+});
+
+export const deletePayment = endpoint({
+  method: "DELETE",
+  path: "/payments/{id}",
+  operationId: "deletePayment",
+  tag: "Payments",
+  summary: "Delete a payment",
+  description: "Moves it to the Trash, where it can be restored from the dashboard.",
+  params: IdParams,
+  response: Deleted,
+  async handle({ auth, params }) {
+    await findPayment(auth, params.id);
+    const { error } = await auth.db
+      .from("payments")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", params.id)
+      .eq("user_id", auth.userId);
+    if (error) throw dbError(error);
+    return { id: params.id, deleted: true as const };
+  },
+});
@@ -0,0 +1,234 @@
+import { z } from "zod";
+import * as debt from "@/lib/debt";
+
+// Request and response shapes of /api/v1. Handlers parse with these, and
+// the OpenAPI document (./openapi) is generated from the same schemas, so
+// the two can't drift apart.
+
+const id = z.uuid();
+const date = z.iso.date();
+const timestamp = z.string().meta({ format: "date-time" });
+const amount = z.number().min(0).max(999_999_999_999.99);
+const currency = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(debt.isCurrencyCode, "Expected a 3-letter currency code")
+  .meta({ example: "AED" });
+const text = z.string().trim();
+
+const dueDateAdjustment = z.enum(debt.DUE_DATE_ADJUSTMENTS as [debt.DueDateAdjustment, ...debt.DueDateAdjustment[]]);
+
+// ---------------------------------------------------------------------------
+// Resources, as returned
+// ---------------------------------------------------------------------------
+
+export const Card = z.object({
+  id,
+  name: z.string(),
+  bank: z.string().nullable(),
+  credit_limit: z.number().nullable(),
+  currency: z.string().nullable(),
+  notes: z.string().nullable(),
+  purchase_apr: z.number().nullable(),
+  cash_apr: z.number().nullable(),
+  min_payment_percent: z.number().nullable(),
+  min_payment_floor: z.number().nullable(),
+  statement_day: z.number().int().nullable(),
+  grace_days: z.number().int().nullable(),
+  due_date_adjustment: dueDateAdjustment,
+  deleted_at: timestamp.nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const Statement = z.object({
+  id,
+  card_id: id,
+  statement_month: date.meta({ description: "Always the first day of the month" }),
+  statement_date: date.nullable(),
+  due_date: date.nullable(),
+  statement_amount: z.number().nullable().meta({ description: "Null for a placeholder waiting for the amount" }),
+  minimum_due: z.number().nullable().meta({ description: "Null when the card's minimum payment rule applies" }),
+  interest_charged: z.number().nullable(),
+  fees: z.number().nullable(),
+  currency: z.string().nullable(),
+  paid: z.number().meta({ description: "Sum of the payments linked to this statement" }),
+  pending: z.number().meta({ description: "What's left to pay" }),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const Payment = z.object({
+  id,
+  kind: z.enum(["CARD", "LOAN"]),
+  card_id: id.nullable(),
+  statement_id: id.nullable(),
+  loan_id: id.nullable(),
+  payment_date: date,
+  amount: z.number().nullable(),
+  currency: z.string().nullable(),
+  note: z.string().nullable(),
+  match_status: z
+    .string()
+    .nullable()
+    .meta({ description: "How an imported payment was linked to its statement; CONFIRMED when set by hand" }),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const Money = z.object({ currency: z.string(), amount: z.number() });
+
+export const BaseTotal = z.object({
+  currency: z.string().meta({ description: "The base currency from Settings" }),
+  amount: z.number(),
+  missing_rates: z.array(z.string()).meta({ description: "Currencies left out of `amount` for lack of an FX rate" }),
+});
+
+export const PendingSummary = z.object({
+  as_of: date,
+  cards: z.array(
+    z.object({ card_id: id, name: z.string(), currency: z.string(), pending: z.number() }).meta({
+      description: "Unpaid statements plus installment-plan charges not billed yet",
+    }),
+  ),
+  loans: z.array(z.object({ loan_id: id, name: z.string(), currency: z.string(), outstanding: z.number() })),
+  by_currency: z.array(Money),
+  total: BaseTotal,
+});
+
+export const UpcomingItem = z.object({
+  type: z.enum(["STATEMENT", "LOAN_INSTALLMENT"]),
+  statement_id: id.nullable(),
+  loan_id: id.nullable(),
+  card_id: id.nullable(),
+  label: z.string(),
+  detail: z.string(),
+  due_date: date,
+  days: z.number().int().meta({ description: "Days from today until the due date" }),
+  minimum: z.number().meta({ description: "The least to pay to avoid a missed payment" }),
+  full: z.number(),
+  currency: z.string(),
+});
+
+export const Deleted = z.object({ id, deleted: z.literal(true) });
+
+export const ApiErrorBody = z.object({
+  error: z.string(),
+  details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Request bodies
+// ---------------------------------------------------------------------------
+
+export const CardInput = z.object({
+  name: text.min(1),
+  bank: text.nullable().optional(),
+  credit_limit: amount.nullable().optional(),
+  currency: currency.optional().meta({ description: "Defaults to the base currency from Settings" }),
+  notes: text.nullable().optional(),
+  purchase_apr: z.number().min(0).max(999).nullable().optional().meta({ description: "Percent per year" }),
+  cash_apr: z.number().min(0).max(999).nullable().optional(),
+  min_payment_percent: z.number().min(0).max(100).nullable().optional(),
+  min_payment_floor: amount.nullable().optional(),
+  statement_day: z.number().int().min(1).max(31).nullable().optional(),
+  grace_days: z.number().int().min(0).max(90).nullable().optional(),
+  due_date_adjustment: dueDateAdjustment.optional(),
+});
+
+export const CardPatch = CardInput.partial();
+
+export const StatementInput = z.object({
+  card_id: id,
+  statement_month: date.meta({ description: "Any day of the month; stored as the 1st" }),
+  statement_date: date.nullable().optional(),
+  due_date: date.nullable().optional(),
+  statement_amount: amount.nullable().optional(),
+  minimum_due: amount.nullable().optional(),
+  interest_charged: amount.nullable().optional(),
+  fees: amount.nullable().optional(),
+});
+
+export const StatementPatch = StatementInput.partial();
+
+export const PaymentInput = z.object({
+  kind: z.enum(["CARD", "LOAN"]).optional().meta({ description: "Defaults to CARD" }),
+  card_id: id.nullable().optional().meta({ description: "Required for CARD payments" }),
+  statement_id: id
+    .nullable()
+    .optional()
+    .meta({ description: "The statement this CARD payment counts against; must be one of the card's" }),
+  loan_id: id.nullable().optional().meta({ description: "Required for LOAN payments" }),
+  payment_date: date,
+  amount,
+  note: text.nullable().optional(),
+});
+
+export const PaymentPatch = PaymentInput.partial();
+
+// ---------------------------------------------------------------------------
+// Path and query parameters
+// ---------------------------------------------------------------------------
+
+export const IdParams = z.object({ id });
+
+const limit = z.coerce.number().int().min(1).max(500).default(100);
+const offset = z.coerce.number().int().min(0).default(0);
+// query strings can only say "true"/"false"
+const flag = z
+  .enum(["true", "false"])
+  .default("false")
+  .transform((v) => v === "true");
+
+export const CardListQuery = z.object({
+  include_deleted: flag.meta({ description: "Include deleted cards" }),
+  limit,
+  offset,
+});
+
+export const StatementListQuery = z.object({
+  card_id: id.optional(),
+  from: date.optional().meta({ description: "Statement months from this one on" }),
+  to: date.optional().meta({ description: "Statement months up to this one" }),
+  limit,
+  offset,
+});
+
+export const PaymentListQuery = z.object({
+  kind: z.enum(["CARD", "LOAN"]).optional(),
+  card_id: id.optional(),
+  statement_id: id.optional(),
+  loan_id: id.optional(),
+  from: date.optional().meta({ description: "Payment dates from this one on" }),
+  to: date.optional().meta({ description: "Payment dates up to this one" }),
+  limit,
+  offset,
+});
+
+export const SummaryQuery = z.object({
+  as_of: date.optional().meta({ description: "Defaults to today (UTC)" }),
+});
+
+export const UpcomingQuery = SummaryQuery.extend({
+  days: z.coerce.number().int().min(0).max(366).default(30).meta({ description: "How far ahead to look" }),
+});
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+export function item<T extends z.ZodType>(schema: T) {
+  return z.object({ data: schema });
+}
+
+export function page<T extends z.ZodType>(schema: T) {
+  return z.object({
+    data: z.array(schema),
+    total: z.number().int().meta({ description: "Rows matching the filters, across all pages" }),
+  });
+}
+
+/** Shared schemas that get their own entry under components.schemas. */
+export const RESPONSE_COMPONENTS = { Card, Statement, Payment, PendingSummary, UpcomingItem, Deleted, Error: ApiErrorBody };
+export const REQUEST_COMPONENTS = { CardInput, CardPatch, StatementInput, StatementPatch, PaymentInput, PaymentPatch };
@@ -0,0 +1,170 @@
+import type { z } from "zod";
+import type { Tables } from "@/lib/supabase/database.types";
+import * as debt from "@/lib/debt";
+import type { ApiAuth } from "./auth";
+import { endpoint } from "./endpoint";
+import { ApiError, dbError, notFound } from "./errors";
+import { ownedCard } from "./owned";
+import { Deleted, IdParams, item, page, Statement, StatementInput, StatementListQuery, StatementPatch } from "./schemas";
+
+const COLUMNS =
+  "id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due, interest_charged, fees, currency, created_at, updated_at";
+
+type StatementColumns = Omit<Tables<"statements">, "user_id" | "deleted_at" | "workspace_id" | "created_by">;
+
+/** Adds paid and pending, from the same server-side totals the dashboard uses. */
+async function withPaid(auth: ApiAuth, rows: StatementColumns[]): Promise<z.input<typeof Statement>[]> {
+  if (rows.length === 0) return [];
+  const { data, error } = await auth.db
+    .from("statement_paid_totals")
+    .select("*")
+    .eq("user_id", auth.userId)
+    .in("statement_id", rows.map((r) => r.id));
+  if (error) throw dbError(error);
+
+  const paid = debt.paidFromTotals(data);
+  return rows.map((r) => ({ ...r, paid: paid.get(r.id) ?? 0, pending: debt.statementPending(r, paid) }));
+}
+
+async function findStatement(auth: ApiAuth, id: string) {
+  const { data, error } = await auth.db
+    .from("statements")
+    .select(COLUMNS)
+    .eq("id", id)
+    .eq("user_id", auth.userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw dbError(error);
+  if (!data) throw notFound("Statement");
+  return data;
+}
+
+function monthOf(date: string): string {
+  const month = debt.firstDayOfMonth(date);
+  if (!month) throw new ApiError(400, "statement_month must be YYYY-MM-DD");
+  return month;
+}
+
+function duplicateMonth(error: { message: string; code?: string }): ApiError {
+  return error.code === "23505"
+    ? new ApiError(
+        409,
+        "The card already has a statement for that month. Change that one with PATCH instead, or, if it's in the Trash, restore or purge it from the dashboard.",
+      )
+    : dbError(error);
+}
+
+export const listStatements = endpoint({
+  method: "GET",
+  path: "/statements",
+  operationId: "listStatements",
+  tag: "Statements",
+  summary: "List statements",
+  description: "Newest month first.",
+  query: StatementListQuery,
+  response: page(Statement),
+  async handle({ auth, query }) {
+    let q = auth.db
+      .from("statements")
+      .select(COLUMNS, { count: "exact" })
+      .eq("user_id", auth.userId)
+      .is("deleted_at", null)
+      .order("statement_month", { ascending: false })
+      .order("id")
+      .range(query.offset, query.offset + query.limit - 1);
+    if (query.card_id) q = q.eq("card_id", query.card_id);
+    if (query.from) q = q.gte("statement_month", monthOf(query.from));
+    if (query.to) q = q.lte("statement_month", monthOf(query.to));
+
+    const { data, count, error } = await q;
+    if (error) throw dbError(error);
+    return { data: await withPaid(auth, data), total: count ?? 0 };
+  },
+});
+
+export const createStatement = endpoint({
+  method: "POST",
+  path: "/statements",
+  operationId: "createStatement",
+  tag: "Statements",
+  summary: "Add a statement",
+  description: "One per card and month; the currency is the card's. 409 if the month already has one.",
+  body: StatementInput,
+  response: item(Statement),
+  status: 201,
+  async handle({ auth, body }) {
+    const card = await ownedCard(auth, body.card_id);
+    const { data, error } = await auth.db
+      .from("statements")
+      .insert({
+        ...body,
+        statement_month: monthOf(body.statement_month),
+        currency: card.currency,
+        user_id: auth.userId,
+      })
+      .select(COLUMNS)
+      .single();
+    if (error) throw duplicateMonth(error);
+    return { data: (await withPaid(auth, [data]))[0] };
+  },
+});
+
+export const getStatement = endpoint({
+  method: "GET",
+  path: "/statements/{id}",
+  operationId: "getStatement",
+  tag: "Statements",
+  summary: "Get a statement",
+  params: IdParams,
+  response: item(Statement),
+  async handle({ auth, params }) {
+    return { data: (await withPaid(auth, [await findStatement(auth, params.id)]))[0] };
+  },
+});
+
+export const updateStatement = endpoint({
+  method: "PATCH",
+  path: "/statements/{id}",
+  operationId: "updateStatement",
+  tag: "Statements",
+  summary: "Change a statement",
+  description: "Only the fields sent are changed. Moving it to another card takes that card's currency.",
+  params: IdParams,
+  body: StatementPatch,
+  response: item(Statement),
+  async handle({ auth, params, body }) {
+    const existing = await findStatement(auth, params.id);
+    const card = body.card_id && body.card_id !== existing.card_id ? await ownedCard(auth, body.card_id) : null;
+
+    const { data, error } = await auth.db
+      .from("statements")
+      .update({
+        ...body,
+        ...(body.statement_month ? { statement_month: monthOf(body.statement_month) } : {}),
+        ...(card ? { currency: card.currency } : {}),
+      })
+      .eq("id", params.id)
+      .eq("user_id", auth.userId)
+      .select(COLUMNS)
+      .single();
+    if (error) throw duplicateMonth(error);
+    return { data: (await withPaid(auth, [data]))[0] };
+  },
+});
+
+export const deleteStatement = endpoint({
+  method: "DELETE",
+  path: "/statements/{id}",
+  operationId: "deleteStatement",
+  tag: "Statements",
+  summary: "Delete a statement",
+  description: "Moves it to the Trash. Payments linked to it are kept and unlinked; restoring it from the dashboard links them back.",
+  params: IdParams,
+  response: Deleted,
+  async handle({ auth, params }) {
+    await findStatement(auth, params.id);
+    const { error } = await auth.db.rpc("trash_statement", { p_statement: params.id });
+    if (error) throw dbError(error);
+    return { id: params.id, deleted: true as const };
+  },
+});
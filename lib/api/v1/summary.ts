@@ -0,0 +1,141 @@
+import type { z } from "zod";
+import * as debt from "@/lib/debt";
+import type { ApiAuth } from "./auth";
+import { endpoint } from "./endpoint";
+import { dbError } from "./errors";
+import { item, PendingSummary, SummaryQuery, UpcomingItem, UpcomingQuery } from "./schemas";
+
+// Everything the dashboard overview adds up, loaded the same way.
+async function loadDebts(auth: ApiAuth) {
+  const [cardsRes, statementsRes, totalsRes, plansRes, loansRes, loanTotalsRes, profileRes, fxRes] = await Promise.all([
+    auth.db.from("cards").select("*").eq("user_id", auth.userId).is("deleted_at", null).order("created_at"),
+    auth.db.from("statements").select("*").eq("user_id", auth.userId).is("deleted_at", null),
+    auth.db.from("statement_paid_totals").select("*").eq("user_id", auth.userId),
+    auth.db.from("installment_plans").select("*").eq("user_id", auth.userId).is("deleted_at", null),
+    auth.db.from("loans").select("*").eq("user_id", auth.userId).is("deleted_at", null).order("created_at"),
+    auth.db.from("loan_paid_totals").select("*").eq("user_id", auth.userId),
+    auth.db.from("profiles").select("base_currency").eq("user_id", auth.userId).maybeSingle(),
+    auth.db.from("fx_rates").select("*").eq("user_id", auth.userId),
+  ]);
+  for (const res of [cardsRes, statementsRes, totalsRes, plansRes, loansRes, loanTotalsRes, profileRes, fxRes]) {
+    if (res.error) throw dbError(res.error);
+  }
+
+  const cards = new Map((cardsRes.data ?? []).map((c) => [c.id, c]));
+  const statements = (statementsRes.data ?? []).filter((s) => cards.has(s.card_id));
+  const paidByLoan = new Map<string, number>();
+  for (const t of loanTotalsRes.data ?? []) if (t.loan_id) paidByLoan.set(t.loan_id, debt.toAmount(t.paid_amount));
+
+  return {
+    cards,
+    statements,
+    paid: debt.paidFromTotals(totalsRes.data ?? []),
+    plans: (plansRes.data ?? []).filter((p) => cards.has(p.card_id)),
+    loans: loansRes.data ?? [],
+    paidByLoan,
+    fx: debt.createFxConverter(fxRes.data ?? [], debt.normalizeCurrency(profileRes.data?.base_currency)),
+  };
+}
+
+export const pendingSummary = endpoint({
+  method: "GET",
+  path: "/summary/pending",
+  operationId: "getPendingSummary",
+  tag: "Summary",
+  summary: "What's left to pay",
+  description:
+    "Pending per card and outstanding per loan, totals per currency, and the grand total in the base currency " +
+    "(converted with the FX rates from Settings).",
+  query: SummaryQuery,
+  response: item(PendingSummary),
+  async handle({ auth, query }) {
+    const today = query.as_of ?? debt.isoToday();
+    const d = await loadDebts(auth);
+
+    const committed = debt.committedByCard(d.plans, debt.billedThroughByCard(d.statements));
+    const pendingByCard = debt.pendingByCard(d.statements, d.paid, committed);
+
+    const cards = [...d.cards.values()].map((c) => ({
+      card_id: c.id,
+      name: c.name,
+      currency: debt.normalizeCurrency(c.currency),
+      pending: Math.round((pendingByCard.get(c.id) ?? 0) * 100) / 100,
+    }));
+    const loans = d.loans.map((l) => ({
+      loan_id: l.id,
+      name: l.name,
+      currency: debt.normalizeCurrency(l.currency),
+      outstanding: debt.loanOutstanding(l, d.paidByLoan.get(l.id) ?? 0, today),
+    }));
+
+    const money = [
+      ...cards.map((c) => ({ currency: c.currency, amount: c.pending })),
+      ...loans.map((l) => ({ currency: l.currency, amount: l.outstanding })),
+    ];
+    const total = debt.sumInBase(money, d.fx, today);
+
+    return {
+      data: {
+        as_of: today,
+        cards,
+        loans,
+        by_currency: [...debt.totalsByCurrency(money)].map(([currency, amount]) => ({ currency, amount })),
+        total: { currency: d.fx.base, amount: total.total, missing_rates: total.missing },
+      },
+    };
+  },
+});
+
+export const upcomingSummary = endpoint({
+  method: "GET",
+  path: "/summary/upcoming",
+  operationId: "getUpcoming",
+  tag: "Summary",
+  summary: "Upcoming due dates",
+  description: "Statements and loan installments with something left to pay, due within `days`, soonest first.",
+  query: UpcomingQuery,
+  response: item(UpcomingItem.array()),
+  async handle({ auth, query }) {
+    const today = query.as_of ?? debt.isoToday();
+    const d = await loadDebts(auth);
+
+    const items: z.input<typeof UpcomingItem>[] = debt.upcomingDue(d.statements, d.paid, today, query.days).map((s) => {
+      const card = d.cards.get(s.card_id);
+      return {
+        type: "STATEMENT",
+        statement_id: s.id,
+        loan_id: null,
+        card_id: s.card_id,
+        label: card ? `${card.name}${card.bank ? " - " + card.bank : ""}` : s.card_id,
+        detail: `Statement month: ${s.statement_month}`,
+        due_date: s.due_date!,
+        days: s.days,
+        minimum: debt.minimumRemaining(s, d.paid, card),
+        full: s.pending,
+        currency: debt.normalizeCurrency(s.currency),
+      };
+    });
+
+    for (const l of d.loans) {
+      for (const u of debt.loanUpcoming(l, d.paidByLoan.get(l.id) ?? 0, today, query.days)) {
+        items.push({
+          type: "LOAN_INSTALLMENT",
+          statement_id: null,
+          loan_id: l.id,
+          card_id: null,
+          label: `${l.name}${l.lender ? " - " + l.lender : ""}`,
+          detail: `Loan installment #${u.number} of ${l.tenure_months}`,
+          due_date: u.due_date,
+          days: u.days,
+          // an installment has no smaller minimum
+          minimum: u.pending,
+          full: u.pending,
+          currency: debt.normalizeCurrency(l.currency),
+        });
+      }
+    }
+
+    items.sort((a, b) => (a.due_date > b.due_date ? 1 : a.due_date < b.due_date ? -1 : 0));
+    return { data: items };
+  },
+});
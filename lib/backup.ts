@@ -0,0 +1,230 @@
+// Export archive: everything a user owns as one versioned JSON document, or
+// one CSV per table. The restore_archive RPC reads the same format back and
+// refuses any other version.
+
+import { toCsv } from "./csv";
+
+export const ARCHIVE_FORMAT = "debt-tracker-export";
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * Columns kept per table (user_id is left out; a restore takes the signed-in
+ * user). Tables are in dependency order, which is also the order a restore
+ * re-creates them in.
+ */
+export const ARCHIVE_COLUMNS = {
+  cards: [
+    "id",
+    "name",
+    "bank",
+    "credit_limit",
+    "currency",
+    "notes",
+    "purchase_apr",
+    "cash_apr",
+    "min_payment_percent",
+    "min_payment_floor",
+    "statement_day",
+    "grace_days",
+    "due_date_adjustment",
+    "created_at",
+    "deleted_at",
+  ],
+  statements: [
+    "id",
+    "card_id",
+    "statement_month",
+    "statement_date",
+    "due_date",
+    "statement_amount",
+    "minimum_due",
+    "interest_charged",
+    "fees",
+    "currency",
+    "created_at",
+    "deleted_at",
+  ],
+  loans: [
+    "id",
+    "name",
+    "lender",
+    "loan_type",
+    "principal",
+    "annual_rate",
+    "tenure_months",
+    "emi",
+    "start_date",
+    "currency",
+    "notes",
+    "created_at",
+    "deleted_at",
+  ],
+  counterparties: ["id", "name", "contact", "notes", "created_at", "deleted_at"],
+  installment_plans: [
+    "id",
+    "card_id",
+    "description",
+    "principal",
+    "processing_fee",
+    "monthly_installment",
+    "tenure_months",
+    "start_month",
+    "currency",
+    "created_at",
+    "deleted_at",
+  ],
+  fx_rates: ["id", "from_currency", "to_currency", "rate", "effective_date", "created_at"],
+  payments: [
+    "id",
+    "kind",
+    "card_id",
+    "statement_id",
+    "detached_statement_id",
+    "loan_id",
+    "counterparty_id",
+    "direction",
+    "payment_date",
+    "amount",
+    "currency",
+    "note",
+    "import_key",
+    "match_status",
+    "created_at",
+    "deleted_at",
+  ],
+} as const;
+
+export type ArchiveTable = keyof typeof ARCHIVE_COLUMNS;
+
+export const ARCHIVE_TABLES = Object.keys(ARCHIVE_COLUMNS) as ArchiveTable[];
+
+export type ArchiveValue = string | number | boolean | null;
+export type ArchiveRow = Record<string, ArchiveValue>;
+
+export type ArchiveHeader = {
+  format: string;
+  version: number;
+  exported_at: string;
+};
+
+export type Archive = ArchiveHeader & {
+  tables: Record<ArchiveTable, ArchiveRow[]>;
+};
+
+export type ArchiveCheck = { ok: true; archive: Archive } | { ok: false; error: string };
+
+// which archived table each reference column points into
+const REFERENCES: Partial<Record<ArchiveTable, Record<string, ArchiveTable>>> = {
+  statements: { card_id: "cards" },
+  installment_plans: { card_id: "cards" },
+  payments: {
+    card_id: "cards",
+    statement_id: "statements",
+    detached_statement_id: "statements",
+    loan_id: "loans",
+    counterparty_id: "counterparties",
+  },
+};
+
+export function isArchiveTable(value: string): value is ArchiveTable {
+  return Object.prototype.hasOwnProperty.call(ARCHIVE_COLUMNS, value);
+}
+
+export function archiveHeader(exportedAt: string): ArchiveHeader {
+  return { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exported_at: exportedAt };
+}
+
+/** Keeps the table's archived columns; anything missing becomes null. */
+export function archiveRow(table: ArchiveTable, row: Record<string, unknown>): ArchiveRow {
+  const out: ArchiveRow = {};
+  for (const col of ARCHIVE_COLUMNS[table]) {
+    const v = row[col];
+    out[col] = typeof v === "string" || typeof v === "number" || typeof v === "boolean" ? v : null;
+  }
+  return out;
+}
+
+export function archiveCsv(table: ArchiveTable, rows: readonly ArchiveRow[]): string {
+  const columns = ARCHIVE_COLUMNS[table];
+  return toCsv(
+    columns,
+    rows.map((r) => columns.map((c) => r[c])),
+  );
+}
+
+/** e.g. debt-tracker-2026-10-19.json, debt-tracker-payments-2026-10-19.csv */
+export function archiveFileName(date: string, table?: ArchiveTable): string {
+  return table ? `debt-tracker-${table}-${date}.csv` : `debt-tracker-${date}.json`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a parsed archive before it is restored: the format and version,
+ * that every row has an id and only plain values, and that every reference
+ * points at a row inside the archive. Tables that are missing count as
+ * empty, so a hand-trimmed archive still restores.
+ */
+export function validateArchive(value: unknown): ArchiveCheck {
+  if (!isPlainObject(value) || value.format !== ARCHIVE_FORMAT) {
+    return { ok: false, error: "This isn't a Debt Tracker export." };
+  }
+  if (typeof value.version !== "number") {
+    return { ok: false, error: "The archive has no version." };
+  }
+  if (value.version > ARCHIVE_VERSION) {
+    return { ok: false, error: `The archive is version ${value.version}, made by a newer version of the app.` };
+  }
+  if (value.version !== ARCHIVE_VERSION) {
+    return { ok: false, error: `Archive version ${value.version} is not supported.` };
+  }
+
+  const rawTables = isPlainObject(value.tables) ? value.tables : {};
+  const tables = {} as Record<ArchiveTable, ArchiveRow[]>;
+  const ids = {} as Record<ArchiveTable, Set<string>>;
+
+  for (const table of ARCHIVE_TABLES) {
+    const raw = rawTables[table] ?? [];
+    if (!Array.isArray(raw)) return { ok: false, error: `"${table}" must be a list.` };
+
+    const rows: ArchiveRow[] = [];
+    for (let i = 0; i < raw.length; i++) {
+      const row = raw[i];
+      if (!isPlainObject(row) || typeof row.id !== "string" || !row.id) {
+        return { ok: false, error: `${table} row ${i + 1} has no id.` };
+      }
+      const nested = Object.keys(row).find((k) => typeof row[k] === "object" && row[k] !== null);
+      if (nested) return { ok: false, error: `${table} row ${i + 1}: "${nested}" must be a plain value.` };
+      rows.push(archiveRow(table, row));
+    }
+
+    tables[table] = rows;
+    ids[table] = new Set(rows.map((r) => r.id as string));
+  }
+
+  for (const table of ARCHIVE_TABLES) {
+    const refs = REFERENCES[table];
+    if (!refs) continue;
+    for (let i = 0; i < tables[table].length; i++) {
+      const row = tables[table][i];
+      for (const [col, target] of Object.entries(refs)) {
+        const ref = row[col];
+        if (ref !== null && !ids[target].has(String(ref))) {
+          return { ok: false, error: `${table} row ${i + 1} points at a ${col} that isn't in the archive.` };
+        }
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exported_at: typeof value.exported_at === "string" ? value.exported_at : "",
+      tables,
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`. Returns a 401
+ * response when the request doesn't carry it, or null when it's allowed.
+ */
+export function rejectUnlessCron(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "CRON_SECRET is not configured" }, { status: 500 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { paidByStatement, pendingByCard, totalPending, upcomingDue } from "./balances";
+import type { PaymentInput, StatementInput } from "./types";
+
+function statement(overrides: Partial<StatementInput> & { id: string }): StatementInput {
+  return {
+    card_id: "card-a",
+    statement_month: "2025-03-01",
+    due_date: "2025-03-25",
+    statement_amount: 100,
+    ...overrides,
+  };
+}
+
+function payment(statementId: string | null, amount: number | null): PaymentInput {
+  return { statement_id: statementId, amount };
+}
+
+describe("paidByStatement", () => {
+  it("adds up partial payments against the same statement", () => {
+    const paid = paidByStatement([payment("s1", 30), payment("s1", 20.5), payment("s2", 10)]);
+    expect(paid.get("s1")).toBe(50.5);
+    expect(paid.get("s2")).toBe(10);
+  });
+
+  it("keeps overpayments as they are", () => {
+    const paid = paidByStatement([payment("s1", 80), payment("s1", 70)]);
+    expect(paid.get("s1")).toBe(150);
+  });
+
+  it("counts null amounts as 0", () => {
+    const paid = paidByStatement([payment("s1", null), payment("s1", 25)]);
+    expect(paid.get("s1")).toBe(25);
+  });
+
+  it("ignores payments not linked to a statement", () => {
+    const paid = paidByStatement([payment(null, 40), payment("s1", 10)]);
+    expect([...paid.keys()]).toEqual(["s1"]);
+  });
+
+  it("returns an empty map for no payments", () => {
+    expect(paidByStatement([]).size).toBe(0);
+  });
+});
+
+describe("pendingByCard", () => {
+  it("subtracts partial payments per card", () => {
+    const statements = [
+      statement({ id: "s1", card_id: "card-a", statement_amount: 100 }),
+      statement({ id: "s2", card_id: "card-b", statement_amount: 200 }),
+    ];
+    const pending = pendingByCard(statements, paidByStatement([payment("s1", 40), payment("s2", 50)]));
+    expect(pending.get("card-a")).toBe(60);
+    expect(pending.get("card-b")).toBe(150);
+  });
+
+  it("lets an overpaid statement offset the card's other statements", () => {
+    const statements = [
+      statement({ id: "s1", statement_amount: 100 }),
+      statement({ id: "s2", statement_month: "2025-04-01", statement_amount: 50 }),
+    ];
+    const pending = pendingByCard(statements, paidByStatement([payment("s1", 130)]));
+    expect(pending.get("card-a")).toBe(20);
+  });
+
+  it("counts a null statement amount as 0, so payments against it are credit", () => {
+    const statements = [statement({ id: "s1", statement_amount: null })];
+    expect(pendingByCard(statements, paidByStatement([])).get("card-a")).toBe(0);
+    expect(pendingByCard(statements, paidByStatement([payment("s1", 15)])).get("card-a")).toBe(-15);
+  });
+
+  it("sums statements on either side of a year boundary", () => {
+    const statements = [
+      statement({ id: "dec", statement_month: "2024-12-01", due_date: "2025-01-05", statement_amount: 300 }),
+      statement({ id: "jan", statement_month: "2025-01-01", due_date: "2025-02-05", statement_amount: 120 }),
+    ];
+    const pending = pendingByCard(statements, paidByStatement([payment("dec", 300)]));
+    expect(pending.get("card-a")).toBe(120);
+  });
+
+  it("adds committed charges, including for cards without statements", () => {
+    const statements = [statement({ id: "s1", statement_amount: 100 })];
+    const committed = new Map([
+      ["card-a", 25],
+      ["card-b", 40],
+    ]);
+    const pending = pendingByCard(statements, paidByStatement([]), committed);
+    expect(pending.get("card-a")).toBe(125);
+    expect(pending.get("card-b")).toBe(40);
+  });
+});
+
+describe("totalPending", () => {
+  it("subtracts partial payments across all statements", () => {
+    const statements = [
+      statement({ id: "s1", statement_amount: 100 }),
+      statement({ id: "s2", card_id: "card-b", statement_amount: 250 }),
+    ];
+    expect(totalPending(statements, paidByStatement([payment("s1", 60), payment("s2", 100)]))).toBe(190);
+  });
+
+  it("counts overpayments as credit against the total", () => {
+    const statements = [
+      statement({ id: "s1", statement_amount: 100 }),
+      statement({ id: "s2", card_id: "card-b", statement_amount: 40 }),
+    ];
+    expect(totalPending(statements, paidByStatement([payment("s1", 150)]))).toBe(-10);
+  });
+
+  it("counts null amounts as 0", () => {
+    const statements = [statement({ id: "s1", statement_amount: null }), statement({ id: "s2", statement_amount: 80 })];
+    expect(totalPending(statements, paidByStatement([payment("s2", null)]))).toBe(80);
+  });
+
+  it("is 0 with no statements", () => {
+    expect(totalPending([], paidByStatement([payment("s1", 10)]))).toBe(0);
+  });
+});
+
+describe("upcomingDue", () => {
+  it("lists what is left after a partial payment, with days until due", () => {
+    const statements = [statement({ id: "s1", due_date: "2025-03-25", statement_amount: 100 })];
+    const list = upcomingDue(statements, paidByStatement([payment("s1", 35)]), "2025-03-20");
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ id: "s1", pending: 65, days: 5 });
+  });
+
+  it("leaves out paid and overpaid statements", () => {
+    const statements = [
+      statement({ id: "paid", statement_amount: 100 }),
+      statement({ id: "over", statement_amount: 100 }),
+    ];
+    const paid = paidByStatement([payment("paid", 100), payment("over", 120)]);
+    expect(upcomingDue(statements, paid, "2025-03-20")).toEqual([]);
+  });
+
+  it("leaves out statements with a null amount", () => {
+    const statements = [statement({ id: "s1", statement_amount: null })];
+    expect(upcomingDue(statements, paidByStatement([]), "2025-03-20")).toEqual([]);
+  });
+
+  it("skips statements with a missing or invalid due date", () => {
+    const statements = [
+      statement({ id: "none", due_date: null }),
+      statement({ id: "bad", due_date: "2025-02-31" }),
+      statement({ id: "ok", due_date: "2025-03-22" }),
+    ];
+    expect(upcomingDue(statements, paidByStatement([]), "2025-03-20").map((s) => s.id)).toEqual(["ok"]);
+  });
+
+  it("includes both ends of the window and sorts soonest first", () => {
+    const statements = [
+      statement({ id: "end", due_date: "2025-04-19" }),
+      statement({ id: "after", due_date: "2025-04-20" }),
+      statement({ id: "today", due_date: "2025-03-20" }),
+      statement({ id: "overdue", due_date: "2025-03-19" }),
+    ];
+    const list = upcomingDue(statements, paidByStatement([]), "2025-03-20");
+    expect(list.map((s) => [s.id, s.days])).toEqual([
+      ["today", 0],
+      ["end", 30],
+    ]);
+  });
+
+  it("counts days across the end of a short month", () => {
+    const statements = [
+      statement({ id: "feb", due_date: "2025-02-28" }),
+      statement({ id: "mar", due_date: "2025-03-02" }),
+      statement({ id: "late", due_date: "2025-03-03" }),
+    ];
+    const list = upcomingDue(statements, paidByStatement([]), "2025-01-31");
+    expect(list.map((s) => [s.id, s.days])).toEqual([
+      ["feb", 28],
+      ["mar", 30],
+    ]);
+  });
+
+  it("handles leap days and the turn of the year", () => {
+    const leap = [statement({ id: "leap", due_date: "2024-02-29" }), statement({ id: "mar", due_date: "2024-03-01" })];
+    expect(upcomingDue(leap, paidByStatement([]), "2024-02-28", 1).map((s) => [s.id, s.days])).toEqual([
+      ["leap", 1],
+    ]);
+
+    const newYear = [statement({ id: "jan", due_date: "2026-01-01" })];
+    expect(upcomingDue(newYear, paidByStatement([]), "2025-12-31", 1)[0]).toMatchObject({ id: "jan", days: 1 });
+  });
+
+  it("returns nothing when today isn't a date", () => {
+    expect(upcomingDue([statement({ id: "s1" })], paidByStatement([]), "not-a-date")).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import { addDays, daysBetween, parseIsoDate } from "./dates";
+import type { CardInput, PaidMap, PaidTotalInput, PaymentInput, StatementInput, UpcomingDue } from "./types";
+
+/** Money columns can be null (or garbage from a form); treat those as 0. */
+export function toAmount(value: number | string | null | undefined): number {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Sums payments per linked statement. Unlinked payments are ignored. */
+export function paidByStatement(payments: readonly PaymentInput[]): PaidMap {
+  const m: PaidMap = new Map();
+  for (const p of payments) {
+    if (!p.statement_id) continue;
+    m.set(p.statement_id, (m.get(p.statement_id) ?? 0) + toAmount(p.amount));
+  }
+  return m;
+}
+
+/**
+ * Builds the same map from server-side aggregates. Prefer this over
+ * paidByStatement when the caller may not hold every payment row.
+ */
+export function paidFromTotals(totals: readonly PaidTotalInput[]): PaidMap {
+  const m: PaidMap = new Map();
+  for (const t of totals) {
+    if (!t.statement_id) continue;
+    m.set(t.statement_id, toAmount(t.paid_amount));
+  }
+  return m;
+}
+
+/**
+ * Statement amount minus what was paid against it. Negative when the
+ * statement was overpaid, which counts as credit in the card/overall totals.
+ */
+export function statementPending(statement: StatementInput, paid: PaidMap): number {
+  return toAmount(statement.statement_amount) - (paid.get(statement.id) ?? 0);
+}
+
+/**
+ * Pending per card. `committed` adds charges the card is already on the hook
+ * for but that aren't on a statement yet (installment plans, see
+ * committedByCard).
+ */
+export function pendingByCard(
+  statements: readonly StatementInput[],
+  paid: PaidMap,
+  committed?: ReadonlyMap<string, number>,
+): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const s of statements) {
+    m.set(s.card_id, (m.get(s.card_id) ?? 0) + statementPending(s, paid));
+  }
+  for (const [cardId, amount] of committed ?? []) {
+    m.set(cardId, (m.get(cardId) ?? 0) + amount);
+  }
+  return m;
+}
+
+export function totalPending(statements: readonly StatementInput[], paid: PaidMap): number {
+  let sum = 0;
+  for (const s of statements) sum += statementPending(s, paid);
+  return sum;
+}
+
+export function totalLimit(cards: readonly CardInput[]): number {
+  return cards.reduce((sum, c) => sum + toAmount(c.credit_limit), 0);
+}
+
+/**
+ * Statements with something left to pay that fall due between `today` and
+ * `today + windowDays` (both inclusive), soonest first. Statements without a
+ * (valid) due date are skipped.
+ */
+export function upcomingDue<S extends StatementInput>(
+  statements: readonly S[],
+  paid: PaidMap,
+  today: string,
+  windowDays = 30,
+): UpcomingDue<S>[] {
+  const end = addDays(today, windowDays);
+  if (!end) return [];
+
+  const list: UpcomingDue<S>[] = [];
+  for (const s of statements) {
+    if (parseIsoDate(s.due_date) === null) continue;
+
+    const pending = statementPending(s, paid);
+    if (pending <= 0) continue;
+
+    const days = daysBetween(today, s.due_date!);
+    const daysToEnd = daysBetween(s.due_date!, end);
+    if (days === null || daysToEnd === null) continue;
+    if (days >= 0 && daysToEnd >= 0) list.push({ ...s, pending, days });
+  }
+
+  list.sort((a, b) => (a.due_date! > b.due_date! ? 1 : a.due_date! < b.due_date! ? -1 : 0));
+  return list;
+}
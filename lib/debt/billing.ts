@@ -0,0 +1,99 @@
+import { addDays, firstDayOfMonth, formatIsoDate, parseIsoDate } from "./dates";
+
+export type DueDateAdjustment = "NONE" | "PREVIOUS_BUSINESS_DAY" | "NEXT_BUSINESS_DAY";
+
+export const DUE_DATE_ADJUSTMENTS: readonly DueDateAdjustment[] = ["NONE", "PREVIOUS_BUSINESS_DAY", "NEXT_BUSINESS_DAY"];
+
+/** UAE weekend since 2022: Saturday and Sunday (getUTCDay values). */
+export const UAE_WEEKEND: readonly number[] = [6, 0];
+
+export type BillingCycleInput = {
+  id: string;
+  statement_day: number | null;
+  grace_days: number | null;
+  due_date_adjustment?: string | null;
+};
+
+export type BillingDates = {
+  statement_month: string; // YYYY-MM-01
+  statement_date: string;
+  due_date: string | null; // null when the card has no grace period set
+};
+
+export type BusinessDayCalendar = {
+  holidays: ReadonlySet<string>;
+  weekend?: readonly number[];
+};
+
+export function isBusinessDay(date: string, calendar: BusinessDayCalendar): boolean {
+  const t = parseIsoDate(date);
+  if (t === null) return false;
+  const weekend = calendar.weekend ?? UAE_WEEKEND;
+  return !weekend.includes(new Date(t).getUTCDay()) && !calendar.holidays.has(date);
+}
+
+/** Moves a date off weekends/holidays in the given direction. */
+export function adjustToBusinessDay(date: string, rule: DueDateAdjustment, calendar: BusinessDayCalendar): string {
+  if (rule === "NONE") return date;
+  const step = rule === "NEXT_BUSINESS_DAY" ? 1 : -1;
+  let d = date;
+  // a couple of weeks covers any run of holidays + weekends
+  for (let i = 0; i < 14 && !isBusinessDay(d, calendar); i++) {
+    d = addDays(d, step) ?? d;
+  }
+  return d;
+}
+
+/** Statement day for a month, clamped to the month's last day (31 -> 28 Feb). */
+export function statementDateFor(month: string, statementDay: number): string | null {
+  const first = firstDayOfMonth(month);
+  const t = first ? parseIsoDate(first) : null;
+  if (t === null) return null;
+  const d = new Date(t);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  const day = Math.min(Math.max(1, Math.floor(statementDay)), lastDay);
+  return formatIsoDate(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), day));
+}
+
+function toAdjustment(value: string | null | undefined): DueDateAdjustment {
+  return DUE_DATE_ADJUSTMENTS.includes(value as DueDateAdjustment) ? (value as DueDateAdjustment) : "NONE";
+}
+
+/**
+ * Statement and due dates for a card in a given month, or null when the
+ * card has no statement day. Only the due date is moved off weekends and
+ * holidays; the statement date is whatever the bank prints.
+ */
+export function billingDatesFor(
+  card: BillingCycleInput,
+  month: string,
+  calendar: BusinessDayCalendar = { holidays: new Set() },
+): BillingDates | null {
+  if (card.statement_day == null) return null;
+  const statementMonth = firstDayOfMonth(month);
+  const statementDate = statementDateFor(month, card.statement_day);
+  if (!statementMonth || !statementDate) return null;
+
+  const rawDue = card.grace_days == null ? null : addDays(statementDate, card.grace_days);
+  const dueDate = rawDue ? adjustToBusinessDay(rawDue, toAdjustment(card.due_date_adjustment), calendar) : null;
+
+  return { statement_month: statementMonth, statement_date: statementDate, due_date: dueDate };
+}
+
+/**
+ * Placeholder statements for `month`: one per card with a billing cycle.
+ * The amount is left empty for the user to fill in.
+ */
+export function placeholderStatements<C extends BillingCycleInput & { currency?: string | null }>(
+  cards: readonly C[],
+  month: string,
+  calendar?: BusinessDayCalendar,
+): Array<BillingDates & { card_id: string; currency: string | null; statement_amount: null }> {
+  const rows: Array<BillingDates & { card_id: string; currency: string | null; statement_amount: null }> = [];
+  for (const c of cards) {
+    const dates = billingDatesFor(c, month, calendar);
+    if (!dates) continue;
+    rows.push({ ...dates, card_id: c.id, currency: c.currency ?? null, statement_amount: null });
+  }
+  return rows;
+}
@@ -0,0 +1,74 @@
+// Date helpers for the debt math. All dates are plain "YYYY-MM-DD" strings
+// (Postgres `date` columns) and arithmetic is done in UTC so results don't
+// depend on the server or browser time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Today's local calendar date as YYYY-MM-DD. */
+export function isoToday(now: Date = new Date()): string {
+  const yyyy = now.getFullYear();
+  const mm = String(now.getMonth() + 1).padStart(2, "0");
+  const dd = String(now.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/** "2025-03-17" -> "2025-03-01". Returns null for anything that isn't a date. */
+export function firstDayOfMonth(dateStr: string): string | null {
+  if (!dateStr || dateStr.length < 10) return null;
+  const y = dateStr.slice(0, 4);
+  const m = dateStr.slice(5, 7);
+  if (!/^\d{4}$/.test(y) || !/^\d{2}$/.test(m)) return null;
+  return `${y}-${m}-01`;
+}
+
+/** Parses YYYY-MM-DD to a UTC timestamp (ms), or null when invalid. */
+export function parseIsoDate(dateStr: string | null | undefined): number | null {
+  if (!dateStr) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr);
+  if (!match) return null;
+  const y = Number(match[1]);
+  const m = Number(match[2]);
+  const d = Number(match[3]);
+  const t = Date.UTC(y, m - 1, d);
+  // reject rollovers like 2025-02-31
+  const check = new Date(t);
+  if (check.getUTCFullYear() !== y || check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return null;
+  return t;
+}
+
+export function formatIsoDate(t: number): string {
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+export function addDays(dateStr: string, days: number): string | null {
+  const t = parseIsoDate(dateStr);
+  if (t === null) return null;
+  return formatIsoDate(t + days * DAY_MS);
+}
+
+/** Whole calendar days from `from` to `to` (negative when `to` is earlier). */
+export function daysBetween(from: string, to: string): number | null {
+  const a = parseIsoDate(from);
+  const b = parseIsoDate(to);
+  if (a === null || b === null) return null;
+  return Math.round((b - a) / DAY_MS);
+}
+
+/** "2025-11-01" + 3 -> "2026-02-01". Works on any YYYY-MM-DD; the day becomes 01. */
+export function addMonths(month: string, n: number): string | null {
+  const t = parseIsoDate(month);
+  if (t === null) return null;
+  const d = new Date(t);
+  return formatIsoDate(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + n, 1));
+}
+
+/** Same day-of-month n months later, clamped to the month's last day (Jan 31 + 1 -> Feb 28). */
+export function addMonthsKeepDay(dateStr: string, n: number): string | null {
+  const t = parseIsoDate(dateStr);
+  if (t === null) return null;
+  const d = new Date(t);
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth() + n;
+  const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return formatIsoDate(Date.UTC(y, m, Math.min(d.getUTCDate(), lastDay)));
+}
@@ -0,0 +1,165 @@
+import { parseCsv } from "../csv";
+import { parseIsoDate } from "./dates";
+import { toAmount } from "./balances";
+
+export const DEFAULT_CURRENCY = "AED";
+
+/** 1 from_currency = rate to_currency, valid from effective_date onwards. */
+export type FxRateInput = {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD
+};
+
+export type Money = {
+  amount: number;
+  currency: string;
+};
+
+export function normalizeCurrency(code: string | null | undefined): string {
+  const c = (code ?? "").trim().toUpperCase();
+  return c || DEFAULT_CURRENCY;
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+export type FxConverter = {
+  base: string;
+  /** Rate to multiply a `from` amount by to get `to`, or null when unknown. */
+  rate(from: string, to: string, asOf?: string): number | null;
+  /** Converts to the base currency; null when there's no usable rate. */
+  toBase(amount: number, currency: string | null | undefined, asOf?: string): number | null;
+};
+
+/**
+ * Builds a converter over the user's rate table. For each pair the most
+ * recent rate effective on or before `asOf` wins (latest overall when `asOf`
+ * is omitted). A direct rate is preferred; otherwise the inverse of the
+ * opposite pair is used.
+ */
+export function createFxConverter(rates: readonly FxRateInput[], baseCurrency: string): FxConverter {
+  const byPair = new Map<string, FxRateInput[]>();
+  for (const r of rates) {
+    if (!(toAmount(r.rate) > 0) || parseIsoDate(r.effective_date) === null) continue;
+    const key = `${normalizeCurrency(r.from_currency)}>${normalizeCurrency(r.to_currency)}`;
+    const list = byPair.get(key) ?? [];
+    list.push(r);
+    byPair.set(key, list);
+  }
+  // newest first
+  for (const list of byPair.values()) list.sort((a, b) => (a.effective_date < b.effective_date ? 1 : -1));
+
+  function lookup(from: string, to: string, asOf?: string): number | null {
+    const list = byPair.get(`${from}>${to}`);
+    if (!list) return null;
+    const hit = asOf ? list.find((r) => r.effective_date <= asOf) : list[0];
+    return hit ? toAmount(hit.rate) : null;
+  }
+
+  const base = normalizeCurrency(baseCurrency);
+
+  function rate(fromRaw: string, toRaw: string, asOf?: string): number | null {
+    const from = normalizeCurrency(fromRaw);
+    const to = normalizeCurrency(toRaw);
+    if (from === to) return 1;
+    const direct = lookup(from, to, asOf);
+    if (direct !== null) return direct;
+    const inverse = lookup(to, from, asOf);
+    return inverse !== null ? 1 / inverse : null;
+  }
+
+  return {
+    base,
+    rate,
+    toBase(amount, currency, asOf) {
+      const r = rate(normalizeCurrency(currency), base, asOf);
+      return r === null ? null : amount * r;
+    },
+  };
+}
+
+/** Adds up amounts per currency, without converting anything. */
+export function totalsByCurrency(items: readonly Money[]): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const it of items) {
+    const c = normalizeCurrency(it.currency);
+    m.set(c, (m.get(c) ?? 0) + toAmount(it.amount));
+  }
+  return m;
+}
+
+export type BaseTotal = {
+  total: number;
+  /** Currencies that had no rate to the base currency and were left out. */
+  missing: string[];
+};
+
+export function sumInBase(items: readonly Money[], fx: FxConverter, asOf?: string): BaseTotal {
+  let total = 0;
+  const missing = new Set<string>();
+  for (const [currency, amount] of totalsByCurrency(items)) {
+    const converted = fx.toBase(amount, currency, asOf);
+    if (converted === null) missing.add(currency);
+    else total += converted;
+  }
+  return { total, missing: [...missing].sort() };
+}
+
+export type FxCsvResult = {
+  rates: FxRateInput[];
+  errors: string[];
+};
+
+/**
+ * Reads rates from CSV with a header row naming the columns
+ * from_currency, to_currency, rate, effective_date (any order, any case).
+ */
+export function parseFxRatesCsv(text: string): FxCsvResult {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+  if (rows.length === 0) return { rates: [], errors: ["The file is empty."] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  const idx = {
+    from: col("from_currency"),
+    to: col("to_currency"),
+    rate: col("rate"),
+    date: col("effective_date"),
+  };
+  const absent = Object.entries({
+    from_currency: idx.from,
+    to_currency: idx.to,
+    rate: idx.rate,
+    effective_date: idx.date,
+  })
+    .filter(([, i]) => i < 0)
+    .map(([name]) => name);
+  if (absent.length) return { rates: [], errors: [`Missing column(s): ${absent.join(", ")}`] };
+
+  const rates: FxRateInput[] = [];
+  rows.slice(1).forEach((r, i) => {
+    const line = i + 2;
+    const from = (r[idx.from] ?? "").trim().toUpperCase();
+    const to = (r[idx.to] ?? "").trim().toUpperCase();
+    const rate = Number((r[idx.rate] ?? "").trim());
+    const date = (r[idx.date] ?? "").trim();
+
+    if (!isCurrencyCode(from) || !isCurrencyCode(to)) {
+      errors.push(`Line ${line}: currencies must be 3-letter codes.`);
+    } else if (from === to) {
+      errors.push(`Line ${line}: from and to currency are the same.`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${line}: rate must be a positive number.`);
+    } else if (parseIsoDate(date) === null) {
+      errors.push(`Line ${line}: effective_date must be YYYY-MM-DD.`);
+    } else {
+      rates.push({ from_currency: from, to_currency: to, rate, effective_date: date.slice(0, 10) });
+    }
+  });
+
+  return { rates, errors };
+}
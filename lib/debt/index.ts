@@ -0,0 +1,13 @@
+// Framework-free debt math shared by the dashboard, server actions and APIs.
+export * from "./types";
+export * from "./dates";
+export * from "./balances";
+export * from "./fx";
+export * from "./planner";
+export * from "./status";
+export * from "./billing";
+export * from "./loans";
+export * from "./iou";
+export * from "./installments";
+export * from "./matching";
+export * from "./reminders";
@@ -0,0 +1,122 @@
+import { toAmount } from "./balances";
+import { addMonths } from "./dates";
+import type { StatementInput } from "./types";
+
+export type InstallmentPlanInput = {
+  id: string;
+  card_id: string;
+  principal: number;
+  processing_fee: number | null;
+  monthly_installment: number;
+  tenure_months: number;
+  start_month: string; // YYYY-MM-01, statement the first installment lands on
+};
+
+export type InstallmentCharge = {
+  plan_id: string;
+  card_id: string;
+  month: string; // statement month, YYYY-MM-01
+  number: number; // 1-based
+  installment: number; // principal part
+  fee: number;
+  amount: number; // installment + fee
+};
+
+/** card id -> latest statement month already billed (has an amount) */
+export type BilledThrough = ReadonlyMap<string, string>;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Every charge the plan puts on the card. The fee rides on the first
+ * statement and the last installment absorbs any rounding difference, so
+ * the installments always add up to the principal.
+ */
+export function installmentCharges(plan: InstallmentPlanInput): InstallmentCharge[] {
+  const charges: InstallmentCharge[] = [];
+  const principal = toAmount(plan.principal);
+  const each = toAmount(plan.monthly_installment);
+  const fee = toAmount(plan.processing_fee);
+  let billed = 0;
+
+  for (let n = 1; n <= plan.tenure_months && billed < principal; n++) {
+    const month = addMonths(plan.start_month, n - 1);
+    if (!month) break;
+    const installment = n === plan.tenure_months ? round2(principal - billed) : round2(Math.min(each, principal - billed));
+    billed = round2(billed + installment);
+    const f = n === 1 ? fee : 0;
+    charges.push({
+      plan_id: plan.id,
+      card_id: plan.card_id,
+      month,
+      number: n,
+      installment,
+      fee: f,
+      amount: round2(installment + f),
+    });
+  }
+
+  return charges;
+}
+
+/**
+ * Latest statement month per card that already has an amount. Installments
+ * up to that month are inside the entered statements; later ones are not.
+ * Placeholders without an amount don't count as billed.
+ */
+export function billedThroughByCard(statements: readonly StatementInput[]): Map<string, string> {
+  const m = new Map<string, string>();
+  for (const s of statements) {
+    if (s.statement_amount == null) continue;
+    const prev = m.get(s.card_id);
+    if (!prev || s.statement_month > prev) m.set(s.card_id, s.statement_month);
+  }
+  return m;
+}
+
+/** Charges not on any entered statement yet. */
+export function unbilledCharges(plan: InstallmentPlanInput, billedThrough: BilledThrough): InstallmentCharge[] {
+  const through = billedThrough.get(plan.card_id);
+  return installmentCharges(plan).filter((c) => !through || c.month > through);
+}
+
+/** A plan is active while it still has installments to bill. */
+export function isPlanActive(plan: InstallmentPlanInput, billedThrough: BilledThrough): boolean {
+  return unbilledCharges(plan, billedThrough).length > 0;
+}
+
+/** Credit limit the plan still blocks: its principal not billed yet (fees excluded). */
+export function heldLimit(plan: InstallmentPlanInput, billedThrough: BilledThrough): number {
+  return round2(unbilledCharges(plan, billedThrough).reduce((s, c) => s + c.installment, 0));
+}
+
+/** card id -> committed future charges (installments plus unbilled fees). */
+export function committedByCard(
+  plans: readonly InstallmentPlanInput[],
+  billedThrough: BilledThrough,
+): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const p of plans) {
+    const sum = unbilledCharges(p, billedThrough).reduce((s, c) => s + c.amount, 0);
+    if (sum > 0) m.set(p.card_id, round2((m.get(p.card_id) ?? 0) + sum));
+  }
+  return m;
+}
+
+/** card id -> statement month -> future installment charges, for the planner. */
+export function chargesByCardMonth(
+  plans: readonly InstallmentPlanInput[],
+  billedThrough: BilledThrough,
+): Map<string, Record<string, number>> {
+  const m = new Map<string, Record<string, number>>();
+  for (const p of plans) {
+    const byMonth = m.get(p.card_id) ?? {};
+    for (const c of unbilledCharges(p, billedThrough)) {
+      byMonth[c.month] = round2((byMonth[c.month] ?? 0) + c.amount);
+    }
+    m.set(p.card_id, byMonth);
+  }
+  return m;
+}
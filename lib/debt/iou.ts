@@ -0,0 +1,109 @@
+import { toAmount } from "./balances";
+import { normalizeCurrency, type Money } from "./fx";
+
+export type IouDirection = "LENT" | "BORROWED" | "REPAID_TO_ME" | "REPAID_BY_ME";
+
+export const IOU_DIRECTIONS: readonly IouDirection[] = ["LENT", "BORROWED", "REPAID_TO_ME", "REPAID_BY_ME"];
+
+export const IOU_DIRECTION_LABELS: Record<IouDirection, string> = {
+  LENT: "I lent",
+  BORROWED: "I borrowed",
+  REPAID_TO_ME: "They repaid me",
+  REPAID_BY_ME: "I repaid them",
+};
+
+export type IouEntryInput = {
+  id: string;
+  counterparty_id: string | null;
+  direction: string | null;
+  payment_date: string;
+  amount: number | null;
+  currency: string | null;
+};
+
+export type IouLedgerRow<E extends IouEntryInput> = {
+  entry: E;
+  signed: number;
+  balance: number; // running balance in the entry's currency after this row
+};
+
+/** One person's net balance in one currency, e.g. from the counterparty_balances view. */
+export type IouBalanceInput = {
+  counterparty_id: string | null;
+  currency: string | null;
+  balance: number | null;
+};
+
+export function isIouDirection(value: string | null | undefined): value is IouDirection {
+  return IOU_DIRECTIONS.includes(value as IouDirection);
+}
+
+/** Effect on "what they owe me": positive when it grows, negative when it shrinks. */
+export function signedIouAmount(direction: string | null | undefined, amount: number | null | undefined): number {
+  const a = toAmount(amount);
+  switch (direction) {
+    case "LENT":
+    case "REPAID_BY_ME":
+      return a;
+    case "BORROWED":
+    case "REPAID_TO_ME":
+      return -a;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Oldest-first ledger with a running balance per currency, so a person with
+ * both AED and USD entries gets two independent running totals.
+ */
+export function iouLedger<E extends IouEntryInput>(entries: readonly E[]): IouLedgerRow<E>[] {
+  const sorted = [...entries].sort((a, b) =>
+    a.payment_date < b.payment_date ? -1 : a.payment_date > b.payment_date ? 1 : 0
+  );
+  const running = new Map<string, number>();
+
+  return sorted.map((entry) => {
+    const currency = normalizeCurrency(entry.currency);
+    const signed = signedIouAmount(entry.direction, entry.amount);
+    const balance = Math.round(((running.get(currency) ?? 0) + signed) * 100) / 100;
+    running.set(currency, balance);
+    return { entry, signed, balance };
+  });
+}
+
+/** counterparty_id -> net balances, one Money per currency (zero balances dropped). */
+export function balancesByCounterparty(rows: readonly IouBalanceInput[]): Map<string, Money[]> {
+  const m = new Map<string, Money[]>();
+  for (const r of rows) {
+    if (!r.counterparty_id) continue;
+    const amount = toAmount(r.balance);
+    if (amount === 0) continue;
+    const list = m.get(r.counterparty_id) ?? [];
+    list.push({ amount, currency: normalizeCurrency(r.currency) });
+    m.set(r.counterparty_id, list);
+  }
+  return m;
+}
+
+export type IouSummary = {
+  owedToMe: Money[];
+  iOwe: Money[];
+};
+
+/**
+ * Splits net balances into what people owe me and what I owe them. Netting
+ * happens per person and currency only: a friend I owe doesn't cancel out a
+ * different friend who owes me.
+ */
+export function iouSummary(rows: readonly IouBalanceInput[]): IouSummary {
+  const owedToMe: Money[] = [];
+  const iOwe: Money[] = [];
+  for (const r of rows) {
+    const amount = toAmount(r.balance);
+    const currency = normalizeCurrency(r.currency);
+    if (amount > 0) owedToMe.push({ amount, currency });
+    else if (amount < 0) iOwe.push({ amount: -amount, currency });
+  }
+  return { owedToMe, iOwe };
+}
@@ -0,0 +1,136 @@
+import { toAmount } from "./balances";
+import { addDays, addMonthsKeepDay, daysBetween } from "./dates";
+
+export type LoanType = "PERSONAL" | "CAR" | "BNPL" | "OTHER";
+
+export const LOAN_TYPES: readonly LoanType[] = ["PERSONAL", "CAR", "BNPL", "OTHER"];
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  PERSONAL: "Personal loan",
+  CAR: "Car loan",
+  BNPL: "Buy now, pay later",
+  OTHER: "Other",
+};
+
+export type LoanInput = {
+  id: string;
+  principal: number;
+  annual_rate: number;
+  tenure_months: number;
+  emi: number | null;
+  start_date: string; // first installment due date
+};
+
+export type AmortizationRow = {
+  number: number; // 1-based
+  due_date: string;
+  installment: number;
+  interest: number;
+  principal: number;
+  balance: number; // principal left after this installment
+};
+
+export type LoanUpcoming = {
+  loan_id: string;
+  number: number;
+  due_date: string;
+  days: number;
+  pending: number;
+};
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Standard reducing-balance EMI; principal / months when interest-free. */
+export function monthlyInstallment(principal: number, annualRate: number, months: number): number {
+  if (months <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r <= 0) return round2(principal / months);
+  const f = Math.pow(1 + r, months);
+  return round2((principal * r * f) / (f - 1));
+}
+
+/** The agreed EMI, or the one implied by the loan's terms. */
+export function loanInstallment(loan: LoanInput): number {
+  return loan.emi != null && toAmount(loan.emi) > 0
+    ? toAmount(loan.emi)
+    : monthlyInstallment(toAmount(loan.principal), toAmount(loan.annual_rate), loan.tenure_months);
+}
+
+/**
+ * Month-by-month repayment plan. Each installment pays the month's interest
+ * first and the rest goes to principal; the last one settles whatever
+ * rounding left over. Stops early if the EMI clears the loan sooner.
+ */
+export function amortizationSchedule(loan: LoanInput): AmortizationRow[] {
+  const rows: AmortizationRow[] = [];
+  const r = toAmount(loan.annual_rate) / 100 / 12;
+  const emi = loanInstallment(loan);
+  let balance = round2(toAmount(loan.principal));
+
+  for (let i = 0; i < loan.tenure_months && balance > 0; i++) {
+    const interest = round2(balance * r);
+    const last = i === loan.tenure_months - 1;
+    const principalPart = last ? balance : Math.min(balance, round2(emi - interest));
+    balance = round2(balance - principalPart);
+    rows.push({
+      number: i + 1,
+      due_date: addMonthsKeepDay(loan.start_date, i) ?? loan.start_date,
+      installment: round2(principalPart + interest),
+      interest,
+      principal: round2(principalPart),
+      balance,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Principal still owed after `totalPaid`. Money up to what was scheduled by
+ * `today` covers installments in order (interest first); anything paid beyond
+ * that is a prepayment and comes straight off the principal.
+ */
+export function loanOutstanding(loan: LoanInput, totalPaid: number, today: string): number {
+  const principal = toAmount(loan.principal);
+  let left = Math.max(0, totalPaid);
+  let repaid = 0;
+
+  for (const row of amortizationSchedule(loan)) {
+    if (row.due_date > today || left <= 0) break;
+    if (left >= row.installment) {
+      repaid += row.principal;
+      left -= row.installment;
+    } else {
+      repaid += Math.max(0, Math.min(row.principal, left - row.interest));
+      left = 0;
+    }
+  }
+
+  repaid += left; // prepayment
+  return round2(Math.max(0, principal - repaid));
+}
+
+/**
+ * Installments falling due between `today` and `today + windowDays` that the
+ * payments so far don't cover yet. Payments are applied to installments in
+ * order, so paying early counts towards the next one.
+ */
+export function loanUpcoming(loan: LoanInput, totalPaid: number, today: string, windowDays = 30): LoanUpcoming[] {
+  const end = addDays(today, windowDays);
+  if (!end) return [];
+
+  const list: LoanUpcoming[] = [];
+  let scheduled = 0;
+  for (const row of amortizationSchedule(loan)) {
+    scheduled += row.installment;
+    if (row.due_date > end) break;
+    if (row.due_date < today) continue;
+
+    const pending = round2(Math.min(row.installment, scheduled - Math.max(0, totalPaid)));
+    if (pending <= 0) continue;
+
+    list.push({ loan_id: loan.id, number: row.number, due_date: row.due_date, days: daysBetween(today, row.due_date) ?? 0, pending });
+  }
+  return list;
+}
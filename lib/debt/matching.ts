@@ -0,0 +1,123 @@
+import { statementPending } from "./balances";
+import { addDays } from "./dates";
+import { minimumRemaining, type CardTermsInput, type StatementChargesInput } from "./status";
+import type { PaidMap } from "./types";
+
+export type MatchPaymentInput = {
+  card_id: string | null;
+  payment_date: string;
+  amount: number | null;
+};
+
+export type MatchStatementInput = StatementChargesInput & {
+  statement_date: string | null;
+};
+
+export type StatementCandidate<S extends MatchStatementInput> = {
+  statement: S;
+  score: number;
+  pending: number;
+  reasons: string[];
+};
+
+/**
+ *  MATCHED    one statement is clearly the best fit; safe to link automatically
+ *  AMBIGUOUS  several statements fit about equally; ask the user
+ *  NONE       no open statement of the card fits the payment date
+ */
+export type MatchStatus = "MATCHED" | "AMBIGUOUS" | "NONE";
+
+export type StatementMatch<S extends MatchStatementInput> = {
+  status: MatchStatus;
+  statement: S | null;
+  candidates: StatementCandidate<S>[];
+};
+
+const CENT = 0.005;
+// a payment this long after the due date is still taken as a late payment
+const LATE_PAYMENT_DAYS = 45;
+// an amount match (full or minimum) plus at least one more signal
+const CONFIDENT_SCORE = 4;
+
+function near(a: number, b: number): boolean {
+  return Math.abs(a - b) < CENT * 2;
+}
+
+/**
+ * Scores the card's open statements against a payment. Statements issued
+ * after the payment can't be what it paid; among the rest, an amount equal
+ * to the full pending balance or the minimum due is the strongest signal,
+ * then paying on time, then being the latest statement issued.
+ */
+export function statementCandidates<S extends MatchStatementInput>(
+  payment: MatchPaymentInput,
+  statements: readonly S[],
+  paid: PaidMap,
+  card?: CardTermsInput | null,
+): StatementCandidate<S>[] {
+  const amount = Number(payment.amount ?? 0);
+  const eligible = statements.filter((s) => {
+    if (s.card_id !== payment.card_id || s.statement_amount == null) return false;
+    if (statementPending(s, paid) <= CENT) return false;
+    const issued = s.statement_date ?? s.statement_month;
+    if (issued > payment.payment_date) return false;
+    const lastDay = s.due_date ? addDays(s.due_date, LATE_PAYMENT_DAYS) : null;
+    return !lastDay || payment.payment_date <= lastDay;
+  });
+
+  const latestIssued = eligible.reduce(
+    (latest, s) => ((s.statement_date ?? s.statement_month) > latest ? (s.statement_date ?? s.statement_month) : latest),
+    "",
+  );
+
+  return eligible
+    .map((s) => {
+      const pending = statementPending(s, paid);
+      const minimum = minimumRemaining(s, paid, card);
+      const reasons: string[] = [];
+      let score = 0;
+
+      if (near(amount, pending)) {
+        score += 4;
+        reasons.push("pays it in full");
+      } else if (minimum > 0 && near(amount, minimum)) {
+        score += 3;
+        reasons.push("pays the minimum");
+      } else if (amount < pending) {
+        score += 1;
+        reasons.push("partial payment");
+      } else {
+        score -= 2;
+        reasons.push("more than what's pending");
+      }
+
+      if (s.due_date && payment.payment_date <= s.due_date) {
+        score += 1;
+        reasons.push("before the due date");
+      }
+      if ((s.statement_date ?? s.statement_month) === latestIssued) {
+        score += 1;
+        reasons.push("latest statement");
+      }
+
+      return { statement: s, score, pending, reasons };
+    })
+    .sort((a, b) => b.score - a.score || (a.statement.due_date ?? "").localeCompare(b.statement.due_date ?? ""));
+}
+
+/** Picks the statement to link a payment to, or says why it can't. */
+export function matchStatement<S extends MatchStatementInput>(
+  payment: MatchPaymentInput,
+  statements: readonly S[],
+  paid: PaidMap,
+  card?: CardTermsInput | null,
+): StatementMatch<S> {
+  const candidates = statementCandidates(payment, statements, paid, card);
+  if (candidates.length === 0) return { status: "NONE", statement: null, candidates };
+
+  const [best, second] = candidates;
+  const clear = candidates.length === 1 || (best.score >= CONFIDENT_SCORE && best.score > second.score);
+  return clear
+    ? { status: "MATCHED", statement: best.statement, candidates }
+    : { status: "AMBIGUOUS", statement: null, candidates };
+}
@@ -0,0 +1,221 @@
+import { addMonths, firstDayOfMonth } from "./dates";
+
+export type PayoffStrategy = "AVALANCHE" | "SNOWBALL" | "CUSTOM";
+
+export const PAYOFF_STRATEGIES: readonly PayoffStrategy[] = ["AVALANCHE", "SNOWBALL", "CUSTOM"];
+
+/** Minimum due = max(floor, percent% of the balance), never more than the balance. */
+export type MinimumPaymentRule = {
+  percent: number;
+  floor: number;
+};
+
+export type PlannerDebt = {
+  id: string;
+  name: string;
+  balance: number;
+  /** annual rate in percent, e.g. 39 for 3.25% a month */
+  apr: number;
+  minimum: MinimumPaymentRule;
+  /** charges landing on the balance later, by month (YYYY-MM-01), e.g. installment plans */
+  scheduledCharges?: Readonly<Record<string, number>>;
+};
+
+export type PlanOptions = {
+  strategy: PayoffStrategy;
+  monthlyBudget: number;
+  /** first month of the plan, YYYY-MM-01 */
+  startMonth: string;
+  /** debt ids in the order to attack them (CUSTOM only) */
+  customOrder?: readonly string[];
+  /** give up after this many months; default 600 (50 years) */
+  maxMonths?: number;
+};
+
+export type PlanDebtMonth = {
+  charges: number;
+  interest: number;
+  payment: number;
+  balance: number; // after payment
+};
+
+export type PlanMonth = {
+  month: string;
+  debts: Record<string, PlanDebtMonth>;
+  totalPayment: number;
+  totalInterest: number;
+  totalBalance: number;
+};
+
+export type PlanDebtSummary = {
+  id: string;
+  name: string;
+  payoffMonth: string | null;
+  interest: number;
+  paid: number;
+};
+
+export type PayoffPlan = {
+  strategy: PayoffStrategy;
+  feasible: boolean;
+  /** why the plan can't finish, when feasible is false */
+  problem: string | null;
+  months: number;
+  debtFreeMonth: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  schedule: PlanMonth[];
+  debts: PlanDebtSummary[];
+};
+
+const CENT = 0.005;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+export function minimumPayment(balance: number, rule: MinimumPaymentRule): number {
+  if (balance <= 0) return 0;
+  const pct = (balance * Math.max(0, rule.percent)) / 100;
+  return round2(Math.min(balance, Math.max(Math.max(0, rule.floor), pct)));
+}
+
+/** Debt ids in the order extra money goes to them. */
+export function priorityOrder(
+  debts: readonly PlannerDebt[],
+  balances: ReadonlyMap<string, number>,
+  strategy: PayoffStrategy,
+  customOrder: readonly string[] = [],
+): string[] {
+  const bal = (d: PlannerDebt) => balances.get(d.id) ?? 0;
+  const avalanche = (a: PlannerDebt, b: PlannerDebt) => b.apr - a.apr || bal(a) - bal(b);
+  const snowball = (a: PlannerDebt, b: PlannerDebt) => bal(a) - bal(b) || b.apr - a.apr;
+
+  if (strategy === "CUSTOM") {
+    const rank = new Map(customOrder.map((id, i) => [id, i]));
+    // anything the user didn't order goes last, highest APR first
+    return [...debts]
+      .sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity) || avalanche(a, b))
+      .map((d) => d.id);
+  }
+
+  return [...debts].sort(strategy === "AVALANCHE" ? avalanche : snowball).map((d) => d.id);
+}
+
+/**
+ * Simulates paying the debts month by month:
+ *   0. scheduled charges for the month are added to the balance,
+ *   1. interest accrues on each open balance (APR / 12),
+ *   2. every open debt gets its minimum payment,
+ *   3. whatever is left of the budget goes to debts in strategy order,
+ *      rolling over to the next one as each is cleared.
+ */
+export function simulatePayoff(debts: readonly PlannerDebt[], options: PlanOptions): PayoffPlan {
+  const maxMonths = options.maxMonths ?? 600;
+  const startMonth = firstDayOfMonth(options.startMonth) ?? options.startMonth;
+  const budget = Math.max(0, options.monthlyBudget);
+
+  const hasCharges = (d: PlannerDebt) => Object.values(d.scheduledCharges ?? {}).some((c) => c > 0);
+  const open = debts.filter((d) => d.balance > CENT || hasCharges(d));
+  // keep simulating until the last scheduled charge has landed
+  const lastChargeMonth = open
+    .flatMap((d) => Object.keys(d.scheduledCharges ?? {}))
+    .reduce((last, m) => (m > last ? m : last), "");
+  const balances = new Map(open.map((d) => [d.id, round2(d.balance)]));
+  const summaries = new Map<string, PlanDebtSummary>(
+    debts.map((d) => [d.id, { id: d.id, name: d.name, payoffMonth: null, interest: 0, paid: 0 }]),
+  );
+
+  const schedule: PlanMonth[] = [];
+  let problem: string | null = null;
+
+  const remaining = () => [...balances.values()].reduce((s, b) => s + b, 0);
+
+  for (let i = 0; i < maxMonths; i++) {
+    const month = addMonths(startMonth, i) ?? startMonth;
+    if (remaining() <= CENT && month > lastChargeMonth) break;
+    const row: PlanMonth = { month, debts: {}, totalPayment: 0, totalInterest: 0, totalBalance: 0 };
+
+    // 0. scheduled charges; anything dated before the plan starts lands in month one
+    for (const d of open) {
+      let charges = 0;
+      for (const [m, amount] of Object.entries(d.scheduledCharges ?? {})) {
+        if (m === month || (i === 0 && m < month)) charges += amount;
+      }
+      if (charges <= 0) continue;
+      balances.set(d.id, round2((balances.get(d.id) ?? 0) + charges));
+      summaries.get(d.id)!.payoffMonth = null;
+      row.debts[d.id] = { charges: round2(charges), interest: 0, payment: 0, balance: 0 };
+    }
+
+    // 1. interest
+    for (const d of open) {
+      const b = balances.get(d.id) ?? 0;
+      if (b <= CENT) continue;
+      const interest = round2((b * Math.max(0, d.apr)) / 100 / 12);
+      balances.set(d.id, round2(b + interest));
+      row.debts[d.id] = { charges: row.debts[d.id]?.charges ?? 0, interest, payment: 0, balance: 0 };
+    }
+
+    // 2. minimums
+    let left = budget;
+    const minimums = open.map((d) => minimumPayment(balances.get(d.id) ?? 0, d.minimum));
+    const minimumTotal = minimums.reduce((s, m) => s + m, 0);
+    if (minimumTotal > budget + CENT) {
+      problem = `The monthly budget (${budget.toFixed(2)}) is below the minimum payments due (${minimumTotal.toFixed(2)}).`;
+      break;
+    }
+    open.forEach((d, idx) => {
+      const pay = minimums[idx];
+      if (pay <= 0) return;
+      balances.set(d.id, round2((balances.get(d.id) ?? 0) - pay));
+      row.debts[d.id].payment += pay;
+      left -= pay;
+    });
+
+    // 3. extra money in strategy order
+    for (const id of priorityOrder(open, balances, options.strategy, options.customOrder)) {
+      if (left <= CENT) break;
+      const b = balances.get(id) ?? 0;
+      if (b <= CENT) continue;
+      const pay = round2(Math.min(b, left));
+      balances.set(id, round2(b - pay));
+      row.debts[id].payment = round2(row.debts[id].payment + pay);
+      left -= pay;
+    }
+
+    for (const [id, entry] of Object.entries(row.debts)) {
+      entry.balance = Math.max(0, balances.get(id) ?? 0);
+      row.totalPayment += entry.payment;
+      row.totalInterest += entry.interest;
+      row.totalBalance += entry.balance;
+
+      const summary = summaries.get(id)!;
+      summary.interest += entry.interest;
+      summary.paid += entry.payment;
+      if (entry.balance <= CENT && !summary.payoffMonth) summary.payoffMonth = month;
+    }
+    row.totalPayment = round2(row.totalPayment);
+    row.totalInterest = round2(row.totalInterest);
+    row.totalBalance = round2(row.totalBalance);
+    schedule.push(row);
+  }
+
+  if (!problem && remaining() > CENT) {
+    problem = `Not paid off within ${maxMonths} months; the budget barely covers the interest.`;
+  }
+
+  const debtSummaries = [...summaries.values()].map((s) => ({ ...s, interest: round2(s.interest), paid: round2(s.paid) }));
+
+  return {
+    strategy: options.strategy,
+    feasible: problem === null,
+    problem,
+    months: problem === null ? schedule.length : 0,
+    debtFreeMonth: problem === null ? (schedule.length ? schedule[schedule.length - 1].month : startMonth) : null,
+    totalInterest: round2(debtSummaries.reduce((s, d) => s + d.interest, 0)),
+    totalPaid: round2(debtSummaries.reduce((s, d) => s + d.paid, 0)),
+    schedule,
+    debts: debtSummaries,
+  };
+}
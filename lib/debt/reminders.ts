@@ -0,0 +1,63 @@
+import { statementPending } from "./balances";
+import { daysBetween, parseIsoDate } from "./dates";
+import type { PaidMap, StatementInput } from "./types";
+
+export type ReminderPrefs = {
+  /** remind this many days before the due date */
+  days: readonly number[];
+  /** keep reminding (weekly) about overdue statements */
+  overdue: boolean;
+};
+
+export type DueReminder<S extends StatementInput = StatementInput> = {
+  statement: S;
+  pending: number;
+  /** negative = overdue by that many days */
+  daysUntilDue: number;
+  /**
+   * What the reminder is for, stable across runs so each one is only sent
+   * once: "DUE_IN:3", or "OVERDUE:0" for the first week past due,
+   * "OVERDUE:1" for the second, …
+   */
+  reason: string;
+};
+
+export const OVERDUE_REPEAT_DAYS = 7;
+
+const CENT = 0.005;
+
+/**
+ * Statements that need a reminder today. A statement is due for the
+ * smallest offset that is still at least its days-until-due, so a run that
+ * was skipped (or a statement entered late) still reminds once instead of
+ * never. Paid statements and ones without a due date are left out.
+ */
+export function dueReminders<S extends StatementInput>(
+  statements: readonly S[],
+  paid: PaidMap,
+  today: string,
+  prefs: ReminderPrefs,
+): DueReminder<S>[] {
+  const offsets = [...prefs.days].sort((a, b) => a - b);
+  const list: DueReminder<S>[] = [];
+
+  for (const s of statements) {
+    if (parseIsoDate(s.due_date) === null) continue;
+    const pending = statementPending(s, paid);
+    if (pending <= CENT) continue;
+
+    const days = daysBetween(today, s.due_date!);
+    if (days === null) continue;
+
+    if (days >= 0) {
+      const offset = offsets.find((o) => o >= days);
+      if (offset !== undefined) list.push({ statement: s, pending, daysUntilDue: days, reason: `DUE_IN:${offset}` });
+    } else if (prefs.overdue) {
+      const week = Math.floor((-days - 1) / OVERDUE_REPEAT_DAYS);
+      list.push({ statement: s, pending, daysUntilDue: days, reason: `OVERDUE:${week}` });
+    }
+  }
+
+  list.sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+  return list;
+}
@@ -0,0 +1,55 @@
+import { toAmount, statementPending } from "./balances";
+import { minimumPayment, type MinimumPaymentRule } from "./planner";
+import type { PaidMap, StatementInput } from "./types";
+
+export type StatementChargesInput = StatementInput & {
+  minimum_due?: number | null;
+};
+
+export type CardTermsInput = {
+  min_payment_percent?: number | null;
+  min_payment_floor?: number | null;
+};
+
+/**
+ *  PAID          nothing left to pay
+ *  MINIMUM_PAID  at least the minimum due has been paid, balance carries over
+ *  MISSED        due date passed without the minimum being paid
+ *  OPEN          not due yet and the minimum isn't covered
+ */
+export type StatementStatus = "PAID" | "MINIMUM_PAID" | "MISSED" | "OPEN";
+
+/** The card's minimum-payment formula, or null when the card doesn't define one. */
+export function cardMinimumRule(card: CardTermsInput | null | undefined): MinimumPaymentRule | null {
+  if (!card || (card.min_payment_percent == null && card.min_payment_floor == null)) return null;
+  return { percent: toAmount(card.min_payment_percent), floor: toAmount(card.min_payment_floor) };
+}
+
+/**
+ * Minimum due for a statement: what the bank printed, else the card's
+ * formula applied to the statement amount, else the full amount.
+ */
+export function minimumDue(statement: StatementChargesInput, card?: CardTermsInput | null): number {
+  if (statement.minimum_due != null) return toAmount(statement.minimum_due);
+  const amount = toAmount(statement.statement_amount);
+  const rule = cardMinimumRule(card);
+  return rule ? minimumPayment(amount, rule) : amount;
+}
+
+/** How much more must be paid to cover the minimum (0 once it's met). */
+export function minimumRemaining(statement: StatementChargesInput, paid: PaidMap, card?: CardTermsInput | null): number {
+  const remaining = minimumDue(statement, card) - (paid.get(statement.id) ?? 0);
+  return Math.max(0, Math.min(remaining, statementPending(statement, paid)));
+}
+
+export function statementStatus(
+  statement: StatementChargesInput,
+  paid: PaidMap,
+  today: string,
+  card?: CardTermsInput | null,
+): StatementStatus {
+  if (statementPending(statement, paid) <= 0) return "PAID";
+  if (minimumRemaining(statement, paid, card) <= 0) return "MINIMUM_PAID";
+  if (statement.due_date && statement.due_date < today) return "MISSED";
+  return "OPEN";
+}
@@ -0,0 +1,34 @@
+// Structural inputs for the debt math. Database rows satisfy these, but so
+// does anything else with the same fields (API payloads, imports, tests).
+
+export type CardInput = {
+  id: string;
+  credit_limit: number | null;
+};
+
+export type StatementInput = {
+  id: string;
+  card_id: string;
+  statement_month: string; // YYYY-MM-01
+  due_date: string | null; // YYYY-MM-DD
+  statement_amount: number | null;
+};
+
+export type PaymentInput = {
+  statement_id: string | null;
+  amount: number | null;
+};
+
+/** One row of the `statement_paid_totals` view. */
+export type PaidTotalInput = {
+  statement_id: string | null;
+  paid_amount: number | null;
+};
+
+/** statement id -> amount paid against it */
+export type PaidMap = Map<string, number>;
+
+export type UpcomingDue<S extends StatementInput = StatementInput> = S & {
+  pending: number;
+  days: number;
+};
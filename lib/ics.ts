@@ -0,0 +1,113 @@
+// Minimal iCalendar (RFC 5545) writer: all-day events with display alarms.
+// Text is escaped and lines longer than 75 octets are folded.
+
+export type IcsAlarm = {
+  /** minutes from the start of the event's day; negative = before it */
+  offsetMinutes: number;
+  description: string;
+};
+
+export type IcsEvent = {
+  uid: string;
+  /** YYYY-MM-DD */
+  date: string;
+  summary: string;
+  description?: string;
+  /** when the event last changed (ISO timestamp) */
+  stamp: string;
+  alarms?: readonly IcsAlarm[];
+};
+
+const MAX_LINE_OCTETS = 75;
+
+export function icsEscape(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** -900 -> "-PT15H" (9:00 the day before an all-day event); 0 -> "PT0M" */
+export function icsDuration(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "";
+  const abs = Math.abs(Math.round(minutes));
+  const days = Math.floor(abs / 1440);
+  const hours = Math.floor((abs % 1440) / 60);
+  const mins = abs % 60;
+
+  let out = `${sign}P${days ? `${days}D` : ""}`;
+  if (hours || mins) out += `T${hours ? `${hours}H` : ""}${mins ? `${mins}M` : ""}`;
+  return days || hours || mins ? out : "PT0M";
+}
+
+function icsDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, "");
+}
+
+function icsStamp(timestamp: string): string {
+  const t = new Date(timestamp);
+  const iso = Number.isNaN(t.getTime()) ? new Date(0).toISOString() : t.toISOString();
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function nextDay(date: string): string {
+  const t = Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + 86_400_000;
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+// continuation lines start with a space, which counts towards the 75
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function toIcs(calendarName: string, events: readonly IcsEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Debt Tracker//Due dates//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsEscape(calendarName)}`,
+  ];
+
+  for (const e of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${icsStamp(e.stamp)}`,
+      `DTSTART;VALUE=DATE:${icsDate(e.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(e.date))}`,
+      `SUMMARY:${icsEscape(e.summary)}`,
+      "TRANSP:TRANSPARENT",
+    );
+    if (e.description) lines.push(`DESCRIPTION:${icsEscape(e.description)}`);
+    for (const a of e.alarms ?? []) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `TRIGGER:${icsDuration(a.offsetMinutes)}`,
+        `DESCRIPTION:${icsEscape(a.description)}`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,193 @@
+// Bank CSV exports. Each layout is data: the header names that identify the
+// bank's export and which columns hold the date, description and amount.
+// Exports often start with a few lines of account details, so the header
+// row is searched for near the top of the file.
+
+import { parseCsv } from "../../csv";
+import { parseImportAmount, parseImportDate } from "../values";
+import type { BankAdapter, BankParseResult, BankTransaction } from "./types";
+
+type CsvLayout = {
+  id: string;
+  label: string;
+  /** headers that must all be present for the layout to be detected */
+  signature: readonly string[];
+  /** accepted names per column, first match wins */
+  date: readonly string[];
+  description: readonly string[];
+  amount?: readonly string[];
+  debit?: readonly string[];
+  credit?: readonly string[];
+  /** column holding "Cr"/"Dr" next to an unsigned amount */
+  indicator?: readonly string[];
+  currency?: readonly string[];
+  /**
+   * In a single signed amount column, charges are positive and payments
+   * negative (the card balance's point of view), so the sign is flipped.
+   */
+  chargesPositive?: boolean;
+};
+
+const HEADER_SEARCH_ROWS = 20;
+
+function norm(h: string): string {
+  return h.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function findColumn(headers: readonly string[], names: readonly string[] | undefined): number {
+  if (!names) return -1;
+  for (const n of names) {
+    const i = headers.indexOf(norm(n));
+    if (i !== -1) return i;
+  }
+  return -1;
+}
+
+type Located = {
+  headerIndex: number;
+  cols: { date: number; description: number; amount: number; debit: number; credit: number; indicator: number; currency: number };
+};
+
+function locate(rows: readonly (readonly string[])[], layout: CsvLayout): Located | null {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+    const headers = rows[r].map(norm);
+    if (!layout.signature.every((s) => headers.includes(norm(s)))) continue;
+
+    const cols = {
+      date: findColumn(headers, layout.date),
+      description: findColumn(headers, layout.description),
+      amount: findColumn(headers, layout.amount),
+      debit: findColumn(headers, layout.debit),
+      credit: findColumn(headers, layout.credit),
+      indicator: findColumn(headers, layout.indicator),
+      currency: findColumn(headers, layout.currency),
+    };
+    const hasAmount = cols.amount !== -1 || (cols.debit !== -1 && cols.credit !== -1);
+    if (cols.date !== -1 && cols.description !== -1 && hasAmount) return { headerIndex: r, cols };
+  }
+  return null;
+}
+
+function signedAmount(row: readonly string[], cols: Located["cols"], layout: CsvLayout): number | null {
+  const cell = (i: number) => (i === -1 ? "" : (row[i] ?? "").trim());
+
+  if (cols.amount === -1) {
+    const debit = cell(cols.debit) ? parseImportAmount(cell(cols.debit)) : 0;
+    const credit = cell(cols.credit) ? parseImportAmount(cell(cols.credit)) : 0;
+    if (debit === null || credit === null) return null;
+    return Math.abs(credit) - Math.abs(debit);
+  }
+
+  const raw = cell(cols.amount);
+  const n = parseImportAmount(raw);
+  if (n === null) return null;
+
+  const indicator = cols.indicator !== -1 ? cell(cols.indicator) : (/\b(CR|DR)$/i.exec(raw)?.[1] ?? "");
+  if (indicator) return /^c/i.test(indicator) ? Math.abs(n) : -Math.abs(n);
+  return layout.chargesPositive ? -n : n;
+}
+
+function parseWithLayout(text: string, layout: CsvLayout): BankParseResult {
+  const rows = parseCsv(text);
+  const located = locate(rows, layout);
+  if (!located) return { transactions: [], errors: ["Couldn't find the header row."] };
+
+  const { headerIndex, cols } = located;
+  const transactions: BankTransaction[] = [];
+  const errors: string[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rawDate = (row[cols.date] ?? "").trim();
+    // footers ("Total", "Closing balance") have no date
+    if (!/\d/.test(rawDate)) return;
+
+    const date = parseImportDate(rawDate);
+    const amount = signedAmount(row, cols, layout);
+    if (!date || amount === null) {
+      errors.push(`Row ${headerIndex + i + 2}: couldn't read the date or amount.`);
+      return;
+    }
+
+    transactions.push({
+      date,
+      amount,
+      description: (row[cols.description] ?? "").trim(),
+      currency: cols.currency !== -1 ? (row[cols.currency] ?? "").trim().toUpperCase() || null : null,
+      reference: null,
+    });
+  });
+
+  return { transactions, errors };
+}
+
+function layoutAdapter(layout: CsvLayout): BankAdapter {
+  return {
+    id: layout.id,
+    label: layout.label,
+    detect: (text) => locate(parseCsv(text.slice(0, 20000)), layout) !== null,
+    parse: (text) => parseWithLayout(text, layout),
+  };
+}
+
+export const CSV_LAYOUTS: readonly CsvLayout[] = [
+  {
+    id: "emirates-nbd",
+    label: "Emirates NBD card (CSV)",
+    signature: ["Transaction Date", "Posting Date", "Description", "Debit", "Credit"],
+    date: ["Transaction Date"],
+    description: ["Description"],
+    debit: ["Debit"],
+    credit: ["Credit"],
+  },
+  {
+    id: "adcb",
+    label: "ADCB card (CSV)",
+    signature: ["Date", "Description", "Debit Amount", "Credit Amount"],
+    date: ["Date"],
+    description: ["Description"],
+    debit: ["Debit Amount"],
+    credit: ["Credit Amount"],
+  },
+  {
+    id: "fab",
+    label: "First Abu Dhabi Bank card (CSV)",
+    signature: ["Transaction Date", "Value Date", "Narration", "Debit", "Credit"],
+    date: ["Transaction Date"],
+    description: ["Narration"],
+    debit: ["Debit"],
+    credit: ["Credit"],
+  },
+  {
+    id: "rakbank",
+    label: "RAKBANK card (CSV)",
+    signature: ["Txn Date", "Description", "Dr/Cr"],
+    date: ["Txn Date"],
+    description: ["Description"],
+    amount: ["Amount (AED)", "Amount"],
+    indicator: ["Dr/Cr"],
+  },
+  {
+    id: "mashreq",
+    label: "Mashreq card (CSV)",
+    signature: ["Date", "Transaction Details", "Amount"],
+    date: ["Date"],
+    description: ["Transaction Details"],
+    amount: ["Amount"],
+    currency: ["Currency"],
+    chargesPositive: true,
+  },
+  {
+    // anything with recognisable column names; keep last so the banks above win
+    id: "generic-csv",
+    label: "Other bank CSV",
+    signature: [],
+    date: ["Transaction Date", "Date", "Posting Date", "Txn Date", "Value Date"],
+    description: ["Description", "Details", "Transaction Details", "Narration", "Merchant", "Memo"],
+    amount: ["Amount", "Transaction Amount"],
+    debit: ["Debit", "Debit Amount", "Withdrawal"],
+    credit: ["Credit", "Credit Amount", "Deposit"],
+    currency: ["Currency"],
+  },
+];
+
+export const csvAdapters: readonly BankAdapter[] = CSV_LAYOUTS.map(layoutAdapter);
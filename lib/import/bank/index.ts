@@ -0,0 +1,42 @@
+import { csvAdapters } from "./csv-layouts";
+import { ofxAdapter } from "./ofx";
+import type { BankAdapter, BankTransaction } from "./types";
+
+export * from "./types";
+export { parseOfx } from "./ofx";
+
+/** Every supported format, most specific first. */
+export const BANK_ADAPTERS: readonly BankAdapter[] = [ofxAdapter, ...csvAdapters];
+
+export function bankAdapter(id: string): BankAdapter | null {
+  return BANK_ADAPTERS.find((a) => a.id === id) ?? null;
+}
+
+/** The first adapter that recognises the file, or null. */
+export function detectBankAdapter(text: string, fileName: string): BankAdapter | null {
+  return BANK_ADAPTERS.find((a) => a.detect(text, fileName)) ?? null;
+}
+
+/**
+ * Credits on a card account are payments, except refunds and reversals,
+ * which also show up as credits but don't come out of the user's pocket.
+ */
+export function isLikelyCardPayment(tx: BankTransaction): boolean {
+  return tx.amount > 0 && !/refund|reversal|cash ?back|chargeback/i.test(tx.description);
+}
+
+/**
+ * Stable key for re-imports: the bank's transaction id when there is one,
+ * otherwise date and amount plus the occurrence number among identical
+ * lines of the file.
+ */
+export function bankImportKeys(cardId: string, transactions: readonly BankTransaction[]): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map((tx) => {
+    if (tx.reference) return `bank:${cardId}:${tx.reference}`;
+    const base = `bank:${cardId}:${tx.date}:${tx.amount.toFixed(2)}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return `${base}:${n}`;
+  });
+}
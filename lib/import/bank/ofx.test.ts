@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseOfx } from "./ofx";
+
+function ofxWithAmount(amount: string): string {
+  return [
+    "OFXHEADER:100",
+    "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>AED<BANKTRANLIST>",
+    "<STMTTRN>",
+    "<TRNTYPE>CREDIT",
+    "<DTPOSTED>20261015120000.000[+4:GST]",
+    `<TRNAMT>${amount}`,
+    "<FITID>T1",
+    "<NAME>PAYMENT THANK YOU",
+    "</STMTTRN>",
+    "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+  ].join("\n");
+}
+
+function amountOf(raw: string): number | undefined {
+  return parseOfx(ofxWithAmount(raw)).transactions[0]?.amount;
+}
+
+describe("parseOfx amounts", () => {
+  it("reads a comma before exactly three digits as a thousands separator", () => {
+    expect(amountOf("1,234")).toBe(1234);
+    expect(amountOf("-1,234")).toBe(-1234);
+  });
+
+  it("reads any other lone comma as the decimal separator", () => {
+    expect(amountOf("12,5")).toBe(12.5);
+    expect(amountOf("-1234,56")).toBe(-1234.56);
+  });
+
+  it("takes whichever separator comes last as the decimal one", () => {
+    expect(amountOf("1.234,56")).toBe(1234.56);
+    expect(amountOf("1,234.56")).toBe(1234.56);
+    expect(amountOf("1,234,567.89")).toBe(1234567.89);
+  });
+
+  it("reads a plain amount as it is", () => {
+    expect(amountOf("-1234.56")).toBe(-1234.56);
+  });
+
+  it("reports an unreadable amount per transaction instead of importing it", () => {
+    for (const raw of ["abc", "1.2.3", "12,34,5x"]) {
+      const result = parseOfx(ofxWithAmount(raw));
+      expect(result.transactions).toEqual([]);
+      expect(result.errors).toEqual([`Transaction 1: couldn't read the amount "${raw}".`]);
+    }
+  });
+
+  it("reports a missing amount", () => {
+    const result = parseOfx(ofxWithAmount(""));
+    expect(result.transactions).toEqual([]);
+    expect(result.errors).toEqual(["Transaction 1: missing amount."]);
+  });
+});
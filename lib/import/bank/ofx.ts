@@ -0,0 +1,94 @@
+// OFX/QFX reader. Handles both the SGML flavour (OFX 1.x, leaf tags without
+// closing tags) and XML (OFX 2.x) by reading each <STMTTRN> block with
+// "<TAG>value" lookups, which both flavours share.
+
+import type { BankAdapter, BankParseResult, BankTransaction } from "./types";
+
+function tagValue(block: string, tag: string): string | null {
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  if (!m) return null;
+  const v = m[1].trim();
+  return v ? decodeEntities(v) : null;
+}
+
+function decodeEntities(v: string): string {
+  return v.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, "&");
+}
+
+/** "20261015120000.000[+4:GST]" -> "2026-10-15" */
+function ofxDate(v: string | null): string | null {
+  const m = v ? /^(\d{4})(\d{2})(\d{2})/.exec(v) : null;
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+/**
+ * TRNAMT is meant to be "-1234.56", but some banks write "-1234,56",
+ * "1,234.56" or "1.234,56". Whichever of "," and "." comes last is the
+ * decimal separator and the other one groups thousands. A lone comma
+ * followed by exactly three digits groups thousands ("1,234"), any other
+ * lone comma is decimal ("12,5"). Null when the rest isn't a plain signed
+ * number.
+ */
+function ofxAmount(v: string | null): number | null {
+  if (!v) return null;
+  const lastComma = v.lastIndexOf(",");
+  const lastDot = v.lastIndexOf(".");
+  let normalized: string;
+  if (lastComma === -1) {
+    normalized = v;
+  } else if (lastDot === -1) {
+    const loneDecimal = v.indexOf(",") === lastComma && !/,\d{3}$/.test(v);
+    normalized = loneDecimal ? v.replace(",", ".") : v.replace(/,/g, "");
+  } else if (lastComma > lastDot) {
+    normalized = v.replace(/\./g, "").replace(",", ".");
+  } else {
+    normalized = v.replace(/,/g, "");
+  }
+
+  if (!/^[+-]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return null;
+  const n = Number(normalized);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseOfx(text: string): BankParseResult {
+  const transactions: BankTransaction[] = [];
+  const errors: string[] = [];
+  const currency = tagValue(text, "CURDEF");
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  blocks.forEach((raw, i) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const date = ofxDate(tagValue(block, "DTPOSTED"));
+    const rawAmount = tagValue(block, "TRNAMT");
+    const amount = ofxAmount(rawAmount);
+
+    if (!date) {
+      errors.push(`Transaction ${i + 1}: missing or invalid date.`);
+      return;
+    }
+    if (amount === null) {
+      errors.push(`Transaction ${i + 1}: ${rawAmount ? `couldn't read the amount "${rawAmount}".` : "missing amount."}`);
+      return;
+    }
+
+    const name = tagValue(block, "NAME");
+    const memo = tagValue(block, "MEMO");
+    transactions.push({
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(" • ") || (tagValue(block, "TRNTYPE") ?? ""),
+      // <CURRENCY><CURSYM>USD on foreign-currency lines
+      currency: tagValue(block, "CURSYM") ?? currency,
+      reference: tagValue(block, "FITID"),
+    });
+  });
+
+  return { transactions, errors };
+}
+
+export const ofxAdapter: BankAdapter = {
+  id: "ofx",
+  label: "OFX / QFX (any bank)",
+  detect: (text, fileName) => /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text) || /^OFXHEADER:/m.test(text),
+  parse: parseOfx,
+};
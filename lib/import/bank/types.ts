@@ -0,0 +1,27 @@
+/**
+ * One line of a bank or card export. `amount` is from the account's point
+ * of view: positive when money comes in (a card payment, a refund),
+ * negative when it goes out (a purchase, a fee).
+ */
+export type BankTransaction = {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+  currency: string | null;
+  /** the bank's own id for the transaction (OFX FITID), when it has one */
+  reference: string | null;
+};
+
+export type BankParseResult = {
+  transactions: BankTransaction[];
+  /** lines that looked like transactions but couldn't be read */
+  errors: string[];
+};
+
+export type BankAdapter = {
+  id: string;
+  label: string;
+  /** true when the file looks like this adapter's format */
+  detect(text: string, fileName: string): boolean;
+  parse(text: string): BankParseResult;
+};
@@ -0,0 +1,7 @@
+// Importing history: spreadsheet CSVs (cell parsing, column mapping, row
+// validation) and bank exports (OFX and bank CSV adapters). Framework-free,
+// like lib/debt.
+export * from "./values";
+export * from "./mapping";
+export * from "./rows";
+export * from "./bank";
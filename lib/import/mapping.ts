@@ -0,0 +1,121 @@
+// Column mapping for the CSV import wizard: which spreadsheet column feeds
+// which field, guessed from the header row and adjustable by the user.
+
+export type ImportKind = "STATEMENTS" | "PAYMENTS";
+
+export const IMPORT_KINDS: readonly ImportKind[] = ["STATEMENTS", "PAYMENTS"];
+
+export type ImportFieldKey =
+  | "card"
+  | "statement_month"
+  | "statement_date"
+  | "due_date"
+  | "statement_amount"
+  | "minimum_due"
+  | "payment_date"
+  | "amount"
+  | "note"
+  | "currency";
+
+export type ImportField = {
+  key: ImportFieldKey;
+  label: string;
+  required: boolean;
+  /** lower-case header names recognised for this field */
+  aliases: readonly string[];
+};
+
+const CARD: ImportField = { key: "card", label: "Card", required: true, aliases: ["card", "card name", "account", "credit card"] };
+const CURRENCY: ImportField = { key: "currency", label: "Currency", required: false, aliases: ["currency", "ccy", "cur"] };
+
+export const IMPORT_FIELDS: Record<ImportKind, readonly ImportField[]> = {
+  STATEMENTS: [
+    CARD,
+    { key: "statement_month", label: "Statement month", required: true, aliases: ["statement month", "month", "period"] },
+    { key: "statement_date", label: "Statement date", required: false, aliases: ["statement date", "stmt date", "closing date"] },
+    { key: "due_date", label: "Due date", required: false, aliases: ["due date", "due", "payment due date"] },
+    {
+      key: "statement_amount",
+      label: "Statement amount",
+      required: false,
+      aliases: ["statement amount", "amount", "balance", "statement balance", "total due", "closing balance"],
+    },
+    { key: "minimum_due", label: "Minimum due", required: false, aliases: ["minimum due", "minimum", "min due", "minimum payment"] },
+    CURRENCY,
+  ],
+  PAYMENTS: [
+    CARD,
+    { key: "payment_date", label: "Payment date", required: true, aliases: ["payment date", "date", "paid on", "paid date"] },
+    { key: "amount", label: "Amount", required: true, aliases: ["amount", "payment", "paid", "payment amount"] },
+    { key: "statement_month", label: "Statement month (links the payment)", required: false, aliases: ["statement month", "month", "statement"] },
+    { key: "note", label: "Note", required: false, aliases: ["note", "notes", "memo", "description", "remarks"] },
+    CURRENCY,
+  ],
+};
+
+/** field -> column index; -1 when the field isn't imported */
+export type ColumnMapping = Partial<Record<ImportFieldKey, number>>;
+
+function normalizeHeader(h: string): string {
+  return h.trim().toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ");
+}
+
+/** Matches headers to fields by alias; each column is used at most once. */
+export function guessMapping(headers: readonly string[], kind: ImportKind): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS[kind]) {
+    // aliases are in order of preference, so try them one by one
+    let index = -1;
+    for (const alias of field.aliases) {
+      index = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (index !== -1) break;
+    }
+    if (index !== -1) used.add(index);
+    mapping[field.key] = index;
+  }
+
+  return mapping;
+}
+
+/** Required fields the mapping leaves unset. */
+export function missingRequiredFields(mapping: ColumnMapping, kind: ImportKind): ImportField[] {
+  return IMPORT_FIELDS[kind].filter((f) => f.required && (mapping[f.key] ?? -1) < 0);
+}
+
+// ---------------------------------------------------------------------------
+// card names
+// ---------------------------------------------------------------------------
+
+export type ImportCard = {
+  id: string;
+  name: string;
+  bank: string | null;
+};
+
+export function normalizeCardName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Best-effort card for a name from the sheet: exact name, "name - bank" as
+ * the dashboard shows it, or a bank with a single card. Null when nothing
+ * (or more than one card) fits; the wizard then asks the user.
+ */
+export function matchCardName(name: string, cards: readonly ImportCard[]): string | null {
+  const n = normalizeCardName(name);
+  if (!n) return null;
+
+  const byName = cards.filter((c) => normalizeCardName(c.name) === n);
+  if (byName.length === 1) return byName[0].id;
+
+  const byLabel = cards.filter((c) => c.bank && normalizeCardName(`${c.name} - ${c.bank}`) === n);
+  if (byLabel.length === 1) return byLabel[0].id;
+
+  const byBank = cards.filter((c) => c.bank && normalizeCardName(c.bank) === n);
+  if (byBank.length === 1) return byBank[0].id;
+
+  return null;
+}
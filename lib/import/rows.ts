@@ -0,0 +1,185 @@
+import { isCurrencyCode, normalizeCurrency } from "../debt/fx";
+import { IMPORT_FIELDS, normalizeCardName, type ColumnMapping, type ImportFieldKey, type ImportKind } from "./mapping";
+import { parseImportAmount, parseImportDate, parseImportMonth } from "./values";
+
+/** Shape the import_statements_and_payments RPC expects for p_statements. */
+export type StatementImportRow = {
+  card_id: string;
+  statement_month: string;
+  statement_date: string | null;
+  due_date: string | null;
+  statement_amount: number | null;
+  minimum_due: number | null;
+  currency: string;
+};
+
+/** Shape the import_statements_and_payments RPC expects for p_payments. */
+export type PaymentImportRow = {
+  import_key: string;
+  card_id: string;
+  statement_month: string | null;
+  payment_date: string;
+  amount: number;
+  currency: string;
+  note: string | null;
+};
+
+export type PreviewRow<T> = {
+  line: number; // 1-based line in the file, header included
+  cells: Partial<Record<ImportFieldKey, string>>;
+  errors: string[];
+  row: T | null; // null when errors is not empty
+};
+
+export type CardLookup = {
+  /** normalized card name from the sheet -> card id (missing = unmatched) */
+  cardIds: ReadonlyMap<string, string>;
+  /** card id -> the card's currency */
+  cardCurrencies: ReadonlyMap<string, string | null>;
+};
+
+function cellsFor(record: readonly string[], mapping: ColumnMapping, kind: ImportKind) {
+  const cells: Partial<Record<ImportFieldKey, string>> = {};
+  for (const f of IMPORT_FIELDS[kind]) {
+    const i = mapping[f.key] ?? -1;
+    if (i >= 0) cells[f.key] = (record[i] ?? "").trim();
+  }
+  return cells;
+}
+
+function resolveCard(cells: Partial<Record<ImportFieldKey, string>>, cards: CardLookup, errors: string[]) {
+  const name = cells.card ?? "";
+  if (!name) {
+    errors.push("Card is empty.");
+    return null;
+  }
+  const id = cards.cardIds.get(normalizeCardName(name));
+  if (!id) errors.push(`No card matched "${name}".`);
+  return id ?? null;
+}
+
+function resolveCurrency(
+  cells: Partial<Record<ImportFieldKey, string>>,
+  cardId: string | null,
+  cards: CardLookup,
+  errors: string[],
+) {
+  const raw = cells.currency ?? "";
+  if (raw) {
+    const c = raw.toUpperCase();
+    if (!isCurrencyCode(c)) errors.push(`Currency "${raw}" is not a 3-letter code.`);
+    return c;
+  }
+  return normalizeCurrency(cardId ? cards.cardCurrencies.get(cardId) : null);
+}
+
+function optional<T>(raw: string | undefined, parse: (v: string) => T | null, label: string, errors: string[]): T | null {
+  if (!raw) return null;
+  const v = parse(raw);
+  if (v === null) errors.push(`${label} "${raw}" is not valid.`);
+  return v;
+}
+
+/**
+ * Validates the data rows (header excluded) and builds the RPC payload.
+ * Rows with errors stay in the preview but are left out of the import.
+ */
+export function buildStatementRows(
+  records: readonly (readonly string[])[],
+  mapping: ColumnMapping,
+  cards: CardLookup,
+): PreviewRow<StatementImportRow>[] {
+  const seen = new Map<string, number>();
+
+  return records.map((record, idx) => {
+    const line = idx + 2;
+    const cells = cellsFor(record, mapping, "STATEMENTS");
+    const errors: string[] = [];
+
+    const cardId = resolveCard(cells, cards, errors);
+    const month = cells.statement_month ? parseImportMonth(cells.statement_month) : null;
+    if (!cells.statement_month) errors.push("Statement month is empty.");
+    else if (!month) errors.push(`Statement month "${cells.statement_month}" is not valid.`);
+
+    const statementDate = optional(cells.statement_date, parseImportDate, "Statement date", errors);
+    const dueDate = optional(cells.due_date, parseImportDate, "Due date", errors);
+    const amount = optional(cells.statement_amount, parseImportAmount, "Statement amount", errors);
+    const minimum = optional(cells.minimum_due, parseImportAmount, "Minimum due", errors);
+    if (minimum !== null && minimum < 0) errors.push("Minimum due can't be negative.");
+    const currency = resolveCurrency(cells, cardId, cards, errors);
+
+    // Postgres rejects an upsert that hits the same row twice in one command
+    if (cardId && month) {
+      const key = `${cardId}|${month}`;
+      const first = seen.get(key);
+      if (first !== undefined) errors.push(`Same card and month as line ${first}.`);
+      else seen.set(key, line);
+    }
+
+    const row =
+      errors.length === 0 && cardId && month
+        ? {
+            card_id: cardId,
+            statement_month: month,
+            statement_date: statementDate,
+            due_date: dueDate,
+            statement_amount: amount,
+            minimum_due: minimum,
+            currency,
+          }
+        : null;
+
+    return { line, cells, errors, row };
+  });
+}
+
+/**
+ * Like buildStatementRows, for payments. Each payment gets an import_key
+ * from its card, date and amount plus how many identical rows came before
+ * it in the file, so two equal payments on one day both import once and a
+ * second import of the same file adds nothing.
+ */
+export function buildPaymentRows(
+  records: readonly (readonly string[])[],
+  mapping: ColumnMapping,
+  cards: CardLookup,
+): PreviewRow<PaymentImportRow>[] {
+  const occurrences = new Map<string, number>();
+
+  return records.map((record, idx) => {
+    const line = idx + 2;
+    const cells = cellsFor(record, mapping, "PAYMENTS");
+    const errors: string[] = [];
+
+    const cardId = resolveCard(cells, cards, errors);
+    const date = cells.payment_date ? parseImportDate(cells.payment_date) : null;
+    if (!cells.payment_date) errors.push("Payment date is empty.");
+    else if (!date) errors.push(`Payment date "${cells.payment_date}" is not valid.`);
+
+    const amount = cells.amount ? parseImportAmount(cells.amount) : null;
+    if (!cells.amount) errors.push("Amount is empty.");
+    else if (amount === null) errors.push(`Amount "${cells.amount}" is not valid.`);
+    else if (amount <= 0) errors.push("Amount must be positive.");
+
+    const month = optional(cells.statement_month, parseImportMonth, "Statement month", errors);
+    const currency = resolveCurrency(cells, cardId, cards, errors);
+
+    let row: PaymentImportRow | null = null;
+    if (errors.length === 0 && cardId && date && amount !== null) {
+      const base = `csv:${cardId}:${date}:${amount.toFixed(2)}`;
+      const n = (occurrences.get(base) ?? 0) + 1;
+      occurrences.set(base, n);
+      row = {
+        import_key: `${base}:${n}`,
+        card_id: cardId,
+        statement_month: month,
+        payment_date: date,
+        amount,
+        currency,
+        note: cells.note ? cells.note : null,
+      };
+    }
+
+    return { line, cells, errors, row };
+  });
+}
@@ -0,0 +1,92 @@
+// Lenient parsing of spreadsheet cells. Exports from banks and hand-kept
+// sheets disagree on date order and number formatting, so these accept the
+// common shapes and return null for anything ambiguous or broken.
+
+import { formatIsoDate, parseIsoDate } from "../debt/dates";
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+function isoFromParts(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  const iso = `${String(y).padStart(4, "0")}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+  const t = parseIsoDate(iso);
+  return t === null ? null : formatIsoDate(t);
+}
+
+/**
+ * "2026-03-17", "2026/03/17", "17/03/2026", "17-03-2026", "17.03.26",
+ * "17 Mar 2026", "17-Mar-26", "Mar 17, 2026" -> "2026-03-17".
+ * Numeric dates with the day first are read as DD/MM (UAE and UK order).
+ */
+export function parseImportDate(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+
+  let m = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/.exec(v);
+  if (m) return isoFromParts(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(v);
+  if (m) return isoFromParts(Number(m[3]), Number(m[2]), Number(m[1]));
+
+  m = /^(\d{1,2})[-\s]([A-Za-z]{3,9})[-\s,]+(\d{2}|\d{4})$/.exec(v);
+  if (m) {
+    const month = MONTHS[m[2].toLowerCase().slice(0, 4)] ?? MONTHS[m[2].toLowerCase().slice(0, 3)];
+    return month ? isoFromParts(Number(m[3]), month, Number(m[1])) : null;
+  }
+
+  m = /^([A-Za-z]{3,9})\s+(\d{1,2}),?\s+(\d{4})$/.exec(v);
+  if (m) {
+    const month = MONTHS[m[1].toLowerCase().slice(0, 3)];
+    return month ? isoFromParts(Number(m[3]), month, Number(m[2])) : null;
+  }
+
+  return null;
+}
+
+/** "2026-03", "03/2026", "Mar 2026", "March-26" or any full date -> "2026-03-01". */
+export function parseImportMonth(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+
+  let m = /^(\d{4})[-/.](\d{1,2})$/.exec(v);
+  if (m) return isoFromParts(Number(m[1]), Number(m[2]), 1);
+
+  m = /^(\d{1,2})[-/.](\d{4})$/.exec(v);
+  if (m) return isoFromParts(Number(m[2]), Number(m[1]), 1);
+
+  m = /^([A-Za-z]{3,9})[-\s,]+(\d{2}|\d{4})$/.exec(v);
+  if (m) {
+    const month = MONTHS[m[1].toLowerCase().slice(0, 3)];
+    return month ? isoFromParts(Number(m[2]), month, 1) : null;
+  }
+
+  const date = parseImportDate(v);
+  return date ? `${date.slice(0, 7)}-01` : null;
+}
+
+/**
+ * "1,234.50", "AED 1234.5", "1234.50 AED", "(120.00)" and "-120" -> numbers.
+ * Thousands separators must be commas; the decimal point must be a dot.
+ */
+export function parseImportAmount(value: string): number | null {
+  let v = value.trim();
+  if (!v) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(v)) {
+    negative = true;
+    v = v.slice(1, -1);
+  }
+  v = v.replace(/^[A-Za-z]{3}\s*/, "").replace(/\s*[A-Za-z]{3}$/, "").replace(/\s*(CR|DR)$/i, "");
+  if (v.startsWith("-")) {
+    negative = !negative;
+    v = v.slice(1);
+  }
+  if (!/^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/.test(v)) return null;
+
+  const n = Number(v.replace(/,/g, ""));
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+}
@@ -0,0 +1,11 @@
+import type { MailMessage, MailTransport } from "./types";
+
+/** Development fallback when no SMTP server is configured: prints the mail. */
+export function consoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message: MailMessage) {
+      console.info(`[mail] to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
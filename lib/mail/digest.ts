@@ -0,0 +1,51 @@
+import type { MailMessage } from "./types";
+
+export type DigestItem = {
+  cardName: string;
+  /** YYYY-MM-01 */
+  statementMonth: string;
+  dueDate: string;
+  /** negative = overdue */
+  daysUntilDue: number;
+  pending: number;
+  currency: string;
+};
+
+/** "today", "in 3 days", "2 days overdue" */
+export function dueWhen(days: number): string {
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  if (days > 1) return `in ${days} days`;
+  return days === -1 ? "1 day overdue" : `${-days} days overdue`;
+}
+
+function line(item: DigestItem): string {
+  return (
+    `- ${item.cardName} (${item.statementMonth.slice(0, 7)} statement): ` +
+    `${item.currency} ${item.pending.toFixed(2)} due ${item.dueDate}, ${dueWhen(item.daysUntilDue)}`
+  );
+}
+
+/** "Card payments: 1 overdue, 2 due soon" */
+export function digestTitle(items: readonly DigestItem[]): string {
+  const overdue = items.filter((i) => i.daysUntilDue < 0).length;
+  const upcoming = items.length - overdue;
+  const parts = [overdue ? `${overdue} overdue` : "", upcoming ? `${upcoming} due soon` : ""].filter(Boolean);
+  return `Card payments: ${parts.join(", ")}`;
+}
+
+/** One email per user listing overdue statements first, then upcoming ones. */
+export function reminderDigest(items: readonly DigestItem[], appUrl: string): Omit<MailMessage, "to"> {
+  const overdue = items.filter((i) => i.daysUntilDue < 0);
+  const upcoming = items.filter((i) => i.daysUntilDue >= 0);
+
+  const text = [
+    ...(overdue.length ? ["Overdue:", ...overdue.map(line), ""] : []),
+    ...(upcoming.length ? ["Coming up:", ...upcoming.map(line), ""] : []),
+    `Open your dashboard: ${appUrl}/dashboard`,
+    "",
+    `You get this because email reminders are on. Change the days or turn them off in Settings: ${appUrl}/settings`,
+  ].join("\n");
+
+  return { subject: digestTitle(items), text };
+}
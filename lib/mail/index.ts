@@ -0,0 +1,22 @@
+// Outgoing mail for server code (cron jobs, workspace invites). Never import from a client component.
+import { consoleTransport } from "./console";
+import { smtpTransport } from "./smtp";
+import type { MailTransport } from "./types";
+
+export * from "./types";
+export * from "./digest";
+export * from "./invite";
+export { consoleTransport, smtpTransport };
+
+const DEFAULT_FROM = "Debt Tracker <reminders@localhost>";
+
+/**
+ * SMTP when SMTP_URL is set; outside production, mail is printed to the
+ * server log instead. Returns null when production has no transport.
+ */
+export function mailTransportFromEnv(): MailTransport | null {
+  const url = process.env.SMTP_URL;
+  if (url) return smtpTransport(url, process.env.MAIL_FROM || DEFAULT_FROM);
+  if (process.env.NODE_ENV !== "production") return consoleTransport();
+  return null;
+}
@@ -0,0 +1,29 @@
+import type { MailMessage } from "./types";
+
+export type WorkspaceInvite = {
+  workspaceName: string;
+  /** the owner's email */
+  invitedBy: string;
+  role: "editor" | "viewer";
+};
+
+const ROLE_TEXT: Record<WorkspaceInvite["role"], string> = {
+  editor: "add and change its cards, statements and payments",
+  viewer: "see its cards, statements and payments",
+};
+
+/** The email a workspace invite sends. Accepting happens on /workspaces, signed in with this address. */
+export function workspaceInviteMail(invite: WorkspaceInvite, appUrl: string): Omit<MailMessage, "to"> {
+  return {
+    subject: `${invite.invitedBy} invited you to "${invite.workspaceName}" on Debt Tracker`,
+    text: [
+      `${invite.invitedBy} invited you to the "${invite.workspaceName}" workspace on Debt Tracker,`,
+      `where you can ${ROLE_TEXT[invite.role]}.`,
+      "",
+      "Sign in (or sign up) with this email address to accept:",
+      `${appUrl}/workspaces`,
+      "",
+      "If you weren't expecting this, you can ignore it or decline it there.",
+    ].join("\n"),
+  };
+}
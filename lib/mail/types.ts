@@ -0,0 +1,15 @@
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * Something that delivers mail. The reminder job only needs `send`, so a new
+ * provider (an HTTP API, a queue) is one more object with this shape.
+ */
+export type MailTransport = {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+};
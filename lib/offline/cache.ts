@@ -0,0 +1,32 @@
+import { CACHE_STORE, isIndexedDbAvailable, withStore } from "./idb";
+
+// Last rows loaded from the server, per user and table, so the dashboard can
+// open without a connection. Card, statement and payment rows are those of
+// the workspace that was open; "workspaces" holds the user's memberships.
+
+export type CachedTable = "cards" | "statements" | "statement_paid_totals" | "payments" | "loans" | "workspaces";
+
+type CacheEntry<R> = { rows: R[]; savedAt: string };
+
+function key(userId: string, table: CachedTable) {
+  return `${userId}:${table}`;
+}
+
+export async function cacheRows<R>(userId: string, table: CachedTable, rows: readonly R[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const entry: CacheEntry<R> = { rows: [...rows], savedAt: new Date().toISOString() };
+  await withStore(CACHE_STORE, "readwrite", (s) => s.put(entry, key(userId, table)));
+}
+
+/** The cached rows, or [] when nothing was cached yet. */
+export async function cachedRows<R>(userId: string, table: CachedTable): Promise<R[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const entry = await withStore<CacheEntry<R> | undefined>(CACHE_STORE, "readonly", (s) => s.get(key(userId, table)));
+  return entry?.rows ?? [];
+}
+
+/** Forgets everything cached for the user (on sign-out). Queued writes stay. */
+export async function clearCache(userId: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(CACHE_STORE, "readwrite", (s) => s.delete(IDBKeyRange.bound(`${userId}:`, `${userId}:￿`)));
+}
@@ -0,0 +1,240 @@
+import type { Tables } from "../supabase/database.types";
+import type { ActionResult, PaymentFormInput, StatementFormInput, WriteConflict } from "../validation";
+import { QUEUE_STORE, isIndexedDbAvailable, withStore } from "./idb";
+
+// Payments and statements saved without a connection wait here, in
+// IndexedDB, until they can be sent through the same server actions the
+// forms use. Each write remembers the updated_at of the row it was based
+// on, so an edit never silently overwrites a change made meanwhile on
+// another device: that becomes a conflict for the user to resolve instead.
+
+export type SyncTable = "payments" | "statements";
+
+type Editable<T extends SyncTable> = Omit<Tables<T>, "id" | "user_id" | "created_at" | "updated_at">;
+
+type FormInput = { payments: PaymentFormInput; statements: StatementFormInput };
+
+/** Why the server refused a queued write (see WriteConflict). */
+export type SyncConflict = WriteConflict;
+
+/** The server actions a queued write is sent through (app/payments and app/statements). */
+export type SyncActions = {
+  addPayment(id: string, input: PaymentFormInput): Promise<ActionResult>;
+  updatePayment(id: string, input: PaymentFormInput, baseUpdatedAt?: string): Promise<ActionResult>;
+  addStatement(id: string, input: StatementFormInput, overwrite?: boolean): Promise<ActionResult<{ id: string }>>;
+  saveStatement(input: StatementFormInput, id?: string, baseUpdatedAt?: string): Promise<ActionResult>;
+};
+
+type WriteFor<T extends SyncTable> = {
+  /** IndexedDB key, set once queued */
+  id?: number;
+  userId: string;
+  table: T;
+  op: "INSERT" | "UPDATE";
+  /** the row's id; INSERTs get theirs on the client so later edits can refer to it */
+  rowId: string;
+  /** INSERTs carry every editable column, UPDATEs only the changed ones; shown until synced */
+  values: Partial<Editable<T>>;
+  /** the form as it was saved, for the server action */
+  input: FormInput[T];
+  /** updated_at of the row the edit was made on; null = overwrite whatever is there */
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  status: "PENDING" | "CONFLICT" | "FAILED";
+  conflict?: SyncConflict;
+  /** set by "keep mine": replace what's on the server instead of failing */
+  overwrite?: boolean;
+  error?: string;
+};
+
+export type QueuedWrite = WriteFor<"payments"> | WriteFor<"statements">;
+
+export type NewWrite = Omit<QueuedWrite, "id" | "queuedAt" | "status" | "conflict" | "overwrite" | "error">;
+
+export type ReplayResult = { synced: number; conflicts: number; failed: number; offline: boolean };
+
+/** Queued writes for the user, oldest first. */
+export async function listWrites(userId: string): Promise<QueuedWrite[]> {
+  if (!isIndexedDbAvailable()) return [];
+  return withStore<QueuedWrite[]>(QUEUE_STORE, "readonly", (s) => s.index("userId").getAll(userId));
+}
+
+/**
+ * Queues a write. A row that already has a write waiting (say, a payment
+ * added offline and then corrected) keeps that one, with the new values
+ * merged in, so it is still sent as a single INSERT.
+ */
+export async function enqueue(write: NewWrite): Promise<void> {
+  const pending = (await listWrites(write.userId)).find(
+    (w) => w.table === write.table && w.rowId === write.rowId && w.status === "PENDING",
+  );
+  const next = (
+    pending
+      ? { ...pending, values: { ...pending.values, ...write.values }, input: write.input }
+      : { ...write, queuedAt: new Date().toISOString(), status: "PENDING" }
+  ) as QueuedWrite;
+  await withStore(QUEUE_STORE, "readwrite", (s) => s.put(next));
+}
+
+/**
+ * The write as it is stored now, or null once it was synced or discarded.
+ * Copies held elsewhere go stale: replaying a statement can move queued
+ * payments over to another statement.
+ */
+async function storedWrite(id: number): Promise<QueuedWrite | null> {
+  return (await withStore<QueuedWrite | undefined>(QUEUE_STORE, "readonly", (s) => s.get(id))) ?? null;
+}
+
+export async function removeWrite(id: number): Promise<void> {
+  await withStore(QUEUE_STORE, "readwrite", (s) => s.delete(id));
+}
+
+/**
+ * "Keep mine" for a conflict: send it again, overwriting what's on the
+ * server. A write that failed otherwise is just tried again.
+ */
+export async function retryWrite(shown: QueuedWrite): Promise<void> {
+  const write = await storedWrite(shown.id!);
+  if (!write) return;
+
+  const next: QueuedWrite = !write.conflict
+    ? { ...write, status: "PENDING", error: undefined }
+    : {
+        ...write,
+        // a deleted row is recreated with the same id
+        op: write.conflict === "DELETED" ? "INSERT" : write.op,
+        baseUpdatedAt: null,
+        overwrite: true,
+        status: "PENDING",
+        conflict: undefined,
+        error: undefined,
+      };
+  await withStore(QUEUE_STORE, "readwrite", (s) => s.put(next));
+}
+
+/**
+ * The rows as they'll be once the queue is synced: queued UPDATEs applied
+ * on top of the loaded rows, queued INSERTs added in front.
+ */
+export function applyWrites<T extends SyncTable>(
+  rows: readonly Tables<T>[],
+  writes: readonly QueuedWrite[],
+  table: T,
+): Tables<T>[] {
+  const out = [...rows];
+  for (const w of writes) {
+    if (w.table !== table) continue;
+    const i = out.findIndex((r) => r.id === w.rowId);
+    if (i >= 0) {
+      out[i] = { ...out[i], ...w.values };
+    } else if (w.op === "INSERT") {
+      out.unshift({
+        ...w.values,
+        id: w.rowId,
+        user_id: w.userId,
+        created_at: w.queuedAt,
+        updated_at: w.queuedAt,
+      } as Tables<T>);
+    }
+  }
+  return out;
+}
+
+/** True when the request never reached the server (as opposed to being rejected by it). */
+export function isNetworkError(error: { message: string } | null | undefined): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return !!error && /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(error.message);
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Sends the user's pending writes in the order they were made. Stops at the
+ * first network error (the rest wait for the next try); a write the server
+ * rejects is kept, marked CONFLICT or FAILED, and doesn't hold up the others.
+ */
+export function replayWrites(actions: SyncActions, userId: string): Promise<ReplayResult> {
+  replaying ??= replay(actions, userId).finally(() => {
+    replaying = null;
+  });
+  return replaying;
+}
+
+async function replay(actions: SyncActions, userId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0, offline: false };
+
+  for (const { id } of await listWrites(userId)) {
+    const w = await storedWrite(id!);
+    if (w?.status !== "PENDING") continue;
+
+    const outcome = await send(actions, w);
+    if (outcome.status === "OFFLINE") {
+      result.offline = true;
+      break;
+    }
+    if (outcome.status === "SYNCED") {
+      await removeWrite(w.id!);
+      result.synced++;
+      continue;
+    }
+
+    const latest = await storedWrite(w.id!);
+    if (latest) await withStore(QUEUE_STORE, "readwrite", (s) => s.put({ ...latest, ...outcome }));
+    if (outcome.status === "CONFLICT") result.conflicts++;
+    else result.failed++;
+  }
+
+  return result;
+}
+
+type Outcome =
+  | { status: "SYNCED" }
+  | { status: "OFFLINE" }
+  | { status: "CONFLICT"; conflict: SyncConflict }
+  | { status: "FAILED"; error: string };
+
+async function send(actions: SyncActions, w: QueuedWrite): Promise<Outcome> {
+  // queued before writes went through the server actions
+  if (!w.input) return { status: "FAILED", error: "Saved by an older version of the app. Discard it and re-enter it." };
+
+  let result: ActionResult<unknown>;
+  try {
+    if (w.table === "payments") {
+      result =
+        w.op === "INSERT"
+          ? await actions.addPayment(w.rowId, w.input)
+          : await actions.updatePayment(w.rowId, w.input, w.baseUpdatedAt ?? undefined);
+    } else if (w.op === "INSERT") {
+      const added = await actions.addStatement(w.rowId, w.input, w.overwrite);
+      // "keep mine" after EXISTS updated the statement made elsewhere; queued payments move over to it
+      if (added.ok && added.data.id !== w.rowId) await moveQueuedPayments(w, added.data.id);
+      result = added;
+    } else {
+      result = await actions.saveStatement(w.input, w.rowId, w.baseUpdatedAt ?? undefined);
+    }
+  } catch (e) {
+    if (isNetworkError(e as Error)) return { status: "OFFLINE" };
+    return { status: "FAILED", error: (e as Error).message };
+  }
+
+  if (result.ok) return { status: "SYNCED" };
+  if (result.conflict) return { status: "CONFLICT", conflict: result.conflict };
+  return { status: "FAILED", error: result.error };
+}
+
+async function moveQueuedPayments(w: WriteFor<"statements">, statementId: string): Promise<void> {
+  for (const p of await listWrites(w.userId)) {
+    if (p.table === "payments" && p.values.statement_id === w.rowId) {
+      const moved: QueuedWrite = {
+        ...p,
+        values: { ...p.values, statement_id: statementId },
+        input: p.input && { ...p.input, statement_id: statementId },
+      };
+      await withStore(QUEUE_STORE, "readwrite", (s) => s.put(moved));
+    }
+  }
+}
+
+export function newRowId(): string {
+  return crypto.randomUUID();
+}
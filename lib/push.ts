@@ -0,0 +1,96 @@
+// Web Push for server code (the reminder job, the test route). Never import
+// this from a client component; the browser side of a subscription lives in
+// app/settings/push-notifications.tsx, and public/sw.js shows the payload.
+
+import webpush from "web-push";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./supabase/database.types";
+import { digestTitle, dueWhen, type DigestItem } from "./mail/digest";
+
+export type PushPayload = {
+  title: string;
+  body: string;
+  /** opened when the notification is tapped */
+  url?: string;
+  /** a newer notification with the same tag replaces the older one */
+  tag?: string;
+};
+
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+/** GONE: the browser unsubscribed or the subscription expired. */
+export type PushSender = (target: PushTarget, payload: PushPayload) => Promise<"SENT" | "GONE">;
+
+const TTL_SECONDS = 24 * 60 * 60;
+const BODY_ITEMS = 3;
+
+/** Null when the VAPID keys aren't configured. */
+export function pushSenderFromEnv(): PushSender | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  const vapidDetails = {
+    subject: process.env.VAPID_SUBJECT || "mailto:reminders@localhost",
+    publicKey,
+    privateKey,
+  };
+
+  return async (target, payload) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        JSON.stringify(payload),
+        { vapidDetails, TTL: TTL_SECONDS },
+      );
+      return "SENT";
+    } catch (e) {
+      if (e instanceof webpush.WebPushError && (e.statusCode === 404 || e.statusCode === 410)) return "GONE";
+      throw e;
+    }
+  };
+}
+
+/**
+ * Sends to every subscription of the user. Subscriptions the push service
+ * reports as gone are deleted. Returns how many devices got it.
+ */
+export async function pushToUser(
+  supabase: SupabaseClient<Database>,
+  send: PushSender,
+  userId: string,
+  payload: PushPayload,
+): Promise<number> {
+  const { data, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", userId);
+  if (error) throw new Error(error.message);
+
+  const sent: string[] = [];
+  const gone: string[] = [];
+  for (const sub of data ?? []) {
+    if ((await send(sub, payload)) === "SENT") sent.push(sub.id);
+    else gone.push(sub.id);
+  }
+
+  if (gone.length) await supabase.from("push_subscriptions").delete().in("id", gone);
+  if (sent.length) {
+    await supabase.from("push_subscriptions").update({ last_sent_at: new Date().toISOString() }).in("id", sent);
+  }
+  return sent.length;
+}
+
+/** The reminder digest, short enough for a notification. */
+export function reminderPush(items: readonly DigestItem[]): PushPayload {
+  const lines = items
+    .slice(0, BODY_ITEMS)
+    .map((i) => `${i.cardName}: ${i.currency} ${i.pending.toFixed(2)} ${i.daysUntilDue < 0 ? "" : "due "}${dueWhen(i.daysUntilDue)}`);
+  if (items.length > BODY_ITEMS) lines.push(`+${items.length - BODY_ITEMS} more`);
+
+  return { title: digestTitle(items), body: lines.join("\n"), url: "/dashboard", tag: "due-reminders" };
+}
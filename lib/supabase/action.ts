@@ -0,0 +1,35 @@
+import type { User } from "@supabase/supabase-js";
+import type { ActionResult } from "@/lib/validation";
+import { createClient } from "./server";
+
+/**
+ * The signed-in user and their client, for server actions; null when
+ * nobody is signed in. Queries still go through RLS, so a forged id can't
+ * reach another user's rows.
+ */
+export async function signedIn(): Promise<{ supabase: Awaited<ReturnType<typeof createClient>>; user: User } | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user) return null;
+  return { supabase, user: data.user };
+}
+
+export const SIGNED_OUT: ActionResult<never> = { ok: false, error: "Please sign in first." };
+
+type Client = NonNullable<Awaited<ReturnType<typeof signedIn>>>["supabase"];
+
+/**
+ * Why an update matched no row: the row was edited after the version the
+ * edit was made on, or it is gone or in the Trash.
+ */
+export async function staleWrite(
+  supabase: Client,
+  table: "payments" | "statements",
+  id: string,
+): Promise<ActionResult<never>> {
+  const { data, error } = await supabase.from(table).select("deleted_at").eq("id", id).maybeSingle();
+  if (error) return { ok: false, error: error.message };
+  return data && !data.deleted_at
+    ? { ok: false, error: "It was changed elsewhere since it was loaded.", conflict: "CHANGED" }
+    : { ok: false, error: "It was deleted or moved to the Trash.", conflict: "DELETED" };
+}
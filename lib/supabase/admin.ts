@@ -0,0 +1,17 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "./database.types";
+
+/**
+ * Service-role client for trusted server code that runs without a user
+ * session (cron jobs, token-authenticated routes). It bypasses RLS, so every
+ * query must scope rows to the right user itself. Never import this from a
+ * client component.
+ */
+export function createAdminClient() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+
+  return createSupabaseClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
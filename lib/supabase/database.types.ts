@@ -0,0 +1,1209 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          id: number
+          new_values: Json | null
+          old_values: Json | null
+          record_id: string
+          reverted_from: number | null
+          table_name: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id: string
+          reverted_from?: number | null
+          table_name: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: number
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string
+          reverted_from?: number | null
+          table_name?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_reverted_from_fkey"
+            columns: ["reverted_from"]
+            isOneToOne: false
+            referencedRelation: "audit_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_holidays: {
+        Row: {
+          holiday_date: string
+          name: string
+        }
+        Insert: {
+          holiday_date: string
+          name: string
+        }
+        Update: {
+          holiday_date?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          reminder_days: number[]
+          reminder_hour: number
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          reminder_days?: number[]
+          reminder_hour?: number
+          token: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          reminder_days?: number[]
+          reminder_hour?: number
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      cards: {
+        Row: {
+          bank: string | null
+          cash_apr: number | null
+          created_at: string
+          created_by: string | null
+          credit_limit: number | null
+          currency: string | null
+          deleted_at: string | null
+          due_date_adjustment: string
+          grace_days: number | null
+          id: string
+          min_payment_floor: number | null
+          min_payment_percent: number | null
+          name: string
+          notes: string | null
+          purchase_apr: number | null
+          statement_day: number | null
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          bank?: string | null
+          cash_apr?: number | null
+          created_at?: string
+          created_by?: string | null
+          credit_limit?: number | null
+          currency?: string | null
+          deleted_at?: string | null
+          due_date_adjustment?: string
+          grace_days?: number | null
+          id?: string
+          min_payment_floor?: number | null
+          min_payment_percent?: number | null
+          name: string
+          notes?: string | null
+          purchase_apr?: number | null
+          statement_day?: number | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Update: {
+          bank?: string | null
+          cash_apr?: number | null
+          created_at?: string
+          created_by?: string | null
+          credit_limit?: number | null
+          currency?: string | null
+          deleted_at?: string | null
+          due_date_adjustment?: string
+          grace_days?: number | null
+          id?: string
+          min_payment_floor?: number | null
+          min_payment_percent?: number | null
+          name?: string
+          notes?: string | null
+          purchase_apr?: number | null
+          statement_day?: number | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cards_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      counterparties: {
+        Row: {
+          contact: string | null
+          created_at: string
+          deleted_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          contact?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          contact?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      fx_rates: {
+        Row: {
+          created_at: string
+          effective_date: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          effective_date: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      installment_plans: {
+        Row: {
+          card_id: string
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          deleted_at: string | null
+          description: string
+          id: string
+          monthly_installment: number
+          principal: number
+          processing_fee: number
+          start_month: string
+          tenure_months: number
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          card_id: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          description: string
+          id?: string
+          monthly_installment: number
+          principal: number
+          processing_fee?: number
+          start_month: string
+          tenure_months: number
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Update: {
+          card_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          description?: string
+          id?: string
+          monthly_installment?: number
+          principal?: number
+          processing_fee?: number
+          start_month?: string
+          tenure_months?: number
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_plans_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_plans_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loans: {
+        Row: {
+          annual_rate: number
+          created_at: string
+          currency: string | null
+          deleted_at: string | null
+          emi: number | null
+          id: string
+          lender: string | null
+          loan_type: string
+          name: string
+          notes: string | null
+          principal: number
+          start_date: string
+          tenure_months: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          annual_rate?: number
+          created_at?: string
+          currency?: string | null
+          deleted_at?: string | null
+          emi?: number | null
+          id?: string
+          lender?: string | null
+          loan_type?: string
+          name: string
+          notes?: string | null
+          principal: number
+          start_date: string
+          tenure_months: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          annual_rate?: number
+          created_at?: string
+          currency?: string | null
+          deleted_at?: string | null
+          emi?: number | null
+          id?: string
+          lender?: string | null
+          loan_type?: string
+          name?: string
+          notes?: string | null
+          principal?: number
+          start_date?: string
+          tenure_months?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number | null
+          card_id: string | null
+          counterparty_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          deleted_at: string | null
+          detached_statement_id: string | null
+          direction: string | null
+          id: string
+          import_key: string | null
+          kind: string
+          loan_id: string | null
+          match_status: string | null
+          note: string | null
+          payment_date: string
+          statement_id: string | null
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          amount?: number | null
+          card_id?: string | null
+          counterparty_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          detached_statement_id?: string | null
+          direction?: string | null
+          id?: string
+          import_key?: string | null
+          kind?: string
+          loan_id?: string | null
+          match_status?: string | null
+          note?: string | null
+          payment_date: string
+          statement_id?: string | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Update: {
+          amount?: number | null
+          card_id?: string | null
+          counterparty_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          detached_statement_id?: string | null
+          direction?: string | null
+          id?: string
+          import_key?: string | null
+          kind?: string
+          loan_id?: string | null
+          match_status?: string | null
+          note?: string | null
+          payment_date?: string
+          statement_id?: string | null
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_counterparty_id_fkey"
+            columns: ["counterparty_id"]
+            isOneToOne: false
+            referencedRelation: "counterparties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_detached_statement_id_fkey"
+            columns: ["detached_statement_id"]
+            isOneToOne: false
+            referencedRelation: "statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "statements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      personal_access_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          last_used_at: string | null
+          name: string
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          last_used_at?: string | null
+          name: string
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          base_currency: string
+          created_at: string
+          email_reminders: boolean
+          overdue_reminders: boolean
+          push_reminders: boolean
+          reminder_days: number[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_currency?: string
+          created_at?: string
+          email_reminders?: boolean
+          overdue_reminders?: boolean
+          push_reminders?: boolean
+          reminder_days?: number[]
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          email_reminders?: boolean
+          overdue_reminders?: boolean
+          push_reminders?: boolean
+          reminder_days?: number[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_sent_at: string | null
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_sent_at?: string | null
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_sent_at?: string | null
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reminder_deliveries: {
+        Row: {
+          id: string
+          reason: string
+          sent_at: string
+          statement_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          reason: string
+          sent_at?: string
+          statement_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          reason?: string
+          sent_at?: string
+          statement_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_statement_id_fkey"
+            columns: ["statement_id"]
+            isOneToOne: false
+            referencedRelation: "statements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      statements: {
+        Row: {
+          card_id: string
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          deleted_at: string | null
+          due_date: string | null
+          fees: number | null
+          id: string
+          interest_charged: number | null
+          minimum_due: number | null
+          statement_amount: number | null
+          statement_date: string | null
+          statement_month: string
+          updated_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          card_id: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          due_date?: string | null
+          fees?: number | null
+          id?: string
+          interest_charged?: number | null
+          minimum_due?: number | null
+          statement_amount?: number | null
+          statement_date?: string | null
+          statement_month: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Update: {
+          card_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deleted_at?: string | null
+          due_date?: string | null
+          fees?: number | null
+          id?: string
+          interest_charged?: number | null
+          minimum_due?: number | null
+          statement_amount?: number | null
+          statement_date?: string | null
+          statement_month?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statements_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statements_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string
+          replay_of: string | null
+          response_body: string | null
+          response_status: number | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          endpoint_id: string
+          error?: string | null
+          event_id: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          endpoint_id?: string
+          error?: string | null
+          event_id?: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string
+          replay_of?: string | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          description: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events: string[]
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          created_at: string
+          id: string
+          payload: Json
+          subject_id: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payload: Json
+          subject_id: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          subject_id?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workspace_invites: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string
+          role: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string
+          role: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          personal: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id?: string
+          personal?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          personal?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      counterparty_balances: {
+        Row: {
+          balance: number | null
+          counterparty_id: string | null
+          currency: string | null
+          entry_count: number | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_counterparty_id_fkey"
+            columns: ["counterparty_id"]
+            isOneToOne: false
+            referencedRelation: "counterparties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loan_paid_totals: {
+        Row: {
+          loan_id: string | null
+          paid_amount: number | null
+          payment_count: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      statement_paid_totals: {
+        Row: {
+          card_id: string | null
+          paid_amount: number | null
+          payment_count: number | null
+          statement_id: string | null
+          user_id: string | null
+          workspace_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "statements_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "statements_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      accept_workspace_invite: {
+        Args: {
+          p_invite: string
+        }
+        Returns: string
+      }
+      claim_webhook_deliveries: {
+        Args: {
+          p_limit: number
+          p_user?: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          endpoint_id: string
+          event_id: string
+          attempts: number
+        }[]
+      }
+      import_statements_and_payments: {
+        Args: {
+          p_payments: Json
+          p_statements: Json
+        }
+        Returns: Json
+      }
+      purge_card: {
+        Args: {
+          p_card: string
+        }
+        Returns: undefined
+      }
+      record_overdue_webhook_events: {
+        Args: {
+          p_today: string
+        }
+        Returns: number
+      }
+      replay_webhook_delivery: {
+        Args: {
+          p_delivery: string
+        }
+        Returns: string
+      }
+      restore_archive: {
+        Args: {
+          p_archive: Json
+        }
+        Returns: Json
+      }
+      restore_card: {
+        Args: {
+          p_card: string
+        }
+        Returns: undefined
+      }
+      restore_statement: {
+        Args: {
+          p_statement: string
+        }
+        Returns: number
+      }
+      revert_to_audit_entry: {
+        Args: {
+          p_entry: number
+        }
+        Returns: undefined
+      }
+      send_test_webhook: {
+        Args: {
+          p_endpoint: string
+        }
+        Returns: string
+      }
+      trash_card: {
+        Args: {
+          p_card: string
+        }
+        Returns: undefined
+      }
+      trash_statement: {
+        Args: {
+          p_statement: string
+        }
+        Returns: number
+      }
+      workspace_invited: {
+        Args: {
+          p_workspace: string
+        }
+        Returns: boolean
+      }
+      workspace_role: {
+        Args: {
+          p_workspace: string
+        }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import * as debt from "@/lib/debt";
+
+// Field schemas for the app's forms. Inputs arrive as the strings the form
+// holds (the server actions get the same strings), and a blank optional
+// field means null, never 0.
+
+/** Per field, the first problem with it; keyed by column name. */
+export type FieldErrors = Record<string, string>;
+
+export type Validated<T> = { ok: true; data: T } | { ok: false; fieldErrors: FieldErrors };
+
+/**
+ * Why an edit made on an older copy of a row was refused:
+ * CHANGED: the row was edited elsewhere since it was loaded.
+ * DELETED: the row is gone or in the Trash.
+ * EXISTS: a statement for that card and month was created elsewhere.
+ */
+export type WriteConflict = "CHANGED" | "DELETED" | "EXISTS";
+
+/** What a server action returns: the saved result, or why nothing was saved. */
+export type ActionResult<T = null> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; fieldErrors?: FieldErrors; conflict?: WriteConflict };
+
+// numeric(14, 2)
+const MAX_AMOUNT = 999_999_999_999.99;
+
+type NumberRule = {
+  min?: number;
+  /** min itself isn't allowed */
+  exclusive?: boolean;
+  max?: number;
+  int?: boolean;
+};
+
+function numberRule(rule: NumberRule) {
+  let n = z.number({ error: "Enter a number" });
+  if (rule.int) n = n.int("Enter a whole number");
+  if (rule.min !== undefined) {
+    n = rule.exclusive
+      ? n.gt(rule.min, rule.min === 0 ? "Must be more than 0" : `Must be more than ${rule.min}`)
+      : n.min(rule.min, rule.min === 0 ? "Can't be negative" : `Must be at least ${rule.min}`);
+  }
+  return n.max(rule.max ?? MAX_AMOUNT, `Must be at most ${rule.max ?? MAX_AMOUNT}`);
+}
+
+/** A number typed into a text input. NaN and Infinity are rejected. */
+export function requiredNumber(rule: NumberRule = {}) {
+  return z.string().trim().min(1, "Required").transform(Number).pipe(numberRule(rule));
+}
+
+export function optionalNumber(rule: NumberRule = {}) {
+  return z
+    .string()
+    .trim()
+    .transform((s) => (s === "" ? null : Number(s)))
+    .pipe(numberRule(rule).nullable());
+}
+
+/** An amount of money: 0 or more, unless `positive`. */
+export function money(options: { positive?: boolean } = {}) {
+  return requiredNumber({ min: 0, exclusive: options.positive });
+}
+
+export function optionalMoney() {
+  return optionalNumber({ min: 0 });
+}
+
+/** Like money(), for an amount a parser already turned into a number (imports). */
+export function parsedMoney(options: { positive?: boolean } = {}) {
+  return numberRule({ min: 0, exclusive: options.positive });
+}
+
+/** Like requiredNumber(), for a number a parser already read (imports). */
+export function parsedNumber(rule: NumberRule = {}) {
+  return numberRule(rule);
+}
+
+export const requiredText = z.string().trim().min(1, "Required").max(500, "Too long");
+
+export const optionalText = z
+  .string()
+  .trim()
+  .max(2000, "Too long")
+  .transform((s) => s || null);
+
+export const requiredDate = z.string().trim().min(1, "Required").pipe(z.iso.date({ error: "Enter a date" }));
+
+export const optionalDate = z
+  .string()
+  .trim()
+  .transform((s) => s || null)
+  .pipe(z.iso.date({ error: "Enter a date" }).nullable());
+
+/** A date a parser already normalized to YYYY-MM-DD, or null (imports). */
+export const parsedDate = z.iso.date({ error: "Enter a date" }).nullable();
+
+/** A statement or plan month, stored as its first day. */
+export const monthStart = requiredDate.refine(
+  (d) => debt.firstDayOfMonth(d) === d,
+  "Pick the first day of the month",
+);
+
+export const currencyCode = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(debt.isCurrencyCode, "Enter a 3-letter currency code, like AED");
+
+export function requiredId(message = "Required") {
+  return z.uuid({ error: message });
+}
+
+export const optionalId = z
+  .string()
+  .trim()
+  .transform((s) => s || null)
+  .pipe(z.uuid().nullable());
+
+/** The rows a bulk action works on. */
+export const idList = z.array(requiredId()).min(1, "Nothing selected").max(500, "Too many at once");
+
+/** The first message per field, for showing next to the inputs. */
+export function fieldErrors(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.length ? String(issue.path[0]) : "_form";
+    errors[key] ??= issue.message;
+  }
+  return errors;
+}
+
+/** Parses form input with a schema; the same call on the client and in the action. */
+export function validate<S extends z.ZodType>(schema: S, input: unknown): Validated<z.output<S>> {
+  const parsed = schema.safeParse(input);
+  return parsed.success ? { ok: true, data: parsed.data } : { ok: false, fieldErrors: fieldErrors(parsed.error) };
+}
+
+export function invalid(fieldErrors: FieldErrors): ActionResult<never> {
+  return { ok: false, error: fieldErrors._form ?? "Please fix the highlighted fields.", fieldErrors };
+}
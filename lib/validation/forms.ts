@@ -0,0 +1,274 @@
+import { z } from "zod";
+import * as debt from "@/lib/debt";
+import { MAX_TOKEN_DAYS, TOKEN_SCOPES } from "@/lib/api/tokens";
+import { WEBHOOK_EVENTS, webhookUrlProblem } from "@/lib/webhooks/events";
+import {
+  currencyCode,
+  money,
+  monthStart,
+  optionalDate,
+  optionalId,
+  optionalMoney,
+  optionalNumber,
+  optionalText,
+  parsedDate,
+  parsedMoney,
+  parsedNumber,
+  requiredDate,
+  requiredId,
+  requiredNumber,
+  requiredText,
+} from "./fields";
+
+// One schema per form. The dashboard validates with these as the user
+// types and before saving; the server actions (app/*/actions.ts) parse the
+// same input again, so nothing the browser skipped reaches the database.
+// Keys are the column names the values are saved to.
+
+const enumOf = <T extends string>(values: readonly T[], message: string) =>
+  z.enum(values as [T, ...T[]], { error: message });
+
+export const CardForm = z.object({
+  name: requiredText,
+  bank: optionalText,
+  // blank keeps the column default
+  credit_limit: optionalMoney().transform((v) => v ?? 0),
+  currency: currencyCode,
+  notes: optionalText,
+  purchase_apr: optionalNumber({ min: 0, max: 999 }),
+  cash_apr: optionalNumber({ min: 0, max: 999 }),
+  min_payment_percent: optionalNumber({ min: 0, max: 100 }),
+  min_payment_floor: optionalMoney(),
+  statement_day: optionalNumber({ min: 1, max: 31, int: true }),
+  grace_days: optionalNumber({ min: 0, max: 90, int: true }),
+  due_date_adjustment: enumOf(debt.DUE_DATE_ADJUSTMENTS, "Pick an option"),
+});
+
+export const StatementForm = z.object({
+  card_id: requiredId("Select a card"),
+  statement_month: monthStart,
+  statement_date: optionalDate,
+  due_date: optionalDate,
+  statement_amount: money(),
+  minimum_due: optionalMoney(),
+  interest_charged: optionalMoney(),
+  fees: optionalMoney(),
+});
+
+// a payment is either against a card (optionally a statement) or a loan
+export const PaymentForm = z
+  .object({
+    kind: z.enum(["CARD", "LOAN"]),
+    card_id: optionalId,
+    statement_id: optionalId,
+    loan_id: optionalId,
+    payment_date: requiredDate,
+    amount: money({ positive: true }),
+    note: optionalText,
+  })
+  .superRefine((p, ctx) => {
+    if (p.kind === "CARD" && !p.card_id) ctx.addIssue({ code: "custom", path: ["card_id"], message: "Select a card" });
+    if (p.kind === "LOAN" && !p.loan_id) ctx.addIssue({ code: "custom", path: ["loan_id"], message: "Select a loan" });
+  })
+  .transform((p) =>
+    p.kind === "LOAN"
+      ? { ...p, card_id: null, statement_id: null }
+      : { ...p, loan_id: null },
+  );
+
+/** How a card payment came to be linked to its statement; null when it isn't. */
+export const MatchStatus = enumOf(["AUTO", "CONFIRMED", "NEEDS_REVIEW"] as const, "Pick a match status").nullable();
+
+// one credit picked on the bank import; the card, and so the currency, is the same for all of them
+export const BankPaymentForm = z.object({
+  statement_id: optionalId,
+  match_status: MatchStatus,
+  payment_date: requiredDate,
+  amount: money({ positive: true }),
+  note: optionalText,
+  import_key: requiredText,
+});
+
+export const BankImportForm = z.array(BankPaymentForm).min(1, "Nothing selected").max(2000, "Too many at once");
+
+// Rows of the spreadsheet import, as lib/import/rows.ts builds them from the
+// sheet's cells (already numbers and ISO dates). The action checks them again.
+export const StatementImportRow = z.object({
+  card_id: requiredId(),
+  statement_month: monthStart,
+  statement_date: parsedDate,
+  due_date: parsedDate,
+  statement_amount: parsedMoney().nullable(),
+  minimum_due: parsedMoney().nullable(),
+  currency: currencyCode,
+});
+
+export const PaymentImportRow = z.object({
+  import_key: requiredText,
+  card_id: requiredId(),
+  statement_month: monthStart.nullable(),
+  payment_date: requiredDate,
+  amount: parsedMoney({ positive: true }),
+  currency: currencyCode,
+  note: optionalText.nullable(),
+});
+
+export const StatementImport = z.array(StatementImportRow).min(1, "Nothing to import").max(5000, "Too many rows at once");
+export const PaymentImport = z.array(PaymentImportRow).min(1, "Nothing to import").max(5000, "Too many rows at once");
+
+export const LoanForm = z.object({
+  name: requiredText,
+  lender: optionalText,
+  loan_type: enumOf(debt.LOAN_TYPES, "Pick a loan type"),
+  principal: money({ positive: true }),
+  annual_rate: optionalNumber({ min: 0, max: 999 }).transform((v) => v ?? 0),
+  tenure_months: requiredNumber({ min: 1, max: 600, int: true }),
+  // blank: calculated from the terms
+  emi: optionalNumber({ min: 0, exclusive: true }),
+  start_date: requiredDate,
+  currency: currencyCode,
+});
+
+export const InstallmentPlanForm = z
+  .object({
+    card_id: requiredId("Select a card"),
+    description: requiredText,
+    principal: money({ positive: true }),
+    processing_fee: optionalMoney().transform((v) => v ?? 0),
+    tenure_months: requiredNumber({ min: 1, max: 60, int: true }),
+    // blank: the principal spread evenly, rounded up to the cent
+    monthly_installment: optionalNumber({ min: 0, exclusive: true }),
+    start_month: monthStart,
+  })
+  .transform((p) => ({
+    ...p,
+    monthly_installment: p.monthly_installment ?? Math.ceil((p.principal / p.tenure_months) * 100) / 100,
+  }));
+
+export const PersonForm = z.object({
+  name: requiredText,
+  contact: optionalText,
+});
+
+export const IouEntryForm = z.object({
+  counterparty_id: requiredId("Select a person"),
+  direction: enumOf(debt.IOU_DIRECTIONS, "Pick an entry type"),
+  payment_date: requiredDate,
+  amount: money({ positive: true }),
+  currency: currencyCode,
+  note: optionalText,
+});
+
+export const WorkspaceForm = z.object({
+  name: requiredText.max(100, "Too long"),
+});
+
+// the owner is whoever created the workspace; everyone else joins as one of these
+export const WorkspaceInviteForm = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.email({ error: "Enter an email address" })),
+  role: enumOf(["editor", "viewer"] as const, "Pick a role"),
+});
+
+// Settings. A rate is numeric(20, 10); reminder days count back from the
+// due date, and both tables allow 0 to 30 of them.
+const MAX_RATE = 9_999_999_999;
+
+const reminderDays = z
+  .array(z.number().int().min(0, "Can't be negative").max(30, "At most 30 days before"))
+  .max(31, "Too many days");
+
+const distinctPair = (r: { from_currency: string; to_currency: string }) => r.from_currency !== r.to_currency;
+const PAIR_PROBLEM = { path: ["to_currency"], message: "From and to currency must differ" };
+
+export const BaseCurrencyForm = z.object({
+  base_currency: currencyCode,
+});
+
+export const FxRateForm = z
+  .object({
+    from_currency: currencyCode,
+    to_currency: currencyCode,
+    rate: requiredNumber({ min: 0, exclusive: true, max: MAX_RATE }),
+    effective_date: requiredDate,
+  })
+  .refine(distinctPair, PAIR_PROBLEM);
+
+// one rate as debt.parseFxRatesCsv reads it from a CSV
+export const FxRateImportRow = z
+  .object({
+    from_currency: currencyCode,
+    to_currency: currencyCode,
+    rate: parsedNumber({ min: 0, exclusive: true, max: MAX_RATE }),
+    effective_date: requiredDate,
+  })
+  .refine(distinctPair, PAIR_PROBLEM);
+
+export const FxRateImport = z.array(FxRateImportRow).min(1, "Nothing to import").max(5000, "Too many rows at once");
+
+export const EmailRemindersForm = z.object({
+  email_reminders: z.boolean(),
+  reminder_days: reminderDays,
+  overdue_reminders: z.boolean(),
+});
+
+export const CalendarFeedForm = z.object({
+  reminder_days: reminderDays,
+  reminder_hour: requiredNumber({ int: true, min: 0, max: 23 }),
+});
+
+// what PushSubscription.toJSON() gives, plus the browser it came from
+export const PushSubscriptionForm = z.object({
+  endpoint: z.url({ error: "Not a push endpoint" }).max(2000, "Too long"),
+  p256dh: requiredText,
+  auth: requiredText,
+  user_agent: optionalText,
+});
+
+export const WebhookEndpointForm = z.object({
+  url: z
+    .string()
+    .trim()
+    .superRefine((url, ctx) => {
+      const problem = webhookUrlProblem(url);
+      if (problem) ctx.addIssue({ code: "custom", message: problem });
+    }),
+  description: optionalText,
+  events: z
+    .array(enumOf(WEBHOOK_EVENTS, "Pick an event"))
+    .min(1, "Pick at least one event")
+    .transform((events) => [...new Set(events)]),
+});
+
+export const ApiTokenForm = z.object({
+  name: requiredText.max(100, "Too long"),
+  scopes: z
+    .array(enumOf(TOKEN_SCOPES, "Pick a scope"))
+    .min(1, "Pick at least one scope")
+    .transform((scopes) => [...new Set(scopes)]),
+  expires_in_days: requiredNumber({ int: true, min: 1, max: MAX_TOKEN_DAYS }),
+});
+
+export type CardFormInput = z.input<typeof CardForm>;
+export type StatementFormInput = z.input<typeof StatementForm>;
+export type PaymentFormInput = z.input<typeof PaymentForm>;
+export type BankPaymentFormInput = z.input<typeof BankPaymentForm>;
+export type StatementImportInput = z.input<typeof StatementImport>;
+export type PaymentImportInput = z.input<typeof PaymentImport>;
+export type LoanFormInput = z.input<typeof LoanForm>;
+export type InstallmentPlanFormInput = z.input<typeof InstallmentPlanForm>;
+export type PersonFormInput = z.input<typeof PersonForm>;
+export type IouEntryFormInput = z.input<typeof IouEntryForm>;
+export type WorkspaceFormInput = z.input<typeof WorkspaceForm>;
+export type WorkspaceInviteFormInput = z.input<typeof WorkspaceInviteForm>;
+export type BaseCurrencyFormInput = z.input<typeof BaseCurrencyForm>;
+export type FxRateFormInput = z.input<typeof FxRateForm>;
+export type FxRateImportInput = z.input<typeof FxRateImport>;
+export type EmailRemindersFormInput = z.input<typeof EmailRemindersForm>;
+export type CalendarFeedFormInput = z.input<typeof CalendarFeedForm>;
+export type PushSubscriptionFormInput = z.input<typeof PushSubscriptionForm>;
+export type WebhookEndpointFormInput = z.input<typeof WebhookEndpointForm>;
+export type ApiTokenFormInput = z.input<typeof ApiTokenForm>;
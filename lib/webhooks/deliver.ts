@@ -0,0 +1,184 @@
+// Sends queued webhook deliveries, for the cron job and the "Deliver now"
+// button. Server only: it signs with the endpoints' secrets.
+
+import { createHmac } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../supabase/database.types";
+import { isPrivateHost } from "./events";
+
+/**
+ * Minutes to wait after each failed attempt: the first retry comes after a
+ * minute, the last a day later. A delivery still failing after that is
+ * marked FAILED; it can be replayed from Settings.
+ */
+export const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 360, 720, 1440];
+
+const TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 1000;
+const BATCH = 25;
+
+/** What an endpoint receives as the JSON request body. */
+export type WebhookBody = {
+  /** the event's id; the same for every delivery and replay of it */
+  id: string;
+  type: string;
+  created_at: string;
+  data: Json;
+};
+
+export type DeliveryOptions = {
+  /** only this user's deliveries (the "Deliver now" button) */
+  userId?: string;
+  /** allow endpoints on localhost and private networks */
+  allowPrivate?: boolean;
+  /** stop claiming new batches after this time (ms since epoch) */
+  deadline?: number;
+};
+
+export type DeliveryCounts = { delivered: number; retrying: number; failed: number };
+
+type Attempt = { ok: boolean; status: number | null; body: string | null; error: string | null; final?: boolean };
+
+/**
+ * The X-Debt-Tracker-Signature header: `t=<unix seconds>,v1=<hex>`, where
+ * the hex is the HMAC-SHA256 of `<t>.<raw body>` keyed with the endpoint's
+ * secret. Receivers recompute it and should reject old timestamps.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** When to try again after `attempts` failed attempts, or null to give up. */
+export function nextAttemptAt(attempts: number, now: Date): Date | null {
+  const minutes = RETRY_DELAYS_MINUTES[attempts - 1];
+  return minutes === undefined ? null : new Date(now.getTime() + minutes * 60_000);
+}
+
+async function post(
+  url: string,
+  secret: string,
+  deliveryId: string,
+  payload: WebhookBody,
+  allowPrivate: boolean,
+): Promise<Attempt> {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return { ok: false, status: null, body: null, error: "Invalid URL", final: true };
+  }
+  if (!allowPrivate && isPrivateHost(host)) {
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: "Private and local addresses are not allowed (set WEBHOOKS_ALLOW_PRIVATE_URLS to allow them)",
+      final: true,
+    };
+  }
+
+  const body = JSON.stringify(payload);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "DebtTracker-Webhooks/1",
+        "X-Debt-Tracker-Event": payload.type,
+        "X-Debt-Tracker-Delivery": deliveryId,
+        "X-Debt-Tracker-Signature": signWebhook(secret, Math.floor(Date.now() / 1000), body),
+      },
+      body,
+      // a redirect could point anywhere; the endpoint should be the final URL
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    const text = (await res.text().catch(() => "")).slice(0, RESPONSE_BODY_LIMIT);
+    return {
+      ok: res.status >= 200 && res.status < 300,
+      status: res.status,
+      body: text || null,
+      error: res.status >= 200 && res.status < 300 ? null : `HTTP ${res.status}`,
+    };
+  } catch (e) {
+    const err = e as Error;
+    const error = err.name === "TimeoutError" ? `No response within ${TIMEOUT_MS / 1000}s` : err.message;
+    return { ok: false, status: null, body: null, error };
+  }
+}
+
+/**
+ * Claims due deliveries in batches, POSTs each one and records the outcome:
+ * DELIVERED on a 2xx, otherwise rescheduled per RETRY_DELAYS_MINUTES or
+ * FAILED once those run out. Needs the service role client.
+ */
+export async function deliverDue(
+  db: SupabaseClient<Database>,
+  options: DeliveryOptions = {},
+): Promise<DeliveryCounts> {
+  const counts: DeliveryCounts = { delivered: 0, retrying: 0, failed: 0 };
+
+  for (;;) {
+    const { data: claimed, error } = await db.rpc("claim_webhook_deliveries", {
+      p_limit: BATCH,
+      ...(options.userId ? { p_user: options.userId } : {}),
+    });
+    if (error) throw new Error(error.message);
+    if (!claimed || claimed.length === 0) break;
+
+    const [endpointsRes, eventsRes] = await Promise.all([
+      db.from("webhook_endpoints").select("id, url, secret").in("id", [...new Set(claimed.map((d) => d.endpoint_id))]),
+      db
+        .from("webhook_events")
+        .select("id, type, payload, created_at")
+        .in("id", [...new Set(claimed.map((d) => d.event_id))]),
+    ]);
+    if (endpointsRes.error) throw new Error(endpointsRes.error.message);
+    if (eventsRes.error) throw new Error(eventsRes.error.message);
+    const endpoints = new Map(endpointsRes.data.map((e) => [e.id, e]));
+    const events = new Map(eventsRes.data.map((e) => [e.id, e]));
+
+    for (const d of claimed) {
+      const endpoint = endpoints.get(d.endpoint_id);
+      const event = events.get(d.event_id);
+      // both cascade-delete the delivery; it was removed since the claim
+      if (!endpoint || !event) continue;
+
+      const attempt = await post(
+        endpoint.url,
+        endpoint.secret,
+        d.id,
+        { id: event.id, type: event.type, created_at: event.created_at, data: event.payload },
+        options.allowPrivate ?? false,
+      );
+
+      const now = new Date();
+      const attempts = d.attempts + 1;
+      const retryAt = attempt.ok || attempt.final ? null : nextAttemptAt(attempts, now);
+      const status = attempt.ok ? "DELIVERED" : retryAt ? "PENDING" : "FAILED";
+
+      const { error: updateError } = await db
+        .from("webhook_deliveries")
+        .update({
+          status,
+          attempts,
+          last_attempt_at: now.toISOString(),
+          ...(retryAt ? { next_attempt_at: retryAt.toISOString() } : {}),
+          response_status: attempt.status,
+          response_body: attempt.body,
+          error: attempt.error,
+        })
+        .eq("id", d.id);
+      if (updateError) throw new Error(`sent, but recording it failed: ${updateError.message}`);
+
+      if (status === "DELIVERED") counts.delivered++;
+      else if (status === "PENDING") counts.retrying++;
+      else counts.failed++;
+    }
+
+    if (claimed.length < BATCH || (options.deadline && Date.now() > options.deadline)) break;
+  }
+
+  return counts;
+}
@@ -0,0 +1,85 @@
+// Webhook events and endpoint helpers shared by Settings and the delivery
+// job. The events themselves are recorded by database triggers (see the
+// webhooks migration); lib/webhooks/deliver.ts sends them.
+
+export const WEBHOOK_EVENTS = [
+  "payment.created",
+  "statement.created",
+  "statement.fully_paid",
+  "statement.overdue",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Also delivered, but only on request: the test button in Settings. */
+export type WebhookEventType = WebhookEvent | "ping";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "payment.created": "A payment is added",
+  "statement.created": "A statement is added",
+  "statement.fully_paid": "A statement is fully paid",
+  "statement.overdue": "A statement is past due with something pending",
+};
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/** A signing secret: whsec_ and 64 hex characters (32 random bytes). */
+export function newWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return "whsec_" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Why the URL can't be used as an endpoint, or null when it can. */
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Enter a full URL, like https://example.com/hooks/debt-tracker.";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return "The URL must start with https:// or http://.";
+  if (url.username || url.password) return "Put credentials in the receiver, not in the URL; requests are signed.";
+  if (value.length > 2000) return "The URL is too long.";
+  return null;
+}
+
+/**
+ * Loopback, private-network and link-local hosts, by name or address
+ * literal. The delivery job refuses these unless WEBHOOKS_ALLOW_PRIVATE_URLS
+ * is set, so an endpoint can't be used to probe the server's own network.
+ * Names that only resolve to such an address aren't caught.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    return true;
+  }
+
+  const v4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  if (host.includes(":")) {
+    return (
+      host === "::" ||
+      host === "::1" ||
+      host.startsWith("fc") ||
+      host.startsWith("fd") ||
+      host.startsWith("fe80:") ||
+      host.startsWith("::ffff:")
+    );
+  }
+  return false;
+}
@@ -0,0 +1,76 @@
+// Workspaces on the client: which ones the user belongs to, which one the
+// dashboard and its sibling pages show, and what their role lets them do.
+// RLS enforces the roles; this only keeps the UI from offering what the
+// database would refuse.
+
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Tables } from "./supabase/database.types";
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export type Membership = {
+  role: WorkspaceRole;
+  workspace: Pick<Tables<"workspaces">, "id" | "name" | "personal">;
+};
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+// the picked workspace is kept per user in the browser between visits
+const STORAGE_KEY = "debt-tracker:workspace";
+
+export function isWorkspaceRole(value: string): value is WorkspaceRole {
+  return value === "owner" || value === "editor" || value === "viewer";
+}
+
+/** Owners and editors change things; viewers only look. */
+export function canEdit(role: WorkspaceRole | undefined): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/** Remembers the workspace picked in the switcher. */
+export function chooseWorkspace(userId: string, workspaceId: string) {
+  try {
+    window.localStorage.setItem(`${STORAGE_KEY}:${userId}`, workspaceId);
+  } catch {
+    // storage full or disabled; the personal workspace opens next time
+  }
+}
+
+function chosenWorkspace(userId: string): string | null {
+  try {
+    return window.localStorage.getItem(`${STORAGE_KEY}:${userId}`);
+  } catch {
+    return null;
+  }
+}
+
+/** The user's workspaces, personal first, and the current one. */
+export async function loadWorkspaces(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+): Promise<{ memberships: Membership[]; current: Membership | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("role, workspace:workspaces(id, name, personal)")
+    .eq("user_id", userId);
+  if (error) return { memberships: [], current: null, error };
+
+  const memberships = (data ?? [])
+    .flatMap((m) => (m.workspace && isWorkspaceRole(m.role) ? [{ role: m.role, workspace: m.workspace }] : []))
+    .sort(
+      (a, b) =>
+        Number(b.workspace.personal) - Number(a.workspace.personal) || a.workspace.name.localeCompare(b.workspace.name),
+    );
+
+  return { memberships, current: currentWorkspace(memberships, userId), error: null };
+}
+
+/** The one last picked on this device if the user is still in it, otherwise their personal one. */
+export function currentWorkspace(memberships: readonly Membership[], userId: string): Membership | null {
+  const chosen = chosenWorkspace(userId);
+  return memberships.find((m) => m.workspace.id === chosen) ?? memberships.find((m) => m.workspace.personal) ?? null;
+}
@@ -0,0 +1,170 @@
+-- Initial schema for the debt tracker: cards, monthly statements and payments.
+-- Every row belongs to an auth user and is only visible to that user (RLS).
+
+-- ---------------------------------------------------------------------------
+-- Shared helpers
+-- ---------------------------------------------------------------------------
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- cards
+-- ---------------------------------------------------------------------------
+
+create table public.cards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  bank text,
+  credit_limit numeric(14, 2) default 0 check (credit_limit >= 0),
+  currency text default 'AED',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- set by app/cards/actions.ts deleteCard (soft delete)
+  deleted_at timestamptz
+);
+
+create index cards_user_created_idx on public.cards (user_id, created_at desc);
+
+create trigger cards_set_updated_at
+  before update on public.cards
+  for each row execute function public.set_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- statements
+-- ---------------------------------------------------------------------------
+
+create table public.statements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- no cascade: deleting a card that still has statements must fail
+  card_id uuid not null references public.cards (id),
+  -- always stored as the first day of the month (YYYY-MM-01)
+  statement_month date not null check (extract(day from statement_month) = 1),
+  statement_date date,
+  due_date date,
+  statement_amount numeric(14, 2) default 0,
+  currency text default 'AED',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  -- conflict target of the upsert in saveStatement
+  constraint statements_user_card_month_key unique (user_id, card_id, statement_month)
+);
+
+create index statements_user_month_idx on public.statements (user_id, statement_month desc);
+create index statements_card_idx on public.statements (card_id);
+create index statements_user_due_idx on public.statements (user_id, due_date);
+
+create trigger statements_set_updated_at
+  before update on public.statements
+  for each row execute function public.set_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- payments
+-- ---------------------------------------------------------------------------
+
+create table public.payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  kind text not null default 'CARD' check (kind in ('CARD')),
+  card_id uuid references public.cards (id),
+  -- no cascade: payments are unlinked before a statement is deleted
+  statement_id uuid references public.statements (id),
+  payment_date date not null,
+  amount numeric(14, 2) default 0,
+  currency text default 'AED',
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index payments_user_date_idx on public.payments (user_id, payment_date desc);
+create index payments_statement_idx on public.payments (statement_id);
+create index payments_card_idx on public.payments (card_id);
+
+create trigger payments_set_updated_at
+  before update on public.payments
+  for each row execute function public.set_updated_at();
+
+-- ---------------------------------------------------------------------------
+-- Row level security: every table is scoped to auth.uid().
+-- Child rows may only point at parents owned by the same user.
+-- ---------------------------------------------------------------------------
+
+alter table public.cards enable row level security;
+alter table public.statements enable row level security;
+alter table public.payments enable row level security;
+
+create policy "cards_select_own" on public.cards
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "cards_insert_own" on public.cards
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "cards_update_own" on public.cards
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "cards_delete_own" on public.cards
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "statements_select_own" on public.statements
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "statements_insert_own" on public.statements
+  for insert to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid()))
+  );
+
+create policy "statements_update_own" on public.statements
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid()))
+  );
+
+create policy "statements_delete_own" on public.statements
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "payments_select_own" on public.payments
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "payments_insert_own" on public.payments
+  for insert to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+  );
+
+create policy "payments_update_own" on public.payments
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+  );
+
+create policy "payments_delete_own" on public.payments
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,20 @@
+-- Paid totals per statement, aggregated in the database so Paid/Pending
+-- never depends on how many payment rows the client happened to load.
+--
+-- security_invoker makes the view run with the caller's privileges, so the
+-- RLS policies on statements and payments still apply.
+
+create view public.statement_paid_totals
+with (security_invoker = true)
+as
+select
+  s.id as statement_id,
+  s.user_id,
+  s.card_id,
+  coalesce(sum(p.amount), 0)::numeric(14, 2) as paid_amount,
+  count(p.id)::integer as payment_count
+from public.statements s
+left join public.payments p on p.statement_id = s.id
+group by s.id, s.user_id, s.card_id;
+
+grant select on public.statement_paid_totals to authenticated;
@@ -0,0 +1,95 @@
+-- Per-user base currency and hand-maintained exchange rates.
+-- There is no live FX feed: rates are typed in or imported from CSV.
+
+-- ---------------------------------------------------------------------------
+-- profiles: one row per auth user
+-- ---------------------------------------------------------------------------
+
+create table public.profiles (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  base_currency text not null default 'AED' check (base_currency ~ '^[A-Z]{3}$'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger profiles_set_updated_at
+  before update on public.profiles
+  for each row execute function public.set_updated_at();
+
+alter table public.profiles enable row level security;
+
+create policy "profiles_select_own" on public.profiles
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "profiles_insert_own" on public.profiles
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "profiles_update_own" on public.profiles
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+-- create the profile when a user signs up
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.profiles (user_id) values (new.id) on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- backfill users that signed up before this migration
+insert into public.profiles (user_id)
+select id from auth.users
+on conflict (user_id) do nothing;
+
+-- ---------------------------------------------------------------------------
+-- fx_rates: 1 from_currency = rate to_currency, valid from effective_date
+-- ---------------------------------------------------------------------------
+
+create table public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  from_currency text not null check (from_currency ~ '^[A-Z]{3}$'),
+  to_currency text not null check (to_currency ~ '^[A-Z]{3}$'),
+  rate numeric(20, 10) not null check (rate > 0),
+  effective_date date not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint fx_rates_distinct_pair check (from_currency <> to_currency),
+  -- conflict target for CSV re-imports
+  constraint fx_rates_user_pair_date_key unique (user_id, from_currency, to_currency, effective_date)
+);
+
+create trigger fx_rates_set_updated_at
+  before update on public.fx_rates
+  for each row execute function public.set_updated_at();
+
+alter table public.fx_rates enable row level security;
+
+create policy "fx_rates_select_own" on public.fx_rates
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "fx_rates_insert_own" on public.fx_rates
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "fx_rates_update_own" on public.fx_rates
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "fx_rates_delete_own" on public.fx_rates
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,15 @@
+-- Card pricing (APRs and the minimum-payment formula) and the charges
+-- printed on every statement (minimum due, interest, fees).
+
+alter table public.cards
+  add column purchase_apr numeric(6, 3) check (purchase_apr >= 0),
+  add column cash_apr numeric(6, 3) check (cash_apr >= 0),
+  -- minimum due = greatest(min_payment_floor, min_payment_percent% of the statement balance)
+  add column min_payment_percent numeric(5, 2) check (min_payment_percent >= 0 and min_payment_percent <= 100),
+  add column min_payment_floor numeric(14, 2) check (min_payment_floor >= 0);
+
+alter table public.statements
+  add column minimum_due numeric(14, 2) check (minimum_due >= 0),
+  add column interest_charged numeric(14, 2) check (interest_charged >= 0),
+  add column fees numeric(14, 2) check (fees >= 0);
+
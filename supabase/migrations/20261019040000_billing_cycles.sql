@@ -0,0 +1,39 @@
+-- Billing cycle on cards, used by the scheduled job that creates each
+-- month's placeholder statements (/api/cron/statements).
+
+alter table public.cards
+  -- day of month the statement is cut; clamped to the month's last day
+  add column statement_day smallint check (statement_day between 1 and 31),
+  -- days from statement date to payment due date
+  add column grace_days smallint check (grace_days between 0 and 90),
+  -- what to do when the due date lands on a weekend or bank holiday
+  add column due_date_adjustment text not null default 'NONE'
+    check (due_date_adjustment in ('NONE', 'PREVIOUS_BUSINESS_DAY', 'NEXT_BUSINESS_DAY'));
+
+create index cards_statement_day_idx on public.cards (statement_day) where statement_day is not null;
+
+-- Public bank holidays shared by every user. Maintained by the project
+-- owner (service role / migrations); readable by any signed-in user.
+create table public.bank_holidays (
+  holiday_date date primary key,
+  name text not null
+);
+
+alter table public.bank_holidays enable row level security;
+
+create policy "bank_holidays_select_all" on public.bank_holidays
+  for select to authenticated
+  using (true);
+
+-- UAE federal holidays with fixed Gregorian dates. Islamic holidays move
+-- every year and should be added as they are announced.
+insert into public.bank_holidays (holiday_date, name) values
+  ('2026-01-01', 'New Year''s Day'),
+  ('2026-12-01', 'Commemoration Day'),
+  ('2026-12-02', 'National Day'),
+  ('2026-12-03', 'National Day'),
+  ('2027-01-01', 'New Year''s Day'),
+  ('2027-12-01', 'Commemoration Day'),
+  ('2027-12-02', 'National Day'),
+  ('2027-12-03', 'National Day')
+on conflict (holiday_date) do nothing;
@@ -0,0 +1,103 @@
+-- Non-card debts: personal loans, car loans and BNPL plans, repaid in equal
+-- monthly installments (EMI). Loan repayments are `payments` rows with
+-- kind = 'LOAN' and a loan_id.
+
+create table public.loans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  lender text,
+  loan_type text not null default 'PERSONAL' check (loan_type in ('PERSONAL', 'CAR', 'BNPL', 'OTHER')),
+  principal numeric(14, 2) not null check (principal > 0),
+  -- flat annual rate in percent; 0 for interest-free BNPL
+  annual_rate numeric(6, 3) not null default 0 check (annual_rate >= 0),
+  tenure_months integer not null check (tenure_months between 1 and 600),
+  -- installment as agreed with the lender; computed from the terms when null
+  emi numeric(14, 2) check (emi > 0),
+  -- due date of the first installment; later ones fall on the same day of month
+  start_date date not null,
+  currency text default 'AED',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index loans_user_created_idx on public.loans (user_id, created_at desc);
+
+create trigger loans_set_updated_at
+  before update on public.loans
+  for each row execute function public.set_updated_at();
+
+alter table public.loans enable row level security;
+
+create policy "loans_select_own" on public.loans
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "loans_insert_own" on public.loans
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "loans_update_own" on public.loans
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "loans_delete_own" on public.loans
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- ---------------------------------------------------------------------------
+-- payments: LOAN kind
+-- ---------------------------------------------------------------------------
+
+alter table public.payments
+  add column loan_id uuid references public.loans (id);
+
+create index payments_loan_idx on public.payments (loan_id);
+
+alter table public.payments drop constraint payments_kind_check;
+alter table public.payments
+  add constraint payments_kind_check check (kind in ('CARD', 'LOAN')),
+  add constraint payments_kind_target_check check (
+    (kind = 'CARD' and loan_id is null)
+    or (kind = 'LOAN' and loan_id is not null and card_id is null and statement_id is null)
+  );
+
+drop policy "payments_insert_own" on public.payments;
+drop policy "payments_update_own" on public.payments;
+
+create policy "payments_insert_own" on public.payments
+  for insert to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+    and (loan_id is null or exists (select 1 from public.loans l where l.id = loan_id and l.user_id = (select auth.uid())))
+  );
+
+create policy "payments_update_own" on public.payments
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+    and (loan_id is null or exists (select 1 from public.loans l where l.id = loan_id and l.user_id = (select auth.uid())))
+  );
+
+-- Paid totals per loan, aggregated server-side like statement_paid_totals.
+create view public.loan_paid_totals
+with (security_invoker = true)
+as
+select
+  l.id as loan_id,
+  l.user_id,
+  coalesce(sum(p.amount), 0)::numeric(14, 2) as paid_amount,
+  count(p.id)::integer as payment_count
+from public.loans l
+left join public.payments p on p.loan_id = l.id
+group by l.id, l.user_id;
+
+grant select on public.loan_paid_totals to authenticated;
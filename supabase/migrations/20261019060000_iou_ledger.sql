@@ -0,0 +1,113 @@
+-- Money lent to or borrowed from people (IOUs). Each person is a
+-- counterparty; ledger entries are `payments` rows with kind = 'IOU', a
+-- counterparty_id and a direction:
+--   LENT          I gave them money          (they owe me more)
+--   REPAID_TO_ME  they paid me back          (they owe me less)
+--   BORROWED      they gave me money         (I owe them more)
+--   REPAID_BY_ME  I paid them back           (I owe them less)
+
+create table public.counterparties (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  contact text,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index counterparties_user_name_idx on public.counterparties (user_id, name);
+
+create trigger counterparties_set_updated_at
+  before update on public.counterparties
+  for each row execute function public.set_updated_at();
+
+alter table public.counterparties enable row level security;
+
+create policy "counterparties_select_own" on public.counterparties
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "counterparties_insert_own" on public.counterparties
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "counterparties_update_own" on public.counterparties
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "counterparties_delete_own" on public.counterparties
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- ---------------------------------------------------------------------------
+-- payments: IOU kind
+-- ---------------------------------------------------------------------------
+
+alter table public.payments
+  add column counterparty_id uuid references public.counterparties (id),
+  add column direction text check (direction in ('LENT', 'BORROWED', 'REPAID_TO_ME', 'REPAID_BY_ME'));
+
+create index payments_counterparty_idx on public.payments (counterparty_id, payment_date);
+
+alter table public.payments drop constraint payments_kind_check;
+alter table public.payments drop constraint payments_kind_target_check;
+alter table public.payments
+  add constraint payments_kind_check check (kind in ('CARD', 'LOAN', 'IOU')),
+  add constraint payments_kind_target_check check (
+    (kind = 'CARD' and loan_id is null and counterparty_id is null and direction is null)
+    or (kind = 'LOAN' and loan_id is not null and card_id is null and statement_id is null
+        and counterparty_id is null and direction is null)
+    or (kind = 'IOU' and counterparty_id is not null and direction is not null
+        and card_id is null and statement_id is null and loan_id is null)
+  );
+
+drop policy "payments_insert_own" on public.payments;
+drop policy "payments_update_own" on public.payments;
+
+create policy "payments_insert_own" on public.payments
+  for insert to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+    and (loan_id is null or exists (select 1 from public.loans l where l.id = loan_id and l.user_id = (select auth.uid())))
+    and (counterparty_id is null or exists (select 1 from public.counterparties cp where cp.id = counterparty_id and cp.user_id = (select auth.uid())))
+  );
+
+create policy "payments_update_own" on public.payments
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and (card_id is null or exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid())))
+    and (statement_id is null or exists (select 1 from public.statements s where s.id = statement_id and s.user_id = (select auth.uid())))
+    and (loan_id is null or exists (select 1 from public.loans l where l.id = loan_id and l.user_id = (select auth.uid())))
+    and (counterparty_id is null or exists (select 1 from public.counterparties cp where cp.id = counterparty_id and cp.user_id = (select auth.uid())))
+  );
+
+-- Net balance per person and currency. Positive: they owe me; negative: I owe them.
+create view public.counterparty_balances
+with (security_invoker = true)
+as
+select
+  p.counterparty_id,
+  p.user_id,
+  coalesce(p.currency, 'AED') as currency,
+  sum(
+    case p.direction
+      when 'LENT' then p.amount
+      when 'REPAID_BY_ME' then p.amount
+      when 'BORROWED' then -p.amount
+      when 'REPAID_TO_ME' then -p.amount
+      else 0
+    end
+  )::numeric(14, 2) as balance,
+  count(p.id)::integer as entry_count
+from public.payments p
+where p.kind = 'IOU'
+group by p.counterparty_id, p.user_id, coalesce(p.currency, 'AED');
+
+grant select on public.counterparty_balances to authenticated;
@@ -0,0 +1,52 @@
+-- Easy Payment Plans (EPP): a card purchase converted into fixed monthly
+-- installments that the bank bills onto the card's future statements. The
+-- unbilled principal stays blocked against the card's credit limit.
+
+create table public.installment_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  card_id uuid not null references public.cards (id),
+  description text not null check (length(trim(description)) > 0),
+  principal numeric(14, 2) not null check (principal > 0),
+  -- one-off fee, billed with the first installment
+  processing_fee numeric(14, 2) not null default 0 check (processing_fee >= 0),
+  monthly_installment numeric(14, 2) not null check (monthly_installment > 0),
+  tenure_months integer not null check (tenure_months between 1 and 60),
+  -- statement month the first installment appears on
+  start_month date not null check (extract(day from start_month) = 1),
+  currency text default 'AED',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index installment_plans_user_card_idx on public.installment_plans (user_id, card_id);
+
+create trigger installment_plans_set_updated_at
+  before update on public.installment_plans
+  for each row execute function public.set_updated_at();
+
+alter table public.installment_plans enable row level security;
+
+create policy "installment_plans_select_own" on public.installment_plans
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "installment_plans_insert_own" on public.installment_plans
+  for insert to authenticated
+  with check (
+    (select auth.uid()) = user_id
+    and exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid()))
+  );
+
+create policy "installment_plans_update_own" on public.installment_plans
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check (
+    (select auth.uid()) = user_id
+    and exists (select 1 from public.cards c where c.id = card_id and c.user_id = (select auth.uid()))
+  );
+
+create policy "installment_plans_delete_own" on public.installment_plans
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,98 @@
+-- CSV import: statements and payments from a spreadsheet, committed in one
+-- transaction through an RPC so a bad row never leaves half an import behind.
+--
+-- Re-importing the same file is a no-op:
+--   statements  upsert on (user_id, card_id, statement_month), like the
+--               STATEMENTS form does
+--   payments    carry an import_key derived from the row; a key that is
+--               already there is skipped
+
+alter table public.payments
+  add column import_key text,
+  add constraint payments_user_import_key_key unique (user_id, import_key);
+
+create or replace function public.import_statements_and_payments(p_statements jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_statements integer := 0;
+  v_payments integer := 0;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_statements, '[]'::jsonb)) as r(
+      card_id uuid,
+      statement_month date,
+      statement_date date,
+      due_date date,
+      statement_amount numeric,
+      minimum_due numeric,
+      currency text
+    )
+  ),
+  upserted as (
+    insert into public.statements as s (
+      user_id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due, currency
+    )
+    select
+      v_user, r.card_id, r.statement_month, r.statement_date, r.due_date, r.statement_amount, r.minimum_due,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED')
+    from rows r
+    on conflict (user_id, card_id, statement_month) do update set
+      statement_date = coalesce(excluded.statement_date, s.statement_date),
+      due_date = coalesce(excluded.due_date, s.due_date),
+      statement_amount = coalesce(excluded.statement_amount, s.statement_amount),
+      minimum_due = coalesce(excluded.minimum_due, s.minimum_due),
+      currency = excluded.currency
+    returning 1
+  )
+  select count(*) into v_statements from upserted;
+
+  -- statements from this same import are visible here, so payments can link to them
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_payments, '[]'::jsonb)) as r(
+      import_key text,
+      card_id uuid,
+      statement_month date,
+      payment_date date,
+      amount numeric,
+      currency text,
+      note text
+    )
+  ),
+  inserted as (
+    insert into public.payments (user_id, kind, card_id, statement_id, payment_date, amount, currency, note, import_key)
+    select
+      v_user, 'CARD', r.card_id,
+      (
+        select st.id from public.statements st
+        where st.user_id = v_user and st.card_id = r.card_id and st.statement_month = r.statement_month
+      ),
+      r.payment_date, r.amount,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED'),
+      r.note, r.import_key
+    from rows r
+    on conflict (user_id, import_key) do nothing
+    returning 1
+  )
+  select count(*) into v_payments from inserted;
+
+  return jsonb_build_object(
+    'statements', v_statements,
+    'payments_inserted', v_payments,
+    'payments_skipped', jsonb_array_length(coalesce(p_payments, '[]'::jsonb)) - v_payments
+  );
+end;
+$$;
+
+revoke execute on function public.import_statements_and_payments(jsonb, jsonb) from public, anon;
+grant execute on function public.import_statements_and_payments(jsonb, jsonb) to authenticated;
@@ -0,0 +1,15 @@
+-- How a card payment got linked to its statement. Bank imports link
+-- payments automatically when one open statement clearly fits and leave the
+-- rest for the user to confirm:
+--   AUTO          linked by the matcher
+--   CONFIRMED     linked (or left unlinked) by the user
+--   NEEDS_REVIEW  several statements fit; waiting for the user
+
+alter table public.payments
+  add column match_status text check (match_status in ('AUTO', 'CONFIRMED', 'NEEDS_REVIEW'));
+
+-- links made before matching existed were all chosen by hand
+update public.payments set match_status = 'CONFIRMED' where statement_id is not null;
+
+create index payments_needs_review_idx on public.payments (user_id)
+  where match_status = 'NEEDS_REVIEW';
@@ -0,0 +1,39 @@
+-- Calendar feed of statement due dates (/api/calendar/<token>.ics). Calendar
+-- apps can't sign in, so the feed is found by a secret token instead; the
+-- route looks it up with the service role. Rotating the token (or deleting
+-- the row) is how a leaked URL is revoked.
+--
+-- Reminders: one VALARM per entry in reminder_days (days before the due
+-- date), each going off at reminder_hour local time.
+
+create table public.calendar_feeds (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  token text not null unique check (token ~ '^[0-9a-f]{32,}$'),
+  reminder_days smallint[] not null default '{1}' check (0 <= all (reminder_days) and 30 >= all (reminder_days)),
+  reminder_hour smallint not null default 9 check (reminder_hour between 0 and 23),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger calendar_feeds_set_updated_at
+  before update on public.calendar_feeds
+  for each row execute function public.set_updated_at();
+
+alter table public.calendar_feeds enable row level security;
+
+create policy "calendar_feeds_select_own" on public.calendar_feeds
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "calendar_feeds_insert_own" on public.calendar_feeds
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "calendar_feeds_update_own" on public.calendar_feeds
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "calendar_feeds_delete_own" on public.calendar_feeds
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,31 @@
+-- Email reminders for upcoming and overdue statements, sent by the
+-- /api/cron/reminders job as one digest per user.
+--
+-- Preferences live on the profile (on by default; turn off in Settings).
+-- reminder_deliveries records what was sent, so a job that runs twice in a
+-- day, or is retried after a failure, never mails the same reminder again.
+
+alter table public.profiles
+  add column email_reminders boolean not null default true,
+  add column email_reminder_days smallint[] not null default '{7,3,1}'
+    check (0 <= all (email_reminder_days) and 30 >= all (email_reminder_days)),
+  add column email_overdue_reminders boolean not null default true;
+
+create table public.reminder_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  statement_id uuid not null references public.statements (id) on delete cascade,
+  -- see dueReminders in lib/debt/reminders.ts: DUE_IN:<days> or OVERDUE:<week>
+  reason text not null,
+  sent_at timestamptz not null default now(),
+  constraint reminder_deliveries_statement_reason_key unique (statement_id, reason)
+);
+
+create index reminder_deliveries_user_idx on public.reminder_deliveries (user_id);
+
+alter table public.reminder_deliveries enable row level security;
+
+-- written only by the cron job (service role); users can see their own
+create policy "reminder_deliveries_select_own" on public.reminder_deliveries
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
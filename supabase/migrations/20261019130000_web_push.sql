@@ -0,0 +1,49 @@
+-- Web Push: one row per browser or phone that allowed notifications. The
+-- reminder job (service role) sends its digest to every subscription of a
+-- user who has push_reminders on, and deletes subscriptions the push service
+-- reports as gone.
+--
+-- The reminder days and the overdue switch now apply to email and push
+-- alike, so they lose their email_ prefix.
+
+alter table public.profiles rename column email_reminder_days to reminder_days;
+alter table public.profiles rename column email_overdue_reminders to overdue_reminders;
+
+alter table public.profiles
+  add column push_reminders boolean not null default true;
+
+create table public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  endpoint text not null,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  last_sent_at timestamptz,
+  constraint push_subscriptions_user_endpoint_key unique (user_id, endpoint)
+);
+
+create trigger push_subscriptions_set_updated_at
+  before update on public.push_subscriptions
+  for each row execute function public.set_updated_at();
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "push_subscriptions_select_own" on public.push_subscriptions
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "push_subscriptions_insert_own" on public.push_subscriptions
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "push_subscriptions_update_own" on public.push_subscriptions
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "push_subscriptions_delete_own" on public.push_subscriptions
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,35 @@
+-- Personal access tokens for the REST API (/api/v1). Users create them in
+-- Settings; only a SHA-256 hash is stored, the token itself is shown once.
+-- The API looks tokens up by hash with the service role, so there's no
+-- update policy: a token can't be changed, only revoked (deleted).
+--
+-- scopes: 'read' for GET, 'write' for POST/PATCH/DELETE.
+
+create table public.personal_access_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  token_hash text not null unique check (token_hash ~ '^[0-9a-f]{64}$'),
+  -- the first characters of the token, to tell tokens apart in Settings
+  token_prefix text not null,
+  scopes text[] not null check (cardinality(scopes) > 0 and scopes <@ array['read', 'write']),
+  expires_at timestamptz not null check (expires_at <= created_at + interval '366 days'),
+  last_used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index personal_access_tokens_user_idx on public.personal_access_tokens (user_id, created_at);
+
+alter table public.personal_access_tokens enable row level security;
+
+create policy "personal_access_tokens_select_own" on public.personal_access_tokens
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "personal_access_tokens_insert_own" on public.personal_access_tokens
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "personal_access_tokens_delete_own" on public.personal_access_tokens
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,407 @@
+-- Outgoing webhooks: users register endpoints in Settings and pick the
+-- events they want. Events are recorded here, by triggers, whichever way
+-- the change was made (dashboard, REST API, CSV import):
+--   payment.created       a card or loan payment was added
+--   statement.created     a statement was added
+--   statement.fully_paid  payments reached the statement amount (once per statement)
+--   statement.overdue     past due with something pending, recorded by the
+--                         /api/cron/webhooks job (once per statement)
+--   ping                  a test sent from Settings
+--
+-- Each event gets one webhook_deliveries row per subscribed endpoint. The
+-- cron job (service role) claims due deliveries, POSTs them signed with the
+-- endpoint's secret and reschedules failures with backoff; the rows are the
+-- delivery log shown in Settings, where a delivery can be replayed.
+--
+-- Events and deliveries are only ever written by the functions below, so
+-- users can read them but not insert them.
+
+create table public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://' and length(url) <= 2000),
+  description text,
+  -- HMAC-SHA256 key; kept readable so Settings can show it again
+  secret text not null check (secret ~ '^whsec_[0-9a-f]{64}$'),
+  events text[] not null check (
+    cardinality(events) > 0
+    and events <@ array['payment.created', 'statement.created', 'statement.fully_paid', 'statement.overdue']
+  ),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index webhook_endpoints_user_idx on public.webhook_endpoints (user_id);
+
+create trigger webhook_endpoints_set_updated_at
+  before update on public.webhook_endpoints
+  for each row execute function public.set_updated_at();
+
+create table public.webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  type text not null,
+  -- the payment, statement or (for ping) endpoint the event is about
+  subject_id uuid not null,
+  -- the "data" of the delivered body
+  payload jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index webhook_events_user_idx on public.webhook_events (user_id, created_at desc);
+
+-- these fire once per statement, however often the job or trigger runs
+create unique index webhook_events_once_idx on public.webhook_events (type, subject_id)
+  where type in ('statement.fully_paid', 'statement.overdue');
+
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint_id uuid not null references public.webhook_endpoints (id) on delete cascade,
+  event_id uuid not null references public.webhook_events (id) on delete cascade,
+  -- set on a replay: the delivery it repeats
+  replay_of uuid references public.webhook_deliveries (id) on delete set null,
+  status text not null default 'PENDING' check (status in ('PENDING', 'DELIVERED', 'FAILED')),
+  attempts smallint not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz,
+  -- from the last attempt
+  response_status smallint,
+  response_body text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index webhook_deliveries_user_idx on public.webhook_deliveries (user_id, created_at desc);
+create index webhook_deliveries_due_idx on public.webhook_deliveries (next_attempt_at)
+  where status = 'PENDING';
+
+create trigger webhook_deliveries_set_updated_at
+  before update on public.webhook_deliveries
+  for each row execute function public.set_updated_at();
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_events enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "webhook_endpoints_select_own" on public.webhook_endpoints
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "webhook_endpoints_insert_own" on public.webhook_endpoints
+  for insert to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "webhook_endpoints_update_own" on public.webhook_endpoints
+  for update to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "webhook_endpoints_delete_own" on public.webhook_endpoints
+  for delete to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "webhook_events_select_own" on public.webhook_events
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "webhook_deliveries_select_own" on public.webhook_deliveries
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- ---------------------------------------------------------------------------
+-- Recording events
+-- ---------------------------------------------------------------------------
+
+-- Records an event and queues a delivery to each enabled endpoint of the
+-- user that subscribed to it. Does nothing when no endpoint wants it, or
+-- when a once-per-statement event was already recorded.
+create or replace function public.record_webhook_event(
+  p_user uuid,
+  p_type text,
+  p_subject uuid,
+  p_payload jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_event uuid;
+begin
+  if not exists (
+    select 1 from public.webhook_endpoints e
+    where e.user_id = p_user and e.enabled and p_type = any (e.events)
+  ) then
+    return;
+  end if;
+
+  insert into public.webhook_events (user_id, type, subject_id, payload)
+  values (p_user, p_type, p_subject, p_payload)
+  on conflict do nothing
+  returning id into v_event;
+
+  if v_event is null then
+    return;
+  end if;
+
+  insert into public.webhook_deliveries (user_id, endpoint_id, event_id)
+  select p_user, e.id, v_event
+  from public.webhook_endpoints e
+  where e.user_id = p_user and e.enabled and p_type = any (e.events);
+end;
+$$;
+
+revoke execute on function public.record_webhook_event(uuid, text, uuid, jsonb) from public, anon, authenticated;
+
+-- Records statement.fully_paid if the statement's payments now cover it.
+create or replace function public.record_statement_fully_paid(p_statement uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_statement public.statements;
+  v_paid numeric;
+begin
+  select * into v_statement from public.statements where id = p_statement;
+  if not found or coalesce(v_statement.statement_amount, 0) <= 0 then
+    return;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid from public.payments where statement_id = p_statement;
+  if v_paid < v_statement.statement_amount then
+    return;
+  end if;
+
+  perform public.record_webhook_event(
+    v_statement.user_id,
+    'statement.fully_paid',
+    v_statement.id,
+    jsonb_build_object('statement', to_jsonb(v_statement) - 'user_id', 'paid', v_paid)
+  );
+end;
+$$;
+
+revoke execute on function public.record_statement_fully_paid(uuid) from public, anon, authenticated;
+
+-- The trigger functions run as their owner so they can reach the
+-- functions above, which clients can't call.
+
+create or replace function public.webhook_payment_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.record_webhook_event(
+      new.user_id,
+      'payment.created',
+      new.id,
+      jsonb_build_object(
+        'payment', to_jsonb(new) - 'user_id' - 'counterparty_id' - 'direction' - 'import_key'
+      )
+    );
+  end if;
+
+  if new.statement_id is not null then
+    perform public.record_statement_fully_paid(new.statement_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger payments_webhooks
+  after insert or update of amount, statement_id on public.payments
+  for each row
+  -- IOU entries belong to the People ledger
+  when (new.kind in ('CARD', 'LOAN'))
+  execute function public.webhook_payment_changed();
+
+create or replace function public.webhook_statement_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.record_webhook_event(
+      new.user_id,
+      'statement.created',
+      new.id,
+      jsonb_build_object('statement', to_jsonb(new) - 'user_id')
+    );
+  else
+    -- an amount filled in (or lowered) after the payments were made
+    perform public.record_statement_fully_paid(new.id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger statements_webhooks
+  after insert or update of statement_amount on public.statements
+  for each row execute function public.webhook_statement_changed();
+
+-- Records statement.overdue for statements that fell due in the week
+-- before p_today with something still pending. The window keeps a newly
+-- added endpoint from receiving the whole history, while a job run that was
+-- missed is made up on the next one. Returns how many were recorded.
+create or replace function public.record_overdue_webhook_events(p_today date)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_count integer := 0;
+  r record;
+begin
+  for r in
+    select s.*, coalesce(t.paid_amount, 0) as paid
+    from public.statements s
+    join public.cards c on c.id = s.card_id and c.deleted_at is null
+    left join public.statement_paid_totals t on t.statement_id = s.id
+    where s.due_date >= p_today - 7
+      and s.due_date < p_today
+      and s.statement_amount > coalesce(t.paid_amount, 0)
+      and exists (
+        select 1 from public.webhook_endpoints e
+        where e.user_id = s.user_id and e.enabled and 'statement.overdue' = any (e.events)
+      )
+      and not exists (
+        select 1 from public.webhook_events ev
+        where ev.type = 'statement.overdue' and ev.subject_id = s.id
+      )
+  loop
+    perform public.record_webhook_event(
+      r.user_id,
+      'statement.overdue',
+      r.id,
+      jsonb_build_object(
+        'statement', to_jsonb(r) - 'user_id' - 'paid',
+        'paid', r.paid,
+        'pending', r.statement_amount - r.paid,
+        'days_overdue', p_today - r.due_date
+      )
+    );
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.record_overdue_webhook_events(date) from public, anon, authenticated;
+grant execute on function public.record_overdue_webhook_events(date) to service_role;
+
+-- ---------------------------------------------------------------------------
+-- Delivering
+-- ---------------------------------------------------------------------------
+
+-- Hands the delivery job up to p_limit due deliveries (optionally of one
+-- user) and pushes their next_attempt_at out by five minutes, so a second
+-- job running at the same time skips them, and a job that dies mid-way has
+-- them retried. Deliveries to disabled endpoints wait until it's enabled.
+create or replace function public.claim_webhook_deliveries(p_limit integer, p_user uuid default null)
+returns table (id uuid, user_id uuid, endpoint_id uuid, event_id uuid, attempts smallint)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+#variable_conflict use_column
+begin
+  return query
+  update public.webhook_deliveries d
+  set next_attempt_at = now() + interval '5 minutes'
+  where d.id in (
+    select d2.id
+    from public.webhook_deliveries d2
+    join public.webhook_endpoints e on e.id = d2.endpoint_id
+    where d2.status = 'PENDING'
+      and d2.next_attempt_at <= now()
+      and e.enabled
+      and (p_user is null or d2.user_id = p_user)
+    order by d2.next_attempt_at
+    limit p_limit
+    for update of d2 skip locked
+  )
+  returning d.id, d.user_id, d.endpoint_id, d.event_id, d.attempts;
+end;
+$$;
+
+revoke execute on function public.claim_webhook_deliveries(integer, uuid) from public, anon, authenticated;
+grant execute on function public.claim_webhook_deliveries(integer, uuid) to service_role;
+
+-- Queues the event of one of the caller's deliveries again, to the same
+-- endpoint. Returns the new delivery's id.
+create or replace function public.replay_webhook_delivery(p_delivery uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_delivery public.webhook_deliveries;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select * into v_delivery from public.webhook_deliveries where id = p_delivery and user_id = v_user;
+  if not found then
+    raise exception 'delivery not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.webhook_deliveries (user_id, endpoint_id, event_id, replay_of)
+  values (v_user, v_delivery.endpoint_id, v_delivery.event_id, v_delivery.id)
+  returning id into v_id;
+  return v_id;
+end;
+$$;
+
+revoke execute on function public.replay_webhook_delivery(uuid) from public, anon;
+grant execute on function public.replay_webhook_delivery(uuid) to authenticated;
+
+-- Queues a ping event to one of the caller's endpoints, whatever events it
+-- subscribed to. Returns the delivery's id.
+create or replace function public.send_test_webhook(p_endpoint uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_event uuid;
+  v_id uuid;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  if not exists (select 1 from public.webhook_endpoints where id = p_endpoint and user_id = v_user) then
+    raise exception 'endpoint not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.webhook_events (user_id, type, subject_id, payload)
+  values (v_user, 'ping', p_endpoint, jsonb_build_object('endpoint_id', p_endpoint))
+  returning id into v_event;
+
+  insert into public.webhook_deliveries (user_id, endpoint_id, event_id)
+  values (v_user, p_endpoint, v_event)
+  returning id into v_id;
+  return v_id;
+end;
+$$;
+
+revoke execute on function public.send_test_webhook(uuid) from public, anon;
+grant execute on function public.send_test_webhook(uuid) to authenticated;
@@ -0,0 +1,675 @@
+-- Soft delete for cards, statements and payments. Deleting one moves it to
+-- the Trash (deleted_at is set); every view, total and job below skips
+-- trashed rows, and the Trash screen restores them or deletes them for good.
+--
+--   card       takes its statements, payments and installment plans along
+--              (same deleted_at), and restoring the card brings back those
+--   statement  its payments are unlinked and remember it in
+--              detached_statement_id; restoring it links them back
+--   payment    just itself
+--
+-- A trashed statement keeps its card and month, so a new statement for that
+-- month has to wait until it is restored or purged. The scheduled
+-- placeholders and the CSV import leave such a month alone.
+
+alter table public.statements add column deleted_at timestamptz;
+
+alter table public.payments
+  add column deleted_at timestamptz,
+  -- the statement this payment was linked to when that statement went to the Trash
+  add column detached_statement_id uuid references public.statements (id) on delete set null;
+
+create index cards_user_trash_idx on public.cards (user_id, deleted_at) where deleted_at is not null;
+create index statements_user_trash_idx on public.statements (user_id, deleted_at) where deleted_at is not null;
+create index payments_user_trash_idx on public.payments (user_id, deleted_at) where deleted_at is not null;
+create index payments_detached_statement_idx on public.payments (detached_statement_id)
+  where detached_statement_id is not null;
+
+-- ---------------------------------------------------------------------------
+-- Totals skip trashed rows
+-- ---------------------------------------------------------------------------
+
+create or replace view public.statement_paid_totals
+with (security_invoker = true)
+as
+select
+  s.id as statement_id,
+  s.user_id,
+  s.card_id,
+  coalesce(sum(p.amount), 0)::numeric(14, 2) as paid_amount,
+  count(p.id)::integer as payment_count
+from public.statements s
+left join public.payments p on p.statement_id = s.id and p.deleted_at is null
+where s.deleted_at is null
+group by s.id, s.user_id, s.card_id;
+
+create or replace view public.loan_paid_totals
+with (security_invoker = true)
+as
+select
+  l.id as loan_id,
+  l.user_id,
+  coalesce(sum(p.amount), 0)::numeric(14, 2) as paid_amount,
+  count(p.id)::integer as payment_count
+from public.loans l
+left join public.payments p on p.loan_id = l.id and p.deleted_at is null
+group by l.id, l.user_id;
+
+create or replace view public.counterparty_balances
+with (security_invoker = true)
+as
+select
+  p.counterparty_id,
+  p.user_id,
+  coalesce(p.currency, 'AED') as currency,
+  sum(
+    case p.direction
+      when 'LENT' then p.amount
+      when 'REPAID_BY_ME' then p.amount
+      when 'BORROWED' then -p.amount
+      when 'REPAID_TO_ME' then -p.amount
+      else 0
+    end
+  )::numeric(14, 2) as balance,
+  count(p.id)::integer as entry_count
+from public.payments p
+where p.kind = 'IOU' and p.deleted_at is null
+group by p.counterparty_id, p.user_id, coalesce(p.currency, 'AED');
+
+-- ---------------------------------------------------------------------------
+-- Trash and restore
+--
+-- security invoker: RLS keeps callers to their own rows. The REST API (which
+-- runs as service_role) checks ownership before calling these.
+-- ---------------------------------------------------------------------------
+
+create or replace function public.trash_card(p_card uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_now timestamptz := now();
+begin
+  update public.cards set deleted_at = v_now where id = p_card and deleted_at is null;
+  if not found then
+    raise exception 'card not found' using errcode = 'P0002';
+  end if;
+
+  update public.statements set deleted_at = v_now where card_id = p_card and deleted_at is null;
+  update public.payments set deleted_at = v_now where card_id = p_card and deleted_at is null;
+  update public.installment_plans set deleted_at = v_now where card_id = p_card and deleted_at is null;
+end;
+$$;
+
+-- Brings back the card and whatever went to the Trash with it; rows that
+-- were trashed on their own before stay there.
+create or replace function public.restore_card(p_card uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_deleted timestamptz;
+begin
+  select deleted_at into v_deleted from public.cards where id = p_card;
+  if v_deleted is null then
+    raise exception 'card is not in the Trash' using errcode = 'P0002';
+  end if;
+
+  update public.statements set deleted_at = null where card_id = p_card and deleted_at = v_deleted;
+  update public.payments set deleted_at = null where card_id = p_card and deleted_at = v_deleted;
+  update public.installment_plans set deleted_at = null where card_id = p_card and deleted_at = v_deleted;
+  update public.cards set deleted_at = null where id = p_card;
+end;
+$$;
+
+-- Deletes a trashed card for good, with its trashed statements, payments
+-- and installment plans. Anything of the card that isn't in the Trash makes
+-- it fail on the foreign keys rather than disappear.
+create or replace function public.purge_card(p_card uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+begin
+  if not exists (select 1 from public.cards where id = p_card and deleted_at is not null) then
+    raise exception 'card is not in the Trash' using errcode = 'P0002';
+  end if;
+
+  delete from public.payments where card_id = p_card and deleted_at is not null;
+  delete from public.installment_plans where card_id = p_card and deleted_at is not null;
+  delete from public.statements where card_id = p_card and deleted_at is not null;
+  delete from public.cards where id = p_card;
+end;
+$$;
+
+-- Unlinks the statement's payments (trashed ones too, so it can be purged
+-- later) and remembers where they were. Returns how many were unlinked.
+create or replace function public.trash_statement(p_statement uuid)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_count integer;
+begin
+  update public.statements set deleted_at = now() where id = p_statement and deleted_at is null;
+  if not found then
+    raise exception 'statement not found' using errcode = 'P0002';
+  end if;
+
+  update public.payments
+  set detached_statement_id = statement_id, statement_id = null
+  where statement_id = p_statement;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Links back the payments trash_statement unlinked, unless they've been
+-- linked to another statement since. Returns how many were linked back.
+create or replace function public.restore_statement(p_statement uuid)
+returns integer
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_statement public.statements;
+  v_count integer;
+begin
+  select * into v_statement from public.statements where id = p_statement;
+  if v_statement.deleted_at is null then
+    raise exception 'statement is not in the Trash' using errcode = 'P0002';
+  end if;
+  if exists (select 1 from public.cards where id = v_statement.card_id and deleted_at is not null) then
+    raise exception 'its card is in the Trash; restore the card first' using errcode = '55000';
+  end if;
+
+  update public.statements set deleted_at = null where id = p_statement;
+
+  update public.payments
+  set statement_id = p_statement, detached_statement_id = null
+  where detached_statement_id = p_statement and statement_id is null;
+  get diagnostics v_count = row_count;
+
+  update public.payments set detached_statement_id = null where detached_statement_id = p_statement;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.trash_card(uuid) from public, anon;
+revoke execute on function public.restore_card(uuid) from public, anon;
+revoke execute on function public.purge_card(uuid) from public, anon;
+revoke execute on function public.trash_statement(uuid) from public, anon;
+revoke execute on function public.restore_statement(uuid) from public, anon;
+grant execute on function public.trash_card(uuid) to authenticated, service_role;
+grant execute on function public.restore_card(uuid) to authenticated, service_role;
+grant execute on function public.purge_card(uuid) to authenticated, service_role;
+grant execute on function public.trash_statement(uuid) to authenticated, service_role;
+grant execute on function public.restore_statement(uuid) to authenticated, service_role;
+
+-- ---------------------------------------------------------------------------
+-- Webhooks: a trashed statement is never fully paid or overdue, trashed
+-- payments don't count, and restoring a payment can complete a statement
+-- ---------------------------------------------------------------------------
+
+create or replace function public.record_statement_fully_paid(p_statement uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_statement public.statements;
+  v_paid numeric;
+begin
+  select * into v_statement from public.statements where id = p_statement and deleted_at is null;
+  if not found or coalesce(v_statement.statement_amount, 0) <= 0 then
+    return;
+  end if;
+
+  select coalesce(sum(amount), 0) into v_paid
+  from public.payments
+  where statement_id = p_statement and deleted_at is null;
+  if v_paid < v_statement.statement_amount then
+    return;
+  end if;
+
+  perform public.record_webhook_event(
+    v_statement.user_id,
+    'statement.fully_paid',
+    v_statement.id,
+    jsonb_build_object('statement', to_jsonb(v_statement) - 'user_id', 'paid', v_paid)
+  );
+end;
+$$;
+
+drop trigger payments_webhooks on public.payments;
+
+create trigger payments_webhooks
+  after insert or update of amount, statement_id, deleted_at on public.payments
+  for each row
+  -- IOU entries belong to the People ledger
+  when (new.kind in ('CARD', 'LOAN'))
+  execute function public.webhook_payment_changed();
+
+create or replace function public.record_overdue_webhook_events(p_today date)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_count integer := 0;
+  r record;
+begin
+  for r in
+    select s.*, coalesce(t.paid_amount, 0) as paid
+    from public.statements s
+    join public.cards c on c.id = s.card_id and c.deleted_at is null
+    left join public.statement_paid_totals t on t.statement_id = s.id
+    where s.deleted_at is null
+      and s.due_date >= p_today - 7
+      and s.due_date < p_today
+      and s.statement_amount > coalesce(t.paid_amount, 0)
+      and exists (
+        select 1 from public.webhook_endpoints e
+        where e.user_id = s.user_id and e.enabled and 'statement.overdue' = any (e.events)
+      )
+      and not exists (
+        select 1 from public.webhook_events ev
+        where ev.type = 'statement.overdue' and ev.subject_id = s.id
+      )
+  loop
+    perform public.record_webhook_event(
+      r.user_id,
+      'statement.overdue',
+      r.id,
+      jsonb_build_object(
+        'statement', to_jsonb(r) - 'user_id' - 'paid',
+        'paid', r.paid,
+        'pending', r.statement_amount - r.paid,
+        'days_overdue', p_today - r.due_date
+      )
+    );
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- CSV import: leaves months whose statement is in the Trash alone and never
+-- links a payment to a trashed statement
+-- ---------------------------------------------------------------------------
+
+create or replace function public.import_statements_and_payments(p_statements jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_statements integer := 0;
+  v_payments integer := 0;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_statements, '[]'::jsonb)) as r(
+      card_id uuid,
+      statement_month date,
+      statement_date date,
+      due_date date,
+      statement_amount numeric,
+      minimum_due numeric,
+      currency text
+    )
+  ),
+  upserted as (
+    insert into public.statements as s (
+      user_id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due, currency
+    )
+    select
+      v_user, r.card_id, r.statement_month, r.statement_date, r.due_date, r.statement_amount, r.minimum_due,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED')
+    from rows r
+    on conflict (user_id, card_id, statement_month) do update set
+      statement_date = coalesce(excluded.statement_date, s.statement_date),
+      due_date = coalesce(excluded.due_date, s.due_date),
+      statement_amount = coalesce(excluded.statement_amount, s.statement_amount),
+      minimum_due = coalesce(excluded.minimum_due, s.minimum_due),
+      currency = excluded.currency
+    -- a month whose statement is in the Trash stays there
+    where s.deleted_at is null
+    returning 1
+  )
+  select count(*) into v_statements from upserted;
+
+  -- statements from this same import are visible here, so payments can link to them
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_payments, '[]'::jsonb)) as r(
+      import_key text,
+      card_id uuid,
+      statement_month date,
+      payment_date date,
+      amount numeric,
+      currency text,
+      note text
+    )
+  ),
+  inserted as (
+    insert into public.payments (user_id, kind, card_id, statement_id, payment_date, amount, currency, note, import_key)
+    select
+      v_user, 'CARD', r.card_id,
+      (
+        select st.id from public.statements st
+        where st.user_id = v_user and st.card_id = r.card_id and st.statement_month = r.statement_month
+          and st.deleted_at is null
+      ),
+      r.payment_date, r.amount,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED'),
+      r.note, r.import_key
+    from rows r
+    on conflict (user_id, import_key) do nothing
+    returning 1
+  )
+  select count(*) into v_payments from inserted;
+
+  return jsonb_build_object(
+    'statements', v_statements,
+    'payments_inserted', v_payments,
+    'payments_skipped', jsonb_array_length(coalesce(p_payments, '[]'::jsonb)) - v_payments
+  );
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Restore of an archive: trashed statements and payments go back to the Trash
+-- ---------------------------------------------------------------------------
+
+create or replace function public.restore_archive(p_archive jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_tables jsonb := coalesce(p_archive -> 'tables', '{}'::jsonb);
+  -- original id -> id in this account
+  v_cards jsonb := '{}'::jsonb;
+  v_statements jsonb := '{}'::jsonb;
+  v_loans jsonb := '{}'::jsonb;
+  v_people jsonb := '{}'::jsonb;
+  v_result jsonb := '{}'::jsonb;
+  v_created integer;
+  v_existing integer;
+  v_id uuid;
+  v_card uuid;
+  v_key text;
+  r record;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  if p_archive ->> 'format' is distinct from 'debt-tracker-export' or p_archive ->> 'version' is distinct from '1' then
+    raise exception 'unsupported archive (format %, version %)', p_archive ->> 'format', p_archive ->> 'version'
+      using errcode = '22023';
+  end if;
+
+  -- cards
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'cards', '[]'::jsonb)) as x(
+      id uuid, name text, bank text, credit_limit numeric, currency text, notes text,
+      purchase_apr numeric, cash_apr numeric, min_payment_percent numeric, min_payment_floor numeric,
+      statement_day smallint, grace_days smallint, due_date_adjustment text, deleted_at timestamptz
+    )
+  loop
+    select c.id into v_id
+    from public.cards c
+    where c.user_id = v_user
+      and (c.id = r.id or (lower(c.name) = lower(r.name) and lower(coalesce(c.bank, '')) = lower(coalesce(r.bank, ''))))
+    order by (c.id = r.id) desc, c.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.cards (
+        user_id, name, bank, credit_limit, currency, notes, purchase_apr, cash_apr, min_payment_percent,
+        min_payment_floor, statement_day, grace_days, due_date_adjustment, deleted_at
+      )
+      values (
+        v_user, r.name, r.bank, r.credit_limit, r.currency, r.notes, r.purchase_apr, r.cash_apr, r.min_payment_percent,
+        r.min_payment_floor, r.statement_day, r.grace_days, coalesce(r.due_date_adjustment, 'NONE'), r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_cards := v_cards || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('cards', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- statements
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'statements', '[]'::jsonb)) as x(
+      id uuid, card_id uuid, statement_month date, statement_date date, due_date date, statement_amount numeric,
+      minimum_due numeric, interest_charged numeric, fees numeric, currency text, deleted_at timestamptz
+    )
+  loop
+    v_card := (v_cards ->> r.card_id::text)::uuid;
+    if v_card is null then
+      raise exception 'statement % refers to a card that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    select s.id into v_id
+    from public.statements s
+    where s.user_id = v_user and (s.id = r.id or (s.card_id = v_card and s.statement_month = r.statement_month))
+    order by (s.id = r.id) desc, s.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.statements (
+        user_id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due,
+        interest_charged, fees, currency, deleted_at
+      )
+      values (
+        v_user, v_card, r.statement_month, r.statement_date, r.due_date, r.statement_amount, r.minimum_due,
+        r.interest_charged, r.fees, r.currency, r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_statements := v_statements || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('statements', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- loans
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'loans', '[]'::jsonb)) as x(
+      id uuid, name text, lender text, loan_type text, principal numeric, annual_rate numeric, tenure_months integer,
+      emi numeric, start_date date, currency text, notes text, deleted_at timestamptz
+    )
+  loop
+    select l.id into v_id
+    from public.loans l
+    where l.user_id = v_user
+      and (l.id = r.id or (lower(l.name) = lower(r.name) and l.start_date = r.start_date and l.principal = r.principal))
+    order by (l.id = r.id) desc
+    limit 1;
+
+    if v_id is null then
+      insert into public.loans (
+        user_id, name, lender, loan_type, principal, annual_rate, tenure_months, emi, start_date, currency, notes,
+        deleted_at
+      )
+      values (
+        v_user, r.name, r.lender, coalesce(r.loan_type, 'PERSONAL'), r.principal, coalesce(r.annual_rate, 0),
+        r.tenure_months, r.emi, r.start_date, r.currency, r.notes, r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_loans := v_loans || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('loans', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- counterparties
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'counterparties', '[]'::jsonb)) as x(
+      id uuid, name text, contact text, notes text, deleted_at timestamptz
+    )
+  loop
+    select p.id into v_id
+    from public.counterparties p
+    where p.user_id = v_user and (p.id = r.id or lower(p.name) = lower(r.name))
+    order by (p.id = r.id) desc, p.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.counterparties (user_id, name, contact, notes, deleted_at)
+      values (v_user, r.name, r.contact, r.notes, r.deleted_at)
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_people := v_people || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('counterparties', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- installment plans
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'installment_plans', '[]'::jsonb)) as x(
+      id uuid, card_id uuid, description text, principal numeric, processing_fee numeric, monthly_installment numeric,
+      tenure_months integer, start_month date, currency text, deleted_at timestamptz
+    )
+  loop
+    v_card := (v_cards ->> r.card_id::text)::uuid;
+    if v_card is null then
+      raise exception 'installment plan % refers to a card that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    if exists (
+      select 1 from public.installment_plans ip
+      where ip.user_id = v_user
+        and (ip.id = r.id or (ip.card_id = v_card and ip.description = r.description and ip.start_month = r.start_month))
+    ) then
+      v_existing := v_existing + 1;
+    else
+      insert into public.installment_plans (
+        user_id, card_id, description, principal, processing_fee, monthly_installment, tenure_months, start_month,
+        currency, deleted_at
+      )
+      values (
+        v_user, v_card, r.description, r.principal, coalesce(r.processing_fee, 0), r.monthly_installment,
+        r.tenure_months, r.start_month, r.currency, r.deleted_at
+      );
+      v_created := v_created + 1;
+    end if;
+  end loop;
+  v_result := v_result || jsonb_build_object('installment_plans', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- exchange rates
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'fx_rates', '[]'::jsonb)) as x(
+      from_currency text, to_currency text, rate numeric, effective_date date
+    )
+  ),
+  inserted as (
+    insert into public.fx_rates (user_id, from_currency, to_currency, rate, effective_date)
+    select v_user, x.from_currency, x.to_currency, x.rate, x.effective_date
+    from rows x
+    on conflict (user_id, from_currency, to_currency, effective_date) do nothing
+    returning 1
+  )
+  select count(*) into v_created from inserted;
+  v_result := v_result || jsonb_build_object('fx_rates', jsonb_build_object(
+    'created', v_created,
+    'existing', jsonb_array_length(coalesce(v_tables -> 'fx_rates', '[]'::jsonb)) - v_created
+  ));
+
+  -- payments
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'payments', '[]'::jsonb)) as x(
+      id uuid, kind text, card_id uuid, statement_id uuid, loan_id uuid, counterparty_id uuid, direction text,
+      payment_date date, amount numeric, currency text, note text, import_key text, match_status text,
+      deleted_at timestamptz
+    )
+  loop
+    v_key := coalesce(r.import_key, 'restore:' || r.id::text);
+
+    if exists (
+      select 1 from public.payments p
+      where p.user_id = v_user and (p.id = r.id or p.import_key = v_key)
+    ) then
+      v_existing := v_existing + 1;
+      continue;
+    end if;
+
+    if (r.card_id is not null and v_cards ->> r.card_id::text is null)
+      or (r.statement_id is not null and v_statements ->> r.statement_id::text is null)
+      or (r.loan_id is not null and v_loans ->> r.loan_id::text is null)
+      or (r.counterparty_id is not null and v_people ->> r.counterparty_id::text is null) then
+      raise exception 'payment % refers to a row that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    insert into public.payments (
+      user_id, kind, card_id, statement_id, loan_id, counterparty_id, direction, payment_date, amount, currency,
+      note, import_key, match_status, deleted_at
+    )
+    values (
+      v_user, coalesce(r.kind, 'CARD'),
+      (v_cards ->> r.card_id::text)::uuid,
+      (v_statements ->> r.statement_id::text)::uuid,
+      (v_loans ->> r.loan_id::text)::uuid,
+      (v_people ->> r.counterparty_id::text)::uuid,
+      r.direction, r.payment_date, r.amount, r.currency, r.note, v_key, r.match_status, r.deleted_at
+    );
+    v_created := v_created + 1;
+  end loop;
+  v_result := v_result || jsonb_build_object('payments', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  return v_result;
+end;
+$$;
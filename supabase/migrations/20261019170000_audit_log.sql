@@ -0,0 +1,180 @@
+-- Audit log: every insert, update and delete of a card, statement or
+-- payment, with the row as it was before and after. Written by triggers,
+-- so the dashboard, the REST API, CSV import, backups and the cron jobs are
+-- all covered, including the payments a statement's trip to the Trash
+-- unlinks.
+--
+-- The log is append-only: users can read their own entries, and nobody
+-- (service role included) can insert, update or delete them directly. Rows
+-- outlive the records they describe, so a purged card keeps its history.
+--
+-- revert_to_audit_entry() puts a record back to the version an entry
+-- saved. The revert is itself logged, pointing at the entry it went back to.
+
+create table public.audit_log (
+  id bigint generated always as identity primary key,
+  -- the owner of the changed record
+  user_id uuid not null references auth.users (id) on delete cascade,
+  table_name text not null check (table_name in ('cards', 'statements', 'payments')),
+  record_id uuid not null,
+  action text not null check (action in ('INSERT', 'UPDATE', 'DELETE')),
+  -- the whole row; null before an insert and after a delete
+  old_values jsonb,
+  new_values jsonb,
+  -- the signed-in user; null for the REST API and the cron jobs, which use the service role
+  changed_by uuid references auth.users (id) on delete set null,
+  -- set when the change was a revert: the entry whose version was restored
+  reverted_from bigint references public.audit_log (id),
+  changed_at timestamptz not null default now()
+);
+
+create index audit_log_record_idx on public.audit_log (table_name, record_id, id desc);
+create index audit_log_user_idx on public.audit_log (user_id, changed_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy "audit_log_select_own" on public.audit_log
+  for select to authenticated
+  using ((select auth.uid()) = user_id);
+
+revoke insert, update, delete, truncate on public.audit_log from public, anon, authenticated, service_role;
+
+-- ---------------------------------------------------------------------------
+-- Recording changes
+-- ---------------------------------------------------------------------------
+
+-- Runs as its owner, the only role that may write the log.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+begin
+  -- a save that only bumped updated_at changed nothing
+  if tg_op = 'UPDATE' and (v_old - 'updated_at') = (v_new - 'updated_at') then
+    return null;
+  end if;
+
+  insert into public.audit_log (
+    user_id, table_name, record_id, action, old_values, new_values, changed_by, reverted_from
+  )
+  values (
+    (coalesce(v_new, v_old) ->> 'user_id')::uuid,
+    tg_table_name,
+    (coalesce(v_new, v_old) ->> 'id')::uuid,
+    tg_op,
+    v_old,
+    v_new,
+    auth.uid(),
+    nullif(current_setting('app.reverted_from', true), '')::bigint
+  );
+  return null;
+end;
+$$;
+
+revoke execute on function public.audit_row_change() from public, anon, authenticated;
+
+create trigger cards_audit
+  after insert or update or delete on public.cards
+  for each row execute function public.audit_row_change();
+
+create trigger statements_audit
+  after insert or update or delete on public.statements
+  for each row execute function public.audit_row_change();
+
+create trigger payments_audit
+  after insert or update or delete on public.payments
+  for each row execute function public.audit_row_change();
+
+-- ---------------------------------------------------------------------------
+-- Reverting
+-- ---------------------------------------------------------------------------
+
+-- Puts the record back to the version entry p_entry saved: the columns a
+-- user can edit, not its id, owner, timestamps or Trash state. A trashed
+-- record has to be restored first, and a payment can only go back to a
+-- card and statement that are still live. Runs as the caller, so RLS
+-- decides what they may read and change.
+create or replace function public.revert_to_audit_entry(p_entry bigint)
+returns void
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_entry public.audit_log;
+  v_payment public.payments;
+begin
+  select * into v_entry from public.audit_log where id = p_entry;
+  if not found or v_entry.new_values is null then
+    raise exception 'That version is not in the history' using errcode = 'P0002';
+  end if;
+
+  perform set_config('app.reverted_from', p_entry::text, true);
+
+  if v_entry.table_name = 'cards' then
+    update public.cards c
+       set (name, bank, credit_limit, currency, notes, purchase_apr, cash_apr, min_payment_percent,
+            min_payment_floor, statement_day, grace_days, due_date_adjustment)
+         = (v.name, v.bank, v.credit_limit, v.currency, v.notes, v.purchase_apr, v.cash_apr, v.min_payment_percent,
+            v.min_payment_floor, v.statement_day, v.grace_days, v.due_date_adjustment)
+      from jsonb_populate_record(null::public.cards, v_entry.new_values) v
+     where c.id = v_entry.record_id
+       and c.deleted_at is null;
+
+  elsif v_entry.table_name = 'statements' then
+    if not exists (
+      select 1 from public.cards c
+       where c.id = (v_entry.new_values ->> 'card_id')::uuid and c.deleted_at is null
+    ) then
+      raise exception 'The card of that version is gone or in the Trash' using errcode = '55000';
+    end if;
+
+    update public.statements s
+       set (card_id, statement_month, statement_date, due_date, statement_amount, minimum_due,
+            interest_charged, fees, currency)
+         = (v.card_id, v.statement_month, v.statement_date, v.due_date, v.statement_amount, v.minimum_due,
+            v.interest_charged, v.fees, v.currency)
+      from jsonb_populate_record(null::public.statements, v_entry.new_values) v
+     where s.id = v_entry.record_id
+       and s.deleted_at is null;
+
+  else
+    v_payment := jsonb_populate_record(null::public.payments, v_entry.new_values);
+
+    if v_payment.card_id is not null and not exists (
+      select 1 from public.cards c where c.id = v_payment.card_id and c.deleted_at is null
+    ) then
+      raise exception 'The card of that version is gone or in the Trash' using errcode = '55000';
+    end if;
+    if v_payment.statement_id is not null and not exists (
+      select 1 from public.statements s
+       where s.id = v_payment.statement_id and s.card_id = v_payment.card_id and s.deleted_at is null
+    ) then
+      raise exception 'The statement that version counted against is gone or in the Trash' using errcode = '55000';
+    end if;
+
+    update public.payments p
+       set (card_id, loan_id, counterparty_id, direction, statement_id, match_status,
+            payment_date, amount, currency, note)
+         = (v_payment.card_id, v_payment.loan_id, v_payment.counterparty_id, v_payment.direction,
+            v_payment.statement_id, v_payment.match_status,
+            v_payment.payment_date, v_payment.amount, v_payment.currency, v_payment.note)
+     where p.id = v_entry.record_id
+       and p.deleted_at is null;
+  end if;
+
+  if not found then
+    raise exception 'It is gone or in the Trash; restore it from there first' using errcode = '55000';
+  end if;
+
+  perform set_config('app.reverted_from', '', true);
+end;
+$$;
+
+revoke execute on function public.revert_to_audit_entry(bigint) from public, anon;
+grant execute on function public.revert_to_audit_entry(bigint) to authenticated;
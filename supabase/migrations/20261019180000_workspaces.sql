@@ -0,0 +1,605 @@
+-- Workspaces: cards, statements, payments and installment plans belong to a
+-- workspace, and everyone in it sees them. Each user starts with a personal
+-- workspace that only they can use. Shared ones are created separately, and
+-- their owner invites others by email as an editor (can change things) or a
+-- viewer (read only). RLS enforces the roles.
+--
+-- A row's user_id is now the workspace owner's account, whoever created it.
+-- Everything that works per account therefore covers the owner's workspaces
+-- whole: reminders, webhooks, calendar feeds, API tokens and backups.
+-- created_by records who actually added the row. Triggers fill in all three
+-- columns:
+--   cards               the workspace they're given, or the creator's personal one
+--   statements, plans   their card's
+--   card payments       their card's
+--   loan and IOU payments  the personal workspace of the loan's or person's
+--                       owner (loans and people stay personal)
+--
+-- Loans, people, profiles and settings are unchanged: still one user's own.
+
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) between 1 and 100),
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- the one everyone starts with; it can't be shared, renamed away or deleted
+  personal boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index workspaces_personal_idx on public.workspaces (owner_id) where personal;
+
+create trigger workspaces_set_updated_at
+  before update on public.workspaces
+  for each row execute function public.set_updated_at();
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- copied from the account on joining, to show who's who
+  email text not null,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_idx on public.workspace_members (user_id);
+
+-- the owner is the workspace's owner_id, and only them
+create unique index workspace_members_owner_idx on public.workspace_members (workspace_id)
+  where role = 'owner';
+
+create table public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null check (email = lower(email) and email ~ '^[^@\s]+@[^@\s]+$'),
+  role text not null check (role in ('editor', 'viewer')),
+  invited_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint workspace_invites_workspace_email_key unique (workspace_id, email)
+);
+
+create index workspace_invites_email_idx on public.workspace_invites (email);
+
+-- ---------------------------------------------------------------------------
+-- Roles
+-- ---------------------------------------------------------------------------
+
+-- The caller's role in the workspace, or null. Runs as its owner so the
+-- policies can use it without recursing into workspace_members' own.
+create or replace function public.workspace_role(p_workspace uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select role from public.workspace_members
+  where workspace_id = p_workspace and user_id = (select auth.uid())
+$$;
+
+revoke execute on function public.workspace_role(uuid) from public, anon;
+grant execute on function public.workspace_role(uuid) to authenticated;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+
+create policy "workspaces_select_member" on public.workspaces
+  for select to authenticated
+  using (
+    public.workspace_role(id) is not null
+    -- invitees see the name of what they're invited to
+    or exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = workspaces.id and i.email = lower((select auth.jwt()) ->> 'email')
+    )
+  );
+
+create policy "workspaces_insert_own" on public.workspaces
+  for insert to authenticated
+  with check ((select auth.uid()) = owner_id and not personal);
+
+create policy "workspaces_update_owner" on public.workspaces
+  for update to authenticated
+  using (public.workspace_role(id) = 'owner')
+  with check (public.workspace_role(id) = 'owner');
+
+create policy "workspaces_delete_owner" on public.workspaces
+  for delete to authenticated
+  using (public.workspace_role(id) = 'owner' and not personal);
+
+-- only the name changes; owner and personal are fixed
+revoke update on public.workspaces from authenticated;
+grant update (name) on public.workspaces to authenticated;
+
+create policy "workspace_members_select_member" on public.workspace_members
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "workspace_members_update_owner" on public.workspace_members
+  for update to authenticated
+  using (public.workspace_role(workspace_id) = 'owner' and role <> 'owner')
+  with check (role in ('editor', 'viewer'));
+
+-- the owner removes people; anyone else can leave
+create policy "workspace_members_delete" on public.workspace_members
+  for delete to authenticated
+  using (
+    role <> 'owner'
+    and (public.workspace_role(workspace_id) = 'owner' or (select auth.uid()) = user_id)
+  );
+
+-- members join through accept_workspace_invite() only
+revoke insert on public.workspace_members from authenticated;
+revoke update on public.workspace_members from authenticated;
+grant update (role) on public.workspace_members to authenticated;
+
+create policy "workspace_invites_select" on public.workspace_invites
+  for select to authenticated
+  using (
+    public.workspace_role(workspace_id) = 'owner'
+    or email = lower((select auth.jwt()) ->> 'email')
+  );
+
+create policy "workspace_invites_insert_owner" on public.workspace_invites
+  for insert to authenticated
+  with check (
+    public.workspace_role(workspace_id) = 'owner'
+    and (select auth.uid()) = invited_by
+    and not exists (select 1 from public.workspaces w where w.id = workspace_id and w.personal)
+  );
+
+-- the owner takes an invite back; the invitee declines it
+create policy "workspace_invites_delete" on public.workspace_invites
+  for delete to authenticated
+  using (
+    public.workspace_role(workspace_id) = 'owner'
+    or email = lower((select auth.jwt()) ->> 'email')
+  );
+
+-- ---------------------------------------------------------------------------
+-- Creating workspaces and joining them
+-- ---------------------------------------------------------------------------
+
+-- The creator becomes the owner.
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+  select new.id, new.owner_id, 'owner', coalesce(u.email, '')
+  from auth.users u
+  where u.id = new.owner_id;
+  return null;
+end;
+$$;
+
+revoke execute on function public.add_workspace_owner() from public, anon, authenticated;
+
+create trigger workspaces_add_owner
+  after insert on public.workspaces
+  for each row execute function public.add_workspace_owner();
+
+-- every new account gets its personal workspace
+create or replace function public.handle_new_user_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.workspaces (name, owner_id, personal) values ('Personal', new.id, true)
+  on conflict (owner_id) where personal do nothing;
+  return new;
+end;
+$$;
+
+revoke execute on function public.handle_new_user_workspace() from public, anon, authenticated;
+
+create trigger on_auth_user_created_workspace
+  after insert on auth.users
+  for each row execute function public.handle_new_user_workspace();
+
+-- Joins the workspace an invite to the caller's email is for, with the
+-- invite's role; someone already in it keeps the role they have. Returns
+-- the workspace id.
+create or replace function public.accept_workspace_invite(p_invite uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_invite public.workspace_invites;
+begin
+  select * into v_invite from public.workspace_invites where id = p_invite and email = v_email;
+  if not found then
+    raise exception 'invite not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+  values (v_invite.workspace_id, auth.uid(), v_invite.role, v_email)
+  on conflict (workspace_id, user_id) do nothing;
+
+  delete from public.workspace_invites where id = p_invite;
+  return v_invite.workspace_id;
+end;
+$$;
+
+revoke execute on function public.accept_workspace_invite(uuid) from public, anon;
+grant execute on function public.accept_workspace_invite(uuid) to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Filing rows under a workspace
+-- ---------------------------------------------------------------------------
+
+alter table public.cards
+  add column workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null;
+
+alter table public.statements
+  add column workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null;
+
+alter table public.payments
+  add column workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null;
+
+alter table public.installment_plans
+  add column workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column created_by uuid references auth.users (id) on delete set null;
+
+-- backfill: everyone's existing rows go to their personal workspace
+insert into public.workspaces (name, owner_id, personal)
+select 'Personal', id, true from auth.users
+on conflict (owner_id) where personal do nothing;
+
+update public.cards t set workspace_id = w.id, created_by = t.user_id
+from public.workspaces w where w.owner_id = t.user_id and w.personal;
+update public.statements t set workspace_id = w.id, created_by = t.user_id
+from public.workspaces w where w.owner_id = t.user_id and w.personal;
+update public.payments t set workspace_id = w.id, created_by = t.user_id
+from public.workspaces w where w.owner_id = t.user_id and w.personal;
+update public.installment_plans t set workspace_id = w.id, created_by = t.user_id
+from public.workspaces w where w.owner_id = t.user_id and w.personal;
+
+alter table public.cards alter column workspace_id set not null;
+alter table public.statements alter column workspace_id set not null;
+alter table public.payments alter column workspace_id set not null;
+alter table public.installment_plans alter column workspace_id set not null;
+
+create index cards_workspace_idx on public.cards (workspace_id);
+create index statements_workspace_idx on public.statements (workspace_id, statement_month desc);
+create index payments_workspace_idx on public.payments (workspace_id, payment_date desc);
+create index installment_plans_workspace_idx on public.installment_plans (workspace_id);
+
+-- The functions below run as their owner to read the parent row whatever
+-- the caller can see; the policies then check the caller may write to the
+-- workspace that comes out.
+
+create or replace function public.file_card()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by := coalesce(auth.uid(), new.user_id);
+    if new.workspace_id is null then
+      select id into new.workspace_id from public.workspaces where owner_id = new.user_id and personal;
+    end if;
+  else
+    -- a card doesn't move; its statements and payments would be left behind
+    new.workspace_id := old.workspace_id;
+    new.created_by := old.created_by;
+  end if;
+
+  select owner_id into new.user_id from public.workspaces where id = new.workspace_id;
+  return new;
+end;
+$$;
+
+-- statements and installment plans
+create or replace function public.file_under_card()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  new.created_by := case when tg_op = 'INSERT' then coalesce(auth.uid(), new.user_id) else old.created_by end;
+  select workspace_id, user_id into new.workspace_id, new.user_id from public.cards where id = new.card_id;
+  return new;
+end;
+$$;
+
+create or replace function public.file_payment()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_owner uuid;
+begin
+  new.created_by := case when tg_op = 'INSERT' then coalesce(auth.uid(), new.user_id) else old.created_by end;
+
+  if new.card_id is not null then
+    select workspace_id, user_id into new.workspace_id, new.user_id from public.cards where id = new.card_id;
+
+    if new.statement_id is not null
+      and (tg_op = 'INSERT' or new.statement_id is distinct from old.statement_id)
+      and not exists (select 1 from public.statements s where s.id = new.statement_id and s.card_id = new.card_id)
+    then
+      raise exception 'the statement belongs to another card' using errcode = '23514';
+    end if;
+  else
+    v_owner := coalesce(
+      (select user_id from public.loans where id = new.loan_id),
+      (select user_id from public.counterparties where id = new.counterparty_id),
+      new.user_id
+    );
+    new.user_id := v_owner;
+    select id into new.workspace_id from public.workspaces where owner_id = v_owner and personal;
+  end if;
+  return new;
+end;
+$$;
+
+revoke execute on function public.file_card() from public, anon, authenticated;
+revoke execute on function public.file_under_card() from public, anon, authenticated;
+revoke execute on function public.file_payment() from public, anon, authenticated;
+
+create trigger cards_file
+  before insert or update on public.cards
+  for each row execute function public.file_card();
+
+create trigger statements_file
+  before insert or update of card_id, user_id, workspace_id, created_by on public.statements
+  for each row execute function public.file_under_card();
+
+create trigger installment_plans_file
+  before insert or update of card_id, user_id, workspace_id, created_by on public.installment_plans
+  for each row execute function public.file_under_card();
+
+create trigger payments_file
+  before insert or update of card_id, loan_id, counterparty_id, statement_id, user_id, workspace_id, created_by
+  on public.payments
+  for each row execute function public.file_payment();
+
+-- ---------------------------------------------------------------------------
+-- RLS: members read, owners and editors write
+-- ---------------------------------------------------------------------------
+
+drop policy "cards_select_own" on public.cards;
+drop policy "cards_insert_own" on public.cards;
+drop policy "cards_update_own" on public.cards;
+drop policy "cards_delete_own" on public.cards;
+drop policy "statements_select_own" on public.statements;
+drop policy "statements_insert_own" on public.statements;
+drop policy "statements_update_own" on public.statements;
+drop policy "statements_delete_own" on public.statements;
+drop policy "payments_select_own" on public.payments;
+drop policy "payments_insert_own" on public.payments;
+drop policy "payments_update_own" on public.payments;
+drop policy "payments_delete_own" on public.payments;
+drop policy "installment_plans_select_own" on public.installment_plans;
+drop policy "installment_plans_insert_own" on public.installment_plans;
+drop policy "installment_plans_update_own" on public.installment_plans;
+drop policy "installment_plans_delete_own" on public.installment_plans;
+
+create policy "cards_select_member" on public.cards
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "cards_insert_editor" on public.cards
+  for insert to authenticated
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "cards_update_editor" on public.cards
+  for update to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'))
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "cards_delete_editor" on public.cards
+  for delete to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "statements_select_member" on public.statements
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "statements_insert_editor" on public.statements
+  for insert to authenticated
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "statements_update_editor" on public.statements
+  for update to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'))
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "statements_delete_editor" on public.statements
+  for delete to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "payments_select_member" on public.payments
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "payments_insert_editor" on public.payments
+  for insert to authenticated
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "payments_update_editor" on public.payments
+  for update to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'))
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "payments_delete_editor" on public.payments
+  for delete to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "installment_plans_select_member" on public.installment_plans
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "installment_plans_insert_editor" on public.installment_plans
+  for insert to authenticated
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "installment_plans_update_editor" on public.installment_plans
+  for update to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'))
+  with check (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+create policy "installment_plans_delete_editor" on public.installment_plans
+  for delete to authenticated
+  using (public.workspace_role(workspace_id) in ('owner', 'editor'));
+
+-- ---------------------------------------------------------------------------
+-- Audit log: readable by everyone in the record's workspace
+-- ---------------------------------------------------------------------------
+
+alter table public.audit_log
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+
+update public.audit_log a set workspace_id = w.id
+from public.workspaces w where w.owner_id = a.user_id and w.personal;
+
+create index audit_log_workspace_idx on public.audit_log (workspace_id, changed_at desc);
+
+drop policy "audit_log_select_own" on public.audit_log;
+
+create policy "audit_log_select_member" on public.audit_log
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+begin
+  -- a save that only bumped updated_at changed nothing
+  if tg_op = 'UPDATE' and (v_old - 'updated_at') = (v_new - 'updated_at') then
+    return null;
+  end if;
+
+  insert into public.audit_log (
+    user_id, workspace_id, table_name, record_id, action, old_values, new_values, changed_by, reverted_from
+  )
+  values (
+    (coalesce(v_new, v_old) ->> 'user_id')::uuid,
+    (coalesce(v_new, v_old) ->> 'workspace_id')::uuid,
+    tg_table_name,
+    (coalesce(v_new, v_old) ->> 'id')::uuid,
+    tg_op,
+    v_old,
+    v_new,
+    auth.uid(),
+    nullif(current_setting('app.reverted_from', true), '')::bigint
+  );
+  return null;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- CSV import: a statement of the card links its payments, whoever added it
+-- ---------------------------------------------------------------------------
+
+create or replace function public.import_statements_and_payments(p_statements jsonb, p_payments jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_statements integer := 0;
+  v_payments integer := 0;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_statements, '[]'::jsonb)) as r(
+      card_id uuid,
+      statement_month date,
+      statement_date date,
+      due_date date,
+      statement_amount numeric,
+      minimum_due numeric,
+      currency text
+    )
+  ),
+  upserted as (
+    -- user_id is replaced by the card's, so the conflict is found in a shared workspace too
+    insert into public.statements as s (
+      user_id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due, currency
+    )
+    select
+      v_user, r.card_id, r.statement_month, r.statement_date, r.due_date, r.statement_amount, r.minimum_due,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED')
+    from rows r
+    on conflict (user_id, card_id, statement_month) do update set
+      statement_date = coalesce(excluded.statement_date, s.statement_date),
+      due_date = coalesce(excluded.due_date, s.due_date),
+      statement_amount = coalesce(excluded.statement_amount, s.statement_amount),
+      minimum_due = coalesce(excluded.minimum_due, s.minimum_due),
+      currency = excluded.currency
+    -- a month whose statement is in the Trash stays there
+    where s.deleted_at is null
+    returning 1
+  )
+  select count(*) into v_statements from upserted;
+
+  -- statements from this same import are visible here, so payments can link to them
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(p_payments, '[]'::jsonb)) as r(
+      import_key text,
+      card_id uuid,
+      statement_month date,
+      payment_date date,
+      amount numeric,
+      currency text,
+      note text
+    )
+  ),
+  inserted as (
+    insert into public.payments (user_id, kind, card_id, statement_id, payment_date, amount, currency, note, import_key)
+    select
+      v_user, 'CARD', r.card_id,
+      (
+        select st.id from public.statements st
+        where st.card_id = r.card_id and st.statement_month = r.statement_month
+          and st.deleted_at is null
+      ),
+      r.payment_date, r.amount,
+      coalesce(r.currency, (select c.currency from public.cards c where c.id = r.card_id), 'AED'),
+      r.note, r.import_key
+    from rows r
+    on conflict (user_id, import_key) do nothing
+    returning 1
+  )
+  select count(*) into v_payments from inserted;
+
+  return jsonb_build_object(
+    'statements', v_statements,
+    'payments_inserted', v_payments,
+    'payments_skipped', jsonb_array_length(coalesce(p_payments, '[]'::jsonb)) - v_payments
+  );
+end;
+$$;
@@ -0,0 +1,281 @@
+-- Archives carry payments' detached_statement_id, so a payment unlinked
+-- because its statement is in the Trash links back when that statement is
+-- restored, after a restore too. The id is remapped through the archive's
+-- statements like statement_id; archives without the column restore as before.
+
+create or replace function public.restore_archive(p_archive jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = ''
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_tables jsonb := coalesce(p_archive -> 'tables', '{}'::jsonb);
+  -- original id -> id in this account
+  v_cards jsonb := '{}'::jsonb;
+  v_statements jsonb := '{}'::jsonb;
+  v_loans jsonb := '{}'::jsonb;
+  v_people jsonb := '{}'::jsonb;
+  v_result jsonb := '{}'::jsonb;
+  v_created integer;
+  v_existing integer;
+  v_id uuid;
+  v_card uuid;
+  v_key text;
+  r record;
+begin
+  if v_user is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  if p_archive ->> 'format' is distinct from 'debt-tracker-export' or p_archive ->> 'version' is distinct from '1' then
+    raise exception 'unsupported archive (format %, version %)', p_archive ->> 'format', p_archive ->> 'version'
+      using errcode = '22023';
+  end if;
+
+  -- cards
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'cards', '[]'::jsonb)) as x(
+      id uuid, name text, bank text, credit_limit numeric, currency text, notes text,
+      purchase_apr numeric, cash_apr numeric, min_payment_percent numeric, min_payment_floor numeric,
+      statement_day smallint, grace_days smallint, due_date_adjustment text, deleted_at timestamptz
+    )
+  loop
+    select c.id into v_id
+    from public.cards c
+    where c.user_id = v_user
+      and (c.id = r.id or (lower(c.name) = lower(r.name) and lower(coalesce(c.bank, '')) = lower(coalesce(r.bank, ''))))
+    order by (c.id = r.id) desc, c.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.cards (
+        user_id, name, bank, credit_limit, currency, notes, purchase_apr, cash_apr, min_payment_percent,
+        min_payment_floor, statement_day, grace_days, due_date_adjustment, deleted_at
+      )
+      values (
+        v_user, r.name, r.bank, r.credit_limit, r.currency, r.notes, r.purchase_apr, r.cash_apr, r.min_payment_percent,
+        r.min_payment_floor, r.statement_day, r.grace_days, coalesce(r.due_date_adjustment, 'NONE'), r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_cards := v_cards || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('cards', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- statements
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'statements', '[]'::jsonb)) as x(
+      id uuid, card_id uuid, statement_month date, statement_date date, due_date date, statement_amount numeric,
+      minimum_due numeric, interest_charged numeric, fees numeric, currency text, deleted_at timestamptz
+    )
+  loop
+    v_card := (v_cards ->> r.card_id::text)::uuid;
+    if v_card is null then
+      raise exception 'statement % refers to a card that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    select s.id into v_id
+    from public.statements s
+    where s.user_id = v_user and (s.id = r.id or (s.card_id = v_card and s.statement_month = r.statement_month))
+    order by (s.id = r.id) desc, s.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.statements (
+        user_id, card_id, statement_month, statement_date, due_date, statement_amount, minimum_due,
+        interest_charged, fees, currency, deleted_at
+      )
+      values (
+        v_user, v_card, r.statement_month, r.statement_date, r.due_date, r.statement_amount, r.minimum_due,
+        r.interest_charged, r.fees, r.currency, r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_statements := v_statements || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('statements', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- loans
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'loans', '[]'::jsonb)) as x(
+      id uuid, name text, lender text, loan_type text, principal numeric, annual_rate numeric, tenure_months integer,
+      emi numeric, start_date date, currency text, notes text, deleted_at timestamptz
+    )
+  loop
+    select l.id into v_id
+    from public.loans l
+    where l.user_id = v_user
+      and (l.id = r.id or (lower(l.name) = lower(r.name) and l.start_date = r.start_date and l.principal = r.principal))
+    order by (l.id = r.id) desc
+    limit 1;
+
+    if v_id is null then
+      insert into public.loans (
+        user_id, name, lender, loan_type, principal, annual_rate, tenure_months, emi, start_date, currency, notes,
+        deleted_at
+      )
+      values (
+        v_user, r.name, r.lender, coalesce(r.loan_type, 'PERSONAL'), r.principal, coalesce(r.annual_rate, 0),
+        r.tenure_months, r.emi, r.start_date, r.currency, r.notes, r.deleted_at
+      )
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_loans := v_loans || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('loans', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- counterparties
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'counterparties', '[]'::jsonb)) as x(
+      id uuid, name text, contact text, notes text, deleted_at timestamptz
+    )
+  loop
+    select p.id into v_id
+    from public.counterparties p
+    where p.user_id = v_user and (p.id = r.id or lower(p.name) = lower(r.name))
+    order by (p.id = r.id) desc, p.deleted_at nulls first
+    limit 1;
+
+    if v_id is null then
+      insert into public.counterparties (user_id, name, contact, notes, deleted_at)
+      values (v_user, r.name, r.contact, r.notes, r.deleted_at)
+      returning id into v_id;
+      v_created := v_created + 1;
+    else
+      v_existing := v_existing + 1;
+    end if;
+
+    v_people := v_people || jsonb_build_object(r.id::text, v_id);
+  end loop;
+  v_result := v_result || jsonb_build_object('counterparties', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- installment plans
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'installment_plans', '[]'::jsonb)) as x(
+      id uuid, card_id uuid, description text, principal numeric, processing_fee numeric, monthly_installment numeric,
+      tenure_months integer, start_month date, currency text, deleted_at timestamptz
+    )
+  loop
+    v_card := (v_cards ->> r.card_id::text)::uuid;
+    if v_card is null then
+      raise exception 'installment plan % refers to a card that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    if exists (
+      select 1 from public.installment_plans ip
+      where ip.user_id = v_user
+        and (ip.id = r.id or (ip.card_id = v_card and ip.description = r.description and ip.start_month = r.start_month))
+    ) then
+      v_existing := v_existing + 1;
+    else
+      insert into public.installment_plans (
+        user_id, card_id, description, principal, processing_fee, monthly_installment, tenure_months, start_month,
+        currency, deleted_at
+      )
+      values (
+        v_user, v_card, r.description, r.principal, coalesce(r.processing_fee, 0), r.monthly_installment,
+        r.tenure_months, r.start_month, r.currency, r.deleted_at
+      );
+      v_created := v_created + 1;
+    end if;
+  end loop;
+  v_result := v_result || jsonb_build_object('installment_plans', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  -- exchange rates
+  with rows as (
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'fx_rates', '[]'::jsonb)) as x(
+      from_currency text, to_currency text, rate numeric, effective_date date
+    )
+  ),
+  inserted as (
+    insert into public.fx_rates (user_id, from_currency, to_currency, rate, effective_date)
+    select v_user, x.from_currency, x.to_currency, x.rate, x.effective_date
+    from rows x
+    on conflict (user_id, from_currency, to_currency, effective_date) do nothing
+    returning 1
+  )
+  select count(*) into v_created from inserted;
+  v_result := v_result || jsonb_build_object('fx_rates', jsonb_build_object(
+    'created', v_created,
+    'existing', jsonb_array_length(coalesce(v_tables -> 'fx_rates', '[]'::jsonb)) - v_created
+  ));
+
+  -- payments
+  v_created := 0;
+  v_existing := 0;
+  for r in
+    select *
+    from jsonb_to_recordset(coalesce(v_tables -> 'payments', '[]'::jsonb)) as x(
+      id uuid, kind text, card_id uuid, statement_id uuid, detached_statement_id uuid, loan_id uuid,
+      counterparty_id uuid, direction text, payment_date date, amount numeric, currency text, note text,
+      import_key text, match_status text, deleted_at timestamptz
+    )
+  loop
+    v_key := coalesce(r.import_key, 'restore:' || r.id::text);
+
+    if exists (
+      select 1 from public.payments p
+      where p.user_id = v_user and (p.id = r.id or p.import_key = v_key)
+    ) then
+      v_existing := v_existing + 1;
+      continue;
+    end if;
+
+    if (r.card_id is not null and v_cards ->> r.card_id::text is null)
+      or (r.statement_id is not null and v_statements ->> r.statement_id::text is null)
+      or (r.detached_statement_id is not null and v_statements ->> r.detached_statement_id::text is null)
+      or (r.loan_id is not null and v_loans ->> r.loan_id::text is null)
+      or (r.counterparty_id is not null and v_people ->> r.counterparty_id::text is null) then
+      raise exception 'payment % refers to a row that is not in the archive', r.id using errcode = '23503';
+    end if;
+
+    insert into public.payments (
+      user_id, kind, card_id, statement_id, detached_statement_id, loan_id, counterparty_id, direction, payment_date,
+      amount, currency, note, import_key, match_status, deleted_at
+    )
+    values (
+      v_user, coalesce(r.kind, 'CARD'),
+      (v_cards ->> r.card_id::text)::uuid,
+      (v_statements ->> r.statement_id::text)::uuid,
+      (v_statements ->> r.detached_statement_id::text)::uuid,
+      (v_loans ->> r.loan_id::text)::uuid,
+      (v_people ->> r.counterparty_id::text)::uuid,
+      r.direction, r.payment_date, r.amount, r.currency, r.note, v_key, r.match_status, r.deleted_at
+    );
+    v_created := v_created + 1;
+  end loop;
+  v_result := v_result || jsonb_build_object('payments', jsonb_build_object('created', v_created, 'existing', v_existing));
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- The audit log outlives the records it describes, and so it outlives their
+-- workspace too: deleting a workspace leaves its history in place, no
+-- longer tied to a workspace and readable by the owner it was filed under.
+
+alter table public.audit_log
+  drop constraint audit_log_workspace_id_fkey,
+  add constraint audit_log_workspace_id_fkey
+    foreign key (workspace_id) references public.workspaces (id) on delete set null;
+
+drop policy "audit_log_select_member" on public.audit_log;
+
+create policy "audit_log_select_member" on public.audit_log
+  for select to authenticated
+  using (
+    public.workspace_role(workspace_id) is not null
+    or (workspace_id is null and (select auth.uid()) = user_id)
+  );
@@ -0,0 +1,17 @@
+-- Paid totals carry the statement's workspace, so a page reads the totals
+-- of the workspace it shows rather than of every workspace the user is in.
+
+create or replace view public.statement_paid_totals
+with (security_invoker = true)
+as
+select
+  s.id as statement_id,
+  s.user_id,
+  s.card_id,
+  coalesce(sum(p.amount), 0)::numeric(14, 2) as paid_amount,
+  count(p.id)::integer as payment_count,
+  s.workspace_id
+from public.statements s
+left join public.payments p on p.statement_id = s.id and p.deleted_at is null
+where s.deleted_at is null
+group by s.id, s.user_id, s.card_id, s.workspace_id;
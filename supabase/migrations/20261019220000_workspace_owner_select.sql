@@ -0,0 +1,18 @@
+-- Creating a workspace failed RLS: insert ... returning checks the select
+-- policy against the new row, and the owner's membership is only added by
+-- the after insert trigger, so workspace_role() is still null then. The
+-- owner now sees their workspace by owner_id as well.
+
+drop policy "workspaces_select_member" on public.workspaces;
+
+create policy "workspaces_select_member" on public.workspaces
+  for select to authenticated
+  using (
+    owner_id = (select auth.uid())
+    or public.workspace_role(id) is not null
+    -- invitees see the name of what they're invited to
+    or exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = workspaces.id and i.email = lower((select auth.jwt()) ->> 'email')
+    )
+  );
@@ -0,0 +1,33 @@
+-- Inviting someone failed with "infinite recursion detected in policy":
+-- the invites insert check reads workspaces, whose select policy read
+-- workspace_invites again. The invitee lookup now runs as its owner, like
+-- workspace_role(), so the workspaces policy no longer reads invites
+-- through RLS.
+
+-- Whether the caller's email has an invite to the workspace.
+create or replace function public.workspace_invited(p_workspace uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.workspace_invites
+    where workspace_id = p_workspace and email = lower((select auth.jwt()) ->> 'email')
+  )
+$$;
+
+revoke execute on function public.workspace_invited(uuid) from public, anon;
+grant execute on function public.workspace_invited(uuid) to authenticated;
+
+drop policy "workspaces_select_member" on public.workspaces;
+
+create policy "workspaces_select_member" on public.workspaces
+  for select to authenticated
+  using (
+    owner_id = (select auth.uid())
+    or public.workspace_role(id) is not null
+    -- invitees see the name of what they're invited to
+    or public.workspace_invited(id)
+  );
@@ -0,0 +1,147 @@
+-- Local development seed data. Runs after the migrations on `supabase db reset`.
+--
+-- Creates a confirmed demo user you can sign in with:
+--   email:    demo@example.com
+--   password: password123
+--
+-- Dates are relative to current_date so the OVERVIEW tab always has
+-- something in "Upcoming Due (Next 30 Days)".
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+) values (
+  '00000000-0000-0000-0000-000000000000',
+  '11111111-1111-1111-1111-111111111111',
+  'authenticated',
+  'authenticated',
+  'demo@example.com',
+  extensions.crypt('password123', extensions.gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}',
+  '{}',
+  now(),
+  now(),
+  '', '', '', ''
+);
+
+insert into auth.identities (
+  id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+) values (
+  gen_random_uuid(),
+  '11111111-1111-1111-1111-111111111111',
+  '11111111-1111-1111-1111-111111111111',
+  '{"sub": "11111111-1111-1111-1111-111111111111", "email": "demo@example.com"}',
+  'email',
+  now(),
+  now(),
+  now()
+);
+
+insert into public.cards (id, user_id, name, bank, credit_limit, currency, notes, purchase_apr, cash_apr, min_payment_percent, min_payment_floor, statement_day, grace_days, due_date_adjustment) values
+  ('22222222-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'RAK BANK', 'RAK', 6000, 'AED', 'Titanium card', 39.0, 42.0, 5, 100, 20, 25, 'NEXT_BUSINESS_DAY'),
+  ('22222222-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'ENBD Go4it', 'Emirates NBD', 15000, 'AED', null, 36.0, 39.0, 5, 100, 25, 25, 'PREVIOUS_BUSINESS_DAY');
+
+insert into public.statements (id, user_id, card_id, statement_month, statement_date, due_date, statement_amount, currency, minimum_due, interest_charged, fees) values
+  -- last month: fully paid
+  (
+    '33333333-0000-0000-0000-000000000001',
+    '11111111-1111-1111-1111-111111111111',
+    '22222222-0000-0000-0000-000000000001',
+    (date_trunc('month', current_date) - interval '1 month')::date,
+    (date_trunc('month', current_date) - interval '1 month')::date + 19,
+    (date_trunc('month', current_date) - interval '1 month')::date + 44,
+    1200,
+    'AED',
+    100, 0, 0
+  ),
+  -- this month: partially paid, due in ~10 days
+  (
+    '33333333-0000-0000-0000-000000000002',
+    '11111111-1111-1111-1111-111111111111',
+    '22222222-0000-0000-0000-000000000001',
+    date_trunc('month', current_date)::date,
+    current_date - 15,
+    current_date + 10,
+    2350.50,
+    'AED',
+    117.53, 61.20, 0
+  ),
+  -- this month: unpaid, due in ~20 days
+  (
+    '33333333-0000-0000-0000-000000000003',
+    '11111111-1111-1111-1111-111111111111',
+    '22222222-0000-0000-0000-000000000002',
+    date_trunc('month', current_date)::date,
+    current_date - 5,
+    current_date + 20,
+    4100,
+    'AED',
+    205, 118.40, 26.25
+  );
+
+insert into public.payments (user_id, kind, card_id, statement_id, payment_date, amount, currency, note) values
+  (
+    '11111111-1111-1111-1111-111111111111', 'CARD',
+    '22222222-0000-0000-0000-000000000001', '33333333-0000-0000-0000-000000000001',
+    current_date - 20, 1200, 'AED', 'full payment'
+  ),
+  (
+    '11111111-1111-1111-1111-111111111111', 'CARD',
+    '22222222-0000-0000-0000-000000000001', '33333333-0000-0000-0000-000000000002',
+    current_date - 2, 500, 'AED', 'cash payment'
+  );
+
+-- The demo user's profile row is created by the on_auth_user_created trigger.
+insert into public.fx_rates (user_id, from_currency, to_currency, rate, effective_date) values
+  ('11111111-1111-1111-1111-111111111111', 'USD', 'AED', 3.6725, current_date - 30),
+  ('11111111-1111-1111-1111-111111111111', 'EUR', 'AED', 3.98, current_date - 30),
+  ('11111111-1111-1111-1111-111111111111', 'GBP', 'AED', 4.65, current_date - 30);
+
+insert into public.cards (id, user_id, name, bank, credit_limit, currency, notes) values
+  ('22222222-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', 'Travel Card', 'Mashreq', 2000, 'USD', 'USD billing');
+
+insert into public.statements (id, user_id, card_id, statement_month, statement_date, due_date, statement_amount, currency) values
+  (
+    '33333333-0000-0000-0000-000000000004',
+    '11111111-1111-1111-1111-111111111111',
+    '22222222-0000-0000-0000-000000000003',
+    date_trunc('month', current_date)::date,
+    current_date - 8,
+    current_date + 14,
+    320,
+    'USD'
+  );
+
+insert into public.loans (id, user_id, name, lender, loan_type, principal, annual_rate, tenure_months, emi, start_date, currency) values
+  (
+    '44444444-0000-0000-0000-000000000001',
+    '11111111-1111-1111-1111-111111111111',
+    'Car loan', 'ADCB', 'CAR', 60000, 3.99, 48, null,
+    (date_trunc('month', current_date) - interval '2 months')::date + 14,
+    'AED'
+  );
+
+insert into public.payments (user_id, kind, loan_id, payment_date, amount, currency, note) values
+  ('11111111-1111-1111-1111-111111111111', 'LOAN', '44444444-0000-0000-0000-000000000001', (date_trunc('month', current_date) - interval '2 months')::date + 14, 1354.47, 'AED', 'EMI'),
+  ('11111111-1111-1111-1111-111111111111', 'LOAN', '44444444-0000-0000-0000-000000000001', (date_trunc('month', current_date) - interval '1 month')::date + 14, 1354.47, 'AED', 'EMI'),
+  ('11111111-1111-1111-1111-111111111111', 'LOAN', '44444444-0000-0000-0000-000000000001', least(current_date, date_trunc('month', current_date)::date + 14), 1354.47, 'AED', 'EMI');
+
+insert into public.counterparties (id, user_id, name, contact) values
+  ('55555555-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Omar', null),
+  ('55555555-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', 'Sara', null);
+
+insert into public.payments (user_id, kind, counterparty_id, direction, payment_date, amount, currency, note) values
+  ('11111111-1111-1111-1111-111111111111', 'IOU', '55555555-0000-0000-0000-000000000001', 'LENT', current_date - 40, 1000, 'AED', 'rent share'),
+  ('11111111-1111-1111-1111-111111111111', 'IOU', '55555555-0000-0000-0000-000000000001', 'REPAID_TO_ME', current_date - 10, 400, 'AED', null),
+  ('11111111-1111-1111-1111-111111111111', 'IOU', '55555555-0000-0000-0000-000000000002', 'BORROWED', current_date - 7, 150, 'AED', 'concert tickets');
+
+-- a 12-month EPP on the ENBD card, first billed on last month's statement
+insert into public.installment_plans (user_id, card_id, description, principal, processing_fee, monthly_installment, tenure_months, start_month, currency) values
+  (
+    '11111111-1111-1111-1111-111111111111', '22222222-0000-0000-0000-000000000002',
+    'Laptop', 4800, 99, 400, 12,
+    (date_trunc('month', current_date) - interval '1 month')::date,
+    'AED'
+  );